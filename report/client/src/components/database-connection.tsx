@@ -1,14 +1,17 @@
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { AlertCircle, Database, CheckCircle, Loader2 } from "lucide-react";
+import { AlertCircle, Database, CheckCircle, Loader2, Save, Trash2 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { connectionHeaders, getActiveConnectionId, setActiveConnectionId } from "@/lib/connection";
+import type { PublicConnectionProfile } from "@shared/schema";
 
 interface DatabaseConnectionProps {
   onConnectionChange?: (connected: boolean) => void;
@@ -24,6 +27,13 @@ interface DatabaseConfig {
   ssl?: boolean;
 }
 
+const NEW_CONNECTION = "new";
+
+const DEFAULT_PORTS: Record<DatabaseConfig['type'], number> = {
+  postgresql: 5432,
+  mysql: 3306,
+};
+
 export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionProps) {
   const [config, setConfig] = useState<DatabaseConfig>({
     type: 'postgresql',
@@ -35,10 +45,70 @@ export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionPro
     ssl: false
   });
 
-  const [isConnected, setIsConnected] = useState(false);
+  const [isConnected, setIsConnected] = useState(() => getActiveConnectionId() !== null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedProfileId, setSelectedProfileId] = useState<string>(NEW_CONNECTION);
+  const [profileName, setProfileName] = useState("");
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [] } = useQuery<PublicConnectionProfile[]>({
+    queryKey: ["/api/connections"],
+  });
+  const selectedProfile = profiles.find((p) => String(p.id) === selectedProfileId);
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/connections", { ...config, name: profileName.trim() });
+      return (await response.json()) as PublicConnectionProfile;
+    },
+    onSuccess: (profile) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
+      setSelectedProfileId(String(profile.id));
+      setProfileName("");
+      // The password now lives (encrypted) on the server only
+      setConfig((prev) => ({ ...prev, password: "" }));
+      toast({
+        title: "Connection Saved",
+        description: `Saved "${profile.name}". You can reconnect without re-entering the password.`,
+      });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Save Error",
+        description: err.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/connections/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/connections"] });
+      setSelectedProfileId(NEW_CONNECTION);
+      toast({
+        title: "Connection Deleted",
+        description: "The saved connection has been removed",
+      });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: "Delete Error",
+        description: err.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Saved profiles are tested/connected by id so the password never round-trips through the browser
+  const connectionRequest = (action: "test" | "connect") =>
+    selectedProfile
+      ? { url: `/api/connections/${selectedProfile.id}/${action}`, body: undefined }
+      : { url: `/api/database/${action}`, body: JSON.stringify(config) };
 
   const handleConfigChange = (field: keyof DatabaseConfig, value: any) => {
     setConfig(prev => ({
@@ -53,12 +123,13 @@ export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionPro
     setError(null);
 
     try {
-      const response = await fetch('/api/database/test', {
+      const { url, body } = connectionRequest("test");
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(config),
+        body,
       });
 
       const result = await response.json();
@@ -94,17 +165,19 @@ export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionPro
     setError(null);
 
     try {
-      const response = await fetch('/api/database/connect', {
+      const { url, body } = connectionRequest("connect");
+      const response = await fetch(url, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(config),
+        body,
       });
 
       const result = await response.json();
 
       if (result.success) {
+        setActiveConnectionId(result.connectionId);
         setIsConnected(true);
         onConnectionChange?.(true);
         toast({
@@ -138,11 +211,13 @@ export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionPro
     try {
       const response = await fetch('/api/database/disconnect', {
         method: 'POST',
+        headers: connectionHeaders(),
       });
 
       const result = await response.json();
 
       if (result.success) {
+        setActiveConnectionId(null);
         setIsConnected(false);
         onConnectionChange?.(false);
         toast({
@@ -178,7 +253,7 @@ export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionPro
             <Alert>
               <CheckCircle className="h-4 w-4" />
               <AlertDescription>
-                Connected to external database ({config.type})
+                Connected to {selectedProfile ? `"${selectedProfile.name}"` : "external database"} ({selectedProfile?.type ?? config.type})
               </AlertDescription>
             </Alert>
             <Button 
@@ -196,82 +271,144 @@ export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionPro
         ) : (
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="type">Database Type</Label>
-              <Select 
-                value={config.type} 
-                onValueChange={(value) => handleConfigChange('type', value as 'postgresql' | 'mysql')}
+              <Label htmlFor="profile">Saved Connection</Label>
+              <Select
+                value={selectedProfileId}
+                onValueChange={(value) => {
+                  setSelectedProfileId(value);
+                  setError(null);
+                }}
               >
-                <SelectTrigger>
+                <SelectTrigger id="profile">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="postgresql">PostgreSQL</SelectItem>
-                  <SelectItem value="mysql">MySQL (Coming Soon)</SelectItem>
+                  <SelectItem value={NEW_CONNECTION}>New connection…</SelectItem>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={String(profile.id)}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
-            <div className="grid grid-cols-2 gap-2">
-              <div className="space-y-2">
-                <Label htmlFor="host">Host</Label>
-                <Input
-                  id="host"
-                  placeholder="localhost"
-                  value={config.host}
-                  onChange={(e) => handleConfigChange('host', e.target.value)}
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="port">Port</Label>
-                <Input
-                  id="port"
-                  type="number"
-                  placeholder="5432"
-                  value={config.port}
-                  onChange={(e) => handleConfigChange('port', parseInt(e.target.value) || 5432)}
-                />
+            {selectedProfile ? (
+              <div className="rounded-md border border-gray-200 p-3 text-sm text-gray-600 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-800">{selectedProfile.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteProfileMutation.mutate(selectedProfile.id)}
+                    disabled={deleteProfileMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p>{selectedProfile.type} · {selectedProfile.username}@{selectedProfile.host}:{selectedProfile.port}/{selectedProfile.database}</p>
+                {selectedProfile.ssl && <p>SSL enabled</p>}
               </div>
-            </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="type">Database Type</Label>
+                  <Select 
+                    value={config.type} 
+                    onValueChange={(value) => {
+                      const type = value as 'postgresql' | 'mysql';
+                      handleConfigChange('type', type);
+                      handleConfigChange('port', DEFAULT_PORTS[type]);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="postgresql">PostgreSQL</SelectItem>
+                      <SelectItem value="mysql">MySQL / MariaDB</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="database">Database Name</Label>
-              <Input
-                id="database"
-                placeholder="mydatabase"
-                value={config.database}
-                onChange={(e) => handleConfigChange('database', e.target.value)}
-              />
-            </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="host">Host</Label>
+                    <Input
+                      id="host"
+                      placeholder="localhost"
+                      value={config.host}
+                      onChange={(e) => handleConfigChange('host', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="port">Port</Label>
+                    <Input
+                      id="port"
+                      type="number"
+                      placeholder={String(DEFAULT_PORTS[config.type])}
+                      value={config.port}
+                      onChange={(e) => handleConfigChange('port', parseInt(e.target.value) || DEFAULT_PORTS[config.type])}
+                    />
+                  </div>
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                placeholder="postgres"
-                value={config.username}
-                onChange={(e) => handleConfigChange('username', e.target.value)}
-              />
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="database">Database Name</Label>
+                  <Input
+                    id="database"
+                    placeholder="mydatabase"
+                    value={config.database}
+                    onChange={(e) => handleConfigChange('database', e.target.value)}
+                  />
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="••••••••"
-                value={config.password}
-                onChange={(e) => handleConfigChange('password', e.target.value)}
-              />
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    placeholder={config.type === 'mysql' ? 'root' : 'postgres'}
+                    value={config.username}
+                    onChange={(e) => handleConfigChange('username', e.target.value)}
+                  />
+                </div>
 
-            <div className="flex items-center space-x-2">
-              <Switch
-                id="ssl"
-                checked={config.ssl}
-                onCheckedChange={(checked) => handleConfigChange('ssl', checked)}
-              />
-              <Label htmlFor="ssl">Use SSL</Label>
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={config.password}
+                    onChange={(e) => handleConfigChange('password', e.target.value)}
+                  />
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="ssl"
+                    checked={config.ssl}
+                    onCheckedChange={(checked) => handleConfigChange('ssl', checked)}
+                  />
+                  <Label htmlFor="ssl">Use SSL</Label>
+                </div>
+
+                <div className="flex space-x-2">
+                  <Input
+                    placeholder="Save as… (e.g. Warehouse)"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => saveProfileMutation.mutate()}
+                    disabled={saveProfileMutation.isPending || !profileName.trim() || !config.host || !config.database}
+                  >
+                    <Save className="h-4 w-4" />
+                  </Button>
+                </div>
+              </>
+            )}
 
             {error && (
               <Alert variant="destructive">
@@ -283,7 +420,7 @@ export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionPro
             <div className="flex space-x-2">
               <Button 
                 onClick={testConnection} 
-                disabled={isLoading || !config.host || !config.database}
+                disabled={isLoading || (!selectedProfile && (!config.host || !config.database))}
                 variant="outline" 
                 className="flex-1"
               >
@@ -294,7 +431,7 @@ export function DatabaseConnection({ onConnectionChange }: DatabaseConnectionPro
               </Button>
               <Button 
                 onClick={connectDatabase} 
-                disabled={isLoading || !config.host || !config.database}
+                disabled={isLoading || (!selectedProfile && (!config.host || !config.database))}
                 className="flex-1"
               >
                 {isLoading ? (
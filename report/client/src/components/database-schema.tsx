@@ -21,7 +21,7 @@ export function DatabaseSchema({ onTablesAdd, onColumnsAdd }: DatabaseSchemaProp
   const [selectedColumns, setSelectedColumns] = useState<Record<string, Set<string>>>({});
 
   const { data: tablesBySchema = {}, isLoading: tablesLoading } = useQuery<Record<string, string[]>>({
-    queryKey: ['remote/tables'],
+    queryKey: ['/api/schema/tables'],
     queryFn: fetchTables,
   });
 
@@ -214,7 +214,7 @@ function TableItem({ schema,tableName, isExpanded, isSelected, onToggle, onSelec
   console.log(schema,tableName)
   const fetchColumns = () => fetchTableColumns(schema, tableName);
   const { data: columns = [], isLoading: columnsLoading } = useQuery({
-    queryKey: ['table-columns', tableName],
+    queryKey: ['table-columns', schema, tableName],
     queryFn: fetchColumns,
     enabled: isExpanded,
     staleTime: 5 * 60 * 1000,
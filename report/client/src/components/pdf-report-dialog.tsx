@@ -0,0 +1,252 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation } from '@tanstack/react-query';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { downloadBlob } from '@/lib/download';
+import { parseQueryError, QUERY_ERROR_TITLES } from '@/lib/query-errors';
+import { CHART_TYPE_LABELS, chartTypes, type ChartSpec, type ChartType } from '@shared/charts';
+import { PARAMETER_URL_PREFIX, type ParameterValues } from '@shared/query-parameters';
+
+// Select items cannot have an empty value
+const NO_COLOR_BY = '__none__';
+
+const pdfReportSchema = z.object({
+  chart: z.enum(['none', ...chartTypes]),
+  x: z.string(),
+  y: z.array(z.string()),
+  colorBy: z.string(),
+  stacked: z.boolean(),
+}).superRefine((values, ctx) => {
+  if (values.chart === 'none') return;
+  if (!values.x && values.chart !== 'kpi') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Choose a column for the x-axis', path: ['x'] });
+  }
+  if (values.y.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Choose at least one value column', path: ['y'] });
+  }
+});
+
+type PdfReportValues = z.infer<typeof pdfReportSchema>;
+
+// The report route's query string: the chart and the parameter values the results ran with
+function reportSearch(values: PdfReportValues, parameterValues: ParameterValues): URLSearchParams {
+  const search = new URLSearchParams();
+  if (values.chart !== 'none') {
+    search.set('chart', values.chart);
+    search.set('x', values.x);
+    search.set('y', (values.chart === 'pie' ? values.y.slice(0, 1) : values.y).join(','));
+    if (values.colorBy !== NO_COLOR_BY && values.chart !== 'pie' && values.chart !== 'kpi') {
+      search.set('color', values.colorBy);
+    }
+    if (values.stacked && (values.chart === 'bar' || values.chart === 'area')) {
+      search.set('stacked', 'true');
+    }
+  } else {
+    search.set('chart', 'none');
+  }
+  for (const [name, value] of Object.entries(parameterValues)) {
+    search.set(`${PARAMETER_URL_PREFIX}${name}`, value);
+  }
+  return search;
+}
+
+interface PdfReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  query: { id: number; name: string };
+  // Result columns to offer for the chart
+  columns: string[];
+  parameterValues: ParameterValues;
+  // The chart from the Visualize tab, which the form starts with
+  chart?: ChartSpec;
+}
+
+// Downloads a saved query as a PDF report, optionally with a chart above the table. The report
+// runs the query as saved, with the parameter values of the current results.
+export function PdfReportDialog({ open, onOpenChange, query, columns, parameterValues, chart: initialChart }: PdfReportDialogProps) {
+  const { toast } = useToast();
+  const form = useForm<PdfReportValues>({
+    resolver: zodResolver(pdfReportSchema),
+    defaultValues: { chart: 'none', x: '', y: [], colorBy: NO_COLOR_BY, stacked: false },
+  });
+  const chart = form.watch('chart');
+
+  useEffect(() => {
+    if (open) {
+      form.reset(initialChart
+        ? {
+          chart: initialChart.type,
+          x: initialChart.x ?? '',
+          y: initialChart.y,
+          colorBy: initialChart.colorBy ?? NO_COLOR_BY,
+          stacked: initialChart.stacked ?? false,
+        }
+        : { chart: 'none', x: columns[0] ?? '', y: columns.slice(1, 2), colorBy: NO_COLOR_BY, stacked: false });
+    }
+  }, [open, columns.join('\n')]);
+
+  const reportMutation = useMutation({
+    mutationFn: async (values: PdfReportValues) => {
+      const response = await apiRequest('GET', `/api/queries/${query.id}/report.pdf?${reportSearch(values, parameterValues)}`);
+      downloadBlob(await response.blob(), `${query.name.replace(/[^A-Za-z0-9._-]+/g, '_') || 'report'}.pdf`);
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      toast({ title: 'Report Ready', description: `${query.name} saved as PDF` });
+    },
+    onError: (error) => {
+      const reportError = parseQueryError(error);
+      toast({ title: QUERY_ERROR_TITLES[reportError.code], description: reportError.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>PDF Report</DialogTitle>
+          <DialogDescription>
+            Runs "{query.name}" as saved and lays out the results as a printable report.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => reportMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="chart"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Chart</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No chart</SelectItem>
+                      {chartTypes.map((type: ChartType) => (
+                        <SelectItem key={type} value={type}>{CHART_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {chart !== 'none' && (
+              <>
+                {chart !== 'kpi' && (
+                  <FormField
+                    control={form.control}
+                    name="x"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{chart === 'pie' ? 'Slice labels' : 'X-axis'}</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a column" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {columns.map((column) => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="y"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{chart === 'pie' ? 'Value' : 'Values'}</FormLabel>
+                      <div className="max-h-40 overflow-y-auto space-y-2 rounded-md border p-2">
+                        {columns.map((column) => (
+                          <label key={column} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(column)}
+                              onCheckedChange={(checked) => field.onChange(
+                                chart === 'pie'
+                                  ? (checked ? [column] : [])
+                                  : checked ? [...field.value, column] : field.value.filter((value) => value !== column),
+                              )}
+                            />
+                            {column}
+                          </label>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {chart !== 'pie' && chart !== 'kpi' && (
+                  <FormField
+                    control={form.control}
+                    name="colorBy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Colour by</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_COLOR_BY}>None</SelectItem>
+                            {columns.map((column) => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {(chart === 'bar' || chart === 'area') && (
+                  <FormField
+                    control={form.control}
+                    name="stacked"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <FormLabel>Stacked</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={reportMutation.isPending}>
+                {reportMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Download PDF
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
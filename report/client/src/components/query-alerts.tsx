@@ -0,0 +1,631 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Bell, BellRing, CheckCircle2, Loader2, Pencil, Plus, RefreshCw, Trash2, XCircle } from 'lucide-react';
+import type {
+  AlertNotifyMethod,
+  AlertOperator,
+  QueryAlertEventListItem,
+  QueryAlertListItem,
+  SavedQuery,
+} from '@shared/schema';
+import type { QueryParameter } from '@shared/query-parameters';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getActiveConnectionId } from '@/lib/connection';
+import { localTimezone, queryParameters } from '@/components/query-schedules';
+
+// Serialized dates arrive as strings
+type AlertRow = Omit<QueryAlertListItem, 'createdAt' | 'updatedAt' | 'nextRunAt' | 'lastEvaluatedAt'> & {
+  createdAt: string | null;
+  updatedAt: string | null;
+  nextRunAt: string | null;
+  lastEvaluatedAt: string | null;
+};
+
+type AlertEventRow = Omit<QueryAlertEventListItem, 'createdAt'> & { createdAt: string };
+
+const OPERATOR_LABELS: Record<AlertOperator, string> = {
+  gt: 'is greater than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most',
+  eq: 'equals',
+  neq: 'does not equal',
+};
+
+const NOTIFY_LABELS: Record<AlertNotifyMethod, string> = {
+  email: 'Email',
+  webhook: 'Webhook',
+};
+
+const DESTINATION_PLACEHOLDERS: Record<AlertNotifyMethod, string> = {
+  email: 'alice@example.com, bob@example.com',
+  webhook: 'https://example.com/hooks/alerts',
+};
+
+const alertFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  cronExpression: z.string().trim().min(1, 'Cron expression is required'),
+  timezone: z.string().trim().min(1, 'Timezone is required'),
+  metric: z.enum(['row_count', 'cell']),
+  column: z.string().trim(),
+  // One-based in the form, zero-based on the server
+  row: z.coerce.number().int().min(1),
+  operator: z.enum(['gt', 'gte', 'lt', 'lte', 'eq', 'neq']),
+  threshold: z.string().trim().min(1, 'Threshold is required'),
+  notifyMethod: z.enum(['email', 'webhook']),
+  destination: z.string().trim().min(1, 'Destination is required'),
+  enabled: z.boolean(),
+  parameterValues: z.record(z.string()),
+}).refine((alert) => alert.metric === 'row_count' || alert.column !== '', {
+  message: 'Choose the column to check',
+  path: ['column'],
+});
+
+type AlertFormValues = z.infer<typeof alertFormSchema>;
+
+function describeCondition(alert: Pick<AlertRow, 'metric' | 'column' | 'rowIndex' | 'operator' | 'threshold'>): string {
+  const subject = alert.metric === 'row_count'
+    ? 'Row count'
+    : alert.rowIndex === 0 ? alert.column : `${alert.column} in row ${alert.rowIndex + 1}`;
+  return `${subject} ${OPERATOR_LABELS[alert.operator]} ${alert.threshold}`;
+}
+
+interface QueryAlertsProps {
+  // The saved query whose alerts are shown; the sheet is closed while this is null
+  query: Pick<SavedQuery, 'id' | 'name' | 'queryConfig'> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QueryAlerts({ query, onOpenChange }: QueryAlertsProps) {
+  return (
+    <Sheet open={query !== null} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Alerts</SheetTitle>
+          <SheetDescription>{query?.name}</SheetDescription>
+        </SheetHeader>
+        {/* Mounted only while open, so the lists are fetched fresh each time */}
+        {query && (
+          <Tabs defaultValue="alerts" className="flex flex-col flex-1 min-h-0 mt-4">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="alerts">Alerts</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="alerts" className="flex flex-col flex-1 min-h-0">
+              <AlertList query={query} />
+            </TabsContent>
+            <TabsContent value="history" className="flex flex-col flex-1 min-h-0">
+              <AlertHistory queryId={query.id} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function AlertList({ query }: { query: Pick<SavedQuery, 'id' | 'name' | 'queryConfig'> }) {
+  const [editing, setEditing] = useState<AlertRow | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<AlertRow | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const listKey = `/api/queries/${query.id}/alerts`;
+
+  const { data: alerts = [], isLoading } = useQuery<AlertRow[]>({
+    queryKey: [listKey],
+    staleTime: 0,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [listKey] });
+    queryClient.invalidateQueries({ queryKey: [`/api/queries/${query.id}/alert-events`] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, values }: { id?: number; values: AlertFormValues }) => {
+      const { row, column, ...alert } = values;
+      const body = { ...alert, column: alert.metric === 'cell' ? column : null, rowIndex: row - 1 };
+      const response = id
+        ? await apiRequest('PUT', `/api/alerts/${id}`, {
+            ...body,
+            connectionId: alerts.find((existing) => existing.id === id)?.connectionId ?? null,
+          })
+        : await apiRequest('POST', listKey, { ...body, connectionId: getActiveConnectionId() });
+      return await response.json();
+    },
+    onSuccess: (_alert, { id }) => {
+      setEditing(null);
+      toast({
+        title: id ? 'Alert Updated' : 'Alert Created',
+        description: 'The condition will be checked on the new schedule',
+      });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Alert Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/alerts/${id}`);
+    },
+    onSuccess: () => {
+      setDeleting(null);
+      toast({
+        title: 'Alert Deleted',
+        description: 'The condition will no longer be checked',
+      });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Delete Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const evaluateMutation = useMutation({
+    mutationFn: async (id: number): Promise<AlertRow> => {
+      const response = await apiRequest('POST', `/api/alerts/${id}/evaluate`, {});
+      return await response.json();
+    },
+    onSuccess: (alert) => {
+      toast(alert.lastError
+        ? { title: 'Check Failed', description: alert.lastError, variant: 'destructive' }
+        : {
+            title: alert.state === 'triggered' ? 'Alert Triggered' : 'Alert OK',
+            description: `The value is ${alert.lastValue ?? 'NULL'}`,
+          });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Check Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 gap-3 mt-2">
+      <Button size="sm" className="self-end" onClick={() => setEditing('new')}>
+        <Plus className="h-4 w-4 mr-2" />
+        New Alert
+      </Button>
+
+      <ScrollArea className="flex-1">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 p-2">Loading alerts...</p>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-gray-500 p-2">No alerts are set on this query yet.</p>
+        ) : (
+          <div className="space-y-2 pr-3">
+            {alerts.map((alert) => (
+              <div key={alert.id} className="border rounded-lg p-3">
+                <div className="flex items-start gap-3">
+                  {alert.state === 'triggered'
+                    ? <BellRing className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />
+                    : <Bell className="h-4 w-4 mt-0.5 text-gray-500 flex-shrink-0" />}
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate">{alert.name}</span>
+                      {alert.state === 'triggered'
+                        ? <Badge variant="destructive">Triggered</Badge>
+                        : <Badge variant="outline">OK</Badge>}
+                      {!alert.enabled && <Badge variant="secondary">Paused</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-600">{describeCondition(alert)}</p>
+                    <p className="text-xs text-gray-500">
+                      <code className="font-mono">{alert.cronExpression}</code> ({alert.timezone}) ·{' '}
+                      {NOTIFY_LABELS[alert.notifyMethod]}: {alert.destination}
+                      {alert.ownerName && ` · ${alert.ownerName}`}
+                    </p>
+                    {alert.lastEvaluatedAt && (
+                      <p className="text-xs text-gray-500">
+                        Checked {new Date(alert.lastEvaluatedAt).toLocaleString()}
+                        {alert.lastError
+                          ? <span className="text-red-600"> · {alert.lastError}</span>
+                          : ` · value ${alert.lastValue ?? 'NULL'}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => evaluateMutation.mutate(alert.id)}
+                      disabled={evaluateMutation.isPending}
+                      title="Check now"
+                    >
+                      {evaluateMutation.isPending && evaluateMutation.variables === alert.id
+                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                        : <RefreshCw className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(alert)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDeleting(alert)} title="Delete">
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <QueryAlertDialog
+        alert={editing}
+        parameters={queryParameters(query)}
+        defaultName={query.name}
+        isPending={saveMutation.isPending}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSubmit={(values) => saveMutation.mutate({ id: editing && editing !== 'new' ? editing.id : undefined, values })}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete alert "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The condition stops being checked and the alert's history is deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function AlertHistory({ queryId }: { queryId: number }) {
+  const { data: events = [], isLoading } = useQuery<AlertEventRow[]>({
+    queryKey: [`/api/queries/${queryId}/alert-events`],
+    staleTime: 0,
+  });
+
+  return (
+    <ScrollArea className="flex-1 mt-2">
+      {isLoading ? (
+        <p className="text-sm text-gray-500 p-2">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500 p-2">No alert on this query has fired yet.</p>
+      ) : (
+        <div className="space-y-2 pr-3">
+          {events.map((event) => (
+            <div key={event.id} className="border rounded-lg p-3 space-y-1">
+              <div className="flex items-center gap-2 text-xs text-gray-600">
+                {event.kind === 'triggered' ? <BellRing className="h-4 w-4 text-red-600" />
+                  : event.kind === 'resolved' ? <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  : <AlertTriangle className="h-4 w-4 text-amber-600" />}
+                <span className="font-medium text-gray-900">{event.alertName}</span>
+                <span>·</span>
+                <span>{new Date(event.createdAt).toLocaleString()}</span>
+                <Badge variant="outline" className="ml-auto capitalize">{event.kind}</Badge>
+              </div>
+              <p className="text-xs text-gray-700">{event.message}</p>
+              {event.notifyError ? (
+                <p className="text-xs text-red-600 flex items-center gap-1">
+                  <XCircle className="h-3 w-3" />
+                  Notification failed: {event.notifyError}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500">Notification sent</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </ScrollArea>
+  );
+}
+
+interface QueryAlertDialogProps {
+  // Alert being edited, "new" for a new one, or null while closed
+  alert: AlertRow | 'new' | null;
+  parameters: QueryParameter[];
+  defaultName: string;
+  isPending?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: AlertFormValues) => void;
+}
+
+function QueryAlertDialog({ alert, parameters, defaultName, isPending, onOpenChange, onSubmit }: QueryAlertDialogProps) {
+  const form = useForm<AlertFormValues>({
+    resolver: zodResolver(alertFormSchema),
+  });
+  const metric = form.watch('metric');
+  const notifyMethod = form.watch('notifyMethod');
+
+  // Start from the alert's values, or the defaults for a new one, each time the dialog opens
+  useEffect(() => {
+    if (!alert) return;
+    const existing = alert === 'new' ? null : alert;
+    form.reset({
+      name: existing?.name ?? defaultName,
+      cronExpression: existing?.cronExpression ?? '*/15 * * * *',
+      timezone: existing?.timezone ?? localTimezone(),
+      metric: existing?.metric ?? 'row_count',
+      column: existing?.column ?? '',
+      row: (existing?.rowIndex ?? 0) + 1,
+      operator: existing?.operator ?? 'gt',
+      threshold: existing?.threshold ?? '0',
+      notifyMethod: existing?.notifyMethod ?? 'email',
+      destination: existing?.destination ?? '',
+      enabled: existing?.enabled ?? true,
+      parameterValues: Object.fromEntries(parameters.map((parameter) => [
+        parameter.name,
+        existing?.parameterValues[parameter.name] ?? parameter.defaultValue ?? '',
+      ])),
+    });
+  }, [alert]);
+
+  return (
+    <Dialog open={alert !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{alert === 'new' ? 'New Alert' : 'Edit Alert'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto px-1">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="metric"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Check</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="row_count">Number of rows</SelectItem>
+                        <SelectItem value="cell">A value in the result</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="operator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Condition</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(OPERATOR_LABELS) as AlertOperator[]).map((operator) => (
+                          <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {metric === 'cell' && (
+              <div className="grid grid-cols-3 gap-3">
+                <FormField
+                  control={form.control}
+                  name="column"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Column</FormLabel>
+                      <FormControl>
+                        <Input placeholder="total_amount" {...field} />
+                      </FormControl>
+                      <FormDescription>As named in the query result</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="row"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Row</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            <FormField
+              control={form.control}
+              name="threshold"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Threshold</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormDescription>Numbers are compared as numbers, anything else as text</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="cronExpression"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Check on</FormLabel>
+                    <FormControl>
+                      <Input className="font-mono" {...field} />
+                    </FormControl>
+                    <FormDescription>minute hour day month weekday</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Timezone</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Europe/Berlin" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="notifyMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notify by</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(NOTIFY_LABELS) as AlertNotifyMethod[]).map((method) => (
+                          <SelectItem key={method} value={method}>{NOTIFY_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="destination"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>{notifyMethod === 'webhook' ? 'URL' : 'Recipients'}</FormLabel>
+                    <FormControl>
+                      <Input placeholder={DESTINATION_PLACEHOLDERS[notifyMethod ?? 'email']} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {parameters.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Parameters</p>
+                {parameters.map((parameter) => (
+                  <FormField
+                    key={parameter.name}
+                    control={form.control}
+                    name={`parameterValues.${parameter.name}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-normal">{parameter.label || parameter.name}</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        {parameter.type === 'date' && (
+                          <FormDescription>A date such as 2024-01-31, or relative to the check: today-7</FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+            <FormField
+              control={form.control}
+              name="enabled"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Enabled</FormLabel>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
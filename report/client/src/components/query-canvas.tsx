@@ -932,7 +932,7 @@ export function QueryCanvas({ config, onChange }: QueryCanvasProps) {
                             value: e.target.value,
                           })
                         }
-                        placeholder="Enter value..."
+                        placeholder="Enter value or {{parameter}}..."
                         className="flex-1"
                       />
 
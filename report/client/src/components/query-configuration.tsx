@@ -59,7 +59,7 @@ export function QueryConfiguration({
 
   // Fetch all tables data once
   const { data: allTablesData } = useQuery({
-    queryKey: ["remote/tables"],
+    queryKey: ["/api/schema/tables"],
     queryFn: fetchTables,
   });
 
@@ -0,0 +1,310 @@
+import { useEffect, useState, type FormEvent, type ReactNode } from 'react';
+import { useDrop } from 'react-dnd';
+import { ChevronDown, ChevronRight, Folder, FolderInput, FolderPlus, Inbox, Library, MoreHorizontal, Pencil, Trash2 } from 'lucide-react';
+import type { QueryFolder } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+// Drag type of saved query cards in the library
+export const SAVED_QUERY_DRAG_TYPE = 'saved-query';
+
+export interface SavedQueryDragItem {
+  type: typeof SAVED_QUERY_DRAG_TYPE;
+  id: number;
+}
+
+// "all" lists every query, "none" only the unfiled ones
+export type FolderSelection = 'all' | 'none' | number;
+
+interface QueryFolderTreeProps {
+  folders: QueryFolder[];
+  selected: FolderSelection;
+  onSelect: (selection: FolderSelection) => void;
+  // `folderId` null files the query nowhere
+  onMoveQuery: (queryId: number, folderId: number | null) => void;
+  onCreateFolder: (parentId: number | null) => void;
+  onRenameFolder: (folder: QueryFolder) => void;
+  onDeleteFolder: (folder: QueryFolder) => void;
+}
+
+export function QueryFolderTree({
+  folders,
+  selected,
+  onSelect,
+  onMoveQuery,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+}: QueryFolderTreeProps) {
+  const childrenOf = (parentId: number | null) => folders.filter((folder) => folder.parentId === parentId);
+
+  const renderFolders = (parentId: number | null, depth: number): ReactNode =>
+    childrenOf(parentId).map((folder) => (
+      <FolderNode
+        key={folder.id}
+        folder={folder}
+        depth={depth}
+        hasChildren={childrenOf(folder.id).length > 0}
+        selected={selected === folder.id}
+        onSelect={() => onSelect(folder.id)}
+        onMoveQuery={onMoveQuery}
+        onCreateFolder={() => onCreateFolder(folder.id)}
+        onRenameFolder={() => onRenameFolder(folder)}
+        onDeleteFolder={() => onDeleteFolder(folder)}
+      >
+        {renderFolders(folder.id, depth + 1)}
+      </FolderNode>
+    ));
+
+  return (
+    <nav className="space-y-0.5 text-sm">
+      <div className="flex items-center justify-between px-2 pb-2">
+        <span className="text-xs font-medium uppercase text-gray-500">Folders</span>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onCreateFolder(null)} title="New folder">
+          <FolderPlus className="h-4 w-4" />
+        </Button>
+      </div>
+      <TreeRow selected={selected === 'all'} onClick={() => onSelect('all')} depth={0}>
+        <Library className="h-4 w-4 text-gray-500" />
+        <span>All queries</span>
+      </TreeRow>
+      <DropTarget folderId={null} onMoveQuery={onMoveQuery}>
+        <TreeRow selected={selected === 'none'} onClick={() => onSelect('none')} depth={0}>
+          <Inbox className="h-4 w-4 text-gray-500" />
+          <span>Unfiled</span>
+        </TreeRow>
+      </DropTarget>
+      {renderFolders(null, 0)}
+    </nav>
+  );
+}
+
+function FolderNode({
+  folder,
+  depth,
+  hasChildren,
+  selected,
+  onSelect,
+  onMoveQuery,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  children,
+}: {
+  folder: QueryFolder;
+  depth: number;
+  hasChildren: boolean;
+  selected: boolean;
+  onSelect: () => void;
+  onMoveQuery: QueryFolderTreeProps['onMoveQuery'];
+  onCreateFolder: () => void;
+  onRenameFolder: () => void;
+  onDeleteFolder: () => void;
+  children: ReactNode;
+}) {
+  const [expanded, setExpanded] = useState(true);
+
+  return (
+    <div>
+      <DropTarget folderId={folder.id} onMoveQuery={onMoveQuery}>
+        <TreeRow selected={selected} onClick={onSelect} depth={depth}>
+          <button
+            type="button"
+            className={`-ml-1 text-gray-400 hover:text-gray-700 ${hasChildren ? '' : 'invisible'}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              setExpanded(!expanded);
+            }}
+            aria-label={expanded ? 'Collapse folder' : 'Expand folder'}
+          >
+            {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          </button>
+          <Folder className="h-4 w-4 text-gray-500 flex-shrink-0" />
+          <span className="truncate flex-1">{folder.name}</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                type="button"
+                className="text-gray-400 hover:text-gray-700"
+                onClick={(e) => e.stopPropagation()}
+                aria-label={`Actions for ${folder.name}`}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={onCreateFolder}>
+                <FolderPlus className="h-4 w-4 mr-2" />
+                New subfolder
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={onRenameFolder}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename or move
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={onDeleteFolder} className="text-red-600">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </TreeRow>
+      </DropTarget>
+      {expanded && children}
+    </div>
+  );
+}
+
+function TreeRow({ selected, onClick, depth, children }: {
+  selected: boolean;
+  onClick: () => void;
+  depth: number;
+  children: ReactNode;
+}) {
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={onClick}
+      onKeyDown={(e) => e.key === 'Enter' && onClick()}
+      style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+      className={`flex items-center gap-2 pr-2 py-1.5 rounded cursor-pointer ${
+        selected ? 'bg-primary/10 text-primary font-medium' : 'text-gray-700 hover:bg-gray-100'
+      }`}
+    >
+      {children}
+    </div>
+  );
+}
+
+// Highlights while a saved query card is dragged over it, and files the query here on drop
+function DropTarget({ folderId, onMoveQuery, children }: {
+  folderId: number | null;
+  onMoveQuery: QueryFolderTreeProps['onMoveQuery'];
+  children: ReactNode;
+}) {
+  const [{ isOver, canDrop }, drop] = useDrop(() => ({
+    accept: SAVED_QUERY_DRAG_TYPE,
+    drop: (item: SavedQueryDragItem) => onMoveQuery(item.id, folderId),
+    collect: (monitor) => ({
+      isOver: monitor.isOver(),
+      canDrop: monitor.canDrop(),
+    }),
+  }), [folderId, onMoveQuery]);
+
+  return (
+    <div
+      ref={drop}
+      className={`rounded transition-all ${isOver && canDrop ? 'ring-2 ring-primary bg-blue-50' : canDrop ? 'ring-1 ring-blue-200' : ''}`}
+    >
+      {children}
+    </div>
+  );
+}
+
+interface FolderDialogProps {
+  // Folder being renamed, or the parent of a new folder (null for the top level)
+  target: { folder: QueryFolder } | { parentId: number | null } | null;
+  folders: QueryFolder[];
+  isPending?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: { name: string; parentId: number | null }) => void;
+}
+
+// Name and location of a folder, for creating one or renaming and moving an existing one
+export function FolderDialog({ target, folders, isPending, onOpenChange, onSubmit }: FolderDialogProps) {
+  const [name, setName] = useState('');
+  const [parentId, setParentId] = useState<number | null>(null);
+  const editing = target && 'folder' in target ? target.folder : null;
+
+  useEffect(() => {
+    if (target) {
+      setName(editing?.name ?? '');
+      setParentId(editing ? editing.parentId : (target as { parentId: number | null }).parentId);
+    }
+  }, [target]);
+
+  // A folder cannot move into itself or below itself
+  const excluded = new Set<number>();
+  if (editing) {
+    excluded.add(editing.id);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const folder of folders) {
+        if (folder.parentId !== null && excluded.has(folder.parentId) && !excluded.has(folder.id)) {
+          excluded.add(folder.id);
+          added = true;
+        }
+      }
+    }
+  }
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (name.trim()) {
+      onSubmit({ name: name.trim(), parentId });
+    }
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{editing ? 'Edit Folder' : 'New Folder'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input autoFocus value={name} onChange={(e) => setName(e.target.value)} placeholder="Folder name" />
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <FolderInput className="h-4 w-4 text-gray-500" />
+            <span>Inside</span>
+            <Select
+              value={parentId === null ? 'root' : String(parentId)}
+              onValueChange={(value) => setParentId(value === 'root' ? null : Number(value))}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="root">Top level</SelectItem>
+                {folders
+                  .filter((folder) => !excluded.has(folder.id))
+                  .map((folder) => (
+                    <SelectItem key={folder.id} value={String(folder.id)}>{folderPath(folders, folder)}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {editing ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// "Parent / Child" label of a folder
+export function folderPath(folders: QueryFolder[], folder: QueryFolder): string {
+  const names = [folder.name];
+  const seen = new Set([folder.id]);
+  let parent = folders.find((candidate) => candidate.id === folder.parentId);
+  while (parent && !seen.has(parent.id)) {
+    names.unshift(parent.name);
+    seen.add(parent.id);
+    parent = folders.find((candidate) => candidate.id === parent!.parentId);
+  }
+  return names.join(' / ');
+}
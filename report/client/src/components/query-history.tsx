@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, CheckCircle2, GitCompare, Play, RotateCcw, Save, Search, XCircle } from 'lucide-react';
+import type { QueryRun } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { SaveQueryDialog, queryDetailsPayload, type QueryDetails } from '@/components/save-query-dialog';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { SQLGenerator } from '@/lib/sql-generator';
+import type { SQLDialect } from '@/lib/sql-dialects';
+import { diffLines } from '@shared/text-diff';
+import type { QueryConfig } from '@/types/query';
+
+// Serialized dates arrive as strings
+type QueryRunRow = Omit<QueryRun, 'createdAt'> & { createdAt: string };
+
+interface QueryHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  dialect: SQLDialect;
+  onRestore: (config: QueryConfig) => void;
+  onRerun: (config: QueryConfig) => void;
+}
+
+function parseRunConfig(run: QueryRunRow): QueryConfig | null {
+  try {
+    return JSON.parse(run.queryConfig) as QueryConfig;
+  } catch {
+    return null;
+  }
+}
+
+// SQL as compared in the diff view, with the bound values listed after it
+function runText(run: QueryRunRow): string {
+  const params = run.params.map((value, index) => `-- parameter ${index + 1} = ${JSON.stringify(value)}`);
+  return [run.sqlText, ...params].join('\n');
+}
+
+export function QueryHistory({ open, onOpenChange, dialect, onRestore, onRerun }: QueryHistoryProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Query History</SheetTitle>
+          <SheetDescription>Your past executions, newest first</SheetDescription>
+        </SheetHeader>
+        {/* Mounted only while open, so the list is fetched fresh each time */}
+        <HistoryList
+          dialect={dialect}
+          onRestore={(config) => {
+            onRestore(config);
+            onOpenChange(false);
+          }}
+          onRerun={(config) => {
+            onRerun(config);
+            onOpenChange(false);
+          }}
+        />
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function HistoryList({ dialect, onRestore, onRerun }: Omit<QueryHistoryProps, 'open' | 'onOpenChange'>) {
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [selected, setSelected] = useState<number[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const [promoting, setPromoting] = useState<{ run: QueryRunRow; config: QueryConfig } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const searchParams = new URLSearchParams(debouncedSearch ? { search: debouncedSearch } : {});
+  const { data: runs = [], isLoading } = useQuery<QueryRunRow[]>({
+    queryKey: [`/api/history?${searchParams}`],
+    staleTime: 0,
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: async ({ run, config, values }: { run: QueryRunRow; config: QueryConfig; values: QueryDetails }) => {
+      const response = await apiRequest('POST', '/api/queries', {
+        ...queryDetailsPayload(values),
+        queryConfig: run.queryConfig,
+        generatedSql: SQLGenerator.generatePreviewSQL(config, dialect),
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setPromoting(null);
+      toast({
+        title: 'Query Saved',
+        description: 'The run has been saved to your queries',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/queries'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Save Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const withConfig = (run: QueryRunRow, action: (config: QueryConfig) => void) => {
+    const config = parseRunConfig(run);
+    if (!config) {
+      toast({
+        title: 'Cannot Restore Run',
+        description: 'The query configuration of this run could not be read',
+        variant: 'destructive',
+      });
+      return;
+    }
+    action(config);
+  };
+
+  const handlePromote = (run: QueryRunRow) => {
+    withConfig(run, (config) => setPromoting({ run, config }));
+  };
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    // Comparing takes exactly two runs; picking a third replaces the oldest pick
+    setSelected((current) => checked ? [...current, id].slice(-2) : current.filter((value) => value !== id));
+  };
+
+  if (comparing) {
+    // Older run on the left of the diff
+    const [before, after] = runs
+      .filter((run) => selected.includes(run.id))
+      .sort((a, b) => a.id - b.id);
+    return (
+      <div className="flex flex-col flex-1 min-h-0 gap-3 mt-4">
+        <Button variant="ghost" size="sm" className="self-start" onClick={() => setComparing(false)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to history
+        </Button>
+        {before && after ? (
+          <>
+            <p className="text-sm text-gray-600">
+              Run #{before.id} ({new Date(before.createdAt).toLocaleString()}) → run #{after.id} (
+              {new Date(after.createdAt).toLocaleString()})
+            </p>
+            <ScrollArea className="flex-1 border rounded">
+              <pre className="font-mono text-xs p-2">
+                {diffLines(runText(before), runText(after)).map((line, index) => (
+                  <div
+                    key={index}
+                    className={
+                      line.type === 'added' ? 'bg-green-50 text-green-800'
+                        : line.type === 'removed' ? 'bg-red-50 text-red-800'
+                        : 'text-gray-700'
+                    }
+                  >
+                    {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            </ScrollArea>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">The selected runs are no longer in the list.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 gap-3 mt-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search SQL..."
+            className="pl-8"
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={selected.length !== 2}
+          onClick={() => setComparing(true)}
+          title="Select two runs to compare their SQL"
+        >
+          <GitCompare className="h-4 w-4 mr-2" />
+          Compare
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 p-2">Loading history...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-gray-500 p-2">
+            {debouncedSearch ? 'No runs match your search.' : 'Queries you execute will appear here.'}
+          </p>
+        ) : (
+          <div className="space-y-2 pr-3">
+            {runs.map((run) => (
+              <div key={run.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                  <Checkbox
+                    checked={selected.includes(run.id)}
+                    onCheckedChange={(checked) => toggleSelected(run.id, checked === true)}
+                    aria-label={`Select run #${run.id} for comparison`}
+                  />
+                  {run.success ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 text-red-600" />
+                  )}
+                  <span>{new Date(run.createdAt).toLocaleString()}</span>
+                  <span>·</span>
+                  <span>{run.durationMs} ms</span>
+                  {run.rowCount !== null && (
+                    <>
+                      <span>·</span>
+                      <span>{run.rowCount.toLocaleString()} rows</span>
+                    </>
+                  )}
+                  {run.connectionId && (
+                    <Badge variant="outline" className="ml-auto">connection {run.connectionId}</Badge>
+                  )}
+                </div>
+                <pre className="font-mono text-xs bg-gray-50 rounded p-2 max-h-32 overflow-hidden whitespace-pre-wrap">
+                  {run.sqlText}
+                </pre>
+                {run.error && <p className="text-xs text-red-600">{run.error}</p>}
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => withConfig(run, onRestore)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => withConfig(run, onRerun)}>
+                    <Play className="h-4 w-4 mr-1" />
+                    Re-run
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handlePromote(run)}
+                    disabled={promoteMutation.isPending}
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    Save as Query
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <SaveQueryDialog
+        open={promoting !== null}
+        onOpenChange={(open) => !open && setPromoting(null)}
+        title="Save Run as Query"
+        submitLabel="Save"
+        isPending={promoteMutation.isPending}
+        onSubmit={(values) => promoting && promoteMutation.mutate({ ...promoting, values })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useQuery } from '@tanstack/react-query';
+import { format, parse } from 'date-fns';
+import { CalendarIcon, Link2, Loader2, Play } from 'lucide-react';
+import {
+  coerceParameterValue,
+  defaultParameterValue,
+  PARAMETER_URL_PREFIX,
+  queryParameterTypes,
+  type ParameterValues,
+  type QueryParameter,
+  type QueryParameterType,
+} from '@shared/query-parameters';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useToast } from '@/hooks/use-toast';
+import { SQLGenerator } from '@/lib/sql-generator';
+import type { QueryConfig } from '@/types/query';
+
+const TYPE_LABELS: Record<QueryParameterType, string> = {
+  date: 'Date',
+  number: 'Number',
+  text: 'Text',
+  enum: 'List of values',
+};
+
+type ParameterSource = NonNullable<QueryParameter['source']>;
+
+// Select values for source columns are their dotted `schema.table.column` names
+function sourceKey(source: ParameterSource): string {
+  return [source.schema, source.table, source.column].filter(Boolean).join('.');
+}
+
+function sourceOf(key: string): ParameterSource {
+  const parts = key.split('.');
+  return parts.length >= 3
+    ? { schema: parts[0], table: parts[1], column: parts.slice(2).join('.') }
+    : { table: parts[0], column: parts[1] ?? '' };
+}
+
+// Columns an enum parameter may take its values from: those compared with the parameter first,
+// then the selected columns
+function sourceColumns(config: QueryConfig, name: string): string[] {
+  const compared = config.conditions
+    .filter((condition) => SQLGenerator.referencedParameters({ ...config, conditions: [condition] }).includes(name))
+    .map((condition) => condition.column);
+  const selected = config.selectedColumns
+    .filter((column) => column.columnName !== '*')
+    .map((column) => sourceKey({ schema: column.schema, table: column.tableName, column: column.columnName }));
+  return Array.from(new Set([...compared, ...selected]));
+}
+
+interface ParameterEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: QueryConfig;
+  onChange: (config: QueryConfig) => void;
+}
+
+// Type, label, default and required flag of each `{{name}}` used in the query's conditions
+export function ParameterEditor({ open, onOpenChange, config, onChange }: ParameterEditorProps) {
+  const [draft, setDraft] = useState<QueryParameter[]>([]);
+
+  // Start from the stored definitions each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(SQLGenerator.parameterDefinitions(config));
+    }
+  }, [open]);
+
+  const update = (name: string, changes: Partial<QueryParameter>) => {
+    setDraft((current) => current.map((parameter) => parameter.name === name ? { ...parameter, ...changes } : parameter));
+  };
+
+  const missingSource = draft.some((parameter) => parameter.type === 'enum' && !parameter.source);
+
+  const handleSave = () => {
+    onChange({
+      ...config,
+      parameters: draft.map((parameter) => ({
+        ...parameter,
+        label: parameter.label?.trim() || undefined,
+        defaultValue: parameter.defaultValue?.trim() || undefined,
+        source: parameter.type === 'enum' ? parameter.source : undefined,
+      })),
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Query Parameters</DialogTitle>
+          <DialogDescription>
+            Use <code className="font-mono">{'{{name}}'}</code> as a condition value to ask for it when the query runs.
+          </DialogDescription>
+        </DialogHeader>
+        {draft.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            None of the conditions use a parameter yet. Enter a value such as{' '}
+            <code className="font-mono">{'{{start_date}}'}</code> in a condition to add one.
+          </p>
+        ) : (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+            {draft.map((parameter) => (
+              <div key={parameter.name} className="border rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <code className="font-mono text-sm">{`{{${parameter.name}}}`}</code>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`parameter-required-${parameter.name}`}
+                      checked={parameter.required}
+                      onCheckedChange={(checked) => update(parameter.name, { required: checked === true })}
+                    />
+                    <Label htmlFor={`parameter-required-${parameter.name}`}>Required</Label>
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label>Label</Label>
+                    <Input
+                      value={parameter.label ?? ''}
+                      onChange={(e) => update(parameter.name, { label: e.target.value })}
+                      placeholder={parameter.name}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Type</Label>
+                    <Select
+                      value={parameter.type}
+                      onValueChange={(value) => update(parameter.name, { type: value as QueryParameterType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {queryParameterTypes.map((type) => (
+                          <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Default</Label>
+                    <Input
+                      value={parameter.defaultValue ?? ''}
+                      onChange={(e) => update(parameter.name, { defaultValue: e.target.value })}
+                      placeholder={parameter.type === 'date' ? 'today-7 or 2024-01-31' : 'None'}
+                    />
+                  </div>
+                </div>
+                {parameter.type === 'enum' && (
+                  <div className="space-y-1">
+                    <Label>Values from column</Label>
+                    <Select
+                      value={parameter.source ? sourceKey(parameter.source) : ''}
+                      onValueChange={(value) => update(parameter.name, { source: sourceOf(value) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sourceColumns(config, parameter.name).map((column) => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {!parameter.source && (
+                      <p className="text-xs text-red-600">Choose the column whose values are offered</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={missingSource}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Report link that opens the saved query and runs it with the given values
+export function parameterLink(queryId: number, values: ParameterValues): string {
+  const search = new URLSearchParams({ query: String(queryId) });
+  for (const [name, value] of Object.entries(values)) {
+    search.set(`${PARAMETER_URL_PREFIX}${name}`, value);
+  }
+  return `${window.location.origin}/?${search}`;
+}
+
+// Parameter values carried by a report link
+export function parameterValuesFromSearch(search: URLSearchParams): ParameterValues {
+  const values: ParameterValues = {};
+  search.forEach((value, key) => {
+    if (key.startsWith(PARAMETER_URL_PREFIX)) {
+      values[key.slice(PARAMETER_URL_PREFIX.length)] = value;
+    }
+  });
+  return values;
+}
+
+interface ParameterPromptProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  parameters: QueryParameter[];
+  // Values from the last run or a report link; defaults fill in the rest
+  initialValues?: ParameterValues;
+  // Id of the saved query, to offer a link that runs it with the entered values
+  queryId?: number;
+  isPending?: boolean;
+  onSubmit: (values: ParameterValues) => void;
+}
+
+// Asks for the query's parameter values before it runs
+export function ParameterPrompt({
+  open,
+  onOpenChange,
+  parameters,
+  initialValues,
+  queryId,
+  isPending,
+  onSubmit,
+}: ParameterPromptProps) {
+  const form = useForm<ParameterValues>({ defaultValues: {} });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      form.reset(Object.fromEntries(parameters.map((parameter) => [
+        parameter.name,
+        initialValues?.[parameter.name] ?? defaultParameterValue(parameter),
+      ])));
+    }
+  }, [open]);
+
+  const handleCopyLink = async () => {
+    if (queryId === undefined || !(await form.trigger())) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(parameterLink(queryId, form.getValues()));
+      toast({
+        title: 'Link Copied',
+        description: 'The link runs this query with these values',
+      });
+    } catch (error) {
+      toast({
+        title: 'Copy Error',
+        description: 'Failed to copy the link to clipboard',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Run Query</DialogTitle>
+          <DialogDescription>Enter the values to run the query with</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {parameters.map((parameter) => (
+              <FormField
+                key={parameter.name}
+                control={form.control}
+                name={parameter.name}
+                rules={{
+                  validate: (value) => {
+                    try {
+                      coerceParameterValue(parameter, value ?? '');
+                      return true;
+                    } catch (error) {
+                      return error instanceof Error ? error.message : String(error);
+                    }
+                  },
+                }}
+                render={({ field }) => (
+                  <FormItem className="flex flex-col">
+                    <FormLabel>
+                      {parameter.label || parameter.name}
+                      {parameter.required && <span className="text-red-600"> *</span>}
+                    </FormLabel>
+                    <ParameterInput parameter={parameter} value={field.value ?? ''} onChange={field.onChange} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <DialogFooter className="gap-2 sm:justify-between">
+              {queryId !== undefined ? (
+                <Button type="button" variant="outline" onClick={handleCopyLink}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Copy link
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isPending}>
+                  {isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                  Run
+                </Button>
+              </div>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ParameterInput({ parameter, value, onChange }: {
+  parameter: QueryParameter;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  switch (parameter.type) {
+    case 'date': {
+      const date = parse(value, 'yyyy-MM-dd', new Date());
+      const valid = !Number.isNaN(date.getTime());
+      return (
+        <Popover>
+          <PopoverTrigger asChild>
+            <FormControl>
+              <Button variant="outline" className={`justify-start font-normal ${value ? '' : 'text-muted-foreground'}`}>
+                <CalendarIcon className="h-4 w-4 mr-2" />
+                {valid ? format(date, 'PPP') : value || 'Pick a date'}
+              </Button>
+            </FormControl>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={valid ? date : undefined}
+              defaultMonth={valid ? date : undefined}
+              onSelect={(selected) => onChange(selected ? format(selected, 'yyyy-MM-dd') : '')}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      );
+    }
+    case 'enum':
+      return parameter.source ? (
+        <EnumParameterInput source={parameter.source} value={value} onChange={onChange} />
+      ) : null;
+    default:
+      return (
+        <FormControl>
+          <Input
+            type={parameter.type === 'number' ? 'number' : 'text'}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        </FormControl>
+      );
+  }
+}
+
+function EnumParameterInput({ source, value, onChange }: {
+  source: ParameterSource;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const search = new URLSearchParams({ table: source.table, column: source.column });
+  if (source.schema) {
+    search.set('schema', source.schema);
+  }
+  const { data: options = [], isLoading } = useQuery<string[]>({
+    queryKey: [`/api/parameter-options?${search}`],
+    staleTime: 0,
+  });
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue placeholder={isLoading ? 'Loading values...' : 'Choose a value'} />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option} value={option}>{option}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
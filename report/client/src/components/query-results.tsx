@@ -1,24 +1,106 @@
 import { useState } from 'react';
-import { Download, ChevronUp, ChevronDown, ChevronLeft, ChevronRight } from 'lucide-react';
+import { BarChart3, Download, FileText, ChevronUp, Settings2, ChevronDown, ChevronLeft, ChevronRight, Clock, Rows3, Lock, ShieldAlert, AlertCircle, EyeOff } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import type { QueryResult } from '@/types/query';
+import { QUERY_ERROR_TITLES, queryErrorFromBody } from '@/lib/query-errors';
+import { connectionHeaders } from '@/lib/connection';
+import { downloadBlob } from '@/lib/download';
+import { PdfReportDialog } from '@/components/pdf-report-dialog';
+import { QueryVisualization } from '@/components/query-visualization';
+import type { ParameterValues, QueryParameter } from '@shared/query-parameters';
+import type { ChartSpec } from '@shared/charts';
+import type { BoundValue, QueryError, QueryErrorCode, QueryResult } from '@/types/query';
 
 interface QueryResultsProps {
   results: QueryResult | null;
   isLoading: boolean;
   sql: string;
+  params?: BoundValue[];
+  // Named parameters referenced in `params`, and the values the query ran with
+  parameters?: QueryParameter[];
+  parameterValues?: ParameterValues;
   rowsPerPage?: number;
   page?: number;
   onPageChange?: (page: number) => void;
   canFetchMore?: boolean;
+  error?: QueryError | null;
+  // The saved query the results belong to, which PDF reports are rendered from
+  savedQuery?: { id: number; name: string } | null;
+  // The chart on the Visualize tab, which is shown when results can be charted and changes are kept
+  chart?: ChartSpec;
+  onChartChange?: (chart: ChartSpec) => void;
+  // The builder's column functions, by result column, used to suggest a chart
+  columnFunctions?: Array<string | undefined>;
 }
 
-export function QueryResults({ results, isLoading, sql, rowsPerPage = 20, page, onPageChange, canFetchMore }: QueryResultsProps) {
+type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson' | 'parquet';
+
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+  ndjson: 'JSON Lines (NDJSON)',
+  parquet: 'Parquet',
+};
+
+// Sent to the export route as query string values
+interface CsvOptions {
+  delimiter: 'comma' | 'semicolon' | 'tab' | 'pipe';
+  encoding: 'utf-8' | 'utf-16le' | 'latin1';
+  bom: boolean;
+}
+
+const CSV_DELIMITER_LABELS: Record<CsvOptions['delimiter'], string> = {
+  comma: 'Comma',
+  semicolon: 'Semicolon',
+  tab: 'Tab',
+  pipe: 'Pipe',
+};
+
+const CSV_ENCODING_LABELS: Record<CsvOptions['encoding'], string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  latin1: 'Latin-1',
+};
+
+const ERROR_ICONS: Record<QueryErrorCode, typeof AlertCircle> = {
+  timeout: Clock,
+  row_limit: Rows3,
+  permission_denied: Lock,
+  read_only_violation: ShieldAlert,
+  query_error: AlertCircle,
+};
+
+const ERROR_HINTS: Partial<Record<QueryErrorCode, string>> = {
+  timeout: 'Try narrowing the date range, adding filters or removing cross joins.',
+  row_limit: 'Add filters or a row limit, or export the results instead.',
+  permission_denied: 'Ask an administrator for access to the tables used in this query.',
+};
+
+export function QueryResults({ results, isLoading, sql, params = [], parameters = [], parameterValues = {}, rowsPerPage = 20, page, onPageChange, canFetchMore, error, savedQuery, chart, onChartChange, columnFunctions }: QueryResultsProps) {
   const [sortColumn, setSortColumn] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [currentPage, setCurrentPage] = useState(1);
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>({ delimiter: 'comma', encoding: 'utf-8', bom: false });
+  const [showPdfReport, setShowPdfReport] = useState(false);
+  const [view, setView] = useState<'results' | 'visualize'>('results');
   const { toast } = useToast();
 
   // Sync external page prop
@@ -28,7 +110,7 @@ export function QueryResults({ results, isLoading, sql, rowsPerPage = 20, page,
     else setCurrentPage(newPage);
   };
 
-  const handleExport = async () => {
+  const handleExport = async (format: ExportFormat) => {
     if (!sql) {
       toast({
         title: "Export Error",
@@ -39,32 +121,32 @@ export function QueryResults({ results, isLoading, sql, rowsPerPage = 20, page,
     }
 
     try {
-      const response = await fetch('/api/query/export', {
+      const options = format === 'csv' ? { ...csvOptions, bom: String(csvOptions.bom) } : {};
+      const response = await fetch(`/api/query/export?${new URLSearchParams({ format, ...options })}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...connectionHeaders(),
         },
-        body: JSON.stringify({ sql }),
+        body: JSON.stringify({ sql, params, parameters, parameterValues }),
       });
 
       if (!response.ok) {
-        throw new Error('Export failed');
+        const body = await response.json().catch(() => null);
+        const exportError = queryErrorFromBody(body, 'Failed to export results');
+        toast({
+          title: QUERY_ERROR_TITLES[exportError.code],
+          description: exportError.message,
+          variant: "destructive",
+        });
+        return;
       }
 
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = 'query_results.csv';
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      downloadBlob(await response.blob(), `query_results.${format}`);
 
       toast({
         title: "Export Successful",
-        description: "Results exported to CSV file",
+        description: `Results exported to ${EXPORT_FORMAT_LABELS[format]} file`,
       });
     } catch (error) {
       toast({
@@ -101,38 +183,116 @@ export function QueryResults({ results, isLoading, sql, rowsPerPage = 20, page,
     return sortDirection === 'asc' ? comparison : -comparison;
   }) : [];
 
+  const canVisualize = Boolean(onChartChange && results && results.rows.length > 0);
+  const showChart = view === 'visualize' && canVisualize && !isLoading && !error;
+
   return (
     <>
     <div className="flex flex-col flex-1 min-h-0">
       <div className="p-4 border-b border-gray-200">
-        <div className="flex items-center justify-end">
+        <div className="flex items-center justify-between">
+          <div>
+            {canVisualize && (
+              <Tabs value={view} onValueChange={(value) => setView(value as typeof view)}>
+                <TabsList className="h-9">
+                  <TabsTrigger value="results">Results</TabsTrigger>
+                  <TabsTrigger value="visualize">
+                    <BarChart3 className="h-4 w-4 mr-1" />
+                    Visualize
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+            )}
+          </div>
           <div className="flex items-center space-x-3">
             {results && (
               <span className="text-sm text-gray-600">
                 Showing {results.rows.length.toLocaleString()} rows
               </span>
             )}
-            <Button
-              onClick={handleExport}
-              disabled={!results || results.rows.length === 0}
-              size="sm"
-              className="bg-green-600 hover:bg-green-700"
-            >
-              <Download className="h-4 w-4 mr-1" />
-              Export CSV
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  disabled={!results || results.rows.length === 0}
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Export
+                  <ChevronDown className="h-4 w-4 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+                  <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuItem disabled={!savedQuery} onSelect={() => setShowPdfReport(true)}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  {savedQuery ? 'PDF report...' : 'PDF report (save the query first)'}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <Settings2 className="h-4 w-4 mr-2" />
+                    CSV options
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="w-56">
+                    <DropdownMenuLabel>Delimiter</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                      value={csvOptions.delimiter}
+                      onValueChange={(delimiter) => setCsvOptions({ ...csvOptions, delimiter: delimiter as CsvOptions['delimiter'] })}
+                    >
+                      {(Object.keys(CSV_DELIMITER_LABELS) as CsvOptions['delimiter'][]).map((delimiter) => (
+                        <DropdownMenuRadioItem key={delimiter} value={delimiter}>{CSV_DELIMITER_LABELS[delimiter]}</DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Encoding</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                      value={csvOptions.encoding}
+                      // UTF-16 files are only recognised with a byte order mark
+                      onValueChange={(encoding) => setCsvOptions({
+                        ...csvOptions,
+                        encoding: encoding as CsvOptions['encoding'],
+                        bom: encoding === 'utf-16le' || (encoding === 'utf-8' && csvOptions.bom),
+                      })}
+                    >
+                      {(Object.keys(CSV_ENCODING_LABELS) as CsvOptions['encoding'][]).map((encoding) => (
+                        <DropdownMenuRadioItem key={encoding} value={encoding}>{CSV_ENCODING_LABELS[encoding]}</DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuCheckboxItem
+                      checked={csvOptions.bom}
+                      disabled={csvOptions.encoding === 'latin1'}
+                      onCheckedChange={(bom) => setCsvOptions({ ...csvOptions, bom })}
+                    >
+                      Byte order mark (for Excel)
+                    </DropdownMenuCheckboxItem>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </div>
 
       <div className="overflow-auto relative flex-1">
-        {isLoading ? (
+        {showChart ? (
+          <QueryVisualization results={results!} chart={chart} onChartChange={onChartChange!} columnFunctions={columnFunctions} />
+        ) : isLoading ? (
           <div className="flex items-center justify-center h-full">
             <div className="text-center">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
               <p className="text-gray-500">Executing query...</p>
             </div>
           </div>
+        ) : error ? (
+          <div className="p-4">
+            <QueryErrorAlert error={error} />
+          </div>
         ) : results && results.rows.length > 0 ? (
           <Table className="table-auto w-full">
             <TableHeader className="sticky top-0 bg-gray-50 z-10">
@@ -147,6 +307,11 @@ export function QueryResults({ results, isLoading, sql, rowsPerPage = 20, page,
                       <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">
                         {column}
                       </span>
+                      {results.maskedColumns?.includes(column) && (
+                        <span title="Masked for your role">
+                          <EyeOff className="h-3 w-3 text-amber-600" aria-label="Masked" />
+                        </span>
+                      )}
                       {sortColumn === column && (
                         sortDirection === 'asc' ? 
                           <ChevronUp className="h-3 w-3" /> : 
@@ -214,6 +379,32 @@ export function QueryResults({ results, isLoading, sql, rowsPerPage = 20, page,
         </div>
       )}
     </div>
+    {savedQuery && (
+      <PdfReportDialog
+        open={showPdfReport}
+        onOpenChange={setShowPdfReport}
+        query={savedQuery}
+        columns={results?.columns ?? []}
+        parameterValues={parameterValues}
+        chart={chart}
+      />
+    )}
     </>
   );
 }
+
+function QueryErrorAlert({ error }: { error: QueryError }) {
+  const Icon = ERROR_ICONS[error.code];
+  const hint = ERROR_HINTS[error.code];
+
+  return (
+    <Alert variant={error.code === 'row_limit' ? 'default' : 'destructive'}>
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{QUERY_ERROR_TITLES[error.code]}</AlertTitle>
+      <AlertDescription>
+        <p>{error.message}</p>
+        {hint && <p className="mt-1 text-gray-500">{hint}</p>}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,601 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, CalendarClock, CheckCircle2, History, Loader2, Pencil, Play, Plus, RotateCw, Trash2, XCircle } from 'lucide-react';
+import type {
+  DeliveryMethod,
+  ReportFormat,
+  ReportScheduleListItem,
+  ReportScheduleRun,
+  SavedQuery,
+} from '@shared/schema';
+import type { QueryParameter } from '@shared/query-parameters';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { getActiveConnectionId } from '@/lib/connection';
+import { SQLGenerator } from '@/lib/sql-generator';
+import type { QueryConfig } from '@/types/query';
+
+// Serialized dates arrive as strings
+type RunRow = Omit<ReportScheduleRun, 'startedAt' | 'finishedAt' | 'retryAt'> & {
+  startedAt: string;
+  finishedAt: string | null;
+  retryAt: string | null;
+};
+
+type ScheduleRow = Omit<ReportScheduleListItem, 'createdAt' | 'updatedAt' | 'nextRunAt' | 'lastRun'> & {
+  createdAt: string | null;
+  updatedAt: string | null;
+  nextRunAt: string | null;
+  lastRun: RunRow | null;
+};
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  pdf: 'PDF',
+};
+
+const DELIVERY_LABELS: Record<DeliveryMethod, string> = {
+  email: 'Email',
+  directory: 'Folder on the server',
+  webhook: 'Webhook',
+};
+
+const DESTINATION_HINTS: Record<DeliveryMethod, { label: string; placeholder: string }> = {
+  email: { label: 'Recipients', placeholder: 'alice@example.com, bob@example.com' },
+  directory: { label: 'Folder', placeholder: 'weekly/revenue' },
+  webhook: { label: 'URL', placeholder: 'https://example.com/hooks/reports' },
+};
+
+const TRIGGER_LABELS: Record<RunRow['trigger'], string> = {
+  schedule: 'Scheduled',
+  manual: 'Run now',
+  retry: 'Retry',
+};
+
+const scheduleFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  cronExpression: z.string().trim().min(1, 'Cron expression is required'),
+  timezone: z.string().trim().min(1, 'Timezone is required'),
+  format: z.enum(['csv', 'xlsx', 'pdf']),
+  deliveryMethod: z.enum(['email', 'directory', 'webhook']),
+  destination: z.string().trim().min(1, 'Destination is required'),
+  maxRetries: z.coerce.number().int().min(0).max(5),
+  enabled: z.boolean(),
+  parameterValues: z.record(z.string()),
+});
+
+type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
+
+export function localTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Parameters of the saved query, which each schedule or alert gives values for
+export function queryParameters(query: Pick<SavedQuery, 'queryConfig'>): QueryParameter[] {
+  try {
+    return SQLGenerator.parameterDefinitions(JSON.parse(query.queryConfig) as QueryConfig);
+  } catch {
+    return [];
+  }
+}
+
+interface QuerySchedulesProps {
+  // The saved query whose schedules are shown; the sheet is closed while this is null
+  query: Pick<SavedQuery, 'id' | 'name' | 'queryConfig'> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function QuerySchedules({ query, onOpenChange }: QuerySchedulesProps) {
+  return (
+    <Sheet open={query !== null} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Scheduled Delivery</SheetTitle>
+          <SheetDescription>{query?.name}</SheetDescription>
+        </SheetHeader>
+        {/* Mounted only while open, so the list is fetched fresh each time */}
+        {query && <ScheduleList query={query} />}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function ScheduleList({ query }: { query: Pick<SavedQuery, 'id' | 'name' | 'queryConfig'> }) {
+  const [editing, setEditing] = useState<ScheduleRow | 'new' | null>(null);
+  const [deleting, setDeleting] = useState<ScheduleRow | null>(null);
+  const [viewingRuns, setViewingRuns] = useState<ScheduleRow | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const listKey = `/api/queries/${query.id}/schedules`;
+
+  const { data: schedules = [], isLoading } = useQuery<ScheduleRow[]>({
+    queryKey: [listKey],
+    staleTime: 0,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, values }: { id?: number; values: ScheduleFormValues }) => {
+      const response = id
+        ? await apiRequest('PUT', `/api/schedules/${id}`, {
+            ...values,
+            connectionId: schedules.find((schedule) => schedule.id === id)?.connectionId ?? null,
+          })
+        : await apiRequest('POST', listKey, { ...values, connectionId: getActiveConnectionId() });
+      return await response.json();
+    },
+    onSuccess: (_schedule, { id }) => {
+      setEditing(null);
+      toast({
+        title: id ? 'Schedule Updated' : 'Schedule Created',
+        description: 'The report will be delivered on the new schedule',
+      });
+      queryClient.invalidateQueries({ queryKey: [listKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Schedule Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/schedules/${id}`);
+    },
+    onSuccess: () => {
+      setDeleting(null);
+      toast({
+        title: 'Schedule Deleted',
+        description: 'The report will no longer be delivered',
+      });
+      queryClient.invalidateQueries({ queryKey: [listKey] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Delete Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (id: number): Promise<RunRow> => {
+      const response = await apiRequest('POST', `/api/schedules/${id}/run`, {});
+      return await response.json();
+    },
+    onSuccess: (run, id) => {
+      toast(run.status === 'succeeded'
+        ? { title: 'Report Delivered', description: `${run.rowCount ?? 0} rows sent as ${run.fileName}` }
+        : { title: 'Delivery Failed', description: run.error ?? 'The report could not be delivered', variant: 'destructive' });
+      queryClient.invalidateQueries({ queryKey: [listKey] });
+      queryClient.invalidateQueries({ queryKey: [`/api/schedules/${id}/runs`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Run Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (viewingRuns) {
+    return (
+      <div className="flex flex-col flex-1 min-h-0 gap-3 mt-4">
+        <Button variant="ghost" size="sm" className="self-start" onClick={() => setViewingRuns(null)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to schedules
+        </Button>
+        <RunHistory schedule={viewingRuns} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 gap-3 mt-4">
+      <Button size="sm" className="self-end" onClick={() => setEditing('new')}>
+        <Plus className="h-4 w-4 mr-2" />
+        New Schedule
+      </Button>
+
+      <ScrollArea className="flex-1">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 p-2">Loading schedules...</p>
+        ) : schedules.length === 0 ? (
+          <p className="text-sm text-gray-500 p-2">This query is not delivered on a schedule yet.</p>
+        ) : (
+          <div className="space-y-2 pr-3">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-start gap-3">
+                  <CalendarClock className="h-4 w-4 mt-0.5 text-gray-500 flex-shrink-0" />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate">{schedule.name}</span>
+                      {!schedule.enabled && <Badge variant="secondary">Paused</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      <code className="font-mono">{schedule.cronExpression}</code> ({schedule.timezone}) ·{' '}
+                      {FORMAT_LABELS[schedule.format]} · {DELIVERY_LABELS[schedule.deliveryMethod]}: {schedule.destination}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {schedule.nextRunAt ? `Next run ${new Date(schedule.nextRunAt).toLocaleString()}` : 'Not scheduled'}
+                      {schedule.ownerName && ` · ${schedule.ownerName}`}
+                    </p>
+                    {schedule.lastRun && <RunSummary run={schedule.lastRun} />}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => runMutation.mutate(schedule.id)}
+                      disabled={runMutation.isPending}
+                      title="Run now"
+                    >
+                      {runMutation.isPending && runMutation.variables === schedule.id
+                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                        : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setViewingRuns(schedule)} title="Run history">
+                      <History className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(schedule)} title="Edit">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDeleting(schedule)} title="Delete">
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <ScheduleDialog
+        schedule={editing}
+        parameters={queryParameters(query)}
+        defaultName={query.name}
+        isPending={saveMutation.isPending}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSubmit={(values) => saveMutation.mutate({ id: editing && editing !== 'new' ? editing.id : undefined, values })}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete schedule "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The report stops being delivered and the schedule's run history is deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function RunSummary({ run }: { run: RunRow }) {
+  return (
+    <div className="flex items-start gap-1 text-xs">
+      <RunStatusIcon run={run} />
+      <span className="text-gray-600">
+        {run.status === 'running' ? 'Running since' : run.status === 'succeeded' ? 'Delivered' : 'Failed'}{' '}
+        {new Date(run.finishedAt ?? run.startedAt).toLocaleString()}
+        {run.error && <span className="text-red-600"> · {run.error}</span>}
+        {run.retryAt && <span> · retry at {new Date(run.retryAt).toLocaleTimeString()}</span>}
+      </span>
+    </div>
+  );
+}
+
+function RunStatusIcon({ run }: { run: RunRow }) {
+  if (run.status === 'running') {
+    return <Loader2 className="h-4 w-4 text-gray-500 animate-spin flex-shrink-0" />;
+  }
+  return run.status === 'succeeded'
+    ? <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
+    : <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />;
+}
+
+function RunHistory({ schedule }: { schedule: ScheduleRow }) {
+  const { data: runs = [], isLoading } = useQuery<RunRow[]>({
+    queryKey: [`/api/schedules/${schedule.id}/runs`],
+    staleTime: 0,
+  });
+
+  return (
+    <>
+      <p className="text-sm font-medium text-gray-900">{schedule.name}</p>
+      <ScrollArea className="flex-1">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 p-2">Loading runs...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-gray-500 p-2">This schedule has not run yet.</p>
+        ) : (
+          <div className="space-y-2 pr-3">
+            {runs.map((run) => (
+              <div key={run.id} className="border rounded-lg p-3 space-y-1">
+                <div className="flex items-center gap-2 text-xs text-gray-600">
+                  <RunStatusIcon run={run} />
+                  <span>{new Date(run.startedAt).toLocaleString()}</span>
+                  {run.finishedAt && (
+                    <>
+                      <span>·</span>
+                      <span>{new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()} ms</span>
+                    </>
+                  )}
+                  {run.rowCount !== null && (
+                    <>
+                      <span>·</span>
+                      <span>{run.rowCount.toLocaleString()} rows</span>
+                    </>
+                  )}
+                  <Badge variant="outline" className="ml-auto">{TRIGGER_LABELS[run.trigger]}</Badge>
+                  {run.attempt > 1 && <Badge variant="secondary">Attempt {run.attempt}</Badge>}
+                </div>
+                {run.fileName && <p className="text-xs text-gray-700 font-mono">{run.fileName}</p>}
+                {run.error && <p className="text-xs text-red-600">{run.error}</p>}
+                {run.retryAt && (
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    <RotateCw className="h-3 w-3" />
+                    Retrying at {new Date(run.retryAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </>
+  );
+}
+
+interface ScheduleDialogProps {
+  // Schedule being edited, "new" for a new one, or null while closed
+  schedule: ScheduleRow | 'new' | null;
+  parameters: QueryParameter[];
+  defaultName: string;
+  isPending?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: ScheduleFormValues) => void;
+}
+
+function ScheduleDialog({ schedule, parameters, defaultName, isPending, onOpenChange, onSubmit }: ScheduleDialogProps) {
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleFormSchema),
+  });
+  const deliveryMethod = form.watch('deliveryMethod');
+
+  // Start from the schedule's values, or the defaults for a new one, each time the dialog opens
+  useEffect(() => {
+    if (!schedule) return;
+    const existing = schedule === 'new' ? null : schedule;
+    form.reset({
+      name: existing?.name ?? defaultName,
+      cronExpression: existing?.cronExpression ?? '0 8 * * 1',
+      timezone: existing?.timezone ?? localTimezone(),
+      format: existing?.format ?? 'csv',
+      deliveryMethod: existing?.deliveryMethod ?? 'email',
+      destination: existing?.destination ?? '',
+      maxRetries: existing?.maxRetries ?? 2,
+      enabled: existing?.enabled ?? true,
+      parameterValues: Object.fromEntries(parameters.map((parameter) => [
+        parameter.name,
+        existing?.parameterValues[parameter.name] ?? parameter.defaultValue ?? '',
+      ])),
+    });
+  }, [schedule]);
+
+  return (
+    <Dialog open={schedule !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{schedule === 'new' ? 'New Schedule' : 'Edit Schedule'}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 max-h-[70vh] overflow-y-auto px-1">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormDescription>Used as the email subject and the file name</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="cronExpression"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cron expression</FormLabel>
+                    <FormControl>
+                      <Input className="font-mono" {...field} />
+                    </FormControl>
+                    <FormDescription>minute hour day month weekday</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Timezone</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Europe/Berlin" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="format"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Format</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map((format) => (
+                          <SelectItem key={format} value={format}>{FORMAT_LABELS[format]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="deliveryMethod"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Deliver by</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(DELIVERY_LABELS) as DeliveryMethod[]).map((method) => (
+                          <SelectItem key={method} value={method}>{DELIVERY_LABELS[method]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="destination"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{DESTINATION_HINTS[deliveryMethod ?? 'email'].label}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={DESTINATION_HINTS[deliveryMethod ?? 'email'].placeholder} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {parameters.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Parameters</p>
+                {parameters.map((parameter) => (
+                  <FormField
+                    key={parameter.name}
+                    control={form.control}
+                    name={`parameterValues.${parameter.name}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-normal">{parameter.label || parameter.name}</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ''} />
+                        </FormControl>
+                        {parameter.type === 'date' && (
+                          <FormDescription>A date such as 2024-01-31, or relative to the run: today-7</FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <FormField
+                control={form.control}
+                name="maxRetries"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Retries on failure</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={5} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="enabled"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0 pb-2">
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Enabled</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, GitCompare, History, Undo2 } from 'lucide-react';
+import type { SavedQuery, SavedQueryVersion } from '@shared/schema';
+import type { SideBySideRow } from '@shared/text-diff';
+import type { ListChange, QueryConfigDiff } from '@shared/query-config-diff';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+
+// Serialized dates arrive as strings
+type VersionRow = Omit<SavedQueryVersion, 'createdAt'> & { createdAt: string };
+
+interface VersionDiff {
+  from: VersionRow;
+  to: VersionRow;
+  sql: SideBySideRow[];
+  config: QueryConfigDiff;
+}
+
+const CONFIG_SECTIONS: Array<{ key: Exclude<keyof QueryConfigDiff, 'settings'>; label: string }> = [
+  { key: 'tables', label: 'Tables' },
+  { key: 'columns', label: 'Columns' },
+  { key: 'joins', label: 'Joins' },
+  { key: 'conditions', label: 'Conditions' },
+  { key: 'groupBy', label: 'Group by' },
+  { key: 'orderBy', label: 'Order by' },
+];
+
+interface QueryVersionsProps {
+  // The saved query whose history is shown; the sheet is closed while this is null
+  query: Pick<SavedQuery, 'id' | 'name'> | null;
+  onOpenChange: (open: boolean) => void;
+  onRolledBack?: (query: SavedQuery) => void;
+}
+
+export function QueryVersions({ query, onOpenChange, onRolledBack }: QueryVersionsProps) {
+  return (
+    <Sheet open={query !== null} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-4xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Version History</SheetTitle>
+          <SheetDescription>{query?.name}</SheetDescription>
+        </SheetHeader>
+        {/* Mounted only while open, so the list is fetched fresh each time */}
+        {query && <VersionList queryId={query.id} onRolledBack={onRolledBack} />}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function VersionList({ queryId, onRolledBack }: { queryId: number; onRolledBack?: (query: SavedQuery) => void }) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [comparing, setComparing] = useState<{ from: number; to: number } | null>(null);
+  const [rollingBack, setRollingBack] = useState<VersionRow | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [], isLoading } = useQuery<VersionRow[]>({
+    queryKey: [`/api/queries/${queryId}/versions`],
+    staleTime: 0,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (version: number): Promise<SavedQuery> => {
+      const response = await apiRequest('POST', `/api/queries/${queryId}/versions/${version}/rollback`, {});
+      return await response.json();
+    },
+    onSuccess: (savedQuery, version) => {
+      setRollingBack(null);
+      toast({
+        title: 'Query Rolled Back',
+        description: `Version ${version} is now the current version`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/queries'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/queries/${queryId}/versions`] });
+      onRolledBack?.(savedQuery);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Rollback Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleSelected = (version: number, checked: boolean) => {
+    // Comparing takes exactly two versions; picking a third replaces the oldest pick
+    setSelected((current) => checked ? [...current, version].slice(-2) : current.filter((value) => value !== version));
+  };
+
+  if (comparing) {
+    return (
+      <div className="flex flex-col flex-1 min-h-0 gap-3 mt-4">
+        <Button variant="ghost" size="sm" className="self-start" onClick={() => setComparing(null)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to versions
+        </Button>
+        <VersionComparison queryId={queryId} {...comparing} />
+      </div>
+    );
+  }
+
+  const latest = versions[0]?.version;
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 gap-3 mt-4">
+      <Button
+        variant="outline"
+        size="sm"
+        className="self-end"
+        disabled={selected.length !== 2}
+        onClick={() => setComparing({ from: Math.min(...selected), to: Math.max(...selected) })}
+        title="Select two versions to compare"
+      >
+        <GitCompare className="h-4 w-4 mr-2" />
+        Compare
+      </Button>
+
+      <ScrollArea className="flex-1">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 p-2">Loading versions...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500 p-2">No versions have been recorded for this query yet.</p>
+        ) : (
+          <div className="space-y-2 pr-3">
+            {versions.map((version) => (
+              <div key={version.id} className="border rounded-lg p-3 flex items-start gap-3">
+                <Checkbox
+                  className="mt-1"
+                  checked={selected.includes(version.version)}
+                  onCheckedChange={(checked) => toggleSelected(version.version, checked === true)}
+                  aria-label={`Select version ${version.version} for comparison`}
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">Version {version.version}</span>
+                    {version.version === latest && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-700">{version.message}</p>
+                  <p className="text-xs text-gray-500">
+                    {version.authorName ?? 'Unknown author'} · {new Date(version.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {version.version > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setComparing({ from: version.version - 1, to: version.version })}
+                      title="Compare with the previous version"
+                    >
+                      <History className="h-4 w-4 mr-1" />
+                      Changes
+                    </Button>
+                  )}
+                  {version.version !== latest && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRollingBack(version)}
+                      disabled={rollbackMutation.isPending}
+                    >
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      Roll back
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <AlertDialog open={rollingBack !== null} onOpenChange={(open) => !open && setRollingBack(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to version {rollingBack?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The query is restored to this version and saved as a new version. Later versions stay in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => rollingBack && rollbackMutation.mutate(rollingBack.version)}>
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function VersionComparison({ queryId, from, to }: { queryId: number; from: number; to: number }) {
+  const { data: diff, isLoading, error } = useQuery<VersionDiff>({
+    queryKey: [`/api/queries/${queryId}/versions/diff?from=${from}&to=${to}`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Comparing versions...</p>;
+  }
+  if (!diff) {
+    return <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'The versions could not be compared.'}</p>;
+  }
+
+  const changedSections = CONFIG_SECTIONS.filter(({ key }) => diff.config[key].added.length + diff.config[key].removed.length > 0);
+
+  return (
+    <ScrollArea className="flex-1">
+      <div className="space-y-4 pr-3">
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          {[diff.from, diff.to].map((version) => (
+            <div key={version.id} className="border rounded p-2">
+              <p className="font-medium">Version {version.version}</p>
+              <p className="text-gray-700">{version.message}</p>
+              <p className="text-xs text-gray-500">
+                {version.authorName ?? 'Unknown author'} · {new Date(version.createdAt).toLocaleString()}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-900">Query structure</h3>
+          {changedSections.length === 0 && diff.config.settings.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes to tables, columns, joins, conditions or ordering.</p>
+          ) : (
+            <div className="space-y-2 text-sm">
+              {changedSections.map(({ key, label }) => (
+                <ConfigSectionChanges key={key} label={label} change={diff.config[key]} />
+              ))}
+              {diff.config.settings.map((setting) => (
+                <p key={setting.setting} className="font-mono text-xs">
+                  <span className="text-gray-600">{setting.setting}:</span>{' '}
+                  <span className="text-red-700">{setting.before ?? 'unset'}</span> →{' '}
+                  <span className="text-green-700">{setting.after ?? 'unset'}</span>
+                </p>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-900">SQL</h3>
+          <div className="border rounded font-mono text-xs overflow-x-auto">
+            {diff.sql.map((row, index) => (
+              <div key={index} className="grid grid-cols-2 divide-x">
+                <DiffCell line={row.left} highlight={row.type === 'same' ? null : 'bg-red-50 text-red-800'} />
+                <DiffCell line={row.right} highlight={row.type === 'same' ? null : 'bg-green-50 text-green-800'} />
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </ScrollArea>
+  );
+}
+
+function ConfigSectionChanges({ label, change }: { label: string; change: ListChange }) {
+  return (
+    <div>
+      <p className="text-gray-600">{label}</p>
+      <ul className="font-mono text-xs space-y-0.5">
+        {change.removed.map((item, index) => (
+          <li key={`removed-${index}`} className="text-red-700">- {item}</li>
+        ))}
+        {change.added.map((item, index) => (
+          <li key={`added-${index}`} className="text-green-700">+ {item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function DiffCell({ line, highlight }: { line: SideBySideRow['left']; highlight: string | null }) {
+  if (!line) {
+    return <div className="bg-gray-50" />;
+  }
+  return (
+    <div className={`flex whitespace-pre-wrap ${highlight ?? 'text-gray-700'}`}>
+      <span className="w-8 flex-shrink-0 text-right pr-2 text-gray-400 select-none">{line.number}</span>
+      <span className="flex-1 min-w-0 break-all">{line.text}</span>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+import { useMemo } from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, Pie, PieChart, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { ChevronDown, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  CHART_COLORS,
+  CHART_TYPE_LABELS,
+  chartData,
+  chartLabel,
+  chartSpecSchema,
+  chartTypes,
+  columnKinds,
+  InvalidChartError,
+  suggestChart,
+  type ChartData,
+  type ChartSpec,
+  type ChartType,
+} from '@shared/charts';
+import type { QueryResult } from '@/types/query';
+
+// Select items cannot have an empty value
+const NO_COLOR_BY = '__none__';
+const STACKABLE: ReadonlySet<ChartType> = new Set<ChartType>(['bar', 'area']);
+
+const tickFormat = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 2 });
+const kpiFormat = new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 });
+
+interface QueryVisualizationProps {
+  results: QueryResult;
+  // The chart saved with the query; until there is one, a chart suggested from the column types
+  chart?: ChartSpec;
+  onChartChange: (chart: ChartSpec) => void;
+  // The builder's column functions, by result column, such as DATE_TRUNC or SUM
+  columnFunctions?: Array<string | undefined>;
+}
+
+export function QueryVisualization({ results, chart, onChartChange, columnFunctions }: QueryVisualizationProps) {
+  const suggested = useMemo(
+    () => suggestChart(results.columns, columnKinds(results.columns, results.rows, results.fields), results.rows.length, columnFunctions),
+    [results, columnFunctions?.join('\n')],
+  );
+  const spec: ChartSpec | null = chart ?? suggested;
+
+  const plotted = useMemo((): { data: ChartData } | { error: string } | null => {
+    if (!spec) return null;
+    const checked = chartSpecSchema.safeParse(spec);
+    if (!checked.success) {
+      return { error: checked.error.errors[0].message };
+    }
+    try {
+      return { data: chartData(results.columns, results.rows, checked.data) };
+    } catch (error) {
+      if (error instanceof InvalidChartError) {
+        return { error: error.message };
+      }
+      throw error;
+    }
+  }, [results, spec]);
+
+  const update = (changes: Partial<ChartSpec>) => {
+    const next: ChartSpec = { ...(spec ?? { type: 'bar', x: results.columns[0], y: [] }), ...changes };
+    // Pie charts have one value column, and only bar and area series stack
+    onChartChange({
+      ...next,
+      y: next.type === 'pie' ? next.y.slice(0, 1) : next.y,
+      stacked: STACKABLE.has(next.type) ? next.stacked : undefined,
+    });
+  };
+
+  const toggleValue = (column: string, checked: boolean) => {
+    const y = spec?.y ?? [];
+    if (spec?.type === 'pie') {
+      update({ y: checked ? [column] : [] });
+    } else {
+      update({ y: checked ? results.columns.filter((name) => name === column || y.includes(name)) : y.filter((name) => name !== column) });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">Chart</Label>
+          <Select value={spec?.type ?? ''} onValueChange={(type) => update({ type: type as ChartType })}>
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue placeholder="Choose" />
+            </SelectTrigger>
+            <SelectContent>
+              {chartTypes.map((type) => (
+                <SelectItem key={type} value={type}>{CHART_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {spec?.type !== 'kpi' && (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">{spec?.type === 'pie' ? 'Slice labels' : 'X-axis'}</Label>
+            <Select value={spec?.x ?? ''} onValueChange={(x) => update({ x })}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue placeholder="Choose a column" />
+              </SelectTrigger>
+              <SelectContent>
+                {results.columns.map((column) => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">{spec?.type === 'pie' ? 'Value' : 'Values'}</Label>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8 w-48 justify-between font-normal">
+                <span className="truncate">{spec?.y.length ? spec.y.join(', ') : 'Choose columns'}</span>
+                <ChevronDown className="h-4 w-4 opacity-50" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start" className="w-48">
+              {results.columns.map((column) => (
+                <DropdownMenuCheckboxItem
+                  key={column}
+                  checked={spec?.y.includes(column) ?? false}
+                  onCheckedChange={(checked) => toggleValue(column, checked)}
+                  // Keeps the menu open to pick several columns
+                  onSelect={(event) => event.preventDefault()}
+                >
+                  {column}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {spec && spec.type !== 'pie' && spec.type !== 'kpi' && (
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-500">Colour by</Label>
+            <Select
+              value={spec.colorBy ?? NO_COLOR_BY}
+              onValueChange={(colorBy) => update({ colorBy: colorBy === NO_COLOR_BY ? undefined : colorBy })}
+            >
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_COLOR_BY}>None</SelectItem>
+                {results.columns.map((column) => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {spec && STACKABLE.has(spec.type) && (
+          <div className="flex items-center gap-2 h-8">
+            <Switch id="chart-stacked" checked={spec.stacked ?? false} onCheckedChange={(stacked) => update({ stacked })} />
+            <Label htmlFor="chart-stacked" className="text-sm">Stacked</Label>
+          </div>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 ml-auto"
+          disabled={!suggested}
+          onClick={() => suggested && onChartChange(suggested)}
+          title="Pick a chart from the column types"
+        >
+          <Sparkles className="h-4 w-4 mr-1" />
+          Suggest
+        </Button>
+      </div>
+
+      {plotted === null ? (
+        <p className="py-16 text-center text-sm text-gray-500">
+          Nothing in these results can be charted. Choose a chart type and the columns to plot.
+        </p>
+      ) : 'error' in plotted ? (
+        <p className="py-16 text-center text-sm text-gray-500">{plotted.error}</p>
+      ) : (
+        <>
+          <ResultChart data={plotted.data} />
+          <ChartNotes data={plotted.data} rowCount={results.rows.length} suggested={chart === undefined} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function ChartNotes({ data, rowCount, suggested }: { data: ChartData; rowCount: number; suggested: boolean }) {
+  const notes = [`Charts the ${rowCount.toLocaleString()} rows on this page of results`];
+  if (data.omittedRows > 0) {
+    notes.push(`shows the first ${(rowCount - data.omittedRows).toLocaleString()}`);
+  }
+  if (data.omittedSeries > 0) {
+    notes.push(`${data.omittedSeries.toLocaleString()} more series are not shown`);
+  }
+  if (suggested) {
+    notes.push('suggested from the column types');
+  }
+  return <p className="text-xs text-gray-500">{notes.join(' · ')}</p>;
+}
+
+// Series are keyed s0, s1, ... so the chart container can give each its colour
+function seriesConfig(data: ChartData): ChartConfig {
+  return Object.fromEntries(data.series.map((series, index) => [
+    `s${index}`,
+    { label: series.name, color: CHART_COLORS[index % CHART_COLORS.length] },
+  ]));
+}
+
+function ResultChart({ data }: { data: ChartData }) {
+  const { type, stacked } = data.spec;
+  const config = seriesConfig(data);
+  const stackId = stacked ? 'stack' : undefined;
+
+  if (type === 'kpi') {
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {data.series.map((series, index) => (
+          <div key={series.name} className="rounded-lg border p-4">
+            <p className="text-sm text-gray-500 truncate">{series.name}</p>
+            <p className="text-3xl font-semibold tabular-nums" style={{ color: CHART_COLORS[index % CHART_COLORS.length] }}>
+              {series.values[0] === null ? '—' : kpiFormat.format(series.values[0])}
+            </p>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (type === 'pie') {
+    const slices = data.labels.map((label, index) => ({
+      key: `p${index}`,
+      label,
+      value: data.series[0].values[index],
+      fill: `var(--color-p${index})`,
+    }));
+    const sliceConfig: ChartConfig = Object.fromEntries(slices.map((slice, index) => [
+      slice.key,
+      { label: slice.label, color: CHART_COLORS[index % CHART_COLORS.length] },
+    ]));
+    if (slices.length === 0) {
+      return <p className="py-16 text-center text-sm text-gray-500">No positive values to chart</p>;
+    }
+    return (
+      <ChartContainer config={sliceConfig} className="h-[360px] w-full aspect-auto">
+        <PieChart>
+          <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+          <Pie data={slices} dataKey="value" nameKey="key" outerRadius="80%" isAnimationActive={false} />
+          <ChartLegend content={<ChartLegendContent nameKey="key" />} className="flex-wrap" />
+        </PieChart>
+      </ChartContainer>
+    );
+  }
+
+  if (type === 'scatter') {
+    const positions = data.xValues ?? [];
+    return (
+      <ChartContainer config={config} className="h-[360px] w-full aspect-auto">
+        <ScatterChart>
+          <CartesianGrid />
+          <XAxis
+            type="number"
+            dataKey="x"
+            name={data.spec.x}
+            domain={['auto', 'auto']}
+            tickFormatter={(value: number) => data.xTime ? chartLabel(new Date(value)) : tickFormat.format(value)}
+          />
+          <YAxis type="number" dataKey="y" name={data.series[0]?.name} tickFormatter={(value: number) => tickFormat.format(value)} />
+          <ChartTooltip cursor={{ strokeDasharray: '3 3' }} />
+          <ChartLegend />
+          {data.series.map((series, index) => (
+            <Scatter
+              key={series.name}
+              name={series.name}
+              fill={`var(--color-s${index})`}
+              isAnimationActive={false}
+              data={series.values.flatMap((y, row) => y === null || positions[row] === null ? [] : [{ x: positions[row], y }])}
+            />
+          ))}
+        </ScatterChart>
+      </ChartContainer>
+    );
+  }
+
+  const rows = data.labels.map((label, index) => ({
+    label,
+    ...Object.fromEntries(data.series.map((series, seriesIndex) => [`s${seriesIndex}`, series.values[index]])),
+  }));
+  const axes = [
+    <CartesianGrid key="grid" vertical={false} />,
+    <XAxis key="x" dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />,
+    <YAxis key="y" tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => tickFormat.format(value)} />,
+    <ChartTooltip key="tooltip" content={<ChartTooltipContent />} />,
+    <ChartLegend key="legend" content={<ChartLegendContent />} className="flex-wrap" />,
+  ];
+
+  return (
+    <ChartContainer config={config} className="h-[360px] w-full aspect-auto">
+      {type === 'bar' ? (
+        <BarChart data={rows}>
+          {axes}
+          {data.series.map((series, index) => (
+            <Bar key={series.name} dataKey={`s${index}`} fill={`var(--color-s${index})`} stackId={stackId} isAnimationActive={false} />
+          ))}
+        </BarChart>
+      ) : type === 'area' ? (
+        <AreaChart data={rows}>
+          {axes}
+          {data.series.map((series, index) => (
+            <Area
+              key={series.name}
+              dataKey={`s${index}`}
+              type="monotone"
+              stroke={`var(--color-s${index})`}
+              fill={`var(--color-s${index})`}
+              fillOpacity={0.25}
+              stackId={stackId}
+              isAnimationActive={false}
+            />
+          ))}
+        </AreaChart>
+      ) : (
+        <LineChart data={rows}>
+          {axes}
+          {data.series.map((series, index) => (
+            <Line
+              key={series.name}
+              dataKey={`s${index}`}
+              type="monotone"
+              stroke={`var(--color-s${index})`}
+              strokeWidth={2}
+              dot={rows.length <= 50}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      )}
+    </ChartContainer>
+  );
+}
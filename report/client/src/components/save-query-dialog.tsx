@@ -0,0 +1,203 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { QueryVisibility, SavedQuery } from '@shared/schema';
+
+export const VISIBILITY_LABELS: Record<QueryVisibility, string> = {
+  private: 'Only me',
+  team: 'My team',
+  public: 'Everyone',
+};
+
+const queryDetailsSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().trim(),
+  // Comma-separated
+  tags: z.string(),
+  visibility: z.enum(['private', 'team', 'public']),
+  // Summary recorded with the saved query version
+  message: z.string().trim().max(1000),
+});
+
+export type QueryDetails = z.infer<typeof queryDetailsSchema>;
+
+// Form values for editing an existing saved query
+export function queryDetailsOf(query: Pick<SavedQuery, 'name' | 'description' | 'tags' | 'visibility'>): Partial<QueryDetails> {
+  return {
+    name: query.name,
+    description: query.description ?? '',
+    tags: query.tags.join(', '),
+    visibility: query.visibility,
+  };
+}
+
+// The saved query fields the dialog edits, as the API expects them
+export function queryDetailsPayload(values: QueryDetails) {
+  return {
+    name: values.name,
+    description: values.description || null,
+    tags: Array.from(new Set(values.tags.split(',').map((tag) => tag.trim()).filter(Boolean))),
+    visibility: values.visibility,
+  };
+}
+
+interface SaveQueryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  submitLabel: string;
+  initialValues?: Partial<QueryDetails>;
+  // Ask what changed, for saves that record a new version of an existing query
+  withMessage?: boolean;
+  isPending?: boolean;
+  onSubmit: (values: QueryDetails) => void;
+}
+
+// Name, description, tags and visibility form used when saving, editing or duplicating a query,
+// optionally with a note on what changed
+export function SaveQueryDialog({
+  open,
+  onOpenChange,
+  title,
+  submitLabel,
+  initialValues,
+  withMessage,
+  isPending,
+  onSubmit,
+}: SaveQueryDialogProps) {
+  const form = useForm<QueryDetails>({
+    resolver: zodResolver(queryDetailsSchema),
+    defaultValues: { name: '', description: '', tags: '', visibility: 'private', message: '' },
+  });
+
+  // Start from the given values each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: initialValues?.name ?? '',
+        description: initialValues?.description ?? '',
+        tags: initialValues?.tags ?? '',
+        visibility: initialValues?.visibility ?? 'private',
+        message: initialValues?.message ?? '',
+      });
+    }
+  }, [
+    open,
+    initialValues?.name,
+    initialValues?.description,
+    initialValues?.tags,
+    initialValues?.visibility,
+    initialValues?.message,
+  ]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input autoFocus {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="Optional" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tags</FormLabel>
+                    <FormControl>
+                      <Input placeholder="sales, monthly" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="visibility"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Visible to</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(VISIBILITY_LABELS) as QueryVisibility[]).map((visibility) => (
+                          <SelectItem key={visibility} value={visibility}>
+                            {VISIBILITY_LABELS[visibility]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {withMessage && (
+              <FormField
+                control={form.control}
+                name="message"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>What changed?</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional, shown in the version history" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {submitLabel}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { createContext, type ReactNode, useContext } from "react";
+import { useMutation, type UseMutationResult, useQuery } from "@tanstack/react-query";
+import type { InsertAppUser, LoginCredentials, SessionUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { setActiveConnectionId } from "@/lib/connection";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextType = {
+  user: SessionUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<SessionUser, Error, LoginCredentials>;
+  registerMutation: UseMutationResult<SessionUser, Error, InsertAppUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+// apiRequest errors read "<status>: <json body>"; show just the server's message
+function authErrorMessage(error: Error) {
+  const match = /^\d{3}: ([\s\S]*)$/.exec(error.message);
+  if (!match) return error.message;
+  try {
+    return JSON.parse(match[1]).message || match[1];
+  } catch {
+    return match[1];
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user = null, isLoading } = useQuery<SessionUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginCredentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: authErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (account: InsertAppUser) => {
+      const res = await apiRequest("POST", "/api/register", account);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error) => {
+      toast({
+        title: "Registration failed",
+        description: authErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Nothing cached for the previous user may leak into the next session
+      setActiveConnectionId(null);
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: authErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{ user, isLoading, loginMutation, registerMutation, logoutMutation }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
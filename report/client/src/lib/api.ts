@@ -1,32 +1,29 @@
+import { apiRequest } from './queryClient';
+import type { Column } from '@/types/query';
+
 // Define the API base URL as a constant
 const API_BASE_URL = "https://api-report-builder.honebi.online/";
 
-// Fetches the list of tables from the remote API
+// Schema browsing goes through this server, which only returns what the user's role grants
+
+// Fetches the readable tables, grouped by schema
 export async function fetchTables(): Promise<Record<string, string[]>> {
-  const response = await fetch(`${API_BASE_URL}schemas/tables`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch tables');
-  }
-  console.log(response)
-  const data = await response.json();
-  console.log(data)
-  return data || {};
+  const response = await apiRequest('GET', '/api/schema/tables');
+  const tables: { name: string; schema: string }[] = await response.json();
+  return tables.reduce<Record<string, string[]>>((bySchema, { schema, name }) => {
+    (bySchema[schema] ||= []).push(name);
+    return bySchema;
+  }, {});
 }
 
-// Fetches columns for a given table from the remote API
+// Fetches the readable columns of a table
 export async function fetchTableColumns(schema: string, table: string): Promise<{ column_name: string; data_type: string }[]> {
-  const response = await fetch(`${API_BASE_URL}table/columns`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ schema, table }),
-  });
-  if (!response.ok) {
-    throw new Error('Failed to fetch columns');
-  }
-  // console.log(response)
-  return await response.json();
+  const response = await apiRequest(
+    'GET',
+    `/api/schema/tables/${encodeURIComponent(table)}/columns?schema=${encodeURIComponent(schema)}`,
+  );
+  const columns: Column[] = await response.json();
+  return columns.map((column) => ({ column_name: column.name, data_type: column.type }));
 }
 
 export const fetchSQLFunctions = async (): Promise<string[]> => {
@@ -36,31 +33,3 @@ export const fetchSQLFunctions = async (): Promise<string[]> => {
   }
   return response.json();
 };
-
-interface Aggregation {
-  operation: string;
-  column: string;
-  alias: string;
-}
-
-interface GetDataPayload {
-  schema: string;
-  table: string;
-  aggregations: Aggregation[];
-}
-
-export async function fetchAggregatedData(payload: GetDataPayload): Promise<any> {
-  const response = await fetch(`${API_BASE_URL}get-data`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!response.ok) {
-    throw new Error('Failed to fetch aggregated data');
-  }
-
-  return response.json();
-} 
\ No newline at end of file
@@ -0,0 +1,22 @@
+// The connection this tab queries. Kept in sessionStorage so each tab can work against a
+// different database; the server reads it from the X-Connection-Id header.
+const STORAGE_KEY = "activeConnectionId";
+
+export const CONNECTION_HEADER = "X-Connection-Id";
+
+export function getActiveConnectionId(): string | null {
+  return sessionStorage.getItem(STORAGE_KEY);
+}
+
+export function setActiveConnectionId(connectionId: string | null) {
+  if (connectionId) {
+    sessionStorage.setItem(STORAGE_KEY, connectionId);
+  } else {
+    sessionStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function connectionHeaders(): Record<string, string> {
+  const connectionId = getActiveConnectionId();
+  return connectionId ? { [CONNECTION_HEADER]: connectionId } : {};
+}
@@ -0,0 +1,28 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: ComponentType;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to="/auth" />
+      )}
+    </Route>
+  );
+}
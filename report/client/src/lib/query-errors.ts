@@ -0,0 +1,40 @@
+import type { QueryError, QueryErrorCode } from '@/types/query';
+
+const KNOWN_CODES: QueryErrorCode[] = [
+  'timeout',
+  'row_limit',
+  'permission_denied',
+  'read_only_violation',
+  'query_error',
+];
+
+export const QUERY_ERROR_TITLES: Record<QueryErrorCode, string> = {
+  timeout: 'Query Timed Out',
+  row_limit: 'Too Many Rows',
+  permission_denied: 'Permission Denied',
+  read_only_violation: 'Query Not Allowed',
+  query_error: 'Query Error',
+};
+
+// Builds a QueryError from a server error body ({ message, error, code })
+export function queryErrorFromBody(body: any, fallback = 'Query failed'): QueryError {
+  const code = KNOWN_CODES.includes(body?.code) ? body.code : 'query_error';
+  return {
+    code,
+    message: body?.error || body?.message || fallback,
+  };
+}
+
+// apiRequest throws `Error("<status>: <body>")`; recover the structured error when the body is JSON
+export function parseQueryError(error: unknown): QueryError {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = /^\d{3}: ([\s\S]*)$/.exec(message);
+  if (match) {
+    try {
+      return queryErrorFromBody(JSON.parse(match[1]), message);
+    } catch {
+      return { code: 'query_error', message: match[1] };
+    }
+  }
+  return { code: 'query_error', message };
+}
@@ -1,4 +1,5 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { MutationCache, QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
+import { connectionHeaders } from "./connection";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -14,7 +15,10 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...connectionHeaders(),
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +34,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: connectionHeaders(),
       credentials: "include",
     });
 
@@ -41,7 +46,16 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
+// A 401 from any request means the session has ended; clearing the user sends the app back to login
+function handleUnauthorized(error: Error) {
+  if (error.message.startsWith("401:")) {
+    queryClient.setQueryData(["/api/user"], null);
+  }
+}
+
 export const queryClient = new QueryClient({
+  queryCache: new QueryCache({ onError: handleUnauthorized }),
+  mutationCache: new MutationCache({ onError: handleUnauthorized }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
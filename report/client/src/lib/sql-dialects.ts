@@ -0,0 +1,154 @@
+import type { QueryParam } from '@/types/query';
+
+export type SQLDialectName = 'postgresql' | 'mysql' | 'sqlite' | 'mssql';
+
+export interface SQLDialect {
+  name: SQLDialectName;
+  label: string;
+  quoteIdentifier(identifier: string): string;
+  // Bind placeholder for the 1-based parameter index
+  placeholder(index: number): string;
+  // Escaped literal, only used to show parameter values in the SQL preview
+  literal(value: QueryParam): string;
+  // Case-insensitive pattern match, used for the ILIKE / NOT ILIKE operators
+  caseInsensitiveLike(column: string, pattern: string, negate: boolean): string;
+  dateTrunc(precision: string, expr: string): string;
+  extract(part: string, expr: string): string;
+  length(expr: string): string;
+  // Either a TOP clause for the SELECT list or a trailing clause, depending on the engine
+  paginate(limit?: number, offset?: number, hasOrderBy?: boolean): { top?: string; suffix?: string };
+}
+
+function limitOffset(limit?: number, offset?: number) {
+  const parts: string[] = [];
+  if (limit && limit > 0) parts.push(`LIMIT ${limit}`);
+  if (offset && offset > 0) parts.push(`OFFSET ${offset}`);
+  return { suffix: parts.length > 0 ? parts.join(' ') : undefined };
+}
+
+function standardLiteral(value: QueryParam): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function lowerLike(column: string, pattern: string, negate: boolean) {
+  return `LOWER(${column}) ${negate ? 'NOT LIKE' : 'LIKE'} LOWER(${pattern})`;
+}
+
+export const postgresDialect: SQLDialect = {
+  name: 'postgresql',
+  label: 'PostgreSQL',
+  placeholder: (index) => `$${index}`,
+  literal: standardLiteral,
+  quoteIdentifier: (identifier) => `"${identifier.replace(/"/g, '""')}"`,
+  caseInsensitiveLike: (column, pattern, negate) =>
+    `${column} ${negate ? 'NOT ILIKE' : 'ILIKE'} ${pattern}`,
+  dateTrunc: (precision, expr) => `DATE_TRUNC('${precision}', ${expr})`,
+  extract: (part, expr) => `EXTRACT(${part} FROM ${expr})`,
+  length: (expr) => `LENGTH(${expr})`,
+  paginate: limitOffset,
+};
+
+export const mysqlDialect: SQLDialect = {
+  name: 'mysql',
+  label: 'MySQL',
+  placeholder: () => '?',
+  literal: (value) =>
+    // MySQL also treats backslashes as escapes inside string literals
+    typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'` : standardLiteral(value),
+  quoteIdentifier: (identifier) => `\`${identifier.replace(/`/g, '``')}\``,
+  caseInsensitiveLike: lowerLike,
+  dateTrunc: (precision, expr) => {
+    switch (precision) {
+      case 'year':
+        return `DATE_FORMAT(${expr}, '%Y-01-01')`;
+      case 'month':
+        return `DATE_FORMAT(${expr}, '%Y-%m-01')`;
+      case 'hour':
+        return `DATE_FORMAT(${expr}, '%Y-%m-%d %H:00:00')`;
+      default:
+        return `DATE(${expr})`;
+    }
+  },
+  extract: (part, expr) => `EXTRACT(${part.toUpperCase()} FROM ${expr})`,
+  length: (expr) => `CHAR_LENGTH(${expr})`,
+  // MySQL has no OFFSET without LIMIT, so use the documented "all rows" sentinel
+  paginate: (limit, offset) =>
+    offset && offset > 0 && !(limit && limit > 0)
+      ? { suffix: `LIMIT 18446744073709551615 OFFSET ${offset}` }
+      : limitOffset(limit, offset),
+};
+
+export const sqliteDialect: SQLDialect = {
+  name: 'sqlite',
+  label: 'SQLite',
+  placeholder: (index) => `?${index}`,
+  literal: (value) =>
+    typeof value === 'boolean' ? (value ? '1' : '0') : standardLiteral(value),
+  quoteIdentifier: (identifier) => `"${identifier.replace(/"/g, '""')}"`,
+  caseInsensitiveLike: lowerLike,
+  dateTrunc: (precision, expr) => {
+    switch (precision) {
+      case 'year':
+        return `STRFTIME('%Y-01-01', ${expr})`;
+      case 'month':
+        return `STRFTIME('%Y-%m-01', ${expr})`;
+      case 'hour':
+        return `STRFTIME('%Y-%m-%d %H:00:00', ${expr})`;
+      default:
+        return `DATE(${expr})`;
+    }
+  },
+  extract: (part, expr) => {
+    const formats: Record<string, string> = { year: '%Y', month: '%m', day: '%d', hour: '%H' };
+    return `CAST(STRFTIME('${formats[part.toLowerCase()] || '%Y'}', ${expr}) AS INTEGER)`;
+  },
+  length: (expr) => `LENGTH(${expr})`,
+  paginate: (limit, offset) =>
+    offset && offset > 0 && !(limit && limit > 0)
+      ? { suffix: `LIMIT -1 OFFSET ${offset}` }
+      : limitOffset(limit, offset),
+};
+
+export const mssqlDialect: SQLDialect = {
+  name: 'mssql',
+  label: 'SQL Server',
+  placeholder: (index) => `@p${index}`,
+  literal: (value) =>
+    typeof value === 'boolean'
+      ? (value ? '1' : '0')
+      : typeof value === 'string' ? `N${standardLiteral(value)}` : standardLiteral(value),
+  quoteIdentifier: (identifier) => `[${identifier.replace(/]/g, ']]')}]`,
+  caseInsensitiveLike: lowerLike,
+  dateTrunc: (precision, expr) =>
+    precision === 'day'
+      ? `CAST(${expr} AS DATE)`
+      : `DATEADD(${precision}, DATEDIFF(${precision}, 0, ${expr}), 0)`,
+  extract: (part, expr) => `DATEPART(${part}, ${expr})`,
+  length: (expr) => `LEN(${expr})`,
+  paginate: (limit, offset, hasOrderBy) => {
+    if (!offset || offset <= 0) {
+      return { top: limit && limit > 0 ? `TOP ${limit}` : undefined };
+    }
+    // OFFSET ... FETCH is only valid after an ORDER BY
+    let suffix = hasOrderBy ? '' : 'ORDER BY (SELECT NULL)\n';
+    suffix += `OFFSET ${offset} ROWS`;
+    if (limit && limit > 0) {
+      suffix += ` FETCH NEXT ${limit} ROWS ONLY`;
+    }
+    return { suffix };
+  },
+};
+
+export const SQL_DIALECTS: Record<SQLDialectName, SQLDialect> = {
+  postgresql: postgresDialect,
+  mysql: mysqlDialect,
+  sqlite: sqliteDialect,
+  mssql: mssqlDialect,
+};
+
+export function getDialect(name?: string | null): SQLDialect {
+  return (name && SQL_DIALECTS[name as SQLDialectName]) || postgresDialect;
+}
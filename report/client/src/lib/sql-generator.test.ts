@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { QueryCondition, QueryConfig } from "@/types/query";
+import { mysqlDialect } from "./sql-dialects";
+import { SQLGenerator } from "./sql-generator";
+
+function config(conditions: Array<Omit<QueryCondition, "id">>, overrides: Partial<QueryConfig> = {}): QueryConfig {
+  return {
+    selectedTables: [{ tableName: "people", schema: "public", alias: "" }],
+    selectedColumns: [],
+    conditions: conditions.map((condition, index) => ({ id: String(index), ...condition })),
+    joins: [],
+    groupBy: [],
+    orderBy: [],
+    distinct: false,
+    ...overrides,
+  };
+}
+
+describe("SQLGenerator.generateSQL", () => {
+  it("binds condition values instead of writing them into the SQL", () => {
+    const query = SQLGenerator.generateSQL(config([
+      { column: "people.name", operator: "=", value: "x' OR '1'='1" },
+      { column: "people.id", operator: ">", value: "10", logicalOperator: "AND" },
+    ]));
+    expect(query.text).toBe('SELECT *\nFROM "public"."people"\nWHERE "people"."name" = $1 AND "people"."id" > $2');
+    expect(query.params).toEqual(["x' OR '1'='1", 10]);
+  });
+
+  it("keeps codes that are not canonical numbers as text and drops typed quotes", () => {
+    const query = SQLGenerator.generateSQL(config([
+      { column: "zip", operator: "=", value: "00123" },
+      { column: "name", operator: "=", value: "'O''Brien'", logicalOperator: "OR" },
+      { column: "score", operator: "=", value: "1e3", logicalOperator: "OR" },
+    ]));
+    expect(query.params).toEqual(["00123", "O'Brien", "1e3"]);
+  });
+
+  it("binds each item of IN lists and both ends of BETWEEN", () => {
+    const query = SQLGenerator.generateSQL(config([
+      { column: "city", operator: "IN", value: "('Paris', 'a,b', 3)" },
+      { column: "age", operator: "BETWEEN", value: "18 and 65", logicalOperator: "AND" },
+      { column: "email", operator: "IS NULL", value: "ignored", logicalOperator: "AND" },
+    ]));
+    expect(query.text).toContain('WHERE "city" IN ($1, $2, $3) AND "age" BETWEEN $4 AND $5 AND "email" IS NULL');
+    expect(query.params).toEqual(["Paris", "a,b", 3, 18, 65]);
+  });
+
+  it("compares LIKE patterns as text", () => {
+    const query = SQLGenerator.generateSQL(config([{ column: "code", operator: "LIKE", value: "12%" }]));
+    expect(query.params).toEqual(["12%"]);
+  });
+
+  it("refers to named parameters", () => {
+    const query = SQLGenerator.generateSQL(config([{ column: "created_at", operator: ">=", value: "{{since}}" }]));
+    expect(query.params).toEqual([{ parameter: "since" }]);
+    expect(SQLGenerator.generatePreviewSQL(config([{ column: "created_at", operator: ">=", value: "{{since}}" }])))
+      .toContain('"created_at" >= :since');
+  });
+
+  it("uses the dialect's placeholders and identifier quoting", () => {
+    const query = SQLGenerator.generateSQL(config(
+      [{ column: "people.name", operator: "ILIKE", value: "ann%" }],
+      { selectedColumns: [{ id: "1", schema: "public", tableName: "people", columnName: "na`me", alias: 'x"y' }] },
+    ), mysqlDialect);
+    expect(query.text).toBe(
+      "SELECT\n  `people`.`na``me` AS `x\"y`\nFROM `public`.`people`\nWHERE LOWER(`people`.`name`) LIKE LOWER(?)",
+    );
+    expect(query.params).toEqual(["ann%"]);
+  });
+
+  it("generates SQL the read-only validator accepts", () => {
+    const query = SQLGenerator.generateSQL(config([{ column: "name", operator: "=", value: "'; DROP TABLE people; --" }]));
+    expect(SQLGenerator.validateSQL(query.text).isValid).toBe(true);
+  });
+});
+
+describe("SQLGenerator.generatePreviewSQL", () => {
+  it("escapes inlined literals for the dialect", () => {
+    const conditions = [{ column: "name", operator: "=", value: "it's \\" }];
+    expect(SQLGenerator.generatePreviewSQL(config(conditions))).toContain(`"name" = 'it''s \\'`);
+    expect(SQLGenerator.generatePreviewSQL(config(conditions), mysqlDialect)).toContain("`name` = 'it''s \\\\'");
+  });
+});
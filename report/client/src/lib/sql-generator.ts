@@ -1,40 +1,151 @@
-import type { QueryConfig, SelectedColumn, QueryCondition, QueryJoin } from '@/types/query';
+import type { QueryConfig, SelectedColumn, QueryCondition, QueryJoin, BoundValue, ParameterizedQuery } from '@/types/query';
+import { postgresDialect, type SQLDialect } from '@/lib/sql-dialects';
+import { sqlDialectOptions, validateReadOnlySQL } from '@shared/sql-validator';
+import { isParameterReference, parameterReference, type QueryParameter } from '@shared/query-parameters';
 
 export class SQLGenerator {
-  static generateSQL(config: QueryConfig): string {
+  // Quotes each part of a dotted reference such as `schema.table.column`
+  static quoteQualified(name: string, dialect: SQLDialect = postgresDialect): string {
+    return name
+      .split('.')
+      .map(part => (part === '*' ? part : dialect.quoteIdentifier(part)))
+      .join('.');
+  }
+
+  // Strips one pair of surrounding single quotes, as users often type them by habit
+  static unquote(value: string): string {
+    if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+    return value;
+  }
+
+  // Turns a raw condition value into a bind parameter: `{{name}}` refers to a named parameter,
+  // canonical numbers stay numbers, everything else (including zero-padded codes like `00123`) is text
+  static parseValue(raw: string): BoundValue {
+    const value = raw.trim();
+    const parameter = parameterReference(value);
+    if (parameter) {
+      return { parameter };
+    }
+    if (value !== '' && String(Number(value)) === value) {
+      return Number(value);
+    }
+    return SQLGenerator.unquote(value);
+  }
+
+  // Splits an IN list such as `(1, 'a,b', 3)` on commas outside of quotes
+  static splitList(raw: string): string[] {
+    let value = raw.trim();
+    if (value.startsWith('(') && value.endsWith(')')) {
+      value = value.slice(1, -1);
+    }
+
+    const items: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    for (const char of value) {
+      if (char === "'") {
+        inQuotes = !inQuotes;
+      }
+      if (char === ',' && !inQuotes) {
+        items.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    items.push(current);
+
+    return items.map(item => item.trim()).filter(item => item !== '');
+  }
+
+  static generateSQL(config: QueryConfig, dialect: SQLDialect = postgresDialect): ParameterizedQuery {
+    const params: BoundValue[] = [];
+    const text = SQLGenerator.buildSQL(config, dialect, (value) => {
+      params.push(value);
+      return dialect.placeholder(params.length);
+    });
+    return { text, params };
+  }
+
+  // Human-readable SQL for the preview panel, with every value inlined as an escaped literal and
+  // named parameters shown as `:name`
+  static generatePreviewSQL(config: QueryConfig, dialect: SQLDialect = postgresDialect): string {
+    return SQLGenerator.buildSQL(config, dialect, (value) =>
+      isParameterReference(value) ? `:${value.parameter}` : dialect.literal(value));
+  }
+
+  // Names of the parameters referenced by condition values, in order of first use
+  static referencedParameters(config: QueryConfig): string[] {
+    const names: string[] = [];
+    for (const condition of config.conditions) {
+      if (condition.operator === 'IS NULL' || condition.operator === 'IS NOT NULL') {
+        continue;
+      }
+      const values = condition.operator === 'IN' || condition.operator === 'NOT IN'
+        ? SQLGenerator.splitList(condition.value)
+        : condition.operator === 'BETWEEN' || condition.operator === 'NOT BETWEEN'
+          ? condition.value.split(/\s+AND\s+/i)
+          : [condition.value];
+      for (const value of values) {
+        const name = parameterReference(value);
+        if (name && !names.includes(name)) {
+          names.push(name);
+        }
+      }
+    }
+    return names;
+  }
+
+  // Definitions of the referenced parameters; ones not defined yet are required text
+  static parameterDefinitions(config: QueryConfig): QueryParameter[] {
+    return SQLGenerator.referencedParameters(config).map((name) =>
+      config.parameters?.find((parameter) => parameter.name === name) ?? { name, type: 'text', required: true });
+  }
+
+  private static buildSQL(config: QueryConfig, dialect: SQLDialect, bind: (value: BoundValue) => string): string {
     const parts: string[] = [];
+    const quote = (name: string) => SQLGenerator.quoteQualified(name, dialect);
+    const hasOrderBy = config.orderBy.some(order => order.column && order.column.trim() !== '');
+    const pagination = dialect.paginate(config.limit, config.offset, hasOrderBy);
 
     // SELECT clause
     let selectClause = 'SELECT';
     if (config.distinct) {
       selectClause += ' DISTINCT';
     }
+    if (pagination.top) {
+      selectClause += ` ${pagination.top}`;
+    }
 
     if (config.selectedColumns.length === 0) {
       selectClause += ' *';
     } else {
       const columnsList = config.selectedColumns.map(col => {
-        let columnExpr = `${col.tableName}.${col.columnName}`;
+        let columnExpr = `${quote(col.tableName)}.${quote(col.columnName)}`;
         
         // Apply function if specified
         if (col.function) {
           switch (col.function) {
             case 'DATE_TRUNC':
-              columnExpr = `DATE_TRUNC('day', ${columnExpr})`;
+              columnExpr = dialect.dateTrunc('day', columnExpr);
               break;
             case 'EXTRACT':
-              columnExpr = `EXTRACT(year FROM ${columnExpr})`;
+              columnExpr = dialect.extract('year', columnExpr);
               break;
             case 'COUNT':
               columnExpr = col.columnName === '*' ? 'COUNT(*)' : `COUNT(${columnExpr})`;
               break;
+            case 'LENGTH':
+              columnExpr = dialect.length(columnExpr);
+              break;
             case 'SUM':
             case 'AVG':
             case 'MIN':
             case 'MAX':
             case 'UPPER':
             case 'LOWER':
-            case 'LENGTH':
               columnExpr = `${col.function}(${columnExpr})`;
               break;
           }
@@ -42,7 +153,7 @@ export class SQLGenerator {
 
         // Add alias if specified
         if (col.alias) {
-          columnExpr += ` AS ${col.alias}`;
+          columnExpr += ` AS ${dialect.quoteIdentifier(col.alias)}`;
         }
 
         return columnExpr;
@@ -51,26 +162,30 @@ export class SQLGenerator {
     }
     parts.push(selectClause);
 
-    // FROM clause
+    // FROM clause; tables are schema-qualified so that ones outside the default schema resolve
+    const qualifiedTable = (table: QueryConfig['selectedTables'][number]) =>
+      quote(table.schema ? `${table.schema}.${table.tableName}` : table.tableName);
     if (config.selectedTables.length > 0) {
       const table = config.selectedTables[0];
-      parts.push(`FROM ${table.tableName}`);
+      parts.push(`FROM ${qualifiedTable(table)}`);
       
-      // Add additional tables as INNER JOINs if no explicit joins are defined
+      // Add additional tables as CROSS JOINs if no explicit joins are defined
       if (config.selectedTables.length > 1 && config.joins.length === 0) {
         for (let i = 1; i < config.selectedTables.length; i++) {
-          parts.push(`CROSS JOIN ${config.selectedTables[i]}`);
+          parts.push(`CROSS JOIN ${qualifiedTable(config.selectedTables[i])}`);
         }
       }
     }
 
     // JOIN clauses
     config.joins.forEach(join => {
-      let joinClause = `${join.type} JOIN ${join.rightTable} ON ${join.leftTable}.${join.leftColumn} = ${join.rightTable}.${join.rightColumn}`;
+      const leftTable = quote(join.leftTable);
+      const rightTable = quote(join.rightTable);
+      let joinClause = `${join.type} JOIN ${rightTable} ON ${leftTable}.${quote(join.leftColumn)} = ${rightTable}.${quote(join.rightColumn)}`;
       // Add additional ON conditions if they exist
       if (join.additionalConditions && join.additionalConditions.length > 0) {
         joinClause += join.additionalConditions
-          .map(condition => ` AND ${join.leftTable}.${condition.leftColumn} = ${join.rightTable}.${condition.rightColumn}`)
+          .map(condition => ` AND ${leftTable}.${quote(condition.leftColumn)} = ${rightTable}.${quote(condition.rightColumn)}`)
           .join('');
       }
       parts.push(joinClause);
@@ -86,26 +201,28 @@ export class SQLGenerator {
           conditionStr += `${condition.logicalOperator} `;
         }
 
-        // Build the condition
-        let value = condition.value;
+        // Build the condition; values are always bound, never spliced into the SQL
+        const column = quote(condition.column);
+        let value = '';
         if (condition.operator === 'IN' || condition.operator === 'NOT IN') {
-          // Ensure IN values are properly formatted
-          if (!value.startsWith('(')) {
-            value = `(${value})`;
-          }
-        } else if (condition.operator === 'LIKE' || condition.operator === 'ILIKE') {
-          // Ensure LIKE values are quoted
-          if (!value.startsWith("'")) {
-            value = `'${value}'`;
-          }
-        } else if (condition.operator === 'IS NULL' || condition.operator === 'IS NOT NULL') {
-          value = '';
-        } else if (isNaN(Number(value)) && !value.startsWith("'")) {
-          // Quote non-numeric values
-          value = `'${value}'`;
+          const items = SQLGenerator.splitList(condition.value).map(SQLGenerator.parseValue);
+          value = `(${items.map(bind).join(', ')})`;
+        } else if (condition.operator === 'BETWEEN' || condition.operator === 'NOT BETWEEN') {
+          const [low, high = ''] = condition.value.split(/\s+AND\s+/i);
+          value = `${bind(SQLGenerator.parseValue(low))} AND ${bind(SQLGenerator.parseValue(high))}`;
+        } else if (condition.operator.includes('LIKE')) {
+          // Patterns are always compared as text
+          const parameter = parameterReference(condition.value);
+          value = bind(parameter ? { parameter } : SQLGenerator.unquote(condition.value.trim()));
+        } else if (condition.operator !== 'IS NULL' && condition.operator !== 'IS NOT NULL') {
+          value = bind(SQLGenerator.parseValue(condition.value));
         }
 
-        conditionStr += `${condition.column} ${condition.operator}`;
+        if (condition.operator === 'ILIKE' || condition.operator === 'NOT ILIKE') {
+          return conditionStr + dialect.caseInsensitiveLike(column, value, condition.operator === 'NOT ILIKE');
+        }
+
+        conditionStr += `${column} ${condition.operator}`;
         if (value) {
           conditionStr += ` ${value}`;
         }
@@ -118,59 +235,32 @@ export class SQLGenerator {
 
     // GROUP BY clause
     if (config.groupBy.length > 0) {
-      parts.push('GROUP BY ' + config.groupBy.join(', '));
+      parts.push('GROUP BY ' + config.groupBy.map(quote).join(', '));
     }
 
     // ORDER BY clause
-    if (config.orderBy.length > 0) {
+    if (hasOrderBy) {
       const orderList = config.orderBy
         .filter(order => order.column && order.column.trim() !== '')
-        .map(order => `${order.column} ${order.direction}`);
-      if (orderList.length > 0) {
-        parts.push('ORDER BY ' + orderList.join(', '));
-      }
+        .map(order => `${quote(order.column)} ${order.direction}`);
+      parts.push('ORDER BY ' + orderList.join(', '));
     }
 
-    // LIMIT clause
-    if (config.limit && config.limit > 0) {
-      parts.push(`LIMIT ${config.limit}`);
+    // LIMIT / OFFSET clause
+    if (pagination.suffix) {
+      parts.push(pagination.suffix);
     }
 
     return parts.join('\n');
   }
 
-  static validateSQL(sql: string): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    const normalizedSql = sql.trim().toLowerCase();
-
-    // Basic validation
-    if (!normalizedSql.startsWith('select')) {
-      errors.push('Query must start with SELECT');
-    }
-
-    if (!normalizedSql.includes('from')) {
-      errors.push('Query must include FROM clause');
-    }
-
-    // Check for balanced parentheses
-    const openParens = (sql.match(/\(/g) || []).length;
-    const closeParens = (sql.match(/\)/g) || []).length;
-    if (openParens !== closeParens) {
-      errors.push('Unbalanced parentheses in query');
-    }
-
-    // Check for dangerous keywords
-    const dangerousKeywords = ['drop', 'delete', 'update', 'insert', 'alter', 'create', 'truncate'];
-    const hasDangerousKeywords = dangerousKeywords.some(keyword => 
-      normalizedSql.includes(keyword)
-    );
-    if (hasDangerousKeywords) {
-      errors.push('Query contains restricted keywords');
-    }
+  static validateSQL(sql: string, dialect: SQLDialect = postgresDialect): { isValid: boolean; errors: string[] } {
+    // Same tokenizer/parser the server uses to enforce read-only queries
+    const result = validateReadOnlySQL(sql, sqlDialectOptions(dialect.name));
 
     return {
-      isValid: errors.length === 0,
-      errors
+      isValid: result.isValid,
+      errors: result.error ? [result.error.message] : []
     };
   }
 }
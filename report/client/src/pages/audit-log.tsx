@@ -0,0 +1,308 @@
+import { Fragment, useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, RefreshCw, Search, ShieldAlert } from "lucide-react";
+import type { AuditAction, AuditEvent } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/hooks/use-auth";
+
+const PAGE_SIZE = 50;
+
+const ACTIONS: AuditAction[] = ["execute", "export", "save", "delete"];
+
+interface AuditFilters {
+  username: string;
+  action: AuditAction | "all";
+  status: "all" | "success" | "failure";
+  search: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  username: "",
+  action: "all",
+  status: "all",
+  search: "",
+  from: "",
+  to: "",
+};
+
+// Serialized dates arrive as strings
+type AuditEventRow = Omit<AuditEvent, "createdAt"> & { createdAt: string };
+
+// Query string understood by /api/audit-events and its export
+function toSearchParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.username.trim()) params.set("username", filters.username.trim());
+  if (filters.action !== "all") params.set("action", filters.action);
+  if (filters.status !== "all") params.set("success", String(filters.status === "success"));
+  if (filters.search.trim()) params.set("search", filters.search.trim());
+  // Date inputs give local calendar days; include the whole of the last one
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+export default function AuditLog() {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [offset, setOffset] = useState(0);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const searchParams = toSearchParams(filters);
+  const pageParams = new URLSearchParams(searchParams);
+  pageParams.set("limit", String(PAGE_SIZE));
+  pageParams.set("offset", String(offset));
+
+  const { data, isLoading, isFetching, refetch } = useQuery<{ events: AuditEventRow[]; total: number }>({
+    queryKey: [`/api/audit-events?${pageParams}`],
+    enabled: !!user?.isAdmin,
+    staleTime: 0,
+  });
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    setFilters(draft);
+    setOffset(0);
+  };
+
+  const exportUrl = (format: "csv" | "jsonl") => {
+    const params = new URLSearchParams(searchParams);
+    params.set("format", format);
+    return `/api/audit-events/export?${params}`;
+  };
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center space-y-3">
+          <ShieldAlert className="h-8 w-8 text-gray-400 mx-auto" />
+          <p className="text-gray-600">The audit log is only available to administrators.</p>
+          <Link href="/" className="text-sm text-primary hover:underline">
+            Back to the query builder
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const total = data?.total ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Query Builder
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-semibold text-gray-800">Audit Log</h1>
+          </div>
+          <div className="flex items-center space-x-3">
+            <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <a href={exportUrl("csv")} download>
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </a>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <a href={exportUrl("jsonl")} download>
+                <Download className="h-4 w-4 mr-2" />
+                JSON Lines
+              </a>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="p-6 space-y-4">
+        <form onSubmit={handleSearch} className="bg-white border border-gray-200 rounded-lg p-4 grid grid-cols-6 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="audit-username">User</Label>
+            <Input
+              id="audit-username"
+              value={draft.username}
+              onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={draft.action} onValueChange={(value) => setDraft({ ...draft, action: value as AuditFilters["action"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {ACTIONS.map((action) => (
+                  <SelectItem key={action} value={action} className="capitalize">
+                    {action}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={draft.status} onValueChange={(value) => setDraft({ ...draft, status: value as AuditFilters["status"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any status</SelectItem>
+                <SelectItem value="success">Succeeded</SelectItem>
+                <SelectItem value="failure">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              value={draft.from}
+              onChange={(e) => setDraft({ ...draft, from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              value={draft.to}
+              onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-search">SQL contains</Label>
+            <div className="flex gap-2">
+              <Input
+                id="audit-search"
+                value={draft.search}
+                onChange={(e) => setDraft({ ...draft, search: e.target.value })}
+              />
+              <Button type="submit" size="icon" title="Search">
+                <Search className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </form>
+
+        <div className="bg-white border border-gray-200 rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Connection</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+                <TableHead>Client IP</TableHead>
+                <TableHead>SQL</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-gray-500 py-8">
+                    Loading audit events...
+                  </TableCell>
+                </TableRow>
+              ) : !data || data.events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-gray-500 py-8">
+                    No audit events match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data.events.map((event) => (
+                  <Fragment key={event.id}>
+                    <TableRow
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpandedId(expandedId === event.id ? null : event.id)}
+                    >
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {new Date(event.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm">{event.username ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className="capitalize">{event.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{event.connectionId ?? "sample"}</TableCell>
+                      <TableCell>
+                        {event.success ? (
+                          <Badge variant="outline" className="text-green-700 border-green-200">OK</Badge>
+                        ) : (
+                          <Badge variant="destructive">Failed</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">{event.durationMs} ms</TableCell>
+                      <TableCell className="text-right text-sm">{event.rowCount ?? "—"}</TableCell>
+                      <TableCell className="text-sm">{event.clientIp ?? "—"}</TableCell>
+                      <TableCell className="font-mono text-xs max-w-md truncate">{event.sqlText}</TableCell>
+                    </TableRow>
+                    {expandedId === event.id && (
+                      <TableRow className="bg-gray-50">
+                        <TableCell colSpan={9} className="space-y-2">
+                          {event.error && <p className="text-sm text-red-600">{event.error}</p>}
+                          {event.sqlText && (
+                            <pre className="font-mono text-xs whitespace-pre-wrap bg-white border rounded p-2">{event.sqlText}</pre>
+                          )}
+                          {Array.isArray(event.params) && event.params.length > 0 && (
+                            <p className="font-mono text-xs text-gray-600">Parameters: {JSON.stringify(event.params)}</p>
+                          )}
+                          {event.savedQueryId !== null && (
+                            <p className="text-xs text-gray-600">Saved query #{event.savedQueryId}</p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-end gap-3 py-2 pr-4 border-t">
+            <span className="text-sm text-gray-600">
+              {total === 0
+                ? "0 events"
+                : `${(offset + 1).toLocaleString()}–${Math.min(offset + PAGE_SIZE, total).toLocaleString()} of ${total.toLocaleString()}`}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              disabled={offset === 0}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { Redirect } from "wouter";
+import { Database, Loader2 } from "lucide-react";
+import {
+  insertAppUserSchema,
+  loginSchema,
+  type InsertAppUser,
+  type LoginCredentials,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useAuth } from "@/hooks/use-auth";
+
+function LoginForm() {
+  const { loginMutation } = useAuth();
+  const form = useForm<LoginCredentials>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => loginMutation.mutate(values))}
+        className="space-y-4"
+      >
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+          {loginMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Sign In
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function RegisterForm() {
+  const { registerMutation } = useAuth();
+  const form = useForm<InsertAppUser>({
+    resolver: zodResolver(insertAppUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit((values) => registerMutation.mutate(values))}
+        className="space-y-4"
+      >
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+          {registerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Create Account
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user } = useAuth();
+  const { data: authConfig } = useQuery<{ registrationOpen: boolean }>({
+    queryKey: ["/api/auth/config"],
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5" />
+            Visual Query Builder
+          </CardTitle>
+          <CardDescription>Sign in to build and run queries</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {authConfig?.registrationOpen ? (
+            <Tabs defaultValue="login">
+              <TabsList className="grid w-full grid-cols-2 mb-4">
+                <TabsTrigger value="login">Sign In</TabsTrigger>
+                <TabsTrigger value="register">Create Account</TabsTrigger>
+              </TabsList>
+              <TabsContent value="login">
+                <LoginForm />
+              </TabsContent>
+              <TabsContent value="register">
+                <RegisterForm />
+              </TabsContent>
+            </Tabs>
+          ) : (
+            <LoginForm />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
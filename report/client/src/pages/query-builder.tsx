@@ -2,20 +2,35 @@ import { useState, useEffect, useRef } from "react";
 import { DndProvider } from "react-dnd";
 import { HTML5Backend } from "react-dnd-html5-backend";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Play, Save, History, Copy } from "lucide-react";
+import { Play, Save, History, Copy, LogOut, ScrollText, FolderOpen, CopyPlus, GitBranch, Braces } from "lucide-react";
+import { Link, useLocation, useSearch } from "wouter";
+import type { SavedQuery } from "@shared/schema";
+import type { ParameterValues } from "@shared/query-parameters";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { DatabaseSchema } from "@/components/database-schema";
 import { QueryCanvas } from "@/components/query-canvas";
 import { QueryResults } from "@/components/query-results";
+import { QueryHistory } from "@/components/query-history";
+import { SaveQueryDialog, queryDetailsOf, queryDetailsPayload, type QueryDetails } from "@/components/save-query-dialog";
+import { QueryVersions } from "@/components/query-versions";
+import { ParameterEditor, ParameterPrompt, parameterValuesFromSearch } from "@/components/query-parameters";
 import { QueryConfiguration } from "@/components/query-configuration";
 import { SubqueryBuilder } from "@/components/subquery-builder";
 import { DatabaseConnection } from "@/components/database-connection";
 import { SQLGenerator } from "@/lib/sql-generator";
+import { getDialect } from "@/lib/sql-dialects";
 import { apiRequest } from "@/lib/queryClient";
-import type { QueryConfig, QueryResult } from "@/types/query";
-import { fetchTables, fetchAggregatedData } from "@/lib/api";
+import { parseQueryError, QUERY_ERROR_TITLES } from "@/lib/query-errors";
+import type {
+  ParameterizedQuery,
+  QueryConfig,
+  QueryError,
+  QueryResult,
+} from "@/types/query";
+import { fetchTables } from "@/lib/api";
 import React from "react";
 import {
   Select,
@@ -34,42 +49,122 @@ import {
 } from "@/components/ui/dialog";
 import { alias } from "drizzle-orm/mysql-core";
 
+const RESULTS_PAGE_SIZE = 20;
+
+const EMPTY_QUERY_CONFIG: QueryConfig = {
+  selectedTables: [],
+  selectedColumns: [],
+  conditions: [],
+  joins: [],
+  groupBy: [],
+  orderBy: [],
+  distinct: false,
+  logicalOperator: "AND",
+};
+
+// Saved queries store their QueryConfig as JSON; fields added since a query was saved get defaults
+function parseStoredConfig(json: string): QueryConfig {
+  const parsed = JSON.parse(json);
+  if (!parsed || typeof parsed !== "object" || !Array.isArray(parsed.selectedTables)) {
+    throw new Error("The stored query configuration is not valid");
+  }
+  return { ...EMPTY_QUERY_CONFIG, ...parsed };
+}
+
 export default function QueryBuilder() {
-  const [queryConfig, setQueryConfig] = useState<QueryConfig>({
-    selectedTables: [],
-    selectedColumns: [],
-    conditions: [],
-    joins: [],
-    groupBy: [],
-    orderBy: [],
-    distinct: false,
-    logicalOperator: "AND",
-  });
+  const [queryConfig, setQueryConfig] = useState<QueryConfig>(EMPTY_QUERY_CONFIG);
 
   const [generatedSQL, setGeneratedSQL] = useState("");
+  const [generatedQuery, setGeneratedQuery] = useState<ParameterizedQuery>({
+    text: "",
+    params: [],
+  });
   const [queryResults, setQueryResults] = useState<QueryResult | null>(null);
+  const [queryError, setQueryError] = useState<QueryError | null>(null);
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
   const queryClient = useQueryClient();
   const resultsRef = useRef<HTMLDivElement>(null);
   const [showResultsDialog, setShowResultsDialog] = useState(false);
   const [resultsPage, setResultsPage] = useState(1);
+  const [showHistory, setShowHistory] = useState(false);
+  // The saved query open in the builder, which "Save" updates in place
+  const [loadedQuery, setLoadedQuery] = useState<SavedQuery | null>(null);
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [showUpdateDialog, setShowUpdateDialog] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  const [showParameterEditor, setShowParameterEditor] = useState(false);
+  // Values of the named parameters the results were fetched with, reused for further pages
+  const [parameterValues, setParameterValues] = useState<ParameterValues>({});
+  // Configuration waiting for parameter values before it runs
+  const [promptConfig, setPromptConfig] = useState<QueryConfig | null>(null);
+  const [, navigate] = useLocation();
+  const search = new URLSearchParams(useSearch());
+  const openQueryId = search.get("query");
+
+  // The library opens a query with /?query=<id>; report links add `p.<name>=<value>` to run it
+  useEffect(() => {
+    const linkValues = parameterValuesFromSearch(search);
+    const id = openQueryId ? parseInt(openQueryId) : NaN;
+    if (Number.isNaN(id) || loadedQuery?.id === id) {
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await apiRequest("GET", `/api/queries/${id}`);
+        const savedQuery: SavedQuery = await response.json();
+        const config = parseStoredConfig(savedQuery.queryConfig);
+        if (cancelled) return;
+        setQueryConfig(config);
+        setLoadedQuery(savedQuery);
+        setQueryResults(null);
+        setQueryError(null);
+        toast({
+          title: "Query Opened",
+          description: savedQuery.name,
+        });
+        if (Object.keys(linkValues).length > 0) {
+          handleExecuteQuery(config, linkValues);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        toast({
+          title: "Open Error",
+          description: error instanceof Error ? error.message : "Failed to open the query",
+          variant: "destructive",
+        });
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [openQueryId]);
 
   // Fetch available tables for subquery builder
-  const { data: tables = [], isLoading } = useQuery({
-    queryKey: ["remote/tables"],
+  const { data: tables = {}, isLoading } = useQuery({
+    queryKey: ["/api/schema/tables"],
     queryFn: fetchTables,
     staleTime: Infinity,
   });
 
+  // The SQL dialect follows whichever database is currently connected
+  const { data: databaseStatus } = useQuery<{ connected: boolean; type: string }>({
+    queryKey: ["/api/database/status"],
+  });
+  const dialect = getDialect(databaseStatus?.type);
+
   // Update SQL when config changes
   useEffect(() => {
     if (queryConfig.selectedTables.length > 0) {
-      const sql = SQLGenerator.generateSQL(queryConfig);
-      setGeneratedSQL(sql);
+      setGeneratedQuery(SQLGenerator.generateSQL(queryConfig, dialect));
+      setGeneratedSQL(SQLGenerator.generatePreviewSQL(queryConfig, dialect));
     } else {
+      setGeneratedQuery({ text: "", params: [] });
       setGeneratedSQL("");
     }
-  }, [queryConfig]);
+  }, [queryConfig, dialect]);
 
   // Handle adding multiple tables to query
   const handleTablesAdd = (tableItems: { schema: string; table: string }[]) => {
@@ -153,131 +248,40 @@ export default function QueryBuilder() {
     });
   };
 
-  const getTableAlias = (schema: string, table: string): string => {
-    const match = queryConfig.selectedTables.find(
-      (t) => t.schema === schema && t.tableName === table
-    );
-    return match?.alias?.trim() || `${schema}.${table}`;
-  };
-
   const executeQueryMutation = useMutation({
-    mutationFn: async (page: number) => {
-      const columns = queryConfig.selectedColumns
-        .filter((col) => !col.function)
-        .map((col) => {
-          const aliasOrTable = getTableAlias(col.schema, col.tableName);
-          const columnRef = `${aliasOrTable}.${col.columnName}`;
-          return col.alias?.trim()
-            ? { column: columnRef, alias: col.alias.trim() }
-            : columnRef;
-        });
-      const joins = queryConfig.joins.map((join) => {
-        // Parse fully qualified table strings into schema and tableName
-        const [leftSchema, leftTable] = join.leftTable.split(".");
-        const [rightSchema, rightTable] = join.rightTable.split(".");
-
-        const rightAlias = getTableAlias(rightSchema, rightTable);
-        const leftAlias = getTableAlias(leftSchema, leftTable);
-        return {
-          schema: rightSchema || "public",
-          table: rightTable,
-          alias:
-            queryConfig.selectedTables
-              .find(
-                (t) => t.schema === rightSchema && t.tableName === rightTable
-              )
-              ?.alias?.trim() || undefined,
-          type: join.type,
-          on: [
-            [
-              `${leftAlias}.${join.leftColumn}`,
-              `${rightAlias}.${join.rightColumn}`,
-            ],
-            ...(join.additionalConditions || []).map((cond) => [
-              `${leftAlias}.${cond.leftColumn}`,
-              `${rightAlias}.${cond.rightColumn}`,
-            ]),
-          ],
-        };
-      });
-
-      const aggregations = queryConfig.selectedColumns
-        .filter((col) => !!col.function)
-        .map((col) => ({
-          operation: col.function as string,
-          column: `${getTableAlias(col.schema, col.tableName)}.${
-            col.columnName
-          }`,
-          alias: col.alias || col.columnName,
-        }));
-
-      const group_by = queryConfig.groupBy.map((colPath) => {
-        const [schema, table, column] = colPath.split(".");
-        const alias = getTableAlias(schema, table);
-        const fullCol = `${alias}.${column}`;
-        const matching = queryConfig.selectedColumns.find(
-          (c) => `${c.schema}.${c.tableName}.${c.columnName}` === colPath
-        );
-
-        return matching?.alias
-          ? { column: fullCol, alias: matching.alias }
-          : fullCol;
-      });
-
-      const filters = queryConfig.conditions.map((cond) => {
-        const [schema, table, column] = cond.column.split(".");
-        const alias = getTableAlias(schema, table);
-        return {
-          column: `${alias}.${column}`,
-          op: cond.operator,
-          value: cond.value,
-        };
-      });
-
-      const order_by = queryConfig.orderBy.map((order) => {
-        const [schema, table, column] = order.column.split(".");
-        const alias = getTableAlias(schema, table);
-        const fullCol = `${alias}.${column}`;
-        const matching = queryConfig.selectedColumns.find(
-          (col) =>
-            `${col.schema}.${col.tableName}.${col.columnName}` === order.column
-        );
-
-        const base = {
-          column: fullCol,
-          dir: order.direction.toLowerCase(),
-        };
-
-        return matching?.alias ? { ...base, alias: matching.alias } : base;
-      });
+    mutationFn: async ({ page, config, values }: {
+      page: number;
+      config: QueryConfig;
+      values: ParameterValues;
+    }): Promise<QueryResult> => {
+      // Fetch one page at a time, staying within the query's own LIMIT/OFFSET if it has one
+      const pageOffset = (page - 1) * RESULTS_PAGE_SIZE;
+      const remaining = config.limit ? config.limit - pageOffset : RESULTS_PAGE_SIZE;
+      if (remaining <= 0) {
+        return { columns: queryResults?.columns ?? [], rows: [] };
+      }
 
-      const payload = {
-        schema: queryConfig.selectedTables[0].schema,
-        table: queryConfig.selectedTables[0].tableName,
-        base_alias: queryConfig.selectedTables[0].alias?.trim() || undefined,
-        columns,
-        joins,
-        aggregations,
-        group_by: group_by,
-        filters: {
-          logical_op: queryConfig.logicalOperator,
-          conditions: filters,
+      const query = SQLGenerator.generateSQL(
+        {
+          ...config,
+          limit: Math.min(RESULTS_PAGE_SIZE, remaining),
+          offset: (config.offset ?? 0) + pageOffset,
         },
-        order_by: order_by,
-        page,
-      };
-      console.log("Payload, for /get-data:", payload);
-      const response = await fetchAggregatedData(payload);
-      console.log("Response from /get-data:", response);
-      // Transform the response to match QueryResult interface
-      const transformedResult: QueryResult = {
-        columns: Object.keys(response[0] || {}),
-        rows: response.map((row: any) => Object.values(row)),
-      };
-      return transformedResult;
+        dialect
+      );
+      const response = await apiRequest("POST", "/api/query/execute", {
+        sql: query.text,
+        params: query.params,
+        parameters: SQLGenerator.parameterDefinitions(config),
+        parameterValues: values,
+        // Recorded in the user's history; later pages belong to the same run
+        queryConfig: page === 1 ? JSON.stringify(config) : undefined,
+      });
+      return await response.json();
     },
     onSuccess: (data: QueryResult) => {
       setQueryResults(data);
+      setQueryError(null);
       console.log("Query Results:", data);
 
       setShowResultsDialog(true);
@@ -287,29 +291,37 @@ export default function QueryBuilder() {
       });
     },
     onError: (error: Error) => {
+      const parsed = parseQueryError(error);
+      setQueryError(parsed);
+      setQueryResults(null);
+      setShowResultsDialog(true);
       toast({
-        title: "Query Error",
-        description: error.message,
+        title: QUERY_ERROR_TITLES[parsed.code],
+        description: parsed.message,
         variant: "destructive",
       });
     },
   });
 
   const saveQueryMutation = useMutation({
-    mutationFn: async (queryData: { name: string; description?: string }) => {
+    mutationFn: async (values: QueryDetails): Promise<SavedQuery> => {
       const response = await apiRequest("POST", "/api/queries", {
-        name: queryData.name,
-        description: queryData.description,
+        ...queryDetailsPayload(values),
+        folderId: loadedQuery?.folderId ?? null,
         queryConfig: JSON.stringify(queryConfig),
         generatedSql: generatedSQL,
       });
       return await response.json();
     },
-    onSuccess: () => {
+    onSuccess: (savedQuery) => {
       toast({
         title: "Query Saved",
         description: "Your query has been saved successfully",
       });
+      setShowSaveDialog(false);
+      // Further saves update the new query
+      setLoadedQuery(savedQuery);
+      navigate(`/?query=${savedQuery.id}`, { replace: true });
       queryClient.invalidateQueries({ queryKey: ["/api/queries"] });
     },
     onError: (error: Error) => {
@@ -321,8 +333,11 @@ export default function QueryBuilder() {
     },
   });
 
-  const handleExecuteQuery = () => {
-    if (!generatedSQL.trim()) {
+  // Runs the given configuration, which defaults to the one being built; a query with parameters
+  // asks for their values first unless they are given
+  const handleExecuteQuery = (config: QueryConfig = queryConfig, values?: ParameterValues) => {
+    const sql = config.selectedTables.length > 0 ? SQLGenerator.generatePreviewSQL(config, dialect) : "";
+    if (!sql.trim()) {
       toast({
         title: "No Query",
         description: "Please build a query first",
@@ -331,7 +346,7 @@ export default function QueryBuilder() {
       return;
     }
 
-    const validation = SQLGenerator.validateSQL(generatedSQL);
+    const validation = SQLGenerator.validateSQL(sql, dialect);
     if (!validation.isValid) {
       toast({
         title: "Invalid Query",
@@ -341,11 +356,74 @@ export default function QueryBuilder() {
       return;
     }
 
+    if (!values && SQLGenerator.referencedParameters(config).length > 0) {
+      setPromptConfig(config);
+      return;
+    }
+
     setResultsPage(1);
-    executeQueryMutation.mutate(1);
+    setParameterValues(values ?? {});
+    executeQueryMutation.mutate({ page: 1, config, values: values ?? {} });
   };
 
-  const handleSaveQuery = () => {
+  const handleRestoreRun = (config: QueryConfig) => {
+    setQueryConfig(config);
+    toast({
+      title: "Query Restored",
+      description: "The builder now holds the query from that run",
+    });
+  };
+
+  const handleRerun = (config: QueryConfig) => {
+    setQueryConfig(config);
+    handleExecuteQuery(config);
+  };
+
+  const updateQueryMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: number; values: QueryDetails }): Promise<SavedQuery> => {
+      const response = await apiRequest("PUT", `/api/queries/${id}`, {
+        ...queryDetailsPayload(values),
+        queryConfig: JSON.stringify(queryConfig),
+        generatedSql: generatedSQL,
+        message: values.message || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: (savedQuery) => {
+      toast({
+        title: "Query Saved",
+        description: `Saved changes to ${savedQuery.name}`,
+      });
+      setShowUpdateDialog(false);
+      setLoadedQuery(savedQuery);
+      queryClient.invalidateQueries({ queryKey: ["/api/queries"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // A rollback from the version history replaces what the builder holds
+  const handleRolledBack = (savedQuery: SavedQuery) => {
+    try {
+      setQueryConfig(parseStoredConfig(savedQuery.queryConfig));
+      setLoadedQuery(savedQuery);
+      setShowVersions(false);
+    } catch (error) {
+      toast({
+        title: "Open Error",
+        description: error instanceof Error ? error.message : "Failed to open the query",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Saves a new version of the open saved query, or asks for a name when there is none
+  const handleSaveQuery = (saveAsNew = false) => {
     if (!generatedSQL.trim()) {
       toast({
         title: "No Query",
@@ -355,16 +433,16 @@ export default function QueryBuilder() {
       return;
     }
 
-    const name = prompt("Enter query name:");
-    if (name) {
-      const description = prompt("Enter query description (optional):");
-      saveQueryMutation.mutate({ name, description: description || undefined });
+    if (loadedQuery && !saveAsNew) {
+      setShowUpdateDialog(true);
+    } else {
+      setShowSaveDialog(true);
     }
   };
 
   const handlePageChange = (page: number) => {
     setResultsPage(page);
-    executeQueryMutation.mutate(page);
+    executeQueryMutation.mutate({ page, config: queryConfig, values: parameterValues });
   };
 
   const handleCopySQL = async () => {
@@ -392,7 +470,7 @@ export default function QueryBuilder() {
     }
   };
 
-  const validation = SQLGenerator.validateSQL(generatedSQL);
+  const validation = SQLGenerator.validateSQL(generatedSQL, dialect);
 
   const isNumeric = (type: string) =>
     [
@@ -428,25 +506,54 @@ export default function QueryBuilder() {
                     variant="secondary"
                     className="bg-primary/10 text-primary"
                   >
-                    PostgreSQL
+                    {dialect.label}
                   </Badge>
+                  {loadedQuery && (
+                    <span className="text-sm text-gray-600 truncate max-w-xs" title={loadedQuery.description ?? undefined}>
+                      {loadedQuery.name}
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center space-x-3">
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={handleSaveQuery}
-                    disabled={saveQueryMutation.isPending}
+                    onClick={() => handleSaveQuery()}
+                    disabled={saveQueryMutation.isPending || updateQueryMutation.isPending}
                   >
                     <Save className="h-4 w-4 mr-2" />
                     Save Query
                   </Button>
-                  <Button variant="ghost" size="sm">
+                  {loadedQuery && (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => handleSaveQuery(true)}>
+                        <CopyPlus className="h-4 w-4 mr-2" />
+                        Save As
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setShowVersions(true)}>
+                        <GitBranch className="h-4 w-4 mr-2" />
+                        Versions
+                      </Button>
+                    </>
+                  )}
+                  {SQLGenerator.referencedParameters(queryConfig).length > 0 && (
+                    <Button variant="ghost" size="sm" onClick={() => setShowParameterEditor(true)}>
+                      <Braces className="h-4 w-4 mr-2" />
+                      Parameters
+                    </Button>
+                  )}
+                  <Button asChild variant="ghost" size="sm">
+                    <Link href="/queries">
+                      <FolderOpen className="h-4 w-4 mr-2" />
+                      Saved Queries
+                    </Link>
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setShowHistory(true)}>
                     <History className="h-4 w-4 mr-2" />
                     History
                   </Button>
                   <Button
-                    onClick={handleExecuteQuery}
+                    onClick={() => handleExecuteQuery()}
                     disabled={
                       executeQueryMutation.isPending || !generatedSQL.trim()
                     }
@@ -455,6 +562,24 @@ export default function QueryBuilder() {
                     <Play className="h-4 w-4 mr-2" />
                     Execute Query
                   </Button>
+                  {user?.isAdmin && (
+                    <Button asChild variant="ghost" size="sm">
+                      <Link href="/audit">
+                        <ScrollText className="h-4 w-4 mr-2" />
+                        Audit Log
+                      </Link>
+                    </Button>
+                  )}
+                  <span className="text-sm text-gray-500">{user?.username}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                    title="Sign out"
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
                 </div>
               </div>
             </div>
@@ -467,6 +592,9 @@ export default function QueryBuilder() {
                 <DatabaseConnection
                   onConnectionChange={(connected) => {
                     // Refresh schema when connection changes
+                    queryClient.invalidateQueries({
+                      queryKey: ["/api/database/status"],
+                    });
                     if (connected) {
                       // Force refresh of tables data
                       window.location.reload();
@@ -521,7 +649,9 @@ export default function QueryBuilder() {
                 <SubqueryBuilder
                   config={queryConfig}
                   onChange={setQueryConfig}
-                  availableTables={tables}
+                  availableTables={Object.entries(tables).flatMap(([schema, names]) =>
+                    names.map((table) => ({ schema, table }))
+                  )}
                 />
                 <QueryConfiguration
                   config={queryConfig}
@@ -558,16 +688,75 @@ export default function QueryBuilder() {
             <QueryResults
               results={queryResults}
               isLoading={executeQueryMutation.isPending}
-              sql={generatedSQL}
-              rowsPerPage={20}
+              sql={generatedQuery.text}
+              params={generatedQuery.params}
+              parameters={SQLGenerator.parameterDefinitions(queryConfig)}
+              parameterValues={parameterValues}
+              error={queryError}
+              rowsPerPage={RESULTS_PAGE_SIZE}
               page={resultsPage}
               onPageChange={handlePageChange}
               canFetchMore={
-                queryResults ? queryResults.rows.length === 20 : false
+                queryResults ? queryResults.rows.length === RESULTS_PAGE_SIZE : false
               }
+              savedQuery={loadedQuery}
+              chart={queryConfig.chart}
+              onChartChange={(chart) => setQueryConfig((prev) => ({ ...prev, chart }))}
+              columnFunctions={queryConfig.selectedColumns.map((column) => column.function)}
             />
           </DialogContent>
         </Dialog>
+        <SaveQueryDialog
+          open={showSaveDialog}
+          onOpenChange={setShowSaveDialog}
+          title={loadedQuery ? "Save As New Query" : "Save Query"}
+          submitLabel="Save"
+          initialValues={loadedQuery ? { ...queryDetailsOf(loadedQuery), name: `Copy of ${loadedQuery.name}` } : undefined}
+          isPending={saveQueryMutation.isPending}
+          onSubmit={(values) => saveQueryMutation.mutate(values)}
+        />
+        <SaveQueryDialog
+          open={showUpdateDialog}
+          onOpenChange={setShowUpdateDialog}
+          title="Save Changes"
+          submitLabel="Save"
+          initialValues={loadedQuery ? queryDetailsOf(loadedQuery) : undefined}
+          withMessage
+          isPending={updateQueryMutation.isPending}
+          onSubmit={(values) => loadedQuery && updateQueryMutation.mutate({ id: loadedQuery.id, values })}
+        />
+        <ParameterEditor
+          open={showParameterEditor}
+          onOpenChange={setShowParameterEditor}
+          config={queryConfig}
+          onChange={setQueryConfig}
+        />
+        <ParameterPrompt
+          open={promptConfig !== null}
+          onOpenChange={(open) => !open && setPromptConfig(null)}
+          parameters={promptConfig ? SQLGenerator.parameterDefinitions(promptConfig) : []}
+          initialValues={parameterValues}
+          queryId={loadedQuery?.id}
+          isPending={executeQueryMutation.isPending}
+          onSubmit={(values) => {
+            if (promptConfig) {
+              setPromptConfig(null);
+              handleExecuteQuery(promptConfig, values);
+            }
+          }}
+        />
+        <QueryVersions
+          query={showVersions ? loadedQuery : null}
+          onOpenChange={setShowVersions}
+          onRolledBack={handleRolledBack}
+        />
+        <QueryHistory
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          dialect={dialect}
+          onRestore={handleRestoreRun}
+          onRerun={handleRerun}
+        />
       </>
     </DndProvider>
   );
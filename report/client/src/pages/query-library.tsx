@@ -0,0 +1,518 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { DndProvider, useDrag } from "react-dnd";
+import { HTML5Backend } from "react-dnd-html5-backend";
+import { useMutation, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft, Bell, CalendarClock, Copy, FileSpreadsheet, Folder, FolderOpen, GripVertical, History, Pencil, Search, Trash2, User, X } from "lucide-react";
+import type { QueryFolder, SavedQueryListItem } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  SaveQueryDialog,
+  queryDetailsOf,
+  queryDetailsPayload,
+  VISIBILITY_LABELS,
+  type QueryDetails,
+} from "@/components/save-query-dialog";
+import { QueryVersions } from "@/components/query-versions";
+import { QuerySchedules } from "@/components/query-schedules";
+import { QueryAlerts } from "@/components/query-alerts";
+import {
+  FolderDialog,
+  folderPath,
+  QueryFolderTree,
+  SAVED_QUERY_DRAG_TYPE,
+  type FolderSelection,
+  type SavedQueryDragItem,
+} from "@/components/query-folder-tree";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadBlob } from "@/lib/download";
+
+// Serialized dates arrive as strings
+type SavedQueryRow = Omit<SavedQueryListItem, "createdAt" | "updatedAt"> & {
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+type SortOrder = "updated" | "newest" | "oldest" | "name";
+
+const SORTERS: Record<SortOrder, (a: SavedQueryRow, b: SavedQueryRow) => number> = {
+  updated: (a, b) => timestamp(b.updatedAt ?? b.createdAt) - timestamp(a.updatedAt ?? a.createdAt),
+  newest: (a, b) => timestamp(b.createdAt) - timestamp(a.createdAt),
+  oldest: (a, b) => timestamp(a.createdAt) - timestamp(b.createdAt),
+  name: (a, b) => a.name.localeCompare(b.name),
+};
+
+function timestamp(value: string | null) {
+  return value ? new Date(value).getTime() : 0;
+}
+
+// The list is cached per filter combination, so refresh every one of them
+function invalidateSavedQueries(queryClient: QueryClient) {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/queries"),
+  });
+}
+
+export default function QueryLibrary() {
+  return (
+    <DndProvider backend={HTML5Backend}>
+      <QueryLibraryPage />
+    </DndProvider>
+  );
+}
+
+function QueryLibraryPage() {
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [folderSelection, setFolderSelection] = useState<FolderSelection>("all");
+  const [tag, setTag] = useState<string | null>(null);
+  const [ownerFilter, setOwnerFilter] = useState<"anyone" | "me">("anyone");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("updated");
+  const [renaming, setRenaming] = useState<SavedQueryRow | null>(null);
+  const [duplicating, setDuplicating] = useState<SavedQueryRow | null>(null);
+  const [deleting, setDeleting] = useState<SavedQueryRow | null>(null);
+  const [viewingVersions, setViewingVersions] = useState<SavedQueryRow | null>(null);
+  const [viewingSchedules, setViewingSchedules] = useState<SavedQueryRow | null>(null);
+  const [viewingAlerts, setViewingAlerts] = useState<SavedQueryRow | null>(null);
+  const [folderTarget, setFolderTarget] = useState<{ folder: QueryFolder } | { parentId: number | null } | null>(null);
+  const [deletingFolder, setDeletingFolder] = useState<QueryFolder | null>(null);
+  // Queries picked for a combined export, in the order they were picked
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const filterParams = new URLSearchParams();
+  if (folderSelection !== "all") filterParams.set("folderId", String(folderSelection));
+  if (tag) filterParams.set("tag", tag);
+  if (ownerFilter === "me") filterParams.set("ownerId", "me");
+  if (debouncedSearch) filterParams.set("search", debouncedSearch);
+  const isFiltered = filterParams.toString() !== "";
+
+  const { data: queries = [], isLoading } = useQuery<SavedQueryRow[]>({
+    queryKey: [`/api/queries?${filterParams}`],
+    staleTime: 0,
+  });
+
+  const { data: folders = [] } = useQuery<QueryFolder[]>({
+    queryKey: ["/api/folders"],
+  });
+
+  const visibleQueries = useMemo(() => [...queries].sort(SORTERS[sortOrder]), [queries, sortOrder]);
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: number; values: QueryDetails }) => {
+      const response = await apiRequest("PUT", `/api/queries/${id}`, {
+        ...queryDetailsPayload(values),
+        message: values.message || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setRenaming(null);
+      invalidateSavedQueries(queryClient);
+      toast({ title: "Query Updated" });
+    },
+    onError: onMutationError("Update Error"),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, folderId }: { id: number; folderId: number | null }) => {
+      const response = await apiRequest("PUT", `/api/queries/${id}`, { folderId });
+      return await response.json();
+    },
+    onSuccess: () => {
+      invalidateSavedQueries(queryClient);
+    },
+    onError: onMutationError("Move Error"),
+  });
+
+  // Stable so the folder drop targets are not rebuilt on every render
+  const handleMoveQuery = useCallback((id: number, folderId: number | null) => {
+    moveMutation.mutate({ id, folderId });
+  }, [moveMutation.mutate]);
+
+  const folderMutation = useMutation({
+    mutationFn: async ({ id, values }: { id?: number; values: { name: string; parentId: number | null } }) => {
+      const response = id === undefined
+        ? await apiRequest("POST", "/api/folders", values)
+        : await apiRequest("PUT", `/api/folders/${id}`, values);
+      return await response.json();
+    },
+    onSuccess: () => {
+      setFolderTarget(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    },
+    onError: onMutationError("Folder Error"),
+  });
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/folders/${id}`);
+    },
+    onSuccess: (_, id) => {
+      setDeletingFolder(null);
+      if (folderSelection === id) setFolderSelection("all");
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      invalidateSavedQueries(queryClient);
+      toast({ title: "Folder Deleted" });
+    },
+    onError: onMutationError("Delete Error"),
+  });
+
+  const duplicateMutation = useMutation({
+    mutationFn: async ({ source, values }: { source: SavedQueryRow; values: QueryDetails }) => {
+      const response = await apiRequest("POST", "/api/queries", {
+        ...queryDetailsPayload(values),
+        folderId: source.folderId,
+        queryConfig: source.queryConfig,
+        generatedSql: source.generatedSql,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setDuplicating(null);
+      invalidateSavedQueries(queryClient);
+      toast({ title: "Query Duplicated" });
+    },
+    onError: onMutationError("Duplicate Error"),
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((ids) => checked ? [...ids, id] : ids.filter((selectedId) => selectedId !== id));
+  };
+
+  // One workbook with a sheet per selected query, run with each query's default parameter values
+  const workbookMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const response = await apiRequest("POST", "/api/queries/export/xlsx", {
+        queries: ids.map((id) => ({ id })),
+      });
+      downloadBlob(await response.blob(), "saved_queries.xlsx");
+    },
+    onSuccess: (_, ids) => {
+      setSelectedIds([]);
+      toast({ title: "Export Successful", description: `${ids.length} queries exported to Excel` });
+    },
+    onError: onMutationError("Export Error"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/queries/${id}`);
+    },
+    onSuccess: (_, id) => {
+      setDeleting(null);
+      setSelectedIds((ids) => ids.filter((selectedId) => selectedId !== id));
+      invalidateSavedQueries(queryClient);
+      toast({ title: "Query Deleted" });
+    },
+    onError: onMutationError("Delete Error"),
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="px-6 py-4 flex items-center space-x-4">
+          <Button asChild variant="ghost" size="sm">
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Query Builder
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold text-gray-800">Saved Queries</h1>
+        </div>
+      </header>
+
+      <div className="p-6 flex gap-6 max-w-7xl mx-auto">
+        <aside className="w-64 flex-shrink-0 bg-white border border-gray-200 rounded-lg p-2 self-start">
+          <QueryFolderTree
+            folders={folders}
+            selected={folderSelection}
+            onSelect={setFolderSelection}
+            onMoveQuery={handleMoveQuery}
+            onCreateFolder={(parentId) => setFolderTarget({ parentId })}
+            onRenameFolder={(folder) => setFolderTarget({ folder })}
+            onDeleteFolder={setDeletingFolder}
+          />
+          <p className="text-xs text-gray-400 px-2 pt-3">Drag a query onto a folder to move it.</p>
+        </aside>
+
+        <div className="flex-1 min-w-0 space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="relative flex-1">
+              <Search className="h-4 w-4 absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name, description or SQL..."
+                className="pl-8 bg-white"
+              />
+            </div>
+            <Select value={ownerFilter} onValueChange={(value) => setOwnerFilter(value as "anyone" | "me")}>
+              <SelectTrigger className="w-40 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="anyone">Any owner</SelectItem>
+                <SelectItem value="me">Owned by me</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+              <SelectTrigger className="w-48 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="updated">Recently updated</SelectItem>
+                <SelectItem value="newest">Newest first</SelectItem>
+                <SelectItem value="oldest">Oldest first</SelectItem>
+                <SelectItem value="name">Name</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {tag && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              Tagged
+              <Badge variant="secondary" className="gap-1">
+                {tag}
+                <button type="button" onClick={() => setTag(null)} aria-label="Clear tag filter">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            </div>
+          )}
+
+          {selectedIds.length > 0 && (
+            <div className="flex items-center gap-3 bg-white border border-gray-200 rounded-lg px-4 py-2 text-sm">
+              <span className="text-gray-600">{selectedIds.length} selected</span>
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700"
+                disabled={workbookMutation.isPending}
+                onClick={() => workbookMutation.mutate(selectedIds)}
+              >
+                <FileSpreadsheet className="h-4 w-4 mr-1" />
+                {workbookMutation.isPending ? "Exporting..." : "Export to Excel"}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                Clear selection
+              </Button>
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-gray-500">Loading saved queries...</p>
+          ) : visibleQueries.length === 0 ? (
+            <p className="text-gray-500">
+              {isFiltered ? "No queries match these filters." : "No saved queries yet. Save one from the query builder."}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {visibleQueries.map((query) => {
+                const folder = folders.find((candidate) => candidate.id === query.folderId);
+                return (
+                  <SavedQueryCard key={query.id} query={query}>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            checked={selectedIds.includes(query.id)}
+                            onCheckedChange={(checked) => toggleSelected(query.id, checked === true)}
+                            aria-label={`Select ${query.name}`}
+                          />
+                          <h2 className="font-medium text-gray-900 truncate">{query.name}</h2>
+                        </div>
+                        {query.description && (
+                          <p className="text-sm text-gray-600 line-clamp-2">{query.description}</p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-400 mt-1">
+                          <span>
+                            Updated {new Date(query.updatedAt ?? query.createdAt ?? Date.now()).toLocaleString()}
+                          </span>
+                          {query.ownerName && (
+                            <span className="flex items-center gap-1">
+                              <User className="h-3 w-3" />
+                              {query.ownerName}
+                            </span>
+                          )}
+                          <span>{VISIBILITY_LABELS[query.visibility]}</span>
+                          {folder && folderSelection !== folder.id && (
+                            <span className="flex items-center gap-1">
+                              <Folder className="h-3 w-3" />
+                              {folderPath(folders, folder)}
+                            </span>
+                          )}
+                        </div>
+                        {query.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {query.tags.map((queryTag) => (
+                              <Badge
+                                key={queryTag}
+                                variant={queryTag === tag ? "default" : "outline"}
+                                className="cursor-pointer"
+                                onClick={() => setTag(queryTag)}
+                              >
+                                {queryTag}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <Button size="sm" onClick={() => navigate(`/?query=${query.id}`)}>
+                          <FolderOpen className="h-4 w-4 mr-1" />
+                          Open
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setRenaming(query)} title="Edit details">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setViewingVersions(query)} title="Version history">
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setViewingSchedules(query)} title="Scheduled delivery">
+                          <CalendarClock className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setViewingAlerts(query)} title="Alerts">
+                          <Bell className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setDuplicating(query)} title="Duplicate">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setDeleting(query)} title="Delete">
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                    <pre className="font-mono text-xs bg-gray-50 rounded p-2 max-h-24 overflow-hidden whitespace-pre-wrap text-gray-700">
+                      {query.generatedSql}
+                    </pre>
+                  </SavedQueryCard>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <SaveQueryDialog
+        open={renaming !== null}
+        onOpenChange={(open) => !open && setRenaming(null)}
+        title="Edit Query Details"
+        submitLabel="Save"
+        initialValues={renaming ? queryDetailsOf(renaming) : undefined}
+        withMessage
+        isPending={renameMutation.isPending}
+        onSubmit={(values) => renaming && renameMutation.mutate({ id: renaming.id, values })}
+      />
+
+      <SaveQueryDialog
+        open={duplicating !== null}
+        onOpenChange={(open) => !open && setDuplicating(null)}
+        title="Duplicate Query"
+        submitLabel="Duplicate"
+        initialValues={duplicating ? { ...queryDetailsOf(duplicating), name: `Copy of ${duplicating.name}` } : undefined}
+        isPending={duplicateMutation.isPending}
+        onSubmit={(values) => duplicating && duplicateMutation.mutate({ source: duplicating, values })}
+      />
+
+      <QueryVersions query={viewingVersions} onOpenChange={(open) => !open && setViewingVersions(null)} />
+      <QuerySchedules query={viewingSchedules} onOpenChange={(open) => !open && setViewingSchedules(null)} />
+      <QueryAlerts query={viewingAlerts} onOpenChange={(open) => !open && setViewingAlerts(null)} />
+
+      <FolderDialog
+        target={folderTarget}
+        folders={folders}
+        isPending={folderMutation.isPending}
+        onOpenChange={(open) => !open && setFolderTarget(null)}
+        onSubmit={(values) => folderMutation.mutate({
+          id: folderTarget && "folder" in folderTarget ? folderTarget.folder.id : undefined,
+          values,
+        })}
+      />
+
+      <AlertDialog open={deletingFolder !== null} onOpenChange={(open) => !open && setDeletingFolder(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete folder "{deletingFolder?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its subfolders are deleted too. The queries inside are kept and become unfiled.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deletingFolder && deleteFolderMutation.mutate(deletingFolder.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>This permanently removes the saved query.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+// A library entry that can be dragged onto a folder
+function SavedQueryCard({ query, children }: { query: SavedQueryRow; children: ReactNode }) {
+  const [{ isDragging }, drag] = useDrag(() => ({
+    type: SAVED_QUERY_DRAG_TYPE,
+    item: { type: SAVED_QUERY_DRAG_TYPE, id: query.id } satisfies SavedQueryDragItem,
+    collect: (monitor) => ({
+      isDragging: monitor.isDragging(),
+    }),
+  }), [query.id]);
+
+  return (
+    <div
+      ref={drag}
+      className={`bg-white border border-gray-200 rounded-lg p-4 flex gap-2 cursor-grab ${isDragging ? "opacity-50" : ""}`}
+    >
+      <GripVertical className="h-4 w-4 text-gray-300 flex-shrink-0 mt-1" />
+      <div className="flex-1 min-w-0 space-y-2">{children}</div>
+    </div>
+  );
+}
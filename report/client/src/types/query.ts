@@ -1,3 +1,7 @@
+import type { ParameterReference, QueryParameter } from '@shared/query-parameters';
+import type { ChartSpec } from '@shared/charts';
+import type { ResultField } from '@shared/field-types';
+
 export interface Column {
   name: string;
   type: string;
@@ -55,13 +59,44 @@ export interface QueryConfig {
   groupBy: string[];
   orderBy: Array<{ column: string; direction: 'ASC' | 'DESC'; alias?:string }>;
   limit?: number;
+  offset?: number;
   distinct: boolean;
   logicalOperator?: 'AND' | 'OR';
+  // Definitions of the `{{name}}` parameters used in condition values
+  parameters?: QueryParameter[];
+  // Chart of the results, from the Visualize tab
+  chart?: ChartSpec;
+}
+
+export type QueryParam = string | number | boolean | null;
+
+// A bound value, or a named parameter the server fills in when the query runs
+export type BoundValue = QueryParam | ParameterReference;
+
+export interface ParameterizedQuery {
+  text: string;
+  params: BoundValue[];
 }
 
 export interface QueryResult {
   columns: string[];
   rows: any[][];
+  // Column types, in the order of `columns`
+  fields?: ResultField[];
+  // Columns the server masked for the current user
+  maskedColumns?: string[];
+}
+
+export type QueryErrorCode =
+  | 'timeout'
+  | 'row_limit'
+  | 'permission_denied'
+  | 'read_only_violation'
+  | 'query_error';
+
+export interface QueryError {
+  code: QueryErrorCode;
+  message: string;
 }
 
 export interface SavedQuery {
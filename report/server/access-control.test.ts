@@ -0,0 +1,146 @@
+import type { ColumnMask, RoleGrant, RowPolicy } from "@shared/schema";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./storage", () => ({
+  INTERNAL_TABLES: ["app_users"],
+  storage: {
+    getTableColumns: vi.fn(async () => [{ name: "id" }, { name: "name" }, { name: "ssn" }]),
+  },
+}));
+
+const { AccessDeniedError, AccessScope, authorizeQuery, validateRowPolicyFilter } = await import("./access-control");
+
+function grant(tableName: string | null, columns: string[] | null = null): RoleGrant {
+  return { schemaName: null, tableName, columns } as RoleGrant;
+}
+
+function mask(columnName: string, strategy: ColumnMask["strategy"] = "redact"): ColumnMask {
+  return { schemaName: "public", tableName: "people", columnName, strategy, exemptRoleIds: [] } as unknown as ColumnMask;
+}
+
+function userScope({
+  grants = [grant("people")],
+  policies = [] as RowPolicy[],
+  masks = [] as ColumnMask[],
+  databaseType = "postgresql" as "postgresql" | "mysql",
+  userValues = {} as Record<string, string>,
+} = {}) {
+  return new AccessScope(false, "1", databaseType, "public", grants, policies, masks, userValues);
+}
+
+function policy(filter: string, tableName = "people"): RowPolicy {
+  return { schemaName: "public", tableName, filter } as RowPolicy;
+}
+
+describe("authorizeQuery grants", () => {
+  it("lets admins run the query as written", async () => {
+    const admin = new AccessScope(true, "1", "postgresql", "public", []);
+    expect(await authorizeQuery(admin, "SELECT * FROM anything", [1])).toEqual({
+      sql: "SELECT * FROM anything", params: [1], maskedColumns: [],
+    });
+  });
+
+  it("refuses tables outside the grants, wherever they appear", async () => {
+    const scope = userScope();
+    await expect(authorizeQuery(scope, "SELECT * FROM orders")).rejects.toThrow(AccessDeniedError);
+    await expect(authorizeQuery(scope, "SELECT * FROM people WHERE id IN (SELECT person_id FROM orders)"))
+      .rejects.toThrow("You do not have access to table public.orders");
+    await expect(authorizeQuery(scope, "WITH o AS (SELECT * FROM secret.orders) SELECT * FROM people"))
+      .rejects.toThrow("You do not have access to table secret.orders");
+  });
+
+  it("refuses the application's own tables on the sample database", async () => {
+    const sample = new AccessScope(false, null, "postgresql", "public", [grant(null)]);
+    await expect(authorizeQuery(sample, "SELECT * FROM app_users")).rejects.toThrow(AccessDeniedError);
+  });
+
+  it("qualifies every table with its schema", async () => {
+    const { sql } = await authorizeQuery(userScope(), "SELECT * FROM people p JOIN public.people q ON q.id = p.id");
+    expect(sql).toBe(`SELECT * FROM "public"."people" p JOIN "public"."people" q ON q.id = p.id`);
+  });
+
+  it("exposes only the granted columns", async () => {
+    const scope = userScope({ grants: [grant("people", ["id", "name"])] });
+    const { sql } = await authorizeQuery(scope, "SELECT public.people.name FROM public.people");
+    expect(sql).toBe(`SELECT "people".name FROM (SELECT "id", "name" FROM "public"."people") AS "people"`);
+  });
+});
+
+describe("authorizeQuery row policies", () => {
+  it("filters rows and binds user attributes after the client's parameters", async () => {
+    const scope = userScope({
+      policies: [policy("region = :user.region AND active")],
+      userValues: { region: "emea" },
+    });
+    const authorized = await authorizeQuery(scope, "SELECT * FROM people WHERE id = $1", [5]);
+    expect(authorized.sql).toBe(
+      `SELECT * FROM (SELECT * FROM "public"."people" WHERE (region = $2 AND active)) AS "people" WHERE id = $1`,
+    );
+    expect(authorized.params).toEqual([5, "emea"]);
+  });
+
+  it("binds MySQL values in the order of their placeholders", async () => {
+    const scope = userScope({
+      databaseType: "mysql",
+      policies: [policy("region = :user.region")],
+      userValues: { region: "emea" },
+    });
+    const authorized = await authorizeQuery(scope, "SELECT * FROM people p WHERE p.id = ? OR p.id IN (SELECT id FROM people WHERE name = ?)", [1, "x"]);
+    expect(authorized.sql).toBe(
+      "SELECT * FROM (SELECT * FROM `public`.`people` WHERE (region = ?)) p WHERE p.id = ? OR p.id IN " +
+      "(SELECT id FROM (SELECT * FROM `public`.`people` WHERE (region = ?)) AS `people` WHERE name = ?)",
+    );
+    expect(authorized.params).toEqual(["emea", 1, "emea", "x"]);
+  });
+
+  it("refuses MySQL queries with a ? that mysql2 would fill but is not a placeholder", async () => {
+    const scope = userScope({
+      databaseType: "mysql",
+      grants: [grant("orders")],
+      policies: [policy("region = :user.region", "orders")],
+      userValues: { region: "emea" },
+    });
+    for (const sql of ["SELECT * /* ? */ FROM orders", "SELECT '?' FROM orders", "SELECT ?? FROM orders"]) {
+      await expect(authorizeQuery(scope, sql, ["APAC"])).rejects.toThrow(AccessDeniedError);
+    }
+  });
+
+  it("refuses users without the attribute a policy needs", async () => {
+    const scope = userScope({ policies: [policy("region = :user.region")] });
+    await expect(authorizeQuery(scope, "SELECT * FROM people")).rejects.toThrow('no "region" attribute');
+  });
+
+  it("accepts only single expressions as filters", () => {
+    expect(() => validateRowPolicyFilter("owner_id = :user.id", "postgresql")).not.toThrow();
+    expect(() => validateRowPolicyFilter("true) OR (1 = 1", "postgresql")).toThrow("Unbalanced parentheses");
+    expect(() => validateRowPolicyFilter("true; DROP TABLE people", "postgresql")).toThrow("single expression");
+    expect(() => validateRowPolicyFilter("id = :other", "postgresql")).toThrow("Unsupported parameter");
+    expect(() => validateRowPolicyFilter("id IN (DELETE FROM people RETURNING id)", "postgresql")).toThrow();
+  });
+});
+
+describe("authorizeQuery masks", () => {
+  it("replaces masked columns with their masked expression", async () => {
+    const authorized = await authorizeQuery(userScope({ masks: [mask("ssn")] }), "SELECT * FROM people");
+    expect(authorized.sql).toBe(
+      `SELECT * FROM (SELECT "id", "name", CASE WHEN "ssn" IS NULL THEN NULL ELSE '*****' END AS "ssn" FROM "public"."people") AS "people"`,
+    );
+    expect(authorized.maskedColumns).toEqual(["ssn"]);
+  });
+
+  it("reports the result columns computed from masked columns under their own names", async () => {
+    const scope = userScope({ masks: [mask("ssn")] });
+    const { maskedColumns } = await authorizeQuery(scope, "SELECT ssn AS x, p.ssn tax_id, upper(SSN) AS loud, name FROM people p");
+    expect(maskedColumns).toEqual(["ssn", "x", "tax_id", "loud"]);
+
+    // Only the outer select list names result columns
+    const nested = await authorizeQuery(scope, "SELECT n FROM (SELECT ssn AS s, name AS n FROM people) sub");
+    expect(nested.maskedColumns).toEqual(["ssn"]);
+  });
+
+  it("keeps the case of MySQL aliases", async () => {
+    const scope = userScope({ masks: [mask("ssn")], databaseType: "mysql" });
+    const { maskedColumns } = await authorizeQuery(scope, "SELECT ssn AS Tax_Id, `ssn` AS `Other` FROM people");
+    expect(maskedColumns).toEqual(["ssn", "Tax_Id", "Other"]);
+  });
+});
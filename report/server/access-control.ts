@@ -0,0 +1,570 @@
+import type { NextFunction, Request, Response } from "express";
+import type { ColumnMask, MaskStrategy, QueryAlert, QueryFolder, ReportSchedule, RoleGrant, RowPolicy, SavedQuery } from "@shared/schema";
+import {
+  extractTableReferences,
+  identifierName,
+  sqlDialectOptions,
+  SQLValidationError,
+  tokenizeSQL,
+  validateReadOnlySQL,
+  type SQLTableReference,
+  type SQLToken,
+  type SQLValidatorOptions,
+} from "@shared/sql-validator";
+import { externalDbManager, type ExternalDatabaseConfig } from "./external-db";
+import { INTERNAL_TABLES, storage, type SavedQueryViewer } from "./storage";
+import { QueryExecutionError, type QueryParam } from "./query-runner";
+import { maskExpression } from "./masking";
+
+export class AccessDeniedError extends QueryExecutionError {
+  constructor(message: string) {
+    super('permission_denied', message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+export class InvalidRowPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRowPolicyError';
+  }
+}
+
+export interface UserAccess {
+  isAdmin: boolean;
+  grants: RoleGrant[];
+}
+
+type DatabaseType = ExternalDatabaseConfig['type'];
+
+export async function getUserAccess(user: Express.User): Promise<UserAccess> {
+  const role = user.roleId ? await storage.getRole(user.roleId) : undefined;
+  if (!role) {
+    return { isAdmin: false, grants: [] };
+  }
+  return {
+    isAdmin: role.isAdmin,
+    grants: role.isAdmin ? [] : await storage.getRoleGrants(role.id),
+  };
+}
+
+// `profileId` null is the bundled sample database
+export function canUseProfile(access: UserAccess, profileId: number | null): boolean {
+  return access.isAdmin || access.grants.some((grant) => grant.connectionProfileId === profileId);
+}
+
+export async function getSavedQueryViewer(user: Express.User): Promise<SavedQueryViewer> {
+  const { isAdmin } = await getUserAccess(user);
+  return { id: user.id, roleId: user.roleId, isAdmin };
+}
+
+// Why `viewer` may not see (or, for "edit", change) a saved query, or null when allowed. Hidden
+// queries are reported as missing so their existence is not revealed.
+export async function checkSavedQueryAccess(
+  viewer: SavedQueryViewer,
+  query: SavedQuery | undefined,
+  action: 'view' | 'edit',
+): Promise<{ status: number; message: string } | null> {
+  if (!query || !(await canViewSavedQuery(viewer, query))) {
+    return { status: 404, message: "Query not found" };
+  }
+  if (action === 'edit' && !isOwnerOrAdmin(viewer, query.ownerId)) {
+    return { status: 403, message: "Only the owner of this query or an administrator can change it" };
+  }
+  return null;
+}
+
+async function canViewSavedQuery(viewer: SavedQueryViewer, query: SavedQuery): Promise<boolean> {
+  if (viewer.isAdmin || query.ownerId === viewer.id || query.visibility === 'public') {
+    return true;
+  }
+  if (query.visibility !== 'team' || query.ownerId === null || viewer.roleId === null) {
+    return false;
+  }
+  const owner = await storage.getAppUser(query.ownerId);
+  return owner?.roleId === viewer.roleId;
+}
+
+// Folders can be renamed, moved or deleted by whoever created them
+export function canEditQueryFolder(viewer: SavedQueryViewer, folder: QueryFolder): boolean {
+  return isOwnerOrAdmin(viewer, folder.ownerId);
+}
+
+// Report schedules run with their owner's access, so only the owner manages them
+export function canManageReportSchedule(viewer: SavedQueryViewer, schedule: ReportSchedule): boolean {
+  return viewer.isAdmin || schedule.ownerId === viewer.id;
+}
+
+// Alerts are evaluated with their owner's access in the same way
+export function canManageQueryAlert(viewer: SavedQueryViewer, alert: QueryAlert): boolean {
+  return viewer.isAdmin || alert.ownerId === viewer.id;
+}
+
+// Items saved before ownership was recorded have no owner and anyone who can see them may change them
+function isOwnerOrAdmin(viewer: SavedQueryViewer, ownerId: number | null): boolean {
+  return viewer.isAdmin || ownerId === null || ownerId === viewer.id;
+}
+
+// What one user may read on one connection
+export class AccessScope {
+  constructor(
+    readonly isAdmin: boolean,
+    // Resolved external connection id, or null for the sample database
+    readonly externalId: string | null,
+    readonly databaseType: DatabaseType,
+    readonly defaultSchema: string,
+    private readonly grants: RoleGrant[],
+    private readonly policies: RowPolicy[] = [],
+    private readonly masks: ColumnMask[] = [],
+    // Values for :user.<name> in row policies
+    readonly userValues: Record<string, string> = {},
+  ) {}
+
+  canReadTable(schema: string, table: string): boolean {
+    // The application's own tables are off limits to everyone, admins included
+    if (this.externalId === null && schema === 'public' && INTERNAL_TABLES.includes(table)) {
+      return false;
+    }
+    return this.isAdmin || this.matchingGrants(schema, table).length > 0;
+  }
+
+  // Columns the user may read from a table, or null when every column is allowed
+  readableColumns(schema: string, table: string): string[] | null {
+    if (this.isAdmin) {
+      return null;
+    }
+    const grants = this.matchingGrants(schema, table);
+    if (grants.some((grant) => !grant.columns)) {
+      return null;
+    }
+    return Array.from(new Set(grants.flatMap((grant) => grant.columns ?? [])));
+  }
+
+  // Row policies that filter a table for this user; admins are not filtered
+  rowPolicies(schema: string, table: string): RowPolicy[] {
+    if (this.isAdmin) {
+      return [];
+    }
+    return this.policies.filter((policy) =>
+      this.sameName(policy.schemaName, schema) && this.sameName(policy.tableName, table),
+    );
+  }
+
+  hasColumnMasks(schema: string, table: string): boolean {
+    return this.matchingMasks(schema, table).length > 0;
+  }
+
+  // Mask strategy for each masked column of a table, keyed by the names in `columns`
+  columnMasks(schema: string, table: string, columns: string[]): Map<string, MaskStrategy> {
+    const masks = this.matchingMasks(schema, table);
+    const result = new Map<string, MaskStrategy>();
+    for (const column of columns) {
+      const mask = masks.find((candidate) => this.sameName(candidate.columnName, column));
+      if (mask) {
+        result.set(column, mask.strategy);
+      }
+    }
+    return result;
+  }
+
+  private matchingMasks(schema: string, table: string) {
+    if (this.isAdmin) {
+      return [];
+    }
+    return this.masks.filter((mask) =>
+      this.sameName(mask.schemaName, schema) && this.sameName(mask.tableName, table),
+    );
+  }
+
+  private matchingGrants(schema: string, table: string) {
+    return this.grants.filter((grant) =>
+      (grant.schemaName === null || this.sameName(grant.schemaName, schema)) &&
+      (grant.tableName === null || this.sameName(grant.tableName, table)),
+    );
+  }
+
+  // MySQL compares schema and table names case-insensitively on the platforms we support
+  private sameName(a: string, b: string) {
+    return this.databaseType === 'mysql' ? a.toLowerCase() === b.toLowerCase() : a === b;
+  }
+}
+
+// Checks the user may use the requested connection and returns their scope on it
+export async function getAccessScope(user: Express.User, connectionId?: string): Promise<AccessScope> {
+  const access = await getUserAccess(user);
+
+  if (connectionId) {
+    const profileId = Number(connectionId);
+    // Ad-hoc connections are opened with raw credentials, which only admins may do
+    const allowed = Number.isInteger(profileId) ? canUseProfile(access, profileId) : access.isAdmin;
+    if (!allowed) {
+      throw new AccessDeniedError('You do not have access to this connection');
+    }
+  } else if (!canUseProfile(access, null)) {
+    throw new AccessDeniedError('You do not have access to the sample database');
+  }
+
+  const externalId = await storage.resolveConnection(connectionId);
+  const profileId = externalId === null ? null : Number(externalId);
+  // Ad-hoc connections are admin-only, so non-admins always have a profile id here
+  const policies = access.isAdmin ? [] : await storage.getRowPoliciesForConnection(profileId);
+  const masks = access.isAdmin ? [] : (await storage.getColumnMasksForConnection(profileId))
+    .filter((mask) => user.roleId === null || !mask.exemptRoleIds.includes(user.roleId));
+  return new AccessScope(
+    access.isAdmin,
+    externalId,
+    (externalId && externalDbManager.getDatabaseType(externalId)) || 'postgresql',
+    (externalId && externalDbManager.getDefaultSchema(externalId)) || 'public',
+    access.grants.filter((grant) => grant.connectionProfileId === profileId),
+    policies,
+    masks,
+    // The account's own id and username cannot be overridden by attributes
+    { ...user.attributes, id: String(user.id), username: user.username },
+  );
+}
+
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  try {
+    if ((await getUserAccess(req.user!)).isAdmin) {
+      return next();
+    }
+    res.status(403).json({ message: "Administrator access required" });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export function quoteIdentifier(databaseType: DatabaseType, identifier: string) {
+  return databaseType === 'mysql'
+    ? `\`${identifier.replace(/`/g, '``')}\``
+    : `"${identifier.replace(/"/g, '""')}"`;
+}
+
+interface SQLEdit {
+  start: number;
+  end: number;
+  text: string;
+  // Values for the placeholders in `text`, in the order they appear
+  values?: QueryParam[];
+}
+
+export interface AuthorizedQuery {
+  sql: string;
+  params: QueryParam[];
+  // Names of the masked columns of the tables the query reads, and of the result columns computed
+  // from them, such as the alias in `SELECT ssn AS x`
+  maskedColumns: string[];
+}
+
+// Replaces each :user.<name> in a row policy filter with a placeholder, collecting the values to
+// bind. `values` is null when only checking the filter's syntax.
+function compileRowFilter(
+  filter: string,
+  databaseType: DatabaseType,
+  values: Record<string, string> | null,
+  placeholder: () => string,
+): { text: string; values: QueryParam[] } {
+  const tokens = tokenizeSQL(filter, sqlDialectOptions(databaseType));
+  const edits: SQLEdit[] = [];
+  const bound: QueryParam[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'punctuation') {
+      if (token.value === ';') {
+        throw new InvalidRowPolicyError('A row policy filter must be a single expression');
+      }
+      // A filter that closes more parentheses than it opens could escape its WHERE clause
+      depth += token.value === '(' ? 1 : token.value === ')' ? -1 : 0;
+      if (depth < 0) {
+        throw new InvalidRowPolicyError('Unbalanced parentheses in row policy filter');
+      }
+    }
+    if (token.type !== 'parameter') {
+      continue;
+    }
+
+    const attribute = tokens[i + 2];
+    const isUserAttribute = token.value.toLowerCase() === ':user' &&
+      tokens[i + 1]?.type === 'punctuation' && tokens[i + 1].value === '.' &&
+      attribute?.type === 'word';
+    if (!isUserAttribute) {
+      throw new InvalidRowPolicyError(`Unsupported parameter ${token.value} in row policy filter; use :user.<attribute>`);
+    }
+    if (values && !Object.prototype.hasOwnProperty.call(values, attribute.value)) {
+      throw new AccessDeniedError(`Your account has no "${attribute.value}" attribute, which a row policy requires`);
+    }
+    bound.push(values ? values[attribute.value] : '');
+    edits.push({ start: token.position, end: attribute.end, text: placeholder() });
+    i += 2;
+  }
+
+  return { text: applyEdits(filter, edits), values: bound };
+}
+
+// Checks a row policy filter is a single boolean expression before it is stored
+export function validateRowPolicyFilter(filter: string, databaseType: DatabaseType): void {
+  let text: string;
+  try {
+    text = compileRowFilter(filter, databaseType, null, () => databaseType === 'mysql' ? '?' : '$1').text;
+  } catch (error) {
+    if (error instanceof SQLValidationError) {
+      throw new InvalidRowPolicyError(error.message);
+    }
+    throw error;
+  }
+  const validation = validateReadOnlySQL(`SELECT 1 FROM policy_table WHERE (${text})`, sqlDialectOptions(databaseType));
+  if (!validation.isValid) {
+    throw new InvalidRowPolicyError(validation.error!.message);
+  }
+}
+
+// Rejects queries that read tables outside the user's grants. For non-admins every table is
+// rewritten to its schema-qualified name, so the server's search path cannot redirect it, and
+// tables with column grants, row policies or column masks become derived tables exposing only
+// the permitted columns and rows, with masked columns replaced by their masked expression. Row
+// policy values are bound as extra parameters.
+export async function authorizeQuery(
+  scope: AccessScope,
+  sql: string,
+  params: QueryParam[] = [],
+): Promise<AuthorizedQuery> {
+  const options = sqlDialectOptions(scope.databaseType);
+  const references = extractTableReferences(sql, options);
+
+  for (const reference of references) {
+    const schema = reference.schema ?? scope.defaultSchema;
+    if (!scope.canReadTable(schema, reference.name)) {
+      throw new AccessDeniedError(`You do not have access to table ${schema}.${reference.name}`);
+    }
+  }
+
+  if (scope.isAdmin) {
+    return { sql, params, maskedColumns: [] };
+  }
+
+  const quote = (identifier: string) => quoteIdentifier(scope.databaseType, identifier);
+  // PostgreSQL placeholders are numbered after the client's; MySQL's are positional
+  let nextParam = params.length;
+  const placeholder = () => scope.databaseType === 'mysql' ? '?' : `$${++nextParam}`;
+  const edits: SQLEdit[] = [];
+  // Unaliased derived tables, by "schema.table", whose schema.table.column references need rewriting
+  const derived = new Map<string, SQLTableReference>();
+  const maskedColumns = new Set<string>();
+
+  for (const reference of references) {
+    const schema = reference.schema ?? scope.defaultSchema;
+    const table = `${reference.only ? 'ONLY ' : ''}${quote(schema)}.${quote(reference.name)}`;
+    let columns = scope.readableColumns(schema, reference.name);
+    const filters = scope.rowPolicies(schema, reference.name)
+      .map((policy) => compileRowFilter(policy.filter, scope.databaseType, scope.userValues, placeholder));
+
+    // Masking replaces individual columns, so `SELECT *` has to be spelled out
+    let masks = new Map<string, MaskStrategy>();
+    if (scope.hasColumnMasks(schema, reference.name)) {
+      columns ??= (await storage.getTableColumns(reference.name, scope.externalId ?? undefined, schema))
+        .map((column) => column.name);
+      masks = scope.columnMasks(schema, reference.name, columns);
+    }
+
+    if (!columns && filters.length === 0) {
+      edits.push({ start: reference.start, end: reference.end, text: table });
+      continue;
+    }
+
+    // A derived table needs an alias; keep the table's own name so column references still resolve
+    const alias = reference.alias ? '' : ` AS ${quote(reference.name)}`;
+    const selectColumn = (column: string) => {
+      const strategy = masks.get(column);
+      if (!strategy) {
+        return quote(column);
+      }
+      maskedColumns.add(column);
+      return `${maskExpression(strategy, quote(column), scope.databaseType)} AS ${quote(column)}`;
+    };
+    const select = !columns ? '*' : columns.length > 0 ? columns.map(selectColumn).join(', ') : 'NULL';
+    const where = filters.length > 0
+      ? ` WHERE ${filters.map((filter) => `(${filter.text})`).join(' AND ')}`
+      : '';
+    edits.push({
+      start: reference.start,
+      end: reference.end,
+      text: `(SELECT ${select} FROM ${table}${where})${alias}`,
+      values: filters.flatMap((filter) => filter.values),
+    });
+    if (!reference.alias) {
+      derived.set(`${schema}.${reference.name}`, reference);
+    }
+  }
+
+  edits.push(...qualifiedColumnEdits(sql, options, derived, references, quote));
+  return {
+    sql: applyEdits(sql, edits),
+    params: bindEditValues(sql, options, params, edits, scope.databaseType),
+    maskedColumns: Array.from(new Set([...maskedColumns, ...maskedOutputNames(sql, options, scope.databaseType, maskedColumns)])),
+  };
+}
+
+// Adds the values of inserted placeholders to the client's parameters
+function bindEditValues(
+  sql: string,
+  options: SQLValidatorOptions,
+  params: QueryParam[],
+  edits: SQLEdit[],
+  databaseType: DatabaseType,
+): QueryParam[] {
+  const withValues = edits.filter((edit) => edit.values?.length);
+  if (databaseType !== 'mysql') {
+    // Numbered placeholders were handed out in edit order
+    return [...params, ...withValues.flatMap((edit) => edit.values!)];
+  }
+
+  // A positional value goes after the client's ? placeholders that precede it in the text
+  const positions = tokenizeSQL(sql, options)
+    .filter((token) => token.type === 'parameter' && token.value === '?')
+    .map((token) => token.position);
+  // mysql2 fills every run of ? in the text, in comments and strings too, and ?? takes an
+  // identifier; any of those would shift policy values onto the client's placeholders
+  if (withValues.length > 0 &&
+      Array.from(sql.matchAll(/\?+/g)).some((match) => match[0] !== '?' || !positions.includes(match.index!))) {
+    throw new AccessDeniedError('Row policies apply here, so ? may only appear as a parameter placeholder');
+  }
+  const result = [...params];
+  let inserted = 0;
+  for (const edit of [...withValues].sort((a, b) => a.start - b.start)) {
+    const index = positions.filter((position) => position < edit.start).length + inserted;
+    result.splice(index, 0, ...edit.values!);
+    inserted += edit.values!.length;
+  }
+  return result;
+}
+
+// schema.table.column no longer resolves once the table is a derived table; use table.column
+function qualifiedColumnEdits(
+  sql: string,
+  options: SQLValidatorOptions,
+  derived: Map<string, SQLTableReference>,
+  references: SQLTableReference[],
+  quote: (identifier: string) => string,
+): SQLEdit[] {
+  if (derived.size === 0) {
+    return [];
+  }
+
+  const tokens = tokenizeSQL(sql, options);
+  const isIdentifier = (index: number) =>
+    tokens[index]?.type === 'word' || tokens[index]?.type === 'quoted_identifier';
+  const isDot = (index: number) => tokens[index]?.type === 'punctuation' && tokens[index].value === '.';
+  const insideReference = (position: number) =>
+    references.some((reference) => position >= reference.start && position < reference.end);
+
+  const edits: SQLEdit[] = [];
+  for (let i = 0; i + 4 < tokens.length; i++) {
+    if (!(isIdentifier(i) && isDot(i + 1) && isIdentifier(i + 2) && isDot(i + 3) && isIdentifier(i + 4))) {
+      continue;
+    }
+    if (insideReference(tokens[i].position)) {
+      continue;
+    }
+    const key = `${identifierName(sql, tokens[i])}.${identifierName(sql, tokens[i + 2])}`;
+    const reference = derived.get(key);
+    if (reference) {
+      edits.push({ start: tokens[i].position, end: tokens[i + 2].end, text: quote(reference.name) });
+      i += 4;
+    }
+  }
+  return edits;
+}
+
+const SELECT_LIST_END = new Set([
+  'FROM', 'INTO', 'WHERE', 'GROUP', 'HAVING', 'WINDOW', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'FOR',
+  'UNION', 'INTERSECT', 'EXCEPT',
+]);
+// Words that end an expression rather than name it, as in `x IS NULL` or `CASE ... END`
+const NOT_OUTPUT_NAMES = new Set(['NULL', 'TRUE', 'FALSE', 'UNKNOWN', 'END']);
+
+// Output names of the items in the outer select list that read a masked column: `ssn AS x` is
+// reported as x. Items that are not aliased are reported only when they name the column itself,
+// since the name the database gives an expression is not known here.
+function maskedOutputNames(
+  sql: string,
+  options: SQLValidatorOptions,
+  databaseType: DatabaseType,
+  maskedColumns: Set<string>,
+): string[] {
+  if (maskedColumns.size === 0) {
+    return [];
+  }
+
+  const masked = new Set(Array.from(maskedColumns, (column) => column.toLowerCase()));
+  const isIdentifier = (token?: SQLToken) => token?.type === 'word' || token?.type === 'quoted_identifier';
+  const outputName = (token: SQLToken) =>
+    token.type === 'word' && databaseType === 'mysql' ? token.value : identifierName(sql, token);
+  const names: string[] = [];
+
+  const addItem = (item: SQLToken[], depths: number[]) => {
+    const as = item.findIndex((token, index) => depths[index] === 0 && token.type === 'word' && token.value.toUpperCase() === 'AS');
+    const last = item[item.length - 1];
+    const previous = item[item.length - 2];
+    // `ssn x` names the item x; `t.ssn` and `ssn` are the column itself
+    const implicitAlias = as < 0 && item.length > 1 && depths[item.length - 1] === 0 && isIdentifier(last) &&
+      !NOT_OUTPUT_NAMES.has(last.value.toUpperCase()) &&
+      (isIdentifier(previous) || previous.type === 'string' || previous.type === 'number' || previous.value === ')');
+    const expression = as >= 0 ? item.slice(0, as) : implicitAlias ? item.slice(0, -1) : item;
+    if (!expression.some((token) => isIdentifier(token) && masked.has(identifierName(sql, token).toLowerCase()))) {
+      return;
+    }
+    if (as >= 0 && isIdentifier(item[as + 1])) {
+      names.push(outputName(item[as + 1]));
+    } else if (implicitAlias || (isIdentifier(last) && expression.every((token) => isIdentifier(token) || token.value === '.'))) {
+      names.push(outputName(last));
+    }
+  };
+
+  // Only the first select list at the top level names the result columns
+  let depth = 0;
+  let inList = false;
+  let item: SQLToken[] = [];
+  let depths: number[] = [];
+  for (const token of tokenizeSQL(sql, options)) {
+    if (token.type === 'punctuation' && token.value === ')') {
+      depth--;
+    }
+    if (depth === 0 && token.type === 'word' && token.value.toUpperCase() === 'SELECT' && !inList) {
+      inList = true;
+      continue;
+    }
+    if (inList && depth === 0) {
+      if ((token.type === 'word' && SELECT_LIST_END.has(token.value.toUpperCase())) ||
+          (token.type === 'punctuation' && token.value === ';')) {
+        break;
+      }
+      if (token.type === 'punctuation' && token.value === ',') {
+        addItem(item, depths);
+        item = [];
+        depths = [];
+        continue;
+      }
+    }
+    if (inList) {
+      item.push(token);
+      depths.push(depth);
+    }
+    if (token.type === 'punctuation' && token.value === '(') {
+      depth++;
+    }
+  }
+  if (item.length > 0) {
+    addItem(item, depths);
+  }
+  return names;
+}
+
+function applyEdits(sql: string, edits: SQLEdit[]): string {
+  let result = sql;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
@@ -0,0 +1,104 @@
+import type { QueryAlert } from "@shared/schema";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const mocks = vi.hoisted(() => ({
+  storage: {
+    getAppUser: vi.fn(async () => ({ id: 1, username: "owner", passwordHash: "x" })),
+    getSavedQuery: vi.fn(async () => ({ id: 3, name: "Open orders", generatedSql: "SELECT * FROM orders" })),
+    createQueryAlertEvent: vi.fn(async (event: object) => event),
+    setQueryAlertState: vi.fn(async (id: number, state: object) => ({ id, ...state })),
+  },
+  runSavedQuery: vi.fn(),
+  countSavedQueryRows: vi.fn(),
+  sendNotification: vi.fn(async () => {}),
+}));
+
+vi.mock("./storage", () => ({ storage: mocks.storage }));
+vi.mock("./access-control", () => ({
+  checkSavedQueryAccess: vi.fn(async () => null),
+  getSavedQueryViewer: vi.fn(async () => ({})),
+}));
+vi.mock("./audit", () => ({ recordBackgroundAuditEvent: vi.fn(async () => {}) }));
+vi.mock("./reports", () => ({ runSavedQuery: mocks.runSavedQuery, countSavedQueryRows: mocks.countSavedQueryRows }));
+vi.mock("./report-delivery", () => ({ sendNotification: mocks.sendNotification }));
+
+const { compareAlertValue, evaluateQueryAlert } = await import("./alerts");
+
+function alert(overrides: Partial<QueryAlert> = {}): QueryAlert {
+  return {
+    id: 9, savedQueryId: 3, name: "Backlog", metric: "row_count", column: null, rowIndex: 0,
+    operator: "gt", threshold: "10000", notifyMethod: "webhook", destination: "https://hooks.example.com/x",
+    parameterValues: {}, connectionId: null, ownerId: 1, state: "ok", lastValue: null, lastError: null,
+    ...overrides,
+  } as QueryAlert;
+}
+
+describe("compareAlertValue", () => {
+  it.each([
+    [11, "gt", "10", true],
+    [10, "gt", "10", false],
+    [10, "gte", "10", true],
+    [9, "lt", "10", true],
+    [10, "lte", "10.0", true],
+    ["12.50", "eq", "12.5", true],
+    [12n, "neq", "12", false],
+    // Compared as numbers, 9 < 10; as text, "9" > "10"
+    ["9", "lt", "10", true],
+    ["beta", "gt", "alpha", true],
+    ["beta", "eq", "beta", true],
+    [" ", "eq", "0", false],
+  ] as const)("%o %s %s is %s", (value, operator, threshold, expected) => {
+    expect(compareAlertValue(value, operator, threshold)).toBe(expected);
+  });
+});
+
+describe("evaluateQueryAlert", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("counts rows on the database rather than through the row-capped runner", async () => {
+    mocks.countSavedQueryRows.mockResolvedValue({ count: 25000, params: [] });
+    const evaluated = await evaluateQueryAlert(alert());
+
+    expect(mocks.runSavedQuery).not.toHaveBeenCalled();
+    expect(evaluated).toMatchObject({ state: "triggered", lastValue: "25000", lastError: null });
+    expect(mocks.storage.createQueryAlertEvent).toHaveBeenCalledWith(expect.objectContaining({
+      kind: "triggered",
+      message: "Backlog: the value is 25000, which meets Row count > 10000",
+    }));
+  });
+
+  it("notifies only when the condition starts or stops holding", async () => {
+    mocks.countSavedQueryRows.mockResolvedValue({ count: 25000, params: [] });
+    await evaluateQueryAlert(alert({ state: "triggered" }));
+    expect(mocks.storage.createQueryAlertEvent).not.toHaveBeenCalled();
+
+    mocks.countSavedQueryRows.mockResolvedValue({ count: 3, params: [] });
+    expect(await evaluateQueryAlert(alert({ state: "triggered" }))).toMatchObject({ state: "ok" });
+    expect(mocks.storage.createQueryAlertEvent).toHaveBeenCalledWith(expect.objectContaining({ kind: "resolved" }));
+  });
+
+  it("reads the configured cell, and never triggers on NULL", async () => {
+    mocks.runSavedQuery.mockResolvedValue({ columns: ["region", "total"], rows: [["emea", "5"], ["apac", null]], params: [] });
+    const cell = alert({ metric: "cell", column: "total", operator: "lt", threshold: "10" });
+
+    expect(await evaluateQueryAlert(cell)).toMatchObject({ state: "triggered", lastValue: "5" });
+    expect(await evaluateQueryAlert({ ...cell, rowIndex: 1 })).toMatchObject({ state: "ok", lastValue: null });
+    expect(mocks.countSavedQueryRows).not.toHaveBeenCalled();
+  });
+
+  it("records a failure once and keeps the previous state", async () => {
+    mocks.runSavedQuery.mockResolvedValue({ columns: ["region"], rows: [], params: [] });
+    const cell = alert({ metric: "cell", column: "total", state: "triggered" });
+
+    expect(await evaluateQueryAlert(cell)).toMatchObject({
+      state: "triggered", lastError: 'The query result has no column "total"',
+    });
+    expect(mocks.storage.createQueryAlertEvent).toHaveBeenCalledWith(expect.objectContaining({ kind: "error" }));
+
+    mocks.storage.createQueryAlertEvent.mockClear();
+    await evaluateQueryAlert({ ...cell, lastError: "failed before" });
+    expect(mocks.storage.createQueryAlertEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,173 @@
+import type { AlertOperator, QueryAlert, QueryAlertEvent, SavedQuery } from "@shared/schema";
+import { storage } from "./storage";
+import { checkSavedQueryAccess, getSavedQueryViewer } from "./access-control";
+import { recordBackgroundAuditEvent } from "./audit";
+import { countSavedQueryRows, runSavedQuery, type ReportResult } from "./reports";
+import { cellText } from "./exports";
+import { sendNotification } from "./report-delivery";
+import type { QueryParam } from "./query-runner";
+
+const OPERATOR_SYMBOLS: Record<AlertOperator, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  eq: '=',
+  neq: '<>',
+};
+
+function isNumeric(value: unknown): boolean {
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return true;
+  }
+  // Drivers return NUMERIC and BIGINT values as strings
+  return typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+// The cell an alert checks (null when the cell is NULL or the result has fewer rows)
+function alertCellValue(alert: QueryAlert, result: ReportResult): unknown {
+  const index = result.columns.indexOf(alert.column ?? '');
+  if (index === -1) {
+    throw new Error(`The query result has no column "${alert.column}"`);
+  }
+  return result.rows[alert.rowIndex]?.[index] ?? null;
+}
+
+// Numbers are compared numerically; anything else is compared as text
+export function compareAlertValue(value: unknown, operator: AlertOperator, threshold: string): boolean {
+  let left: number | string = cellText(value);
+  let right: number | string = threshold;
+  if (isNumeric(value) && isNumeric(threshold)) {
+    left = Number(value);
+    right = Number(threshold);
+  }
+  switch (operator) {
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+    case 'eq': return left === right;
+    case 'neq': return left !== right;
+  }
+}
+
+function describeAlert(alert: QueryAlert): string {
+  const subject = alert.metric === 'row_count'
+    ? 'Row count'
+    : alert.rowIndex === 0 ? alert.column : `${alert.column} (row ${alert.rowIndex + 1})`;
+  return `${subject} ${OPERATOR_SYMBOLS[alert.operator]} ${alert.threshold}`;
+}
+
+// Records a change of the alert's state in its history and notifies the alert's recipients. A
+// notification that cannot be sent is kept on the event rather than failing the evaluation.
+async function recordAlertEvent(
+  alert: QueryAlert,
+  query: SavedQuery | undefined,
+  kind: QueryAlertEvent['kind'],
+  value: string | null,
+  message: string,
+): Promise<QueryAlertEvent> {
+  const headline = kind === 'triggered' ? 'triggered' : kind === 'resolved' ? 'resolved' : 'failed';
+  let notifyError: string | null = null;
+  try {
+    await sendNotification(alert.notifyMethod, alert.destination, {
+      subject: `Alert ${headline}: ${alert.name}`,
+      text: `${message}\n\nQuery: ${query?.name ?? `#${alert.savedQueryId}`}\nCondition: ${describeAlert(alert)}`,
+      payload: {
+        alert: { id: alert.id, name: alert.name, condition: describeAlert(alert) },
+        savedQuery: { id: alert.savedQueryId, name: query?.name ?? null },
+        event: kind,
+        value,
+        message,
+        evaluatedAt: new Date().toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error(`Alert ${alert.id} notification failed:`, error);
+    notifyError = error instanceof Error ? error.message : String(error);
+  }
+  return await storage.createQueryAlertEvent({
+    alertId: alert.id,
+    savedQueryId: alert.savedQueryId,
+    kind,
+    value,
+    message,
+    notified: notifyError === null,
+    notifyError,
+  });
+}
+
+// Runs the alert's query with its owner's access and compares the result with the threshold. A
+// notification is sent only when the condition starts or stops holding, or when the alert first
+// fails to evaluate; repeated failures are not recorded again until an evaluation succeeds.
+export async function evaluateQueryAlert(alert: QueryAlert): Promise<QueryAlert> {
+  const startedAt = Date.now();
+  const owner = await storage.getAppUser(alert.ownerId);
+  const query = await storage.getSavedQuery(alert.savedQueryId);
+  let params: QueryParam[] | undefined;
+  let value: unknown;
+
+  try {
+    if (!owner) {
+      throw new Error("The owner of this alert no longer exists");
+    }
+    const { passwordHash, ...user } = owner;
+    if (await checkSavedQueryAccess(await getSavedQueryViewer(user), query, 'view')) {
+      throw new Error("The owner of this alert can no longer see the query");
+    }
+
+    const options = { connectionId: alert.connectionId ?? undefined, parameterValues: alert.parameterValues };
+    let rowCount: number;
+    if (alert.metric === 'row_count') {
+      const counted = await countSavedQueryRows(user, query!, options);
+      params = counted.params;
+      value = rowCount = counted.count;
+    } else {
+      const result = await runSavedQuery(user, query!, options);
+      params = result.params;
+      value = alertCellValue(alert, result);
+      rowCount = result.rows.length;
+    }
+    await recordBackgroundAuditEvent(user, {
+      action: 'execute', startedAt, connectionId: alert.connectionId ?? undefined, sql: query!.generatedSql,
+      params, savedQueryId: query!.id, rowCount,
+    });
+  } catch (error) {
+    console.error(`Alert ${alert.id} could not be evaluated:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    if (owner) {
+      await recordBackgroundAuditEvent(owner, {
+        action: 'execute', startedAt, connectionId: alert.connectionId ?? undefined, sql: query?.generatedSql ?? null,
+        params, savedQueryId: alert.savedQueryId, error,
+      });
+    }
+    if (alert.lastError === null) {
+      await recordAlertEvent(alert, query, 'error', null, `The alert could not be evaluated: ${message}`);
+    }
+    const failed = await storage.setQueryAlertState(alert.id, {
+      state: alert.state,
+      lastValue: alert.lastValue,
+      lastError: message,
+      lastEvaluatedAt: new Date(),
+    });
+    return failed ?? alert;
+  }
+
+  // A NULL or missing cell never meets the condition
+  const triggered = value !== null && compareAlertValue(value, alert.operator, alert.threshold);
+  const text = value === null ? null : cellText(value);
+  const state = triggered ? 'triggered' : 'ok';
+  if (state !== alert.state) {
+    const shown = text ?? 'NULL';
+    await recordAlertEvent(alert, query, triggered ? 'triggered' : 'resolved', text, triggered
+      ? `${alert.name}: the value is ${shown}, which meets ${describeAlert(alert)}`
+      : `${alert.name}: the value is ${shown}, which no longer meets ${describeAlert(alert)}`);
+  }
+  const evaluated = await storage.setQueryAlertState(alert.id, {
+    state,
+    lastValue: text,
+    lastError: null,
+    lastEvaluatedAt: new Date(),
+  });
+  return evaluated ?? alert;
+}
@@ -0,0 +1,48 @@
+import type { Response } from "express";
+import type { AuditEvent, AuditEventFilters } from "@shared/schema";
+import { describe, expect, it, vi } from "vitest";
+
+const events = vi.hoisted(() => [] as AuditEvent[]);
+
+vi.mock("./storage", () => ({
+  storage: { getAuditEvents: vi.fn(async () => events) },
+}));
+
+const { writeAuditExport } = await import("./audit");
+
+function fakeResponse() {
+  const chunks: string[] = [];
+  const res = { setHeader: vi.fn(), write: (chunk: string) => chunks.push(chunk), end: vi.fn() };
+  return { res: res as unknown as Response, body: () => chunks.join("") };
+}
+
+describe("writeAuditExport", () => {
+  it("writes CSV with quoting and neutralised formulas", async () => {
+    events.splice(0, events.length, {
+      id: 7,
+      action: "query",
+      userId: 2,
+      username: "@admin",
+      connectionId: null,
+      sqlText: "=HYPERLINK(\"http://example.com\", \"x\")",
+      params: { limit: 5 },
+      savedQueryId: null,
+      durationMs: 12,
+      rowCount: -1,
+      success: false,
+      error: "line 1\nline 2",
+      clientIp: "10.0.0.1",
+      createdAt: new Date("2026-01-02T03:04:05Z"),
+    } as AuditEvent);
+    const { res, body } = fakeResponse();
+
+    await writeAuditExport(res, {} as AuditEventFilters, "csv");
+
+    const [header] = body().split("\r\n");
+    expect(header).toBe("id,createdAt,action,username,userId,connectionId,clientIp,success,error,durationMs,rowCount,savedQueryId,sqlText,params");
+    expect(body()).toBe(header + "\r\n" + [
+      "7", "2026-01-02T03:04:05.000Z", "query", "'@admin", "2", "", "10.0.0.1", "false", '"line 1\nline 2"', "12", "-1", "",
+      `"'=HYPERLINK(""http://example.com"", ""x"")"`, '"{""limit"":5}"',
+    ].join(",") + "\r\n");
+  });
+});
@@ -0,0 +1,102 @@
+import type { Request, Response } from "express";
+import type { AuditAction, AuditEvent, AuditEventFilters, PublicAppUser } from "@shared/schema";
+import { storage } from "./storage";
+import { csvLine } from "./exports";
+import type { QueryParam } from "./query-runner";
+
+interface AuditDetails {
+  action: AuditAction;
+  // Date.now() when the request started
+  startedAt: number;
+  connectionId?: string;
+  // For requests, defaults to the `sql` and `params` of the request body
+  sql?: string | null;
+  params?: QueryParam[] | null;
+  savedQueryId?: number | null;
+  rowCount?: number | null;
+  // Set when the request failed
+  error?: unknown;
+}
+
+// Writes one audit event. A failure to audit is logged rather than failing the request it describes.
+export async function recordAuditEvent(req: Request, details: AuditDetails): Promise<void> {
+  const body = req.body ?? {};
+  await writeAuditEvent(req.user ?? null, {
+    ...details,
+    sql: details.sql !== undefined ? details.sql : typeof body.sql === 'string' ? body.sql : null,
+    params: details.params !== undefined ? details.params : Array.isArray(body.params) ? body.params : null,
+  }, req.ip ?? null);
+}
+
+// Audits work done outside a request on behalf of `user`, such as a scheduled report delivery
+export async function recordBackgroundAuditEvent(
+  user: Pick<PublicAppUser, 'id' | 'username'>,
+  details: AuditDetails,
+): Promise<void> {
+  await writeAuditEvent(user, details, null);
+}
+
+async function writeAuditEvent(
+  user: Pick<PublicAppUser, 'id' | 'username'> | null,
+  details: AuditDetails,
+  clientIp: string | null,
+): Promise<void> {
+  try {
+    await storage.createAuditEvent({
+      action: details.action,
+      userId: user?.id ?? null,
+      username: user?.username ?? null,
+      connectionId: details.connectionId ?? null,
+      sqlText: details.sql ?? null,
+      params: details.params ?? null,
+      savedQueryId: details.savedQueryId ?? null,
+      durationMs: Date.now() - details.startedAt,
+      rowCount: details.rowCount ?? null,
+      success: details.error === undefined,
+      error: details.error === undefined ? null : auditErrorMessage(details.error),
+      clientIp,
+    });
+  } catch (error) {
+    console.error("Failed to record audit event:", error);
+  }
+}
+
+function auditErrorMessage(error: unknown): string {
+  if (typeof error === 'string') {
+    return error;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+const EXPORT_BATCH_SIZE = 1000;
+
+const CSV_COLUMNS: Array<keyof AuditEvent> = [
+  'id', 'createdAt', 'action', 'username', 'userId', 'connectionId', 'clientIp', 'success',
+  'error', 'durationMs', 'rowCount', 'savedQueryId', 'sqlText', 'params',
+];
+
+// Streams every event matching the filters, newest first, as CSV or JSON Lines
+export async function writeAuditExport(res: Response, filters: AuditEventFilters, format: 'csv' | 'jsonl') {
+  const filename = `audit_events.${format}`;
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'csv') {
+    res.write(csvLine(CSV_COLUMNS));
+  }
+
+  let beforeId: number | undefined;
+  for (;;) {
+    const events = await storage.getAuditEvents(filters, { limit: EXPORT_BATCH_SIZE, beforeId });
+    for (const event of events) {
+      res.write(format === 'csv'
+        ? csvLine(CSV_COLUMNS.map((column) => event[column]))
+        : JSON.stringify(event) + '\n');
+    }
+    if (events.length < EXPORT_BATCH_SIZE) {
+      break;
+    }
+    beforeId = events[events.length - 1].id;
+  }
+  res.end();
+}
@@ -0,0 +1,214 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import {
+  insertAppUserSchema,
+  loginSchema,
+  type AppUser,
+  type PublicAppUser,
+  type SessionUser,
+} from "@shared/schema";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { getUserAccess } from "./access-control";
+
+declare global {
+  namespace Express {
+    interface User extends PublicAppUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_MAX_AGE_MS = 12 * 60 * 60 * 1000;
+
+// Endpoints reachable without a session
+const PUBLIC_API_PATHS = ["/login", "/register", "/auth/config", "/health"];
+
+// Stored as "<salt>.<hash>", both hex encoded
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${salt}.${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(".");
+  if (!salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function toPublicUser({ passwordHash, ...user }: AppUser): PublicAppUser {
+  return user;
+}
+
+async function toSessionUser(user: Express.User): Promise<SessionUser> {
+  const { isAdmin } = await getUserAccess(user);
+  return { ...user, isAdmin };
+}
+
+// The first account can always be created; after that only when ALLOW_REGISTRATION=true
+async function isRegistrationOpen(): Promise<boolean> {
+  return process.env.ALLOW_REGISTRATION === "true" || (await storage.countAppUsers()) === 0;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (PUBLIC_API_PATHS.includes(req.path) || req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Authentication required" });
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies");
+  }
+
+  const PostgresSessionStore = connectPgSimple(session);
+
+  // Behind a reverse proxy, X-Forwarded-* give the client's address and protocol; otherwise
+  // they are client-supplied and must be ignored
+  if (process.env.TRUST_PROXY === "true") {
+    app.set("trust proxy", 1);
+  }
+  app.use(session({
+    store: new PostgresSessionStore({ pool, tableName: "user_sessions" }),
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getAppUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false, { message: "Invalid username or password" });
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getAppUser(id);
+      // A deleted account simply ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use("/api", requireAuth);
+
+  // Liveness probe for load balancers and orchestrators
+  app.get("/api/health", (req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  app.get("/api/auth/config", async (req, res) => {
+    try {
+      res.json({ registrationOpen: await isRegistrationOpen() });
+    } catch (error) {
+      console.error("Error fetching auth config:", error);
+      res.status(500).json({
+        message: "Failed to fetch auth configuration",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      if (!(await isRegistrationOpen())) {
+        return res.status(403).json({ message: "Registration is disabled" });
+      }
+
+      const { username, password } = insertAppUserSchema.parse(req.body);
+      if (await storage.getAppUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      // The first account becomes an administrator
+      const user = toPublicUser(await storage.createAppUser(username, await hashPassword(password)));
+      const sessionUser = await toSessionUser(user);
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(sessionUser);
+      });
+    } catch (error) {
+      console.error("Error registering user:", error instanceof Error ? error.message : error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          message: "Invalid registration data",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({
+          message: "Failed to register",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const credentials = loginSchema.safeParse(req.body);
+    if (!credentials.success) {
+      return res.status(400).json({
+        message: "Invalid login data",
+        errors: credentials.error.errors
+      });
+    }
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false, info?: { message: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+      // req.login regenerates the session id, so a pre-login session cannot be fixated
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        toSessionUser(user).then((sessionUser) => res.json(sessionUser), next);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy((destroyError) => {
+        if (destroyError) return next(destroyError);
+        res.clearCookie("connect.sid");
+        res.json({ message: "Logged out" });
+      });
+    });
+  });
+
+  app.get("/api/user", async (req, res, next) => {
+    try {
+      res.json(await toSessionUser(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
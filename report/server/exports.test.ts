@@ -0,0 +1,117 @@
+import type { Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import { csvLine, DEFAULT_CSV_OPTIONS, encodeCsv, streamCsv, streamJson, streamParquet } from "./exports";
+import type { QueryBatch } from "./query-runner";
+
+const INT4 = 23;
+const TEXT = 25;
+const OID = 26;
+const NUMERIC = 1700;
+
+function fakeResponse() {
+  const chunks: Buffer[] = [];
+  const res = {
+    destroyed: false,
+    setHeader: vi.fn(),
+    write: (chunk: Buffer | string) => chunks.push(Buffer.from(chunk)) > 0,
+    end: vi.fn(),
+  };
+  return { res: res as unknown as Response, body: () => Buffer.concat(chunks) };
+}
+
+async function* batches(...list: QueryBatch[]) {
+  yield* list;
+}
+
+// SELECT a.id, b.id, a.id_2 FROM ...
+const joined: QueryBatch = {
+  columns: ["id", "id", "id_2"],
+  fields: [{ name: "id", dataTypeID: INT4 }, { name: "id", dataTypeID: INT4 }, { name: "id_2", dataTypeID: TEXT }],
+  rows: [[1, 2, "x"]],
+};
+
+describe("csvLine", () => {
+  it("quotes fields with delimiters, quotes and line breaks", () => {
+    expect(csvLine(["plain", "a,b", 'say "hi"', "two\nlines", "cr\r", null, undefined, 3])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines","cr\r",,,3\r\n',
+    );
+    expect(csvLine(["a;b", "a,b"], ";")).toBe('"a;b";a,b\r\n');
+    expect(csvLine(["a\tb"], "\t")).toBe('"a\tb"\r\n');
+  });
+
+  it("neutralises text a spreadsheet would run as a formula", () => {
+    expect(csvLine(["=1+1", "+cmd", "-2+3", "@SUM(A1)", "\tx", '=HYPERLINK("http://x")'])).toBe(
+      `'=1+1,'+cmd,'-2+3,'@SUM(A1),'\tx,"'=HYPERLINK(""http://x"")"\r\n`,
+    );
+  });
+
+  it("leaves numbers and non-text values alone", () => {
+    expect(csvLine(["-5", "+1.5e3", -5, true])).toBe("-5,+1.5e3,-5,true\r\n");
+    expect(csvLine([new Date("2026-01-02T03:04:05Z"), Buffer.from([1, 255]), { a: "=x" }])).toBe(
+      '2026-01-02T03:04:05.000Z,\\x01ff,"{""a"":""=x""}"\r\n',
+    );
+  });
+});
+
+describe("streamCsv", () => {
+  const people: QueryBatch = {
+    columns: ["id", "name"],
+    fields: [{ name: "id", dataTypeID: INT4 }, { name: "name", dataTypeID: TEXT }],
+    rows: [[1, "Zoë"], [2, "=cmd"]],
+  };
+
+  it("writes a header, then every batch, and counts the rows", async () => {
+    const { res, body } = fakeResponse();
+    const rowCount = await streamCsv(res, batches(people, { ...people, rows: [[3, "Ann"]] }), DEFAULT_CSV_OPTIONS, "people.csv");
+    expect(rowCount).toBe(3);
+    expect(body().toString()).toBe("id,name\r\n1,Zoë\r\n2,'=cmd\r\n3,Ann\r\n");
+    expect(res.setHeader).toHaveBeenCalledWith("Content-Disposition", 'attachment; filename="people.csv"');
+  });
+
+  it("encodes with the chosen encoding and byte order mark", async () => {
+    const { res, body } = fakeResponse();
+    await streamCsv(res, batches(people), { delimiter: ";", encoding: "utf-16le", bom: true }, "people.csv");
+    expect(body()).toEqual(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from("id;name\r\n1;Zoë\r\n2;'=cmd\r\n", "utf16le")]));
+    expect(res.setHeader).toHaveBeenCalledWith("Content-Type", "text/csv; charset=utf-16le");
+  });
+
+  it("replaces characters Latin-1 cannot hold", () => {
+    expect(encodeCsv("Zoë ✓", "latin1")).toEqual(Buffer.from([0x5a, 0x6f, 0xeb, 0x20, 0x3f]));
+  });
+});
+
+describe("streamJson", () => {
+  it("keeps every value of repeated column names", async () => {
+    const { res, body } = fakeResponse();
+    await streamJson(res, batches(joined, joined), "result.json");
+    expect(JSON.parse(body().toString())).toEqual([
+      { id: 1, id_3: 2, id_2: "x" },
+      { id: 1, id_3: 2, id_2: "x" },
+    ]);
+  });
+
+  it("writes one object per line with `lines`", async () => {
+    const { res, body } = fakeResponse();
+    await streamJson(res, batches(joined), "result.ndjson", { lines: true });
+    expect(body().toString()).toBe('{"id":1,"id_3":2,"id_2":"x"}\n');
+  });
+});
+
+describe("streamParquet", () => {
+  it("gives repeated column names their own Parquet columns", async () => {
+    const { res, body } = fakeResponse();
+    const rowCount = await streamParquet(res, batches({ ...joined, columns: ["id", "id"], fields: joined.fields.slice(0, 2), rows: [[1, 2]] }), "result.parquet");
+    expect(rowCount).toBe(1);
+    const file = body();
+    expect(file.subarray(0, 4).toString()).toBe("PAR1");
+    expect(file.includes("id_2")).toBe(true);
+  });
+
+  it("writes OIDs and unsigned BIGINTs past the signed 32- and 64-bit ranges", async () => {
+    const { res, body } = fakeResponse();
+    const fields = [{ name: "oid", dataTypeID: OID }, { name: "big", dataTypeID: NUMERIC, precision: 20, scale: 0 }];
+    const rowCount = await streamParquet(res, batches({ columns: ["oid", "big"], fields, rows: [[4294967295, "18446744073709551615"]] }), "result.parquet");
+    expect(rowCount).toBe(1);
+    expect(body().subarray(0, 4).toString()).toBe("PAR1");
+  });
+});
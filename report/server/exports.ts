@@ -0,0 +1,535 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import { ByteWriter, ParquetWriter, type SchemaElement, type Writer } from "hyparquet-writer";
+import { fieldKind, type FieldKind, type ResultField } from "@shared/field-types";
+import { QueryExecutionError, type QueryBatch } from "./query-runner";
+
+// Writers for exported query results. They take the result in batches, as it is streamed from
+// the database, so an export of any size is written without holding it in memory.
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'latin1';
+
+export interface CsvOptions {
+  delimiter: ',' | ';' | '\t' | '|';
+  encoding: CsvEncoding;
+  // Byte order mark at the start of the file, which Excel needs to recognise UTF-8
+  bom: boolean;
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = { delimiter: ',', encoding: 'utf-8', bom: false };
+
+const BYTE_ORDER_MARKS: Record<CsvEncoding, Buffer> = {
+  'utf-8': Buffer.from([0xef, 0xbb, 0xbf]),
+  'utf-16le': Buffer.from([0xff, 0xfe]),
+  latin1: Buffer.alloc(0),
+};
+
+const CHARSETS: Record<CsvEncoding, string> = {
+  'utf-8': 'utf-8',
+  'utf-16le': 'utf-16le',
+  latin1: 'iso-8859-1',
+};
+
+// Spreadsheet applications evaluate cells that start with one of these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+// Text of a result value as it appears in an export or report
+export function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return `\\x${value.toString('hex')}`;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// One field, quoted as RFC 4180 requires. Text that a spreadsheet would run as a formula gets a
+// leading apostrophe; numbers such as -5, which drivers return as text for NUMERIC columns, are
+// left alone.
+function csvField(value: unknown, delimiter: string): string {
+  let text = cellText(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !NUMBER_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One record, terminated by CRLF
+export function csvLine(values: unknown[], delimiter: string = DEFAULT_CSV_OPTIONS.delimiter): string {
+  return values.map((value) => csvField(value, delimiter)).join(delimiter) + '\r\n';
+}
+
+export function encodeCsv(text: string, encoding: CsvEncoding): Buffer {
+  if (encoding === 'latin1') {
+    // Characters Latin-1 cannot represent would otherwise be cut down to their low byte
+    return Buffer.from(text.replace(/[^\x00-\xff]/g, '?'), 'latin1');
+  }
+  return Buffer.from(text, encoding === 'utf-8' ? 'utf8' : 'utf16le');
+}
+
+export function csvContentType(encoding: CsvEncoding): string {
+  return `text/csv; charset=${CHARSETS[encoding]}`;
+}
+
+// Waits until the client has caught up with what was already sent, or has gone away
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+async function writeChunk(res: Response, chunk: Buffer): Promise<void> {
+  if (!res.write(chunk)) {
+    await waitForDrain(res);
+  }
+}
+
+// Streams a result to the response as CSV and returns the number of rows written. The headers go
+// out with the first batch, so an error raised before it can still be answered with JSON; after
+// that the caller can only abort the response. Stops reading the result if the client goes away.
+export async function streamCsv(
+  res: Response,
+  batches: AsyncIterable<QueryBatch>,
+  options: CsvOptions,
+  fileName: string,
+): Promise<number> {
+  let rowCount = 0;
+  let started = false;
+
+  for await (const batch of batches) {
+    let text = '';
+    if (!started) {
+      started = true;
+      res.setHeader('Content-Type', csvContentType(options.encoding));
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      if (options.bom) {
+        await writeChunk(res, BYTE_ORDER_MARKS[options.encoding]);
+      }
+      text = csvLine(batch.columns, options.delimiter);
+    }
+    for (const row of batch.rows) {
+      text += csvLine(row, options.delimiter);
+    }
+    rowCount += batch.rows.length;
+    await writeChunk(res, encodeCsv(text, options.encoding));
+    if (res.destroyed) {
+      break;
+    }
+  }
+  res.end();
+  return rowCount;
+}
+
+// Excel's limit, including the header row
+const XLSX_MAX_ROWS = 1_048_576;
+const XLSX_MIN_WIDTH = 8;
+const XLSX_MAX_WIDTH = 60;
+
+const XLSX_DATE_FORMATS: Partial<Record<FieldKind, string>> = {
+  date: 'yyyy-mm-dd',
+  timestamp: 'yyyy-mm-dd hh:mm:ss',
+  timestamptz: 'yyyy-mm-dd hh:mm:ss',
+};
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function xlsxNumberFormat(field: ResultField): string | undefined {
+  const kind = fieldKind(field.dataTypeID);
+  if (kind === 'decimal' && field.scale !== undefined) {
+    return field.scale > 0 ? `#,##0.${'0'.repeat(field.scale)}` : '#,##0';
+  }
+  return XLSX_DATE_FORMATS[kind];
+}
+
+// Excel has no time zones, so a DATE or TIMESTAMP is written with the wall-clock time the driver
+// read it as; TIMESTAMPTZ values are written in UTC
+function wallClock(date: Date): Date {
+  return new Date(Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds(),
+  ));
+}
+
+// A cell value of the column's type. Drivers return NUMERIC and BIGINT values as text; they
+// become numbers unless they would lose precision, like BIGINTs beyond 2^53.
+function xlsxValue(value: unknown, kind: FieldKind): ExcelJS.CellValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (kind) {
+    case 'boolean':
+      return typeof value === 'boolean' ? value : Number(value) !== 0;
+    case 'integer':
+    case 'float':
+    case 'decimal': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : cellText(value);
+    }
+    case 'bigint': {
+      const number = Number(value);
+      return Number.isSafeInteger(number) ? number : cellText(value);
+    }
+    case 'date':
+    case 'timestamp':
+      return value instanceof Date ? wallClock(value) : cellText(value);
+    case 'timestamptz':
+      return value instanceof Date ? value : cellText(value);
+    default:
+      return cellText(value);
+  }
+}
+
+// Sheet names are limited to 31 characters, may not contain []:*?/\ and must be unique
+// regardless of case
+export function xlsxSheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+export function addXlsxSheet(workbook: ExcelJS.Workbook, name: string): ExcelJS.Worksheet {
+  return workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+}
+
+// Writes a result to a sheet: a bold header row with an autofilter, then typed cells. Column
+// widths are fitted to the header and the first batch, since a streamed sheet's columns are
+// written before its rows. Calls `afterBatch` after each batch and returns the row count.
+export async function writeXlsxSheet(
+  sheet: ExcelJS.Worksheet,
+  batches: AsyncIterable<QueryBatch>,
+  afterBatch?: () => Promise<boolean>,
+): Promise<number> {
+  let rowCount = 0;
+  let started = false;
+  let kinds: FieldKind[] = [];
+  let formats: Array<string | undefined> = [];
+
+  for await (const batch of batches) {
+    if (!started) {
+      started = true;
+      kinds = batch.fields.map((field) => fieldKind(field.dataTypeID));
+      formats = batch.fields.map(xlsxNumberFormat);
+      sheet.columns = batch.columns.map((column, index) => {
+        // Dates are shown in their number format rather than as ISO text
+        const textWidth = (value: unknown) => value instanceof Date && formats[index] ? formats[index]!.length : cellText(value).length;
+        const longest = batch.rows.reduce((width, row) => Math.max(width, textWidth(row[index])), column.length);
+        return { width: Math.min(Math.max(longest + 2, XLSX_MIN_WIDTH), XLSX_MAX_WIDTH) };
+      });
+      const header = sheet.addRow(batch.columns);
+      header.font = { bold: true };
+      header.commit();
+      sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: batch.columns.length } };
+    }
+
+    if (rowCount + batch.rows.length >= XLSX_MAX_ROWS) {
+      throw new QueryExecutionError(
+        'row_limit',
+        `An Excel sheet holds at most ${(XLSX_MAX_ROWS - 1).toLocaleString()} rows. Export the results as CSV instead.`,
+      );
+    }
+    for (const values of batch.rows) {
+      const row = sheet.addRow(values.map((value: unknown, index: number) => xlsxValue(value, kinds[index])));
+      formats.forEach((format, index) => {
+        if (format) row.getCell(index + 1).numFmt = format;
+      });
+      row.commit();
+    }
+    rowCount += batch.rows.length;
+
+    if (afterBatch && !(await afterBatch())) {
+      break;
+    }
+  }
+  return rowCount;
+}
+
+export interface XlsxSheetSource {
+  title: string;
+  batches: AsyncIterable<QueryBatch>;
+}
+
+// Streams a workbook with one sheet per result and returns each sheet's row count. Nothing is
+// sent until the first sheet has rows to write, so an error in its query can still be answered
+// with JSON. Stops reading results if the client goes away.
+export async function streamXlsx(res: Response, sheets: XlsxSheetSource[], fileName: string): Promise<number[]> {
+  res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const used = new Set<string>();
+  const rowCounts: number[] = [];
+
+  // The workbook is written through a zip stream that does not wait for the client on its own
+  const keepUp = async () => {
+    if (res.writableNeedDrain) {
+      await waitForDrain(res);
+    }
+    return !res.destroyed;
+  };
+
+  for (const source of sheets) {
+    const sheet = addXlsxSheet(workbook, xlsxSheetName(source.title, used));
+    rowCounts.push(await writeXlsxSheet(sheet, source.batches, keepUp));
+    sheet.commit();
+    if (res.destroyed) {
+      return rowCounts;
+    }
+  }
+  await workbook.commit();
+  return rowCounts;
+}
+
+// JSON has no integer beyond 2^53 or exact decimal, so BIGINT and NUMERIC values stay the strings
+// the driver returned. Dates become ISO 8601 strings and binary values hex text.
+function jsonValue(value: unknown): unknown {
+  if (Buffer.isBuffer(value)) {
+    return cellText(value);
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+// Column names as keys of a record: a repeated name gets a suffix, so `SELECT a.id, b.id` gives
+// `id` and `id_2` instead of one value overwriting the other
+function uniqueColumnNames(columns: string[]): string[] {
+  const used = new Set(columns);
+  const seen = new Set<string>();
+  return columns.map((column) => {
+    if (!seen.has(column)) {
+      seen.add(column);
+      return column;
+    }
+    let suffix = 2;
+    while (used.has(`${column}_${suffix}`)) {
+      suffix++;
+    }
+    const name = `${column}_${suffix}`;
+    used.add(name);
+    return name;
+  });
+}
+
+function jsonRecord(columns: string[], row: unknown[]): string {
+  const record: Record<string, unknown> = {};
+  columns.forEach((column, index) => {
+    record[column] = jsonValue(row[index]);
+  });
+  return JSON.stringify(record);
+}
+
+// Streams a result as a JSON array of objects keyed by column name, or with `lines`, as
+// newline-delimited JSON with one object per line. Returns the number of rows written.
+export async function streamJson(
+  res: Response,
+  batches: AsyncIterable<QueryBatch>,
+  fileName: string,
+  { lines = false }: { lines?: boolean } = {},
+): Promise<number> {
+  let rowCount = 0;
+  let started = false;
+  let keys: string[] = [];
+
+  for await (const batch of batches) {
+    let text = '';
+    if (!started) {
+      started = true;
+      keys = uniqueColumnNames(batch.columns);
+      res.setHeader('Content-Type', lines ? 'application/x-ndjson; charset=utf-8' : 'application/json; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      text = lines ? '' : '[';
+    }
+    for (const row of batch.rows) {
+      const record = jsonRecord(keys, row);
+      text += lines ? `${record}\n` : `${rowCount === 0 ? '\n' : ',\n'}${record}`;
+      rowCount++;
+    }
+    await writeChunk(res, Buffer.from(text, 'utf8'));
+    if (res.destroyed) {
+      break;
+    }
+  }
+  if (!lines && !res.destroyed) {
+    res.write(rowCount === 0 ? ']\n' : '\n]\n');
+  }
+  res.end();
+  return rowCount;
+}
+
+export const PARQUET_CONTENT_TYPE = 'application/vnd.apache.parquet';
+
+// Rows are collected into row groups of this size before they are encoded; readers skip and
+// parallelise by row group, so a group per streamed batch would be too small
+const PARQUET_ROW_GROUP_SIZE = 50_000;
+// Largest precision a Parquet DECIMAL stored in an INT64 can hold
+const PARQUET_INT64_DECIMAL_DIGITS = 18;
+
+// The Parquet column for a result column. Every column is nullable. NUMERIC columns without a
+// declared precision, and types without a Parquet counterpart such as TIME or arrays, are written
+// as text.
+function parquetSchemaElement(field: ResultField, name: string): SchemaElement {
+  const base = { name, repetition_type: 'OPTIONAL' } as const;
+  switch (fieldKind(field.dataTypeID)) {
+    case 'boolean':
+      return { ...base, type: 'BOOLEAN' };
+    case 'integer':
+      return { ...base, type: 'INT32' };
+    case 'bigint':
+      return { ...base, type: 'INT64' };
+    case 'float':
+      return { ...base, type: 'DOUBLE' };
+    case 'decimal':
+      if (field.precision === undefined || field.scale === undefined || field.precision === 0) {
+        break;
+      }
+      return {
+        ...base,
+        type: field.precision <= PARQUET_INT64_DECIMAL_DIGITS ? 'INT64' : 'BYTE_ARRAY',
+        converted_type: 'DECIMAL',
+        logical_type: { type: 'DECIMAL', precision: field.precision, scale: field.scale },
+        precision: field.precision,
+        scale: field.scale,
+      };
+    case 'date':
+      return { ...base, type: 'INT32', converted_type: 'DATE', logical_type: { type: 'DATE' } };
+    case 'timestamp':
+    case 'timestamptz': {
+      const isAdjustedToUTC = fieldKind(field.dataTypeID) === 'timestamptz';
+      return { ...base, type: 'INT64', logical_type: { type: 'TIMESTAMP', isAdjustedToUTC, unit: 'MILLIS' } };
+    }
+    case 'json':
+      return { ...base, type: 'BYTE_ARRAY', converted_type: 'JSON' };
+    case 'binary':
+      return { ...base, type: 'BYTE_ARRAY' };
+  }
+  return { ...base, type: 'BYTE_ARRAY', converted_type: 'UTF8', logical_type: { type: 'STRING' } };
+}
+
+// The unscaled integer of a decimal string, e.g. 12.5 at scale 2 is 1250. Scaling through a
+// float would lose digits. NaN and infinities have no DECIMAL representation and become null.
+function unscaledDecimal(value: unknown, scale: number): bigint | null {
+  const match = /^([-+]?)(\d*)(?:\.(\d*))?$/.exec(cellText(value).trim());
+  if (!match || (match[2] === '' && !match[3])) {
+    return null;
+  }
+  const fraction = (match[3] ?? '').padEnd(scale, '0').slice(0, scale);
+  const unscaled = BigInt(`${match[2] || '0'}${fraction}`);
+  return match[1] === '-' ? -unscaled : unscaled;
+}
+
+// A value in the form the writer expects for the column's Parquet type
+function parquetValue(value: unknown, element: SchemaElement): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (element.converted_type === 'DECIMAL') {
+    return unscaledDecimal(value, element.scale ?? 0);
+  }
+  switch (element.type) {
+    case 'BOOLEAN':
+      return typeof value === 'boolean' ? value : Number(value) !== 0;
+    case 'INT32':
+      if (element.converted_type === 'DATE') {
+        return value instanceof Date ? wallClock(value) : new Date(`${cellText(value)}T00:00:00Z`);
+      }
+      return Number(value);
+    case 'INT64':
+      if (element.logical_type?.type === 'TIMESTAMP') {
+        const date = value instanceof Date ? value : new Date(cellText(value));
+        return element.logical_type.isAdjustedToUTC ? date : wallClock(date);
+      }
+      return BigInt(cellText(value));
+    case 'DOUBLE':
+      return Number(value);
+    case 'BYTE_ARRAY':
+      if (element.converted_type === 'JSON') {
+        // Drivers parse JSON columns; the writer serializes them again
+        return value;
+      }
+      if (element.converted_type === undefined) {
+        return Buffer.isBuffer(value) ? new Uint8Array(value) : Buffer.from(cellText(value));
+      }
+      return cellText(value);
+    default:
+      return cellText(value);
+  }
+}
+
+// The writer's buffer, sent to the response after every row group. Byte offsets in the file
+// footer are counted by the writer, so the buffer can be emptied as it goes.
+function responseWriter(res: Response): Writer {
+  const writer = new ByteWriter();
+  const send = async () => {
+    // Copied, since the buffer is reused for the next row group
+    const chunk = Buffer.from(new Uint8Array(writer.buffer, 0, writer.index));
+    writer.index = 0;
+    await writeChunk(res, chunk);
+  };
+  return Object.assign(writer, { flush: send, finish: send });
+}
+
+// Streams a result as a Parquet file whose schema follows the result's column types, and returns
+// the number of rows written. The headers go out with the first batch; rows are then written a
+// row group at a time.
+export async function streamParquet(
+  res: Response,
+  batches: AsyncIterable<QueryBatch>,
+  fileName: string,
+): Promise<number> {
+  let rowCount = 0;
+  let schema: SchemaElement[] = [];
+  let parquet: ParquetWriter | undefined;
+  const pending: unknown[][] = [];
+
+  const writeRowGroup = async (rows: unknown[][]) => {
+    const columnData = schema.slice(1).map((element, index) => ({
+      name: element.name,
+      data: rows.map((row) => parquetValue(row[index], element)),
+    }));
+    await parquet!.write({ columnData, rowGroupSize: rows.length });
+  };
+
+  for await (const batch of batches) {
+    if (!parquet) {
+      res.setHeader('Content-Type', PARQUET_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      const names = uniqueColumnNames(batch.fields.map((field) => field.name));
+      schema = [
+        { name: 'root', num_children: batch.fields.length },
+        ...batch.fields.map((field, index) => parquetSchemaElement(field, names[index])),
+      ];
+      parquet = new ParquetWriter({ writer: responseWriter(res), schema });
+    }
+    for (const row of batch.rows) {
+      pending.push(row);
+    }
+    rowCount += batch.rows.length;
+    while (pending.length >= PARQUET_ROW_GROUP_SIZE && !res.destroyed) {
+      await writeRowGroup(pending.splice(0, PARQUET_ROW_GROUP_SIZE));
+    }
+    if (res.destroyed) {
+      break;
+    }
+  }
+  if (parquet && !res.destroyed) {
+    if (pending.length > 0) {
+      await writeRowGroup(pending);
+    }
+    await parquet.finish();
+  }
+  res.end();
+  return rowCount;
+}
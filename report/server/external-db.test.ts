@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const pools = vi.hoisted(() => [] as Array<{ query: ReturnType<typeof vi.fn>; end: ReturnType<typeof vi.fn> }>);
+
+vi.mock("pg", () => ({
+  Pool: vi.fn(function (this: any) {
+    this.query = vi.fn(async () => ({ rows: [] }));
+    this.end = vi.fn(async () => {});
+    this.on = vi.fn();
+    this.totalCount = 2;
+    this.idleCount = 1;
+    this.waitingCount = 0;
+    pools.push(this);
+  }),
+}));
+
+const { externalDbManager } = await import("./external-db");
+
+const config = {
+  type: "postgresql" as const,
+  host: "db.internal",
+  port: 5432,
+  database: "sales",
+  username: "reporter",
+  password: "secret",
+};
+
+describe("externalDbManager pools", () => {
+  beforeEach(async () => {
+    await externalDbManager.closeConnection("profile-1");
+    pools.length = 0;
+  });
+
+  it("creates one pool for parallel first queries", async () => {
+    await externalDbManager.registerConnection("profile-1", config);
+    await Promise.all([externalDbManager.getTables("profile-1"), externalDbManager.getTables("profile-1")]);
+
+    expect(pools).toHaveLength(1);
+    expect(pools[0].query).toHaveBeenCalledTimes(2);
+    expect(externalDbManager.getPoolStats("profile-1")).toMatchObject({ total: 2, active: 1, idle: 1, waiting: 0 });
+  });
+
+  it("ends a pool whose connection was closed while it was being created", async () => {
+    await externalDbManager.registerConnection("profile-1", config);
+    const tables = externalDbManager.getTables("profile-1");
+    await externalDbManager.closeConnection("profile-1");
+
+    await expect(tables).rejects.toThrow("was closed");
+    expect(pools).toHaveLength(1);
+    expect(pools[0].end).toHaveBeenCalled();
+    expect(externalDbManager.getPoolStats("profile-1")).toBeNull();
+  });
+
+  it("creates a new pool when a profile points at another database", async () => {
+    await externalDbManager.registerConnection("profile-1", config);
+    await externalDbManager.getTables("profile-1");
+    await externalDbManager.registerConnection("profile-1", { ...config, database: "finance" });
+    await externalDbManager.getTables("profile-1");
+
+    expect(pools).toHaveLength(2);
+    expect(pools[0].end).toHaveBeenCalled();
+  });
+
+  it("records who opened an ad-hoc connection until it is closed", async () => {
+    await externalDbManager.registerConnection("adhoc-1", config, 7);
+    expect(externalDbManager.getConnectionOwner("adhoc-1")).toBe(7);
+    await externalDbManager.closeConnection("adhoc-1");
+    expect(externalDbManager.getConnectionOwner("adhoc-1")).toBeNull();
+    expect(externalDbManager.hasConnection("adhoc-1")).toBe(false);
+  });
+});
@@ -1,4 +1,14 @@
-import { pool } from "./db";
+import type { Pool as PgPool } from "pg";
+import type { Pool as MysqlPool, RowDataPacket } from "mysql2/promise";
+import {
+  runReadOnlyMysqlQuery,
+  runReadOnlyPostgresQuery,
+  streamReadOnlyMysqlQuery,
+  streamReadOnlyPostgresQuery,
+  type QueryBatch,
+  type QueryParam,
+  type QueryResultSet,
+} from "./query-runner";
 
 export interface ExternalDatabaseConfig {
   type: 'postgresql' | 'mysql';
@@ -12,6 +22,7 @@ export interface ExternalDatabaseConfig {
 
 export interface DatabaseTable {
   name: string;
+  schema: string;
   rowCount: number;
 }
 
@@ -23,22 +34,81 @@ export interface DatabaseColumn {
   foreignKey?: string;
 }
 
+export interface PoolStats {
+  // Client counts, only for PostgreSQL: mysql2 does not expose pool counters publicly
+  total?: number;
+  active?: number;
+  idle?: number;
+  waiting?: number;
+  healthy: boolean;
+  lastHealthCheck: string | null;
+  lastError?: string;
+}
+
+type ExternalPool = (
+  | { type: 'postgresql'; pool: PgPool }
+  | { type: 'mysql'; pool: MysqlPool }
+) & {
+  healthTimer: NodeJS.Timeout;
+  health: { healthy: boolean; checkedAt: Date | null; error?: string };
+};
+
+function readPoolSetting(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const poolSettings = {
+  max: readPoolSetting('EXTERNAL_POOL_MAX', 10),
+  idleTimeoutMs: readPoolSetting('EXTERNAL_POOL_IDLE_TIMEOUT_MS', 30000),
+  connectionTimeoutMs: readPoolSetting('EXTERNAL_POOL_CONNECTION_TIMEOUT_MS', 5000),
+  healthCheckIntervalMs: readPoolSetting('EXTERNAL_POOL_HEALTH_CHECK_INTERVAL_MS', 60000),
+};
+
 class ExternalDatabaseManager {
-  private currentConfig: ExternalDatabaseConfig | null = null;
-  private isConnected: boolean = false;
+  // Registered connections by id (a saved profile id, or an ad-hoc id from /api/database/connect)
+  private connections = new Map<string, ExternalDatabaseConfig>();
+  // User who opened each ad-hoc connection; profile connections are shared and have no owner
+  private owners = new Map<string, number>();
+  // One long-lived pool per connection, created on first use
+  private pools = new Map<string, ExternalPool>();
+  // Pools being created, shared by parallel first queries so that each connection gets only one
+  private pendingPools = new Map<string, Promise<ExternalPool>>();
+
+  async registerConnection(connectionId: string, config: ExternalDatabaseConfig, ownerId?: number) {
+    const existing = this.connections.get(connectionId);
+    if (existing && this.poolKey(existing) !== this.poolKey(config)) {
+      await this.closePool(connectionId);
+    }
+    this.connections.set(connectionId, config);
+    if (ownerId !== undefined) {
+      this.owners.set(connectionId, ownerId);
+    }
+  }
+
+  async closeConnection(connectionId: string) {
+    await this.closePool(connectionId);
+    this.connections.delete(connectionId);
+    this.owners.delete(connectionId);
+  }
+
+  hasConnection(connectionId: string): boolean {
+    return this.connections.has(connectionId);
+  }
 
-  setConfiguration(config: ExternalDatabaseConfig) {
-    this.currentConfig = config;
-    this.isConnected = false;
+  getConnectionOwner(connectionId: string): number | null {
+    return this.owners.get(connectionId) ?? null;
   }
 
-  clearConfiguration() {
-    this.currentConfig = null;
-    this.isConnected = false;
+  getDatabaseType(connectionId: string): ExternalDatabaseConfig['type'] | null {
+    return this.connections.get(connectionId)?.type ?? null;
   }
 
-  isExternalDatabaseConfigured(): boolean {
-    return this.currentConfig !== null;
+  // The schema unqualified table names resolve to; in MySQL a schema is a database
+  getDefaultSchema(connectionId: string): string | null {
+    const config = this.connections.get(connectionId);
+    if (!config) return null;
+    return config.type === 'mysql' ? config.database : 'public';
   }
 
   async testConnection(config: ExternalDatabaseConfig): Promise<{ success: boolean; error?: string }> {
@@ -60,9 +130,18 @@ class ExternalDatabaseManager {
         client.release();
         await testPool.end();
         
+        return { success: true };
+      } else if (config.type === 'mysql') {
+        const connection = await this.createMysqlConnection(config);
+        try {
+          await connection.query('SELECT 1');
+        } finally {
+          await connection.end();
+        }
+
         return { success: true };
       } else {
-        return { success: false, error: 'MySQL support not yet implemented' };
+        return { success: false, error: `Unsupported database type: ${config.type}` };
       }
     } catch (error) {
       return { 
@@ -72,139 +151,330 @@ class ExternalDatabaseManager {
     }
   }
 
-  async getTables(): Promise<DatabaseTable[]> {
-    if (!this.currentConfig) {
-      throw new Error('No external database configured');
+  private async createMysqlConnection(config: ExternalDatabaseConfig) {
+    const mysql = await import('mysql2/promise');
+    return mysql.createConnection({
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.username,
+      password: config.password,
+      ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+      connectTimeout: 5000,
+    });
+  }
+
+  // Identifies the target database, so that an edited profile gets a fresh pool
+  private poolKey(config: ExternalDatabaseConfig): string {
+    return `${config.type}://${config.username}@${config.host}:${config.port}/${config.database}`;
+  }
+
+  private async getPool(connectionId: string): Promise<ExternalPool> {
+    const config = this.connections.get(connectionId);
+    if (!config) {
+      throw new Error(`No external database registered for connection ${connectionId}`);
     }
 
-    console.log('[DEBUG] External DB Config:', this.currentConfig);
-    if (this.currentConfig.type === 'postgresql') {
+    const entry = this.pools.get(connectionId);
+    if (entry) return entry;
+
+    let pending = this.pendingPools.get(connectionId);
+    if (!pending) {
+      const created: Promise<ExternalPool> = this.createPool(config)
+        .then(async (entry) => {
+          // The connection was closed or re-registered while the pool was being created
+          if (this.pendingPools.get(connectionId) !== created) {
+            await this.endPool(entry);
+            throw new Error(`External database connection ${connectionId} was closed`);
+          }
+          this.pools.set(connectionId, entry);
+          return entry;
+        })
+        .finally(() => {
+          if (this.pendingPools.get(connectionId) === created) {
+            this.pendingPools.delete(connectionId);
+          }
+        });
+      this.pendingPools.set(connectionId, created);
+      pending = created;
+    }
+    return pending;
+  }
+
+  private async createPool(config: ExternalDatabaseConfig): Promise<ExternalPool> {
+    const health: ExternalPool['health'] = { healthy: true, checkedAt: null };
+    let entry: ExternalPool;
+
+    if (config.type === 'postgresql') {
       const { Pool } = await import('pg');
-      const extPool = new Pool({
-        host: this.currentConfig.host,
-        port: this.currentConfig.port,
-        database: this.currentConfig.database,
-        user: this.currentConfig.username,
-        password: this.currentConfig.password,
-        ssl: this.currentConfig.ssl ? { rejectUnauthorized: false } : false,
+      const pool = new Pool({
+        host: config.host,
+        port: config.port,
+        database: config.database,
+        user: config.username,
+        password: config.password,
+        ssl: config.ssl ? { rejectUnauthorized: false } : false,
+        max: poolSettings.max,
+        idleTimeoutMillis: poolSettings.idleTimeoutMs,
+        connectionTimeoutMillis: poolSettings.connectionTimeoutMs,
+      });
+      // Idle clients that lose their connection must not crash the process
+      pool.on('error', (error) => {
+        health.healthy = false;
+        health.error = error.message;
       });
+      entry = { type: 'postgresql', pool, health, healthTimer: this.startHealthCheck(() => pool.query('SELECT 1'), health) };
+    } else if (config.type === 'mysql') {
+      const mysql = await import('mysql2/promise');
+      const pool = mysql.createPool({
+        host: config.host,
+        port: config.port,
+        database: config.database,
+        user: config.username,
+        password: config.password,
+        ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+        connectionLimit: poolSettings.max,
+        maxIdle: poolSettings.max,
+        idleTimeout: poolSettings.idleTimeoutMs,
+        connectTimeout: poolSettings.connectionTimeoutMs,
+        enableKeepAlive: true,
+      });
+      entry = { type: 'mysql', pool, health, healthTimer: this.startHealthCheck(() => pool.query('SELECT 1'), health) };
+    } else {
+      throw new Error(`Unsupported database type: ${config.type}`);
+    }
 
+    return entry;
+  }
+
+  private startHealthCheck(ping: () => Promise<unknown>, health: ExternalPool['health']) {
+    const timer = setInterval(async () => {
       try {
-        const result = await extPool.query(`
-          SELECT 
-            t.table_name as name,
-            COALESCE(s.n_tup_ins, 0) as row_count
-          FROM information_schema.tables t
-          LEFT JOIN pg_stat_user_tables s ON s.relname = t.table_name
-          WHERE t.table_schema = 'public' 
-            AND t.table_type = 'BASE TABLE'
-          ORDER BY t.table_name;
-        `);
-
-        return result.rows.map((row: any) => ({
-          name: row.name,
-          rowCount: parseInt(row.row_count) || 0
-        }));
+        await ping();
+        health.healthy = true;
+        health.error = undefined;
+      } catch (error) {
+        health.healthy = false;
+        health.error = error instanceof Error ? error.message : 'Health check failed';
       } finally {
-        await extPool.end();
+        health.checkedAt = new Date();
       }
+    }, poolSettings.healthCheckIntervalMs);
+    // The health check alone should not keep the process alive
+    timer.unref();
+    return timer;
+  }
+
+  private async closePool(connectionId: string) {
+    this.pendingPools.delete(connectionId);
+    const entry = this.pools.get(connectionId);
+    if (!entry) return;
+
+    this.pools.delete(connectionId);
+    await this.endPool(entry);
+  }
+
+  private async endPool(entry: ExternalPool) {
+    clearInterval(entry.healthTimer);
+    try {
+      await entry.pool.end();
+    } catch (error) {
+      console.error('Error closing external database pool:', error);
     }
+  }
+
+  getPoolStats(connectionId: string): PoolStats | null {
+    const entry = this.pools.get(connectionId);
+    if (!entry) return null;
 
-    throw new Error(`Unsupported database type: ${this.currentConfig.type}`);
+    const health = {
+      healthy: entry.health.healthy,
+      lastHealthCheck: entry.health.checkedAt?.toISOString() ?? null,
+      lastError: entry.health.error,
+    };
+
+    if (entry.type === 'postgresql') {
+      const { totalCount, idleCount, waitingCount } = entry.pool;
+      return { total: totalCount, active: totalCount - idleCount, idle: idleCount, waiting: waitingCount, ...health };
+    }
+
+    return health;
   }
 
-  async getTableColumns(tableName: string): Promise<DatabaseColumn[]> {
-    if (!this.currentConfig) {
-      throw new Error('No external database configured');
+  async getTables(connectionId: string): Promise<DatabaseTable[]> {
+    const entry = await this.getPool(connectionId);
+
+    if (entry.type === 'postgresql') {
+      const result = await entry.pool.query(`
+        SELECT 
+          t.table_name as name,
+          t.table_schema as schema,
+          COALESCE(s.n_tup_ins, 0) as row_count
+        FROM information_schema.tables t
+        LEFT JOIN pg_stat_user_tables s
+          ON s.schemaname = t.table_schema AND s.relname = t.table_name
+        WHERE t.table_schema NOT IN ('pg_catalog', 'information_schema')
+          AND t.table_schema NOT LIKE 'pg\\_%'
+          AND t.table_type = 'BASE TABLE'
+        ORDER BY t.table_schema, t.table_name;
+      `);
+
+      return result.rows.map((row: any) => ({
+        name: row.name,
+        schema: row.schema,
+        rowCount: parseInt(row.row_count) || 0
+      }));
     }
 
-    if (this.currentConfig.type === 'postgresql') {
-      const { Pool } = await import('pg');
-      const extPool = new Pool({
-        host: this.currentConfig.host,
-        port: this.currentConfig.port,
-        database: this.currentConfig.database,
-        user: this.currentConfig.username,
-        password: this.currentConfig.password,
-        ssl: this.currentConfig.ssl ? { rejectUnauthorized: false } : false,
-      });
+    if (entry.type === 'mysql') {
+      // TABLE_ROWS is an estimate for InnoDB, which is good enough for the schema browser
+      const [rows] = await entry.pool.query<RowDataPacket[]>(`
+        SELECT 
+          TABLE_NAME as name,
+          TABLE_SCHEMA as \`schema\`,
+          COALESCE(TABLE_ROWS, 0) as row_count
+        FROM information_schema.TABLES
+        WHERE TABLE_SCHEMA = DATABASE()
+          AND TABLE_TYPE = 'BASE TABLE'
+        ORDER BY TABLE_NAME;
+      `);
 
-      try {
-        const result = await extPool.query(`
-          SELECT 
-            c.column_name as name,
-            c.data_type as type,
-            c.is_nullable = 'YES' as nullable,
-            COALESCE(pk.is_primary, false) as primary_key,
-            fk.foreign_table as foreign_key
-          FROM information_schema.columns c
-          LEFT JOIN (
-            SELECT kcu.column_name, true as is_primary
-            FROM information_schema.table_constraints tc
-            JOIN information_schema.key_column_usage kcu 
-              ON tc.constraint_name = kcu.constraint_name
-            WHERE tc.table_name = $1 
-              AND tc.constraint_type = 'PRIMARY KEY'
-          ) pk ON pk.column_name = c.column_name
-          LEFT JOIN (
-            SELECT 
-              kcu.column_name,
-              ccu.table_name as foreign_table
-            FROM information_schema.table_constraints tc
-            JOIN information_schema.key_column_usage kcu 
-              ON tc.constraint_name = kcu.constraint_name
-            JOIN information_schema.constraint_column_usage ccu 
-              ON ccu.constraint_name = tc.constraint_name
-            WHERE tc.table_name = $1 
-              AND tc.constraint_type = 'FOREIGN KEY'
-          ) fk ON fk.column_name = c.column_name
-          WHERE c.table_name = $1
-          ORDER BY c.ordinal_position;
-        `, [tableName]);
-
-        return result.rows.map((row: any) => ({
-          name: row.name,
-          type: row.type.toUpperCase(),
-          nullable: row.nullable,
-          primaryKey: row.primary_key,
-          foreignKey: row.foreign_key
-        }));
-      } finally {
-        await extPool.end();
-      }
+      return rows.map((row) => ({
+        name: row.name,
+        schema: row.schema,
+        rowCount: parseInt(row.row_count) || 0
+      }));
     }
 
-    throw new Error(`Unsupported database type: ${this.currentConfig.type}`);
+    throw new Error('Unsupported database type');
   }
 
-  async executeQuery(query: string): Promise<{ columns: string[]; rows: any[] }> {
-    if (!this.currentConfig) {
-      throw new Error('No external database configured');
+  // `schema` defaults to the connection's default schema
+  async getTableColumns(connectionId: string, tableName: string, schema?: string): Promise<DatabaseColumn[]> {
+    const entry = await this.getPool(connectionId);
+    const tableSchema = schema || this.getDefaultSchema(connectionId);
+
+    if (entry.type === 'postgresql') {
+      const result = await entry.pool.query(`
+        SELECT 
+          c.column_name as name,
+          c.data_type as type,
+          c.is_nullable = 'YES' as nullable,
+          COALESCE(pk.is_primary, false) as primary_key,
+          fk.foreign_table as foreign_key
+        FROM information_schema.columns c
+        LEFT JOIN (
+          SELECT kcu.column_name, true as is_primary
+          FROM information_schema.table_constraints tc
+          JOIN information_schema.key_column_usage kcu 
+            ON tc.constraint_name = kcu.constraint_name
+            AND tc.constraint_schema = kcu.constraint_schema
+            AND tc.table_name = kcu.table_name
+          WHERE tc.table_name = $1 
+            AND tc.table_schema = $2
+            AND tc.constraint_type = 'PRIMARY KEY'
+        ) pk ON pk.column_name = c.column_name
+        LEFT JOIN (
+          SELECT 
+            kcu.column_name,
+            ccu.table_name as foreign_table
+          FROM information_schema.table_constraints tc
+          JOIN information_schema.key_column_usage kcu 
+            ON tc.constraint_name = kcu.constraint_name
+            AND tc.constraint_schema = kcu.constraint_schema
+            AND tc.table_name = kcu.table_name
+          JOIN information_schema.constraint_column_usage ccu 
+            ON ccu.constraint_name = tc.constraint_name
+            AND ccu.constraint_schema = tc.constraint_schema
+          WHERE tc.table_name = $1 
+            AND tc.table_schema = $2
+            AND tc.constraint_type = 'FOREIGN KEY'
+        ) fk ON fk.column_name = c.column_name
+        WHERE c.table_name = $1
+          AND c.table_schema = $2
+        ORDER BY c.ordinal_position;
+      `, [tableName, tableSchema]);
+
+      return result.rows.map((row: any) => ({
+        name: row.name,
+        type: row.type.toUpperCase(),
+        nullable: row.nullable,
+        primaryKey: row.primary_key,
+        foreignKey: row.foreign_key
+      }));
     }
 
-    if (this.currentConfig.type === 'postgresql') {
-      const { Pool } = await import('pg');
-      const extPool = new Pool({
-        host: this.currentConfig.host,
-        port: this.currentConfig.port,
-        database: this.currentConfig.database,
-        user: this.currentConfig.username,
-        password: this.currentConfig.password,
-        ssl: this.currentConfig.ssl ? { rejectUnauthorized: false } : false,
-      });
+    if (entry.type === 'mysql') {
+      const [rows] = await entry.pool.query<RowDataPacket[]>(`
+        SELECT 
+          c.COLUMN_NAME as name,
+          c.DATA_TYPE as type,
+          c.IS_NULLABLE = 'YES' as nullable,
+          c.COLUMN_KEY = 'PRI' as primary_key,
+          fk.foreign_table as foreign_key
+        FROM information_schema.COLUMNS c
+        LEFT JOIN (
+          -- Constraint names are unique only per table; one row per column even with several keys
+          SELECT kcu.COLUMN_NAME, MIN(kcu.REFERENCED_TABLE_NAME) as foreign_table
+          FROM information_schema.KEY_COLUMN_USAGE kcu
+          JOIN information_schema.REFERENTIAL_CONSTRAINTS rc
+            ON rc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+            AND rc.TABLE_NAME = kcu.TABLE_NAME
+            AND rc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+          WHERE kcu.TABLE_SCHEMA = ?
+            AND kcu.TABLE_NAME = ?
+          GROUP BY kcu.COLUMN_NAME
+        ) fk ON fk.COLUMN_NAME = c.COLUMN_NAME
+        WHERE c.TABLE_SCHEMA = ?
+          AND c.TABLE_NAME = ?
+        ORDER BY c.ORDINAL_POSITION;
+      `, [tableSchema, tableName, tableSchema, tableName]);
+
+      return rows.map((row) => ({
+        name: row.name,
+        type: String(row.type).toUpperCase(),
+        nullable: Boolean(row.nullable),
+        primaryKey: Boolean(row.primary_key),
+        foreignKey: row.foreign_key || undefined
+      }));
+    }
 
+    throw new Error('Unsupported database type');
+  }
+
+  async executeQuery(connectionId: string, query: string, params: QueryParam[] = []): Promise<QueryResultSet> {
+    const entry = await this.getPool(connectionId);
+
+    if (entry.type === 'postgresql') {
+      return await runReadOnlyPostgresQuery(entry.pool, query, params);
+    }
+
+    if (entry.type === 'mysql') {
+      const connection = await entry.pool.getConnection();
       try {
-        const result = await extPool.query(query);
-        return {
-          columns: result.fields ? result.fields.map((f: any) => f.name) : [],
-          rows: result.rows || []
-        };
+        return await runReadOnlyMysqlQuery(connection, query, params);
       } finally {
-        await extPool.end();
+        connection.release();
       }
     }
 
-    throw new Error(`Unsupported database type: ${this.currentConfig.type}`);
+    throw new Error('Unsupported database type');
+  }
+
+  async *streamQuery(connectionId: string, query: string, params: QueryParam[] = []): AsyncGenerator<QueryBatch> {
+    const entry = await this.getPool(connectionId);
+
+    if (entry.type === 'postgresql') {
+      yield* streamReadOnlyPostgresQuery(entry.pool, query, params);
+      return;
+    }
+
+    if (entry.type === 'mysql') {
+      yield* streamReadOnlyMysqlQuery(await entry.pool.getConnection(), query, params);
+      return;
+    }
+
+    throw new Error('Unsupported database type');
   }
 }
 
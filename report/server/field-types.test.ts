@@ -0,0 +1,39 @@
+import type { FieldDef } from "pg";
+import type { FieldPacket } from "mysql2";
+import { fieldKind, PG_TYPES } from "@shared/field-types";
+import { describe, expect, it } from "vitest";
+import { mysqlFields, postgresFields } from "./field-types";
+
+const UNSIGNED = 32;
+
+function mysqlField(columnType: number, flags: number, columnLength: number, decimals = 0): FieldPacket {
+  return { name: "c", columnType, flags, columnLength, decimals } as FieldPacket;
+}
+
+describe("mysqlFields", () => {
+  it("keeps unsigned BIGINT values out of a signed 64-bit type", () => {
+    const LONGLONG = 0x08;
+    expect(mysqlFields([mysqlField(LONGLONG, 0, 20)])).toEqual([{ name: "c", dataTypeID: PG_TYPES.int8 }]);
+    expect(mysqlFields([mysqlField(LONGLONG, UNSIGNED, 20)])).toEqual([
+      { name: "c", dataTypeID: PG_TYPES.numeric, precision: 20, scale: 0 },
+    ]);
+  });
+
+  it("widens unsigned integers and reads DECIMAL precision from the display length", () => {
+    const LONG = 0x03;
+    const NEWDECIMAL = 0xf6;
+    expect(mysqlFields([mysqlField(LONG, UNSIGNED, 10)])[0].dataTypeID).toBe(PG_TYPES.int8);
+    expect(mysqlFields([mysqlField(NEWDECIMAL, 0, 12, 2)])[0]).toMatchObject({ precision: 10, scale: 2 });
+  });
+});
+
+describe("postgresFields", () => {
+  it("reads NUMERIC precision and scale from the type modifier", () => {
+    const field = { name: "n", dataTypeID: PG_TYPES.numeric, dataTypeModifier: ((12 << 16) | 3) + 4 };
+    expect(postgresFields([field as FieldDef])).toEqual([{ name: "n", dataTypeID: PG_TYPES.numeric, precision: 12, scale: 3 }]);
+  });
+
+  it("treats OIDs as 64-bit integers, since they go up to 2^32 - 1", () => {
+    expect(fieldKind(PG_TYPES.oid)).toBe("bigint");
+  });
+});
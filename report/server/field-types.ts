@@ -0,0 +1,111 @@
+import type { FieldDef } from "pg";
+import type { FieldPacket } from "mysql2";
+import { PG_TYPES, type ResultField } from "@shared/field-types";
+
+// Column types of driver results, in the shared vocabulary of PostgreSQL type OIDs
+
+export function postgresFields(fields: FieldDef[] | undefined): ResultField[] {
+  return (fields ?? []).map((field) => {
+    // NUMERIC(p, s) stores ((p << 16) | s) + 4 in the type modifier; -1 means no declared scale
+    if (field.dataTypeID === PG_TYPES.numeric && field.dataTypeModifier >= 4) {
+      const modifier = field.dataTypeModifier - 4;
+      return { name: field.name, dataTypeID: field.dataTypeID, precision: (modifier >> 16) & 0xffff, scale: modifier & 0xffff };
+    }
+    return { name: field.name, dataTypeID: field.dataTypeID };
+  });
+}
+
+// MySQL protocol column types, from mysql2's constants
+const MYSQL_TYPES = {
+  DECIMAL: 0x00,
+  TINY: 0x01,
+  SHORT: 0x02,
+  LONG: 0x03,
+  FLOAT: 0x04,
+  DOUBLE: 0x05,
+  TIMESTAMP: 0x07,
+  LONGLONG: 0x08,
+  INT24: 0x09,
+  DATE: 0x0a,
+  TIME: 0x0b,
+  DATETIME: 0x0c,
+  YEAR: 0x0d,
+  NEWDATE: 0x0e,
+  JSON: 0xf5,
+  NEWDECIMAL: 0xf6,
+  TINY_BLOB: 0xf9,
+  MEDIUM_BLOB: 0xfa,
+  LONG_BLOB: 0xfb,
+  BLOB: 0xfc,
+  VAR_STRING: 0xfd,
+  STRING: 0xfe,
+};
+
+const MYSQL_UNSIGNED_FLAG = 32;
+// Character set number MySQL reports for binary strings
+const MYSQL_BINARY_CHARSET = 63;
+
+function isUnsigned(field: FieldPacket): boolean {
+  return typeof field.flags === 'number'
+    ? (field.flags & MYSQL_UNSIGNED_FLAG) !== 0
+    : field.flags.includes('UNSIGNED');
+}
+
+function mysqlDataType(field: FieldPacket): number {
+  const unsigned = isUnsigned(field);
+
+  switch (field.columnType ?? field.type) {
+    case MYSQL_TYPES.TINY:
+      // BOOLEAN is TINYINT(1)
+      return field.columnLength === 1 ? PG_TYPES.bool : PG_TYPES.int2;
+    case MYSQL_TYPES.SHORT:
+    case MYSQL_TYPES.YEAR:
+      return unsigned ? PG_TYPES.int4 : PG_TYPES.int2;
+    case MYSQL_TYPES.INT24:
+      return PG_TYPES.int4;
+    case MYSQL_TYPES.LONG:
+      return unsigned ? PG_TYPES.int8 : PG_TYPES.int4;
+    case MYSQL_TYPES.LONGLONG:
+      // Unsigned values reach 2^64 - 1, past a signed 64-bit integer
+      return unsigned ? PG_TYPES.numeric : PG_TYPES.int8;
+    case MYSQL_TYPES.FLOAT:
+      return PG_TYPES.float4;
+    case MYSQL_TYPES.DOUBLE:
+      return PG_TYPES.float8;
+    case MYSQL_TYPES.DECIMAL:
+    case MYSQL_TYPES.NEWDECIMAL:
+      return PG_TYPES.numeric;
+    case MYSQL_TYPES.DATE:
+    case MYSQL_TYPES.NEWDATE:
+      return PG_TYPES.date;
+    case MYSQL_TYPES.TIME:
+      return PG_TYPES.time;
+    case MYSQL_TYPES.DATETIME:
+    case MYSQL_TYPES.TIMESTAMP:
+      return PG_TYPES.timestamp;
+    case MYSQL_TYPES.JSON:
+      return PG_TYPES.json;
+    case MYSQL_TYPES.TINY_BLOB:
+    case MYSQL_TYPES.MEDIUM_BLOB:
+    case MYSQL_TYPES.LONG_BLOB:
+    case MYSQL_TYPES.BLOB:
+    case MYSQL_TYPES.VAR_STRING:
+    case MYSQL_TYPES.STRING:
+      return field.characterSet === MYSQL_BINARY_CHARSET ? PG_TYPES.bytea : PG_TYPES.text;
+    default:
+      return PG_TYPES.text;
+  }
+}
+
+export function mysqlFields(fields: FieldPacket[] | undefined): ResultField[] {
+  return (fields ?? []).map((field) => {
+    const dataTypeID = mysqlDataType(field);
+    if (dataTypeID !== PG_TYPES.numeric || field.columnLength === undefined) {
+      return { name: field.name, dataTypeID };
+    }
+    // A DECIMAL's display length counts the decimal point and, unless unsigned, the sign
+    const scale = field.decimals;
+    const precision = field.columnLength - (scale > 0 ? 1 : 0) - (isUnsigned(field) ? 0 : 1);
+    return { name: field.name, dataTypeID, precision, scale };
+  });
+}
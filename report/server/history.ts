@@ -0,0 +1,40 @@
+import type { Request } from "express";
+import { storage } from "./storage";
+import type { QueryParam } from "./query-runner";
+
+interface QueryRunOutcome {
+  // Date.now() when the request started
+  startedAt: number;
+  connectionId?: string;
+  // Defaults to the `params` of the request body
+  params?: QueryParam[];
+  rowCount?: number;
+  // Set when the run failed
+  error?: unknown;
+}
+
+// Adds an execution to the user's history. Only requests from the builder carry a `queryConfig`;
+// later result pages of the same run leave it out so they are not recorded again.
+export async function recordQueryRun(req: Request, outcome: QueryRunOutcome): Promise<void> {
+  const { sql, params, queryConfig } = req.body ?? {};
+  if (!req.user || typeof queryConfig !== 'string' || typeof sql !== 'string') {
+    return;
+  }
+
+  try {
+    await storage.createQueryRun({
+      userId: req.user.id,
+      connectionId: outcome.connectionId ?? null,
+      queryConfig,
+      sqlText: sql,
+      params: outcome.params ?? (Array.isArray(params) ? params : []),
+      durationMs: Date.now() - outcome.startedAt,
+      rowCount: outcome.rowCount ?? null,
+      success: outcome.error === undefined,
+      error: outcome.error === undefined ? null
+        : outcome.error instanceof Error ? outcome.error.message : String(outcome.error),
+    });
+  } catch (error) {
+    console.error("Failed to record query run:", error);
+  }
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startReportScheduler } from "./scheduler";
 
 const app = express();
 app.use(express.json());
@@ -58,5 +59,6 @@ app.use((req, res, next) => {
   // ✅ FIX: Use correct syntax for server.listen with host and port
   server.listen(port, "0.0.0.0", () => {
     log(`🚀 Server running at http://0.0.0.0:${port}`);
+    startReportScheduler();
   });
 })();
@@ -0,0 +1,72 @@
+import type { ColumnMask, MaskStrategy, RoleGrant } from "@shared/schema";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./storage", () => ({
+  INTERNAL_TABLES: [],
+  storage: {
+    getTableColumns: vi.fn(async () => [{ name: "id" }, { name: "email" }]),
+  },
+}));
+
+const { AccessScope, authorizeQuery } = await import("./access-control");
+const { maskExpression } = await import("./masking");
+
+describe("maskExpression", () => {
+  it.each([
+    ["redact", "postgresql", `CASE WHEN "email" IS NULL THEN NULL ELSE '*****' END`],
+    ["redact", "mysql", "CASE WHEN `email` IS NULL THEN NULL ELSE '*****' END"],
+    [
+      "partial",
+      "postgresql",
+      `CASE WHEN "email" IS NULL THEN NULL WHEN strpos("email"::text, '@') > 1 ` +
+        `THEN left("email"::text, 1) || '***' || SUBSTRING("email"::text, strpos("email"::text, '@')) ` +
+        `ELSE left("email"::text, 1) || '***' END`,
+    ],
+    [
+      "partial",
+      "mysql",
+      "CASE WHEN `email` IS NULL THEN NULL WHEN LOCATE('@', `email`) > 1 " +
+        "THEN CONCAT(CONCAT(LEFT(`email`, 1), '***'), SUBSTRING(`email`, LOCATE('@', `email`))) " +
+        "ELSE CONCAT(LEFT(`email`, 1), '***') END",
+    ],
+    ["hash", "postgresql", `encode(sha256(convert_to("email"::text, 'UTF8')), 'hex')`],
+    ["hash", "mysql", "SHA2(`email`, 256)"],
+    ["null", "postgresql", "NULL"],
+    ["null", "mysql", "NULL"],
+  ] as const)("masks with %s on %s", (strategy, databaseType, expected) => {
+    const column = databaseType === "mysql" ? "`email`" : `"email"`;
+    expect(maskExpression(strategy, column, databaseType)).toBe(expected);
+  });
+
+  it("keeps NULLs NULL", () => {
+    // Redact and partial would otherwise turn NULL into text; the hash functions return NULL for NULL
+    for (const strategy of ["redact", "partial"] as MaskStrategy[]) {
+      expect(maskExpression(strategy, "c", "postgresql")).toMatch(/^CASE WHEN c IS NULL THEN NULL /);
+      expect(maskExpression(strategy, "c", "mysql")).toMatch(/^CASE WHEN c IS NULL THEN NULL /);
+    }
+  });
+});
+
+describe("masked columns in authorized queries", () => {
+  const mask = { schemaName: "public", tableName: "people", columnName: "email", strategy: "hash", exemptRoleIds: [] };
+  const scope = (databaseType: "postgresql" | "mysql") => new AccessScope(
+    false, "1", databaseType, "public",
+    [{ schemaName: null, tableName: "people", columns: null } as RoleGrant],
+    [],
+    [mask as unknown as ColumnMask],
+  );
+
+  it("selects the masked expression under the column's own name", async () => {
+    const { sql, maskedColumns } = await authorizeQuery(scope("mysql"), "SELECT * FROM people");
+    expect(sql).toBe("SELECT * FROM (SELECT `id`, SHA2(`email`, 256) AS `email` FROM `public`.`people`) AS `people`");
+    expect(maskedColumns).toEqual(["email"]);
+  });
+
+  it("reports aliases and expressions over masked columns by their output names", async () => {
+    const { maskedColumns } = await authorizeQuery(
+      scope("postgresql"),
+      "SELECT id, email AS contact, lower(email) AS folded, id AS email_id FROM people",
+    );
+    expect(maskedColumns).toEqual(["email", "contact", "folded"]);
+  });
+});
@@ -0,0 +1,34 @@
+import type { MaskStrategy } from "@shared/schema";
+import type { ExternalDatabaseConfig } from "./external-db";
+
+const REDACTED = '*****';
+
+// SQL that replaces a column's value according to its mask. The result keeps the column usable in
+// WHERE, GROUP BY and ORDER BY, which then see the masked value. NULLs stay NULL.
+export function maskExpression(
+  strategy: MaskStrategy,
+  column: string,
+  databaseType: ExternalDatabaseConfig['type'],
+): string {
+  const mysql = databaseType === 'mysql';
+  const text = mysql ? column : `${column}::text`;
+
+  switch (strategy) {
+    case 'redact':
+      return `CASE WHEN ${column} IS NULL THEN NULL ELSE '${REDACTED}' END`;
+    case 'partial': {
+      // First character, then for e-mail addresses the domain: j***@example.com
+      const at = mysql ? `LOCATE('@', ${text})` : `strpos(${text}, '@')`;
+      const hidden = mysql ? `CONCAT(LEFT(${text}, 1), '***')` : `left(${text}, 1) || '***'`;
+      const domain = `SUBSTRING(${text}, ${at})`;
+      const withDomain = mysql ? `CONCAT(${hidden}, ${domain})` : `${hidden} || ${domain}`;
+      return `CASE WHEN ${column} IS NULL THEN NULL WHEN ${at} > 1 THEN ${withDomain} ELSE ${hidden} END`;
+    }
+    case 'hash':
+      return mysql
+        ? `SHA2(${text}, 256)`
+        : `encode(sha256(convert_to(${text}, 'UTF8')), 'hex')`;
+    case 'null':
+      return 'NULL';
+  }
+}
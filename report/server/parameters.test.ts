@@ -0,0 +1,85 @@
+import type { RoleGrant } from "@shared/schema";
+import type { QueryParameter } from "@shared/query-parameters";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const storage = vi.hoisted(() => ({
+  executeQuery: vi.fn(async () => ({ columns: ["region"], rows: [["emea"], ["apac"]], fields: [] })),
+}));
+
+vi.mock("./storage", () => ({ INTERNAL_TABLES: [], storage }));
+
+const { AccessScope } = await import("./access-control");
+const { bindQueryParameters, ParameterValidationError, parameterizeSavedQuery } = await import("./parameters");
+
+const scope = new AccessScope(false, "1", "postgresql", "public", [{ schemaName: null, tableName: "sales", columns: null } as RoleGrant]);
+
+const definitions: QueryParameter[] = [
+  { name: "since", type: "date", required: true, defaultValue: "2026-01-01" },
+  { name: "min", type: "number", required: false },
+  { name: "name", type: "text", required: true },
+  { name: "region", type: "enum", required: false, source: { schema: "public", table: "sales", column: "region" } },
+];
+
+async function bindingErrors(values: Record<string, string>, params = [{ parameter: "min" }, { parameter: "name" }]) {
+  const error = await bindQueryParameters(scope, params, definitions, values).catch((error) => error);
+  expect(error).toBeInstanceOf(ParameterValidationError);
+  return (error as InstanceType<typeof ParameterValidationError>).errors;
+}
+
+describe("bindQueryParameters", () => {
+  beforeEach(() => {
+    storage.executeQuery.mockClear();
+  });
+
+  it("replaces references with their values and keeps other parameters", async () => {
+    const bound = await bindQueryParameters(
+      scope,
+      [5, { parameter: "name" }, "x", { parameter: "min" }, { parameter: "name" }, { parameter: "since" }],
+      definitions,
+      { name: "x' OR '1'='1", min: " 2.5 " },
+    );
+    expect(bound).toEqual([5, "x' OR '1'='1", "x", 2.5, "x' OR '1'='1", "2026-01-01"]);
+  });
+
+  it("collects every problem before failing", async () => {
+    expect(await bindingErrors({ min: "ten" })).toEqual([
+      { parameter: "min", message: "min must be a number" },
+      { parameter: "name", message: "name is required" },
+    ]);
+    expect(await bindingErrors({}, [{ parameter: "missing" }])).toEqual([
+      { parameter: "missing", message: "Unknown parameter {{missing}}" },
+    ]);
+    expect(await bindingErrors({ since: "2026-02-30" }, [{ parameter: "since" }])).toEqual([
+      { parameter: "since", message: "since must be a date in the form YYYY-MM-DD" },
+    ]);
+  });
+
+  it("checks enum values against the source column as the user sees it", async () => {
+    expect(await bindQueryParameters(scope, [{ parameter: "region" }], definitions, { region: "apac" })).toEqual(["apac"]);
+    expect(storage.executeQuery).toHaveBeenCalledWith(
+      `SELECT DISTINCT "region" FROM "public"."sales" WHERE "region" IS NOT NULL ORDER BY 1 LIMIT 1000`, [], "1",
+    );
+    expect(await bindingErrors({ region: "mars" }, [{ parameter: "region" }])).toEqual([
+      { parameter: "region", message: "region must be one of the listed values" },
+    ]);
+  });
+});
+
+describe("parameterizeSavedQuery", () => {
+  const queryConfig = JSON.stringify({ parameters: [definitions[1]] });
+
+  it("swaps :name references for placeholders", () => {
+    const saved = { generatedSql: "SELECT ':min', x::text FROM t WHERE a > :min AND b = :name OR c > :min", queryConfig };
+    expect(parameterizeSavedQuery(saved, "postgresql")).toEqual({
+      sql: "SELECT ':min', x::text FROM t WHERE a > $1 AND b = $2 OR c > $3",
+      params: [{ parameter: "min" }, { parameter: "name" }, { parameter: "min" }],
+      parameters: [definitions[1], { name: "name", type: "text", required: true }],
+    });
+    expect(parameterizeSavedQuery(saved, "mysql").sql).toBe("SELECT ':min', x::text FROM t WHERE a > ? AND b = ? OR c > ?");
+  });
+
+  it("treats an unreadable configuration as having no definitions", () => {
+    const saved = { generatedSql: "SELECT :min", queryConfig: "not json" };
+    expect(parameterizeSavedQuery(saved, "postgresql").parameters).toEqual([{ name: "min", type: "text", required: true }]);
+  });
+});
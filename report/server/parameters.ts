@@ -0,0 +1,138 @@
+import { z } from "zod";
+import type { SavedQuery } from "@shared/schema";
+import {
+  coerceParameterValue,
+  defaultParameterValue,
+  isParameterReference,
+  PARAMETER_NAME_PATTERN,
+  queryParameterSchema,
+  type ParameterReference,
+  type ParameterValues,
+  type QueryParameter,
+} from "@shared/query-parameters";
+import { sqlDialectOptions, tokenizeSQL } from "@shared/sql-validator";
+import { storage } from "./storage";
+import { authorizeQuery, quoteIdentifier, type AccessScope } from "./access-control";
+import type { QueryParam } from "./query-runner";
+
+// Enum parameters offer at most this many distinct values
+const MAX_PARAMETER_OPTIONS = 1000;
+
+export class ParameterValidationError extends Error {
+  constructor(readonly errors: Array<{ parameter: string; message: string }>) {
+    super(errors.map((error) => error.message).join('; '));
+    this.name = 'ParameterValidationError';
+  }
+}
+
+// Distinct non-null values of an enum parameter's source column, read with the user's own grants,
+// row policies and masks so a prompt never reveals more than a query could
+export async function loadParameterOptions(
+  scope: AccessScope,
+  source: NonNullable<QueryParameter['source']>,
+): Promise<string[]> {
+  const quote = (identifier: string) => quoteIdentifier(scope.databaseType, identifier);
+  const table = source.schema ? `${quote(source.schema)}.${quote(source.table)}` : quote(source.table);
+  const column = quote(source.column);
+  const sql = `SELECT DISTINCT ${column} FROM ${table} WHERE ${column} IS NOT NULL ORDER BY 1 LIMIT ${MAX_PARAMETER_OPTIONS}`;
+
+  const authorized = await authorizeQuery(scope, sql, []);
+  const result = await storage.executeQuery(authorized.sql, authorized.params, scope.externalId ?? undefined);
+  return result.rows.map((row) => String(row[0]));
+}
+
+// Replaces each parameter reference in `params` with its value from `values`, falling back to the
+// parameter's default. Every problem is collected before a ParameterValidationError is thrown.
+export async function bindQueryParameters(
+  scope: AccessScope,
+  params: Array<QueryParam | ParameterReference>,
+  definitions: QueryParameter[],
+  values: ParameterValues,
+): Promise<QueryParam[]> {
+  const bound = new Map<string, QueryParam>();
+  const errors: Array<{ parameter: string; message: string }> = [];
+
+  for (const param of params) {
+    if (!isParameterReference(param) || bound.has(param.parameter) || errors.some((e) => e.parameter === param.parameter)) {
+      continue;
+    }
+
+    const name = param.parameter;
+    const definition = definitions.find((candidate) => candidate.name === name);
+    if (!definition) {
+      errors.push({ parameter: name, message: `Unknown parameter {{${name}}}` });
+      continue;
+    }
+
+    let value: QueryParam;
+    try {
+      value = coerceParameterValue(
+        definition,
+        Object.prototype.hasOwnProperty.call(values, name) ? values[name] : defaultParameterValue(definition),
+      );
+    } catch (error) {
+      errors.push({ parameter: name, message: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+
+    if (definition.type === 'enum' && value !== null && definition.source) {
+      const options = await loadParameterOptions(scope, definition.source);
+      if (!options.includes(String(value))) {
+        errors.push({ parameter: name, message: `${definition.label || name} must be one of the listed values` });
+        continue;
+      }
+    }
+    bound.set(name, value);
+  }
+
+  if (errors.length > 0) {
+    throw new ParameterValidationError(errors);
+  }
+  return params.map((param) => isParameterReference(param) ? bound.get(param.parameter)! : param);
+}
+
+// Definitions stored in a saved query's configuration; unreadable ones count as none
+const storedParametersSchema = z.array(queryParameterSchema).catch([]);
+
+export interface ParameterizedSavedQuery {
+  sql: string;
+  params: ParameterReference[];
+  parameters: QueryParameter[];
+}
+
+// The saved SQL shows parameters as `:name`. This swaps them for placeholders and references, so
+// a saved query can be bound and run like one sent by the builder. Parameters without a stored
+// definition are required text, as in the builder.
+export function parameterizeSavedQuery(
+  query: Pick<SavedQuery, 'generatedSql' | 'queryConfig'>,
+  databaseType: AccessScope['databaseType'],
+): ParameterizedSavedQuery {
+  let stored: QueryParameter[] = [];
+  try {
+    stored = storedParametersSchema.parse(JSON.parse(query.queryConfig)?.parameters);
+  } catch {
+    // Not JSON; the query simply has no stored definitions
+  }
+
+  const params: ParameterReference[] = [];
+  let sql = '';
+  let copied = 0;
+  for (const token of tokenizeSQL(query.generatedSql, sqlDialectOptions(databaseType))) {
+    const name = token.value.slice(1);
+    if (token.type !== 'parameter' || !token.value.startsWith(':') || !PARAMETER_NAME_PATTERN.test(name)) {
+      continue;
+    }
+    params.push({ parameter: name });
+    sql += query.generatedSql.slice(copied, token.position) + (databaseType === 'mysql' ? '?' : `$${params.length}`);
+    copied = token.end;
+  }
+  sql += query.generatedSql.slice(copied);
+
+  const names = Array.from(new Set(params.map((param) => param.parameter)));
+  return {
+    sql,
+    params,
+    parameters: names.map((name) =>
+      stored.find((parameter) => parameter.name === name) ?? { name, type: 'text', required: true }),
+  };
+}
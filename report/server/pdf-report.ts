@@ -0,0 +1,416 @@
+import PDFDocument from "pdfkit";
+import { CHART_COLORS, chartData, type ChartData } from "@shared/charts";
+import { fieldKind, NUMERIC_FIELD_KINDS } from "@shared/field-types";
+import { formatDate } from "@shared/query-parameters";
+import { cellText } from "./exports";
+import type { ReportDetails, ReportResult } from "./reports";
+
+// PDF rendering of a report: a header with the query's name, description, run time and
+// parameter values, an optional chart, and the results as a table that continues over as many
+// pages as it needs. Drawn with pdfkit's built-in fonts, so nothing outside the server is used.
+
+type Doc = PDFKit.PDFDocument;
+
+const PDF_MARGIN = 36;
+const PDF_FONT_SIZE = 8;
+const PDF_ROW_HEIGHT = 14;
+const CHART_HEIGHT = 230;
+// Axis label area left of and below the plot
+const CHART_AXIS_WIDTH = 48;
+const CHART_AXIS_HEIGHT = 28;
+const CHART_LEGEND_HEIGHT = 16;
+const KPI_TILE_HEIGHT = 70;
+
+export async function renderPdf(result: ReportResult, details: ReportDetails): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: PDF_MARGIN, bufferPages: true });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  // Checked before anything is drawn, so a bad chart fails the request rather than the file
+  const chart = details.chart ? chartData(result.columns, result.rows, details.chart) : null;
+
+  drawHeader(doc, result, details);
+  if (chart) {
+    drawChart(doc, chart, result.rows.length);
+  }
+  drawTable(doc, result);
+  drawPageNumbers(doc, details);
+  doc.end();
+  return await finished;
+}
+
+function timestampText(date: Date): string {
+  return `${date.toISOString().replace('T', ' ').slice(0, 19)} UTC`;
+}
+
+function drawHeader(doc: Doc, result: ReportResult, details: ReportDetails) {
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('#000000').text(details.title);
+  if (details.description) {
+    doc.font('Helvetica').fontSize(10).fillColor('#333333').text(details.description);
+  }
+  doc.moveDown(0.3);
+  doc.font('Helvetica').fontSize(9).fillColor('#555555')
+    .text(`Run ${timestampText(details.generatedAt)} · ${result.rows.length.toLocaleString()} rows`);
+  const parameters = Object.entries(details.parameterValues ?? {});
+  if (parameters.length > 0) {
+    doc.text(`Parameters: ${parameters.map(([name, value]) => `${name} = ${value === '' ? '(empty)' : value}`).join(', ')}`);
+  }
+  doc.fillColor('#000000').moveDown();
+}
+
+// Dates without a time of day are shown as dates, and timestamps without milliseconds
+function displayText(value: unknown): string {
+  if (value instanceof Date) {
+    return value.getHours() || value.getMinutes() || value.getSeconds()
+      ? value.toISOString().replace('T', ' ').slice(0, 19)
+      : formatDate(value);
+  }
+  return cellText(value);
+}
+
+// Axis ticks at round numbers; value axes always include zero
+function niceTicks(min: number, max: number, includeZero = true): number[] {
+  const low = includeZero ? Math.min(0, min) : min;
+  const high = includeZero ? Math.max(0, max) : max;
+  if (low === high) {
+    return [low, low + 1];
+  }
+  const rough = (high - low) / 5;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough)!;
+  const ticks: number[] = [];
+  for (let tick = Math.floor(low / step) * step; tick <= Math.ceil(high / step) * step + step / 2; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+const tickFormat = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 2 });
+const kpiFormat = new Intl.NumberFormat('en', { maximumFractionDigits: 2 });
+
+function drawLegend(doc: Doc, names: string[], x: number, y: number, width: number) {
+  doc.font('Helvetica').fontSize(PDF_FONT_SIZE);
+  let left = x;
+  names.forEach((name, index) => {
+    const textWidth = Math.min(doc.widthOfString(name), 150);
+    if (left + textWidth + 16 > x + width) {
+      return;
+    }
+    doc.rect(left, y + 1, 8, 8).fill(CHART_COLORS[index % CHART_COLORS.length]);
+    doc.fillColor('#333333').text(name, left + 11, y + 1, { width: textWidth, lineBreak: false, ellipsis: true });
+    left += textWidth + 24;
+  });
+}
+
+function drawChart(doc: Doc, chart: ChartData, rowCount: number) {
+  const height = chart.spec.type === 'kpi' ? KPI_TILE_HEIGHT : CHART_HEIGHT;
+  const bottom = doc.page.height - PDF_MARGIN;
+  if (doc.y + height > bottom) {
+    doc.addPage();
+  }
+  const top = doc.y;
+  const width = doc.page.width - PDF_MARGIN * 2;
+
+  if (chart.spec.type === 'kpi') {
+    drawKpiTiles(doc, chart, PDF_MARGIN, top, width);
+  } else if (chart.spec.type === 'pie') {
+    drawPieChart(doc, chart, PDF_MARGIN, top, width);
+  } else {
+    drawLegend(doc, chart.series.map((series) => series.name), PDF_MARGIN + CHART_AXIS_WIDTH, top, width - CHART_AXIS_WIDTH);
+    drawAxisChart(doc, chart, {
+      left: PDF_MARGIN + CHART_AXIS_WIDTH,
+      top: top + CHART_LEGEND_HEIGHT,
+      width: width - CHART_AXIS_WIDTH,
+      height: CHART_HEIGHT - CHART_LEGEND_HEIGHT - CHART_AXIS_HEIGHT,
+    });
+  }
+
+  let y = top + height;
+  const notes: string[] = [];
+  if (chart.omittedRows > 0) {
+    notes.push(`Chart shows the first ${(rowCount - chart.omittedRows).toLocaleString()} of ${rowCount.toLocaleString()} rows`);
+  }
+  if (chart.omittedSeries > 0) {
+    notes.push(`${chart.omittedSeries.toLocaleString()} more series are not shown`);
+  }
+  if (notes.length > 0) {
+    doc.font('Helvetica').fontSize(PDF_FONT_SIZE).fillColor('#777777').text(notes.join(' · '), PDF_MARGIN, y);
+    y += PDF_ROW_HEIGHT;
+  }
+  doc.fillColor('#000000');
+  doc.x = PDF_MARGIN;
+  doc.y = y + PDF_ROW_HEIGHT;
+}
+
+interface PlotArea {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// The extent of each value as [from, to]: from zero, or from the top of the series below it when
+// stacked. Positive and negative values stack separately.
+function seriesSpans(chart: ChartData, stacked: boolean): Array<Array<[number, number] | null>> {
+  const positive = chart.labels.map(() => 0);
+  const negative = chart.labels.map(() => 0);
+  return chart.series.map((series) => series.values.map((value, index): [number, number] | null => {
+    if (value === null) return null;
+    if (!stacked) return [0, value];
+    const base = value >= 0 ? positive : negative;
+    const from = base[index];
+    base[index] += value;
+    return [from, base[index]];
+  }));
+}
+
+function drawAxisChart(doc: Doc, chart: ChartData, plot: PlotArea) {
+  const { type } = chart.spec;
+  const stacked = chart.spec.stacked === true && (type === 'bar' || type === 'area');
+  const spans = seriesSpans(chart, stacked);
+  const ends = spans.flatMap((series) => series.flatMap((span) => span ?? []));
+  const ticks = niceTicks(Math.min(...ends, 0), Math.max(...ends, 0));
+  const low = ticks[0];
+  const high = ticks[ticks.length - 1];
+  const yPosition = (value: number) => plot.top + plot.height - ((value - low) / (high - low)) * plot.height;
+
+  // Gridlines and y-axis labels
+  doc.font('Helvetica').fontSize(7);
+  for (const tick of ticks) {
+    const y = yPosition(tick);
+    doc.moveTo(plot.left, y).lineTo(plot.left + plot.width, y).lineWidth(0.5).strokeColor(tick === 0 ? '#999999' : '#e5e5e5').stroke();
+    doc.fillColor('#555555').text(tickFormat.format(tick), plot.left - CHART_AXIS_WIDTH, y - 3, {
+      width: CHART_AXIS_WIDTH - 4,
+      align: 'right',
+      lineBreak: false,
+    });
+  }
+
+  if (type === 'scatter') {
+    drawScatterPoints(doc, chart, plot, yPosition);
+    doc.lineWidth(1).strokeColor('#000000');
+    return;
+  }
+
+  const count = chart.labels.length;
+  const slot = plot.width / Math.max(count, 1);
+
+  if (type === 'bar') {
+    const barWidth = stacked ? slot * 0.8 : (slot * 0.8) / chart.series.length;
+    spans.forEach((series, seriesIndex) => {
+      doc.fillColor(CHART_COLORS[seriesIndex % CHART_COLORS.length]);
+      series.forEach((span, index) => {
+        if (span === null) return;
+        const x = plot.left + index * slot + slot * 0.1 + (stacked ? 0 : seriesIndex * barWidth);
+        const y = yPosition(Math.max(...span));
+        doc.rect(x, y, Math.max(barWidth - 0.5, 0.5), Math.max(yPosition(Math.min(...span)) - y, 0.5)).fill();
+      });
+    });
+  } else {
+    const xPosition = (index: number) => plot.left + (index + 0.5) * slot;
+    spans.forEach((series, seriesIndex) => {
+      const color = CHART_COLORS[seriesIndex % CHART_COLORS.length];
+      // Missing values break the line into runs of consecutive points
+      const runs: Array<Array<{ index: number; span: [number, number] }>> = [];
+      series.forEach((span, index) => {
+        if (span === null) return;
+        const run = runs[runs.length - 1];
+        if (run && run[run.length - 1].index === index - 1) {
+          run.push({ index, span });
+        } else {
+          runs.push([{ index, span }]);
+        }
+      });
+      for (const run of runs) {
+        if (type === 'area') {
+          doc.moveTo(xPosition(run[0].index), yPosition(run[0].span[0]));
+          for (const point of run) doc.lineTo(xPosition(point.index), yPosition(point.span[1]));
+          for (const point of [...run].reverse()) doc.lineTo(xPosition(point.index), yPosition(point.span[0]));
+          doc.closePath().fillOpacity(0.25).fill(color).fillOpacity(1);
+        }
+        doc.moveTo(xPosition(run[0].index), yPosition(run[0].span[1]));
+        for (const point of run.slice(1)) doc.lineTo(xPosition(point.index), yPosition(point.span[1]));
+        doc.lineWidth(1.5).strokeColor(color).stroke();
+      }
+    });
+  }
+
+  // Category labels, thinned out so they do not overlap
+  const every = Math.ceil(count / Math.max(Math.floor(plot.width / 60), 1));
+  doc.font('Helvetica').fontSize(7).fillColor('#555555');
+  chart.labels.forEach((label, index) => {
+    if (index % every !== 0) return;
+    doc.text(label, plot.left + index * slot + slot / 2 - (slot * every) / 2, plot.top + plot.height + 4, {
+      width: slot * every,
+      align: 'center',
+      lineBreak: false,
+      ellipsis: true,
+    });
+  });
+  doc.lineWidth(1).strokeColor('#000000');
+}
+
+// Points against a numeric x-axis; dates along it are labelled as dates
+function drawScatterPoints(doc: Doc, chart: ChartData, plot: PlotArea, yPosition: (value: number) => number) {
+  const positions = chart.xValues ?? [];
+  const known = positions.filter((value): value is number => value !== null);
+  const ticks = known.length > 0 ? niceTicks(Math.min(...known), Math.max(...known), false) : [0, 1];
+  const low = ticks[0];
+  const high = ticks[ticks.length - 1];
+  const xPosition = (value: number) => plot.left + ((value - low) / (high - low)) * plot.width;
+
+  chart.series.forEach((series, seriesIndex) => {
+    doc.fillColor(CHART_COLORS[seriesIndex % CHART_COLORS.length]).fillOpacity(0.7);
+    series.values.forEach((value, index) => {
+      const position = positions[index];
+      if (value === null || position === null || position === undefined) return;
+      doc.circle(xPosition(position), yPosition(value), 2.5).fill();
+    });
+  });
+  doc.fillOpacity(1);
+
+  doc.font('Helvetica').fontSize(7).fillColor('#555555');
+  for (const tick of ticks) {
+    doc.text(chart.xTime ? formatDate(new Date(tick)) : tickFormat.format(tick), xPosition(tick) - 30, plot.top + plot.height + 4, {
+      width: 60,
+      align: 'center',
+      lineBreak: false,
+    });
+  }
+}
+
+function drawPieChart(doc: Doc, chart: ChartData, left: number, top: number, width: number) {
+  const values = chart.series[0].values.map((value) => value ?? 0);
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  doc.font('Helvetica-Bold').fontSize(9).fillColor('#333333').text(chart.series[0].name, left, top);
+  if (total === 0) {
+    doc.font('Helvetica').fontSize(PDF_FONT_SIZE).fillColor('#777777').text('No positive values to chart', left, top + 14);
+    return;
+  }
+
+  const radius = (CHART_HEIGHT - 30) / 2;
+  const cx = left + radius + 10;
+  const cy = top + 18 + radius;
+  let angle = -Math.PI / 2;
+  chart.labels.forEach((label, index) => {
+    const color = CHART_COLORS[index % CHART_COLORS.length];
+    const sweep = (values[index] / total) * Math.PI * 2;
+    if (chart.labels.length === 1) {
+      doc.circle(cx, cy, radius).fill(color);
+    } else {
+      const end = angle + sweep;
+      const point = (theta: number) => `${cx + radius * Math.cos(theta)} ${cy + radius * Math.sin(theta)}`;
+      doc.path(`M ${cx} ${cy} L ${point(angle)} A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${point(end)} Z`).fill(color);
+      angle = end;
+    }
+
+    const legendY = top + 18 + index * 16;
+    doc.rect(cx + radius + 30, legendY + 1, 8, 8).fill(color);
+    doc.font('Helvetica').fontSize(PDF_FONT_SIZE).fillColor('#333333')
+      .text(`${label} (${((values[index] / total) * 100).toFixed(1)}%)`, cx + radius + 44, legendY + 1, {
+        width: width - (cx - left) - radius - 60,
+        lineBreak: false,
+        ellipsis: true,
+      });
+  });
+}
+
+// A tile per value column with its value in the first row
+function drawKpiTiles(doc: Doc, chart: ChartData, left: number, top: number, width: number) {
+  const gap = 12;
+  const count = chart.series.length;
+  const tileWidth = Math.min((width - gap * (count - 1)) / count, 220);
+  chart.series.forEach((series, index) => {
+    const x = left + index * (tileWidth + gap);
+    const value = series.values[0];
+    doc.roundedRect(x, top, tileWidth, KPI_TILE_HEIGHT - 10, 4).lineWidth(0.5).strokeColor('#d4d4d4').stroke();
+    doc.font('Helvetica').fontSize(PDF_FONT_SIZE).fillColor('#555555')
+      .text(series.name, x + 10, top + 10, { width: tileWidth - 20, lineBreak: false, ellipsis: true });
+    doc.font('Helvetica-Bold').fontSize(20).fillColor(CHART_COLORS[index % CHART_COLORS.length])
+      .text(value === null ? '—' : kpiFormat.format(value), x + 10, top + 26, { width: tileWidth - 20, lineBreak: false, ellipsis: true });
+  });
+  doc.lineWidth(1).strokeColor('#000000');
+}
+
+// Column widths follow the length of the header and of the values in the first rows, so narrow
+// columns such as ids do not take as much room as descriptions
+function columnWidths(result: ReportResult, width: number): number[] {
+  const sample = result.rows.slice(0, 100);
+  const weights = result.columns.map((column, index) => {
+    const longest = sample.reduce((length, row) => Math.max(length, displayText(row[index]).length), column.length);
+    return Math.min(Math.max(longest, 4), 40);
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  return weights.map((weight) => (weight / total) * width);
+}
+
+function drawTable(doc: Doc, result: ReportResult) {
+  const width = doc.page.width - PDF_MARGIN * 2;
+  const widths = columnWidths(result, width);
+  const offsets = widths.map((_, index) => PDF_MARGIN + widths.slice(0, index).reduce((sum, w) => sum + w, 0));
+  const numeric = result.columns.map((_, index) => {
+    const field = result.fields[index];
+    return field !== undefined && NUMERIC_FIELD_KINDS.has(fieldKind(field.dataTypeID));
+  });
+  const bottom = doc.page.height - PDF_MARGIN;
+  let y = doc.y;
+
+  const drawRow = (cells: string[], header: boolean, shaded: boolean) => {
+    if (header || shaded) {
+      doc.rect(PDF_MARGIN, y, width, PDF_ROW_HEIGHT).fill(header ? '#e5e7eb' : '#f7f7f7');
+    }
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(PDF_FONT_SIZE).fillColor('#000000');
+    cells.forEach((cell, index) => {
+      doc.text(cell, offsets[index] + 2, y + 3, {
+        width: widths[index] - 4,
+        height: PDF_ROW_HEIGHT,
+        align: numeric[index] ? 'right' : 'left',
+        ellipsis: true,
+        lineBreak: false,
+      });
+    });
+    y += PDF_ROW_HEIGHT;
+  };
+
+  // The header needs at least one row under it on the same page
+  if (y + PDF_ROW_HEIGHT * 2 > bottom) {
+    doc.addPage();
+    y = PDF_MARGIN;
+  }
+  drawRow(result.columns, true, false);
+  if (result.rows.length === 0) {
+    doc.font('Helvetica').fontSize(PDF_FONT_SIZE).fillColor('#777777').text('The query returned no rows.', PDF_MARGIN, y + 4);
+    return;
+  }
+  result.rows.forEach((row, index) => {
+    if (y + PDF_ROW_HEIGHT > bottom) {
+      doc.addPage();
+      y = PDF_MARGIN;
+      drawRow(result.columns, true, false);
+    }
+    drawRow(row.map(displayText), false, index % 2 === 1);
+  });
+}
+
+// "Title · Page n of m" in the bottom margin of every page
+function drawPageNumbers(doc: Doc, details: ReportDetails) {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Text in the margin would otherwise start a new page
+    const margin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('Helvetica').fontSize(7).fillColor('#777777')
+      .text(`${details.title} · Page ${index + 1} of ${range.count}`, PDF_MARGIN, doc.page.height - PDF_MARGIN + 12, {
+        width: doc.page.width - PDF_MARGIN * 2,
+        align: 'right',
+        lineBreak: false,
+      });
+    doc.page.margins.bottom = margin;
+  }
+}
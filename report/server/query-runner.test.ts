@@ -0,0 +1,167 @@
+import type { Pool } from "pg";
+import type { Connection } from "mysql2/promise";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  QueryExecutionError,
+  queryLimits,
+  runReadOnlyMysqlQuery,
+  runReadOnlyPostgresQuery,
+  streamReadOnlyPostgresQuery,
+  toQueryExecutionError,
+} from "./query-runner";
+
+const defaults = { ...queryLimits };
+const fields = [{ name: "id", dataTypeID: 23, dataTypeModifier: -1 }];
+
+// A pool whose client records every statement; FETCH returns the next of `fetches`, and a
+// statement starting with `failOn` throws `error`
+function fakePostgres(fetches: unknown[][][], failure?: { failOn: string; error: unknown }) {
+  const statements: string[] = [];
+  const values: unknown[] = [];
+  const client = {
+    query: vi.fn(async (query: string | { text: string; values?: unknown[] }) => {
+      const text = typeof query === "string" ? query : query.text;
+      statements.push(text);
+      if (typeof query !== "string" && query.values) values.push(...query.values);
+      if (failure && text.startsWith(failure.failOn)) throw failure.error;
+      return text.startsWith("FETCH") ? { rows: fetches.shift() ?? [], fields } : { rows: [] };
+    }),
+    release: vi.fn(),
+  };
+  return { pool: { connect: async () => client } as unknown as Pool, client, statements, values };
+}
+
+beforeEach(() => {
+  Object.assign(queryLimits, { statementTimeoutMs: 30000, lockTimeoutMs: 5000, maxRows: 10000, streamBatchSize: 1000 });
+});
+
+afterEach(() => {
+  Object.assign(queryLimits, defaults);
+});
+
+describe("runReadOnlyPostgresQuery", () => {
+  it("reads through a cursor in a read-only transaction with timeouts", async () => {
+    const { pool, client, statements, values } = fakePostgres([[[1], [2]]]);
+    const result = await runReadOnlyPostgresQuery(pool, "SELECT id FROM t WHERE id > $1;", [0]);
+
+    expect(statements).toEqual([
+      "BEGIN READ ONLY",
+      "SET LOCAL statement_timeout = 30000",
+      "SET LOCAL lock_timeout = 5000",
+      "DECLARE report_cursor NO SCROLL CURSOR FOR SELECT id FROM t WHERE id > $1",
+      "FETCH FORWARD 10001 FROM report_cursor",
+      "COMMIT",
+    ]);
+    expect(values).toEqual([0]);
+    expect(result).toEqual({ columns: ["id"], rows: [[1], [2]], fields: [{ name: "id", dataTypeID: 23 }] });
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it("rolls back when the result has more rows than allowed", async () => {
+    queryLimits.maxRows = 2;
+    const { pool, client, statements } = fakePostgres([[[1], [2], [3]]]);
+    await expect(runReadOnlyPostgresQuery(pool, "SELECT 1")).rejects.toMatchObject({ code: "row_limit" });
+    expect(statements).toContain("FETCH FORWARD 3 FROM report_cursor");
+    expect(statements.at(-1)).toBe("ROLLBACK");
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it("reports writes refused by the read-only transaction", async () => {
+    const { pool, statements } = fakePostgres([], {
+      failOn: "DECLARE",
+      error: Object.assign(new Error("cannot execute UPDATE in a read-only transaction"), { code: "25006" }),
+    });
+    await expect(runReadOnlyPostgresQuery(pool, "SELECT f()")).rejects.toMatchObject({ code: "read_only_violation" });
+    expect(statements.at(-1)).toBe("ROLLBACK");
+  });
+});
+
+describe("streamReadOnlyPostgresQuery", () => {
+  it("yields batches until a short one and then commits", async () => {
+    queryLimits.streamBatchSize = 2;
+    const { pool, statements } = fakePostgres([[[1], [2]], [[3]]]);
+    const batches = [];
+    for await (const batch of streamReadOnlyPostgresQuery(pool, "SELECT id FROM t")) {
+      batches.push(batch.rows);
+    }
+    expect(batches).toEqual([[[1], [2]], [[3]]]);
+    expect(statements.at(-1)).toBe("COMMIT");
+  });
+
+  it("rolls back when the reader stops early", async () => {
+    queryLimits.streamBatchSize = 2;
+    const { pool, client, statements } = fakePostgres([[[1], [2]], [[3], [4]]]);
+    for await (const batch of streamReadOnlyPostgresQuery(pool, "SELECT id FROM t")) {
+      expect(batch.rows).toHaveLength(2);
+      break;
+    }
+    expect(statements.at(-1)).toBe("ROLLBACK");
+    expect(client.release).toHaveBeenCalled();
+  });
+});
+
+describe("runReadOnlyMysqlQuery", () => {
+  function fakeMysql(rows: unknown[][], { mariadb = false } = {}) {
+    const statements: string[] = [];
+    const connection = {
+      query: vi.fn(async (query: string | { sql: string; timeout?: number }) => {
+        const sql = typeof query === "string" ? query : query.sql;
+        statements.push(typeof query === "string" ? sql : `${sql} (timeout ${query.timeout})`);
+        if (mariadb && sql.startsWith("SET SESSION MAX_EXECUTION_TIME")) {
+          throw new Error("Unknown system variable 'MAX_EXECUTION_TIME'");
+        }
+        return typeof query === "string" ? [[], []] : [rows, [{ name: "id", columnType: 3, flags: 0 }]];
+      }),
+    };
+    return { connection: connection as unknown as Connection, statements };
+  }
+
+  it("caps execution time and rows, and resets the cap afterwards", async () => {
+    const { connection, statements } = fakeMysql([[1]]);
+    const result = await runReadOnlyMysqlQuery(connection, "SELECT id FROM t WHERE id > ?", [0]);
+
+    expect(statements).toEqual([
+      "SET SESSION MAX_EXECUTION_TIME = 30000",
+      "SET SESSION innodb_lock_wait_timeout = 5",
+      "SET SESSION sql_select_limit = 10001",
+      "START TRANSACTION READ ONLY",
+      "SELECT id FROM t WHERE id > ? (timeout 31000)",
+      "COMMIT",
+      "SET SESSION sql_select_limit = DEFAULT",
+    ]);
+    expect(result.rows).toEqual([[1]]);
+  });
+
+  it("falls back to MariaDB's max_statement_time", async () => {
+    const { connection, statements } = fakeMysql([]);
+    await runReadOnlyMysqlQuery(connection, "SELECT 1");
+    expect(statements).not.toContain("SET SESSION max_statement_time = 30");
+
+    const mariadb = fakeMysql([], { mariadb: true });
+    await runReadOnlyMysqlQuery(mariadb.connection, "SELECT 1");
+    expect(mariadb.statements[1]).toBe("SET SESSION max_statement_time = 30");
+  });
+
+  it("rolls back when the result has more rows than allowed", async () => {
+    queryLimits.maxRows = 1;
+    const { connection, statements } = fakeMysql([[1], [2]]);
+    await expect(runReadOnlyMysqlQuery(connection, "SELECT 1")).rejects.toMatchObject({ code: "row_limit" });
+    expect(statements.slice(-2)).toEqual(["ROLLBACK", "SET SESSION sql_select_limit = DEFAULT"]);
+  });
+});
+
+describe("toQueryExecutionError", () => {
+  it.each([
+    [{ code: "57014" }, "timeout", 408],
+    [{ code: "55P03" }, "timeout", 408],
+    [{ code: "ER_QUERY_TIMEOUT" }, "timeout", 408],
+    [{ errno: 1969 }, "timeout", 408],
+    [{ code: "42501" }, "permission_denied", 403],
+    [{ code: "ER_CANT_EXECUTE_IN_READ_ONLY_TRANSACTION" }, "read_only_violation", 400],
+    [{ code: "42P01" }, "query_error", 400],
+  ])("maps %o to %s", (error, code, status) => {
+    const mapped = toQueryExecutionError({ message: "failed", ...error });
+    expect(mapped).toBeInstanceOf(QueryExecutionError);
+    expect(mapped).toMatchObject({ code, status });
+  });
+});
@@ -0,0 +1,291 @@
+import type { Pool } from "pg";
+import type { Connection, PoolConnection, RowDataPacket } from "mysql2/promise";
+import type { Connection as CoreConnection, FieldPacket } from "mysql2";
+import type { ResultField } from "@shared/field-types";
+import { mysqlFields, postgresFields } from "./field-types";
+
+export type QueryParam = string | number | boolean | null;
+
+export interface QueryResultSet {
+  columns: string[];
+  rows: any[][];
+  fields: ResultField[];
+}
+
+// Part of a streamed result; every batch carries the column names and types
+export type QueryBatch = QueryResultSet;
+
+export type QueryErrorCode =
+  | 'timeout'
+  | 'row_limit'
+  | 'permission_denied'
+  | 'read_only_violation'
+  | 'query_error';
+
+export class QueryExecutionError extends Error {
+  constructor(
+    readonly code: QueryErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'QueryExecutionError';
+  }
+
+  get status(): number {
+    switch (this.code) {
+      case 'timeout':
+        return 408;
+      case 'row_limit':
+        return 413;
+      case 'permission_denied':
+        return 403;
+      default:
+        return 400;
+    }
+  }
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export const queryLimits = {
+  statementTimeoutMs: readLimit('QUERY_STATEMENT_TIMEOUT_MS', 30000),
+  lockTimeoutMs: readLimit('QUERY_LOCK_TIMEOUT_MS', 5000),
+  maxRows: readLimit('QUERY_MAX_ROWS', 10000),
+  // Rows fetched per round trip when a result is streamed
+  streamBatchSize: readLimit('QUERY_STREAM_BATCH_SIZE', 1000),
+};
+
+function rowLimitError() {
+  return new QueryExecutionError(
+    'row_limit',
+    `Query returned more than ${queryLimits.maxRows.toLocaleString()} rows. Add a filter or a LIMIT to narrow it down.`,
+  );
+}
+
+// Maps driver errors (PostgreSQL SQLSTATE codes, MySQL error numbers) onto the codes the client understands
+export function toQueryExecutionError(error: unknown): QueryExecutionError {
+  if (error instanceof QueryExecutionError) {
+    return error;
+  }
+
+  const err = error as { code?: string; errno?: number; message?: string };
+  const message = err?.message || 'Unknown error';
+
+  switch (err?.code) {
+    case '57014': // query_canceled, raised by statement_timeout
+    case '55P03': // lock_not_available, raised by lock_timeout
+    case 'ER_QUERY_TIMEOUT':
+    case 'ER_LOCK_WAIT_TIMEOUT':
+    case 'PROTOCOL_SEQUENCE_TIMEOUT':
+      return new QueryExecutionError(
+        'timeout',
+        `Query was cancelled after exceeding the ${queryLimits.statementTimeoutMs / 1000}s time limit`,
+      );
+    case '42501': // insufficient_privilege
+    case 'ER_TABLEACCESS_DENIED_ERROR':
+    case 'ER_COLUMNACCESS_DENIED_ERROR':
+    case 'ER_DBACCESS_DENIED_ERROR':
+    case 'ER_SPECIFIC_ACCESS_DENIED_ERROR':
+      return new QueryExecutionError('permission_denied', `Permission denied: ${message}`);
+    case '25006': // read_only_sql_transaction
+    case 'ER_CANT_EXECUTE_IN_READ_ONLY_TRANSACTION':
+      return new QueryExecutionError('read_only_violation', `Query attempted to modify data: ${message}`);
+  }
+
+  // MariaDB reports max_statement_time with its own error number
+  if (err?.errno === 1969) {
+    return new QueryExecutionError(
+      'timeout',
+      `Query was cancelled after exceeding the ${queryLimits.statementTimeoutMs / 1000}s time limit`,
+    );
+  }
+
+  return new QueryExecutionError('query_error', message);
+}
+
+// Runs a query inside a READ ONLY transaction with statement/lock timeouts, reading it through a
+// cursor so that no more than maxRows + 1 rows are ever fetched.
+export async function runReadOnlyPostgresQuery(
+  pool: Pool,
+  sql: string,
+  params: QueryParam[] = [],
+): Promise<QueryResultSet> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN READ ONLY');
+    await client.query(`SET LOCAL statement_timeout = ${queryLimits.statementTimeoutMs}`);
+    await client.query(`SET LOCAL lock_timeout = ${queryLimits.lockTimeoutMs}`);
+
+    // A trailing semicolon is allowed by the validator but not inside DECLARE
+    const body = sql.trim().replace(/;+\s*$/, '');
+    await client.query({ text: `DECLARE report_cursor NO SCROLL CURSOR FOR ${body}`, values: params });
+    const result = await client.query({
+      text: `FETCH FORWARD ${queryLimits.maxRows + 1} FROM report_cursor`,
+      rowMode: 'array',
+    });
+
+    if (result.rows.length > queryLimits.maxRows) {
+      throw rowLimitError();
+    }
+
+    await client.query('COMMIT');
+    return {
+      columns: result.fields ? result.fields.map((f) => f.name) : [],
+      rows: result.rows || [],
+      fields: postgresFields(result.fields),
+    };
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw toQueryExecutionError(error);
+  } finally {
+    client.release();
+  }
+}
+
+// Streams a query's result through a cursor, one batch at a time, in a READ ONLY transaction
+// with the same timeouts. There is no row cap, since only one batch is held in memory; the
+// statement timeout applies to each fetch. The first batch is yielded even when it is empty so
+// the caller learns the columns. Stopping early rolls the transaction back.
+export async function* streamReadOnlyPostgresQuery(
+  pool: Pool,
+  sql: string,
+  params: QueryParam[] = [],
+): AsyncGenerator<QueryBatch> {
+  const client = await pool.connect();
+  let committed = false;
+
+  try {
+    await client.query('BEGIN READ ONLY');
+    await client.query(`SET LOCAL statement_timeout = ${queryLimits.statementTimeoutMs}`);
+    await client.query(`SET LOCAL lock_timeout = ${queryLimits.lockTimeoutMs}`);
+
+    const body = sql.trim().replace(/;+\s*$/, '');
+    await client.query({ text: `DECLARE export_cursor NO SCROLL CURSOR FOR ${body}`, values: params });
+    for (;;) {
+      const result = await client.query({
+        text: `FETCH FORWARD ${queryLimits.streamBatchSize} FROM export_cursor`,
+        rowMode: 'array',
+      });
+      yield {
+        columns: result.fields ? result.fields.map((f) => f.name) : [],
+        rows: result.rows || [],
+        fields: postgresFields(result.fields),
+      };
+      if (result.rows.length < queryLimits.streamBatchSize) {
+        break;
+      }
+    }
+
+    await client.query('COMMIT');
+    committed = true;
+  } catch (error) {
+    throw toQueryExecutionError(error);
+  } finally {
+    if (!committed) {
+      await client.query('ROLLBACK').catch(() => undefined);
+    }
+    client.release();
+  }
+}
+
+// MySQL equivalent: READ ONLY transaction, MAX_EXECUTION_TIME (or MariaDB's max_statement_time)
+// and sql_select_limit to cap the rows the server sends back.
+export async function runReadOnlyMysqlQuery(
+  connection: Connection,
+  sql: string,
+  params: QueryParam[] = [],
+): Promise<QueryResultSet> {
+  try {
+    await connection.query(`SET SESSION MAX_EXECUTION_TIME = ${queryLimits.statementTimeoutMs}`).catch(() =>
+      connection.query(`SET SESSION max_statement_time = ${queryLimits.statementTimeoutMs / 1000}`),
+    );
+    await connection.query(`SET SESSION innodb_lock_wait_timeout = ${Math.max(1, Math.ceil(queryLimits.lockTimeoutMs / 1000))}`);
+    await connection.query(`SET SESSION sql_select_limit = ${queryLimits.maxRows + 1}`);
+    await connection.query('START TRANSACTION READ ONLY');
+
+    const [rows, fields] = await connection.query<RowDataPacket[]>({
+      sql,
+      values: params,
+      rowsAsArray: true,
+      // Client-side backstop in case the server ignores the execution time limit
+      timeout: queryLimits.statementTimeoutMs + 1000,
+    });
+
+    if (rows.length > queryLimits.maxRows) {
+      throw rowLimitError();
+    }
+
+    await connection.query('COMMIT');
+    return {
+      columns: fields ? fields.map((f) => f.name) : [],
+      rows: (rows || []) as any[][],
+      fields: mysqlFields(fields),
+    };
+  } catch (error) {
+    await connection.query('ROLLBACK').catch(() => undefined);
+    throw toQueryExecutionError(error);
+  } finally {
+    // Pooled connections are reused for schema introspection, which must not inherit the cap
+    await connection.query('SET SESSION sql_select_limit = DEFAULT').catch(() => undefined);
+  }
+}
+
+// Streams a MySQL result row by row from the server and yields it in batches. The connection is
+// released when the stream ends; a query abandoned part way cannot be cancelled on the
+// connection, so the connection is destroyed instead of being returned to the pool.
+export async function* streamReadOnlyMysqlQuery(
+  connection: PoolConnection,
+  sql: string,
+  params: QueryParam[] = [],
+): AsyncGenerator<QueryBatch> {
+  let finished = false;
+
+  try {
+    await connection.query(`SET SESSION MAX_EXECUTION_TIME = ${queryLimits.statementTimeoutMs}`).catch(() =>
+      connection.query(`SET SESSION max_statement_time = ${queryLimits.statementTimeoutMs / 1000}`),
+    );
+    await connection.query(`SET SESSION innodb_lock_wait_timeout = ${Math.max(1, Math.ceil(queryLimits.lockTimeoutMs / 1000))}`);
+    await connection.query('START TRANSACTION READ ONLY');
+
+    // Streaming is only available on the callback connection the promise wrapper holds
+    const core = connection.connection as unknown as CoreConnection;
+    const query = core.query({ sql, values: params, rowsAsArray: true });
+    let columns: string[] = [];
+    let resultFields: ResultField[] = [];
+    query.on('fields', (fields: FieldPacket[] | undefined) => {
+      columns = fields ? fields.map((f) => f.name) : [];
+      resultFields = mysqlFields(fields);
+    });
+
+    let rows: any[][] = [];
+    let yielded = false;
+    for await (const row of query.stream({ highWaterMark: queryLimits.streamBatchSize })) {
+      rows.push(row as any[]);
+      if (rows.length === queryLimits.streamBatchSize) {
+        yield { columns, rows, fields: resultFields };
+        yielded = true;
+        rows = [];
+      }
+    }
+    if (rows.length > 0 || !yielded) {
+      yield { columns, rows, fields: resultFields };
+    }
+
+    await connection.query('COMMIT');
+    finished = true;
+  } catch (error) {
+    await connection.query('ROLLBACK').catch(() => undefined);
+    finished = true;
+    throw toQueryExecutionError(error);
+  } finally {
+    if (finished) {
+      connection.release();
+    } else {
+      connection.destroy();
+    }
+  }
+}
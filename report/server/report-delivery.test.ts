@@ -0,0 +1,110 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Host names resolve to these addresses instead of asking DNS
+const hosts = vi.hoisted(() => new Map<string, string[]>());
+
+vi.mock("dns", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("dns")>();
+  const lookup = (hostname: string, options: any, callback: (...args: any[]) => void) => {
+    const address = hosts.get(hostname)?.shift();
+    if (!address) {
+      callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: "ENOTFOUND" }));
+      return;
+    }
+    const family = address.includes(":") ? 6 : 4;
+    callback(null, options.all ? [{ address, family }] : address, family);
+  };
+  return { ...actual, default: { ...actual, lookup }, lookup };
+});
+
+const { InvalidDestinationError, sendNotification, validateDestination } = await import("./report-delivery");
+
+const notification = { subject: "Alert", text: "Triggered", payload: { event: "triggered" } };
+
+describe("validateDestination", () => {
+  beforeEach(() => {
+    hosts.clear();
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+  });
+
+  it.each([
+    "http://127.0.0.1/hook",
+    "http://2130706433/hook",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://0.0.0.0/hook",
+    "http://10.0.0.5/hook",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[fd00::1]/hook",
+  ])("refuses the private address in %s", async (url) => {
+    await expect(validateDestination("webhook", url)).rejects.toThrow("private or local address");
+  });
+
+  it("resolves host names and refuses private ones", async () => {
+    hosts.set("hooks.example.com", ["93.184.216.34"]);
+    hosts.set("intranet.example.com", ["10.1.2.3"]);
+    await expect(validateDestination("webhook", "https://hooks.example.com/report")).resolves.toBeUndefined();
+    await expect(validateDestination("webhook", "https://intranet.example.com/report")).rejects.toThrow(InvalidDestinationError);
+    await expect(validateDestination("webhook", "https://unknown.example.com/report")).rejects.toThrow("could not be resolved");
+  });
+
+  it("allows the hosts in WEBHOOK_ALLOWED_HOSTS", async () => {
+    process.env.WEBHOOK_ALLOWED_HOSTS = "intranet.example.com, 127.0.0.1";
+    await expect(validateDestination("webhook", "https://Intranet.example.com/report")).resolves.toBeUndefined();
+    await expect(validateDestination("webhook", "http://127.0.0.1:8080/report")).resolves.toBeUndefined();
+  });
+
+  it("checks the other delivery methods", async () => {
+    await expect(validateDestination("webhook", "ftp://example.com/")).rejects.toThrow("http or https");
+    await expect(validateDestination("email", "ops@example.com, nobody")).rejects.toThrow('"nobody" is not an email address');
+    await expect(validateDestination("directory", "../outside")).rejects.toThrow("inside the report output directory");
+  });
+});
+
+describe("sendNotification", () => {
+  let server: Server;
+  let requests: string[];
+  let port: number;
+
+  beforeEach(async () => {
+    hosts.clear();
+    requests = [];
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push(body);
+        res.writeHead(req.url === "/moved" ? 302 : 204, { Location: "/hook" }).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("posts the payload to an allowed webhook", async () => {
+    process.env.WEBHOOK_ALLOWED_HOSTS = "127.0.0.1";
+    await sendNotification("webhook", `http://127.0.0.1:${port}/hook`, notification);
+    expect(requests).toEqual(['{"event":"triggered"}']);
+  });
+
+  it("does not follow redirects", async () => {
+    process.env.WEBHOOK_ALLOWED_HOSTS = "127.0.0.1";
+    await expect(sendNotification("webhook", `http://127.0.0.1:${port}/moved`, notification)).rejects.toThrow("responded with 302");
+    expect(requests).toHaveLength(1);
+  });
+
+  it("refuses a host that resolves to a private address when it is called", async () => {
+    // Public when the destination is checked, loopback when the request connects
+    hosts.set("rebind.example.com", ["93.184.216.34", "93.184.216.34", "127.0.0.1"]);
+    await expect(sendNotification("webhook", `http://rebind.example.com:${port}/hook`, notification))
+      .rejects.toThrow(InvalidDestinationError);
+    expect(requests).toEqual([]);
+  });
+});
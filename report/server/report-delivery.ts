@@ -0,0 +1,245 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import nodemailer, { type Transporter } from "nodemailer";
+import type { AlertNotifyMethod, DeliveryMethod } from "@shared/schema";
+
+// Delivers rendered reports by email (SMTP settings from the environment), into a folder below
+// REPORT_OUTPUT_DIR, or as the body of a POST to a webhook. Alert notifications use the same
+// email and webhook channels.
+
+export class InvalidDestinationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDestinationError';
+  }
+}
+
+export interface DeliveredReport {
+  title: string;
+  fileName: string;
+  content: Buffer;
+  contentType: string;
+  // Plain text body of the email
+  summary: string;
+}
+
+export interface Notification {
+  subject: string;
+  // Plain text body of the email
+  text: string;
+  // JSON body of the webhook request
+  payload: Record<string, unknown>;
+}
+
+const EMAIL_PATTERN = /^[^\s@,<>]+@[^\s@,<>]+$/;
+
+const WEBHOOK_TIMEOUT_MS = 30_000;
+
+// Webhooks are requested by the server, so they may not point at its own network: loopback,
+// private, link-local and other special-use addresses, unless the host is in WEBHOOK_ALLOWED_HOSTS
+const privateAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are matched by the IPv4 ranges above
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  privateAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+let transporter: Transporter | null = null;
+
+function outputRoot(): string {
+  return path.resolve(process.env.REPORT_OUTPUT_DIR || 'reports');
+}
+
+function isPrivateAddress(address: string): boolean {
+  return privateAddresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+function allowedWebhookHosts(): string[] {
+  return (process.env.WEBHOOK_ALLOWED_HOSTS || '').split(',').map((host) => host.trim().toLowerCase()).filter(Boolean);
+}
+
+// Resolves like dns.lookup, but fails when the host has a private address. Used both to check a
+// webhook when it is saved and to connect to it, so a host cannot resolve differently in between
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new InvalidDestinationError(`The webhook host ${hostname} has a private or local address`), []);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// The URL of a webhook that may be called, or an InvalidDestinationError
+async function webhookTarget(destination: string): Promise<{ url: URL; lookup?: LookupFunction }> {
+  let url: URL;
+  try {
+    url = new URL(destination);
+  } catch {
+    throw new InvalidDestinationError('The webhook must be an absolute URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new InvalidDestinationError('The webhook must be an http or https URL');
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (allowedWebhookHosts().includes(host)) {
+    return { url };
+  }
+  // Connections to an IP address skip the lookup, so check it here
+  if (isIP(host)) {
+    if (isPrivateAddress(host)) {
+      throw new InvalidDestinationError(`The webhook host ${host} is a private or local address`);
+    }
+    return { url };
+  }
+  await new Promise<void>((resolve, reject) => {
+    publicLookup(host, {}, (error) => {
+      if (!error) resolve();
+      else if (error instanceof InvalidDestinationError) reject(error);
+      else reject(new InvalidDestinationError(`The webhook host ${host} could not be resolved`));
+    });
+  });
+  return { url, lookup: publicLookup };
+}
+
+function recipients(destination: string): string[] {
+  return destination.split(',').map((address) => address.trim()).filter(Boolean);
+}
+
+// The folder a directory delivery writes to; it may not leave REPORT_OUTPUT_DIR
+function outputDirectory(destination: string): string {
+  const root = outputRoot();
+  const directory = path.resolve(root, destination);
+  if (directory !== root && !directory.startsWith(root + path.sep)) {
+    throw new InvalidDestinationError('The folder must be inside the report output directory');
+  }
+  return directory;
+}
+
+// Throws an InvalidDestinationError when `destination` cannot be used with `method`
+export async function validateDestination(method: DeliveryMethod, destination: string): Promise<void> {
+  switch (method) {
+    case 'email': {
+      const addresses = recipients(destination);
+      const invalid = addresses.find((address) => !EMAIL_PATTERN.test(address));
+      if (addresses.length === 0 || invalid) {
+        throw new InvalidDestinationError(invalid ? `"${invalid}" is not an email address` : 'Enter at least one email address');
+      }
+      return;
+    }
+    case 'directory':
+      outputDirectory(destination);
+      return;
+    case 'webhook':
+      await webhookTarget(destination);
+      return;
+  }
+}
+
+function getTransporter(): Transporter {
+  if (transporter) return transporter;
+
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST must be set to deliver reports by email");
+  }
+  transporter = nodemailer.createTransport({
+    host,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD || '' }
+      : undefined,
+  });
+  return transporter;
+}
+
+export async function deliverReport(method: DeliveryMethod, destination: string, report: DeliveredReport): Promise<void> {
+  await validateDestination(method, destination);
+
+  switch (method) {
+    case 'email':
+      await getTransporter().sendMail({
+        from: process.env.REPORT_MAIL_FROM || 'reports@localhost',
+        to: recipients(destination),
+        subject: report.title,
+        text: report.summary,
+        attachments: [{ filename: report.fileName, content: report.content, contentType: report.contentType }],
+      });
+      return;
+    case 'directory': {
+      const directory = outputDirectory(destination);
+      await mkdir(directory, { recursive: true });
+      await writeFile(path.join(directory, report.fileName), report.content);
+      return;
+    }
+    case 'webhook':
+      await postWebhook(destination, {
+        'Content-Type': report.contentType,
+        'Content-Disposition': `attachment; filename="${report.fileName}"`,
+        'X-Report-Title': encodeURIComponent(report.title),
+      }, report.content);
+      return;
+  }
+}
+
+export async function sendNotification(method: AlertNotifyMethod, destination: string, notification: Notification): Promise<void> {
+  await validateDestination(method, destination);
+
+  if (method === 'email') {
+    await getTransporter().sendMail({
+      from: process.env.REPORT_MAIL_FROM || 'reports@localhost',
+      to: recipients(destination),
+      subject: notification.subject,
+      text: notification.text,
+    });
+    return;
+  }
+  await postWebhook(destination, { 'Content-Type': 'application/json' }, JSON.stringify(notification.payload));
+}
+
+// Redirects are not followed, since they could lead to a private address
+async function postWebhook(destination: string, headers: Record<string, string>, body: Buffer | string): Promise<void> {
+  const { url, lookup } = await webhookTarget(destination);
+  const request = url.protocol === 'https:' ? https.request : http.request;
+
+  const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+    const req = request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, (response) => {
+      // Only the status is used; read the body so the connection is released
+      response.resume();
+      response.on('end', () => resolve(response));
+      response.on('error', reject);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    throw new Error(`The webhook responded with ${status} ${response.statusMessage ?? ''}`.trimEnd());
+  }
+}
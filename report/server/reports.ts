@@ -0,0 +1,138 @@
+import ExcelJS from "exceljs";
+import type { ReportFormat, SavedQuery } from "@shared/schema";
+import type { ParameterValues } from "@shared/query-parameters";
+import { chartSpecSchema, type ChartSpec } from "@shared/charts";
+import { sqlDialectOptions, validateReadOnlySQL } from "@shared/sql-validator";
+import { storage } from "./storage";
+import { authorizeQuery, getAccessScope, type AccessScope } from "./access-control";
+import { bindQueryParameters, parameterizeSavedQuery } from "./parameters";
+import { QueryExecutionError, type QueryParam, type QueryResultSet } from "./query-runner";
+import { renderPdf } from "./pdf-report";
+import { addXlsxSheet, cellText, csvLine, DEFAULT_CSV_OPTIONS, encodeCsv, writeXlsxSheet, XLSX_CONTENT_TYPE, xlsxSheetName } from "./exports";
+
+export interface ReportResult extends QueryResultSet {
+  // Values the saved query's parameters were bound to
+  params: QueryParam[];
+}
+
+export interface SavedQueryOptions {
+  connectionId?: string;
+  parameterValues?: ParameterValues;
+}
+
+export interface PreparedSavedQuery {
+  scope: AccessScope;
+  // The statement as authorized for the user, ready to run on the scope's connection
+  sql: string;
+  params: QueryParam[];
+  // Values the saved query's parameters were bound to
+  boundParams: QueryParam[];
+}
+
+// Prepares a saved query's SQL with the same checks as the builder: a single read-only statement,
+// validated parameters, and the user's grants, row policies and masks on the connection
+export async function prepareSavedQuery(
+  user: Express.User,
+  query: SavedQuery,
+  options: SavedQueryOptions = {},
+): Promise<PreparedSavedQuery> {
+  const scope = await getAccessScope(user, options.connectionId);
+  const parameterized = parameterizeSavedQuery(query, scope.databaseType);
+
+  const validation = validateReadOnlySQL(parameterized.sql, sqlDialectOptions(scope.databaseType));
+  if (!validation.isValid) {
+    throw new QueryExecutionError('read_only_violation', validation.error!.message);
+  }
+
+  const params = await bindQueryParameters(
+    scope, parameterized.params, parameterized.parameters, options.parameterValues ?? {},
+  );
+  const authorized = await authorizeQuery(scope, parameterized.sql, params);
+  return { scope, sql: authorized.sql, params: authorized.params, boundParams: params };
+}
+
+export async function runSavedQuery(
+  user: Express.User,
+  query: SavedQuery,
+  options: SavedQueryOptions = {},
+): Promise<ReportResult> {
+  const prepared = await prepareSavedQuery(user, query, options);
+  const result = await storage.executeQuery(prepared.sql, prepared.params, prepared.scope.externalId ?? undefined);
+  return { ...result, params: prepared.boundParams };
+}
+
+// Counts a saved query's rows on the database, so the count is not capped by the row limit
+export async function countSavedQueryRows(
+  user: Express.User,
+  query: SavedQuery,
+  options: SavedQueryOptions = {},
+): Promise<{ count: number; params: QueryParam[] }> {
+  const prepared = await prepareSavedQuery(user, query, options);
+  // A trailing semicolon is allowed by the validator but not in a subquery; the line break keeps
+  // a trailing -- comment from swallowing the closing parenthesis
+  const body = prepared.sql.trim().replace(/;+\s*$/, '');
+  const result = await storage.executeQuery(
+    `SELECT COUNT(*) FROM (${body}\n) AS counted_rows`, prepared.params, prepared.scope.externalId ?? undefined,
+  );
+  // PostgreSQL returns COUNT(*) as a bigint string
+  return { count: Number(result.rows[0]?.[0] ?? 0), params: prepared.boundParams };
+}
+
+// The chart saved with a query in the builder, when it has one
+export function savedQueryChart(query: Pick<SavedQuery, 'queryConfig'>): ChartSpec | undefined {
+  try {
+    const chart = chartSpecSchema.safeParse(JSON.parse(query.queryConfig)?.chart);
+    return chart.success ? chart.data : undefined;
+  } catch {
+    // Not JSON; the query has no saved chart
+    return undefined;
+  }
+}
+
+export interface ReportDetails {
+  title: string;
+  description?: string | null;
+  generatedAt: Date;
+  // Parameter values shown in the report header
+  parameterValues?: ParameterValues;
+  // Chart drawn above the table in PDF reports
+  chart?: ChartSpec;
+}
+
+export interface RenderedReport {
+  content: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: XLSX_CONTENT_TYPE,
+  pdf: 'application/pdf',
+};
+
+export async function renderReport(result: ReportResult, format: ReportFormat, details: ReportDetails): Promise<RenderedReport> {
+  const content = format === 'csv' ? renderCsv(result)
+    : format === 'xlsx' ? await renderXlsx(result, details)
+    : await renderPdf(result, details);
+  return { content, contentType: REPORT_CONTENT_TYPES[format], extension: format };
+}
+
+// File name for a report: the title made safe for file systems and mail clients, and the date
+export function reportFileName(details: ReportDetails, extension: string): string {
+  const base = details.title.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || 'report';
+  return `${base}_${details.generatedAt.toISOString().slice(0, 10)}.${extension}`;
+}
+
+function renderCsv(result: ReportResult): Buffer {
+  const lines = [result.columns, ...result.rows].map((row) => csvLine(row));
+  return encodeCsv(lines.join(''), DEFAULT_CSV_OPTIONS.encoding);
+}
+
+async function renderXlsx(result: ReportResult, details: ReportDetails): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = details.generatedAt;
+  const sheet = addXlsxSheet(workbook, xlsxSheetName(details.title, new Set()));
+  await writeXlsxSheet(sheet, (async function* () { yield result; })());
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
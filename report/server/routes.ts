@@ -1,21 +1,347 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { nanoid } from "nanoid";
+import { storage, UnknownConnectionError, type SavedQueryChange } from "./storage";
 import { z } from "zod";
-import { insertSavedQuerySchema } from "@shared/schema";
+import {
+  insertSavedQuerySchema,
+  updateSavedQuerySchema,
+  savedQueryChangeSchema,
+  savedQueryFiltersSchema,
+  insertQueryFolderSchema,
+  updateQueryFolderSchema,
+  type QueryFolder,
+  type SavedQuery,
+  insertConnectionProfileSchema,
+  updateConnectionProfileSchema,
+  insertRoleSchema,
+  updateRoleSchema,
+  insertRoleGrantSchema,
+  insertRowPolicySchema,
+  updateRowPolicySchema,
+  insertColumnMaskSchema,
+  updateColumnMaskSchema,
+  userAttributesSchema,
+  auditEventFiltersSchema,
+  insertReportScheduleSchema,
+  type InsertReportSchedule,
+  insertQueryAlertSchema,
+  type InsertQueryAlert,
+  type AppUser,
+  type ConnectionProfile,
+  type PublicConnectionProfile,
+} from "@shared/schema";
+import { sqlDialectOptions, validateReadOnlySQL } from "@shared/sql-validator";
+import { diffLines, sideBySide } from "@shared/text-diff";
+import { diffQueryConfigs } from "@shared/query-config-diff";
+import {
+  PARAMETER_URL_PREFIX,
+  parameterReferenceSchema,
+  parameterValuesSchema,
+  queryParameterSchema,
+  type ParameterValues,
+} from "@shared/query-parameters";
+import { chartSpecSchema, chartTypes, InvalidChartError } from "@shared/charts";
+import { externalDbManager, type ExternalDatabaseConfig } from "./external-db";
+import { toQueryExecutionError, type QueryBatch, type QueryParam } from "./query-runner";
+import { bindQueryParameters, loadParameterOptions, ParameterValidationError } from "./parameters";
+import { InvalidScheduleError, nextRunTime, runReportSchedule } from "./scheduler";
+import { InvalidDestinationError, validateDestination } from "./report-delivery";
+import { evaluateQueryAlert } from "./alerts";
+import {
+  PARQUET_CONTENT_TYPE,
+  streamCsv,
+  streamJson,
+  streamParquet,
+  streamXlsx,
+  XLSX_CONTENT_TYPE,
+  type CsvOptions,
+} from "./exports";
+import { prepareSavedQuery, renderReport, reportFileName, runSavedQuery, savedQueryChart } from "./reports";
+import { setupAuth } from "./auth";
+import { recordAuditEvent, writeAuditExport } from "./audit";
+import { recordQueryRun } from "./history";
+import {
+  AccessDeniedError,
+  authorizeQuery,
+  canEditQueryFolder,
+  canManageQueryAlert,
+  canManageReportSchedule,
+  canUseProfile,
+  checkSavedQueryAccess,
+  getAccessScope,
+  getSavedQueryViewer,
+  getUserAccess,
+  InvalidRowPolicyError,
+  requireAdmin,
+  validateRowPolicyFilter,
+} from "./access-control";
 
 const executeQuerySchema = z.object({
   sql: z.string().min(1, "SQL query is required"),
+  // Values for the numbered placeholders in `sql`; `{ parameter }` stands for a named parameter
+  params: z.array(z.union([z.string(), z.number(), z.boolean(), z.null(), parameterReferenceSchema])).default([]),
+  // Definitions of the named parameters, and the values given for them
+  parameters: z.array(queryParameterSchema).default([]),
+  parameterValues: parameterValuesSchema.default({}),
+  // JSON QueryConfig sent by the builder; its presence records the run in the user's history
+  queryConfig: z.string().optional(),
 });
 
+// The connection a request targets: the `:connectionId` path segment, else the X-Connection-Id
+// header. No id (or "default") means the bundled sample database.
+function getConnectionId(req: Request): string | undefined {
+  const connectionId = req.params.connectionId ?? req.header('X-Connection-Id');
+  return connectionId && connectionId !== 'default' ? connectionId : undefined;
+}
+
+const parameterOptionsSchema = z.object({
+  schema: z.string().min(1).optional(),
+  table: z.string().min(1),
+  column: z.string().min(1),
+});
+
+const scheduleRunsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Checks a schedule's destination, cron expression and connection before it is stored, and
+// returns when it runs next (null while disabled)
+async function prepareReportSchedule(user: Express.User, schedule: InsertReportSchedule): Promise<Date | null> {
+  await validateDestination(schedule.deliveryMethod, schedule.destination);
+  // The owner must be able to use the connection the schedule runs on
+  await getAccessScope(user, schedule.connectionId ?? undefined);
+  const nextRunAt = nextRunTime(schedule.cronExpression, schedule.timezone ?? 'UTC');
+  return schedule.enabled === false ? null : nextRunAt;
+}
+
+const CSV_DELIMITERS = { comma: ',', semicolon: ';', tab: '\t', pipe: '|' } as const;
+
+// CSV settings of an export, from the query string. A byte order mark is written for UTF-16 unless
+// `bom=false`, and for UTF-8 only with `bom=true`.
+const csvExportOptionsSchema = z.object({
+  delimiter: z.enum(['comma', 'semicolon', 'tab', 'pipe']).default('comma'),
+  encoding: z.enum(['utf-8', 'utf-16le', 'latin1']).default('utf-8'),
+  bom: z.enum(['true', 'false']).optional(),
+}).transform(({ delimiter, encoding, bom }): CsvOptions => ({
+  delimiter: CSV_DELIMITERS[delimiter],
+  encoding,
+  bom: bom === undefined ? encoding === 'utf-16le' : bom === 'true',
+}));
+
+const EXPORT_FORMATS = ['csv', 'xlsx', 'json', 'ndjson', 'parquet'] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Media types a client can ask for in `Accept`, in order of preference when it accepts anything
+const EXPORT_MEDIA_TYPES: Array<[string, ExportFormat]> = [
+  ['text/csv', 'csv'],
+  [XLSX_CONTENT_TYPE, 'xlsx'],
+  ['application/json', 'json'],
+  ['application/x-ndjson', 'ndjson'],
+  ['application/jsonl', 'ndjson'],
+  [PARQUET_CONTENT_TYPE, 'parquet'],
+];
+
+const exportFormatSchema = z.enum(EXPORT_FORMATS);
+
+// The export format from the path (`/export/xlsx`), the `format` query parameter or the Accept
+// header, in that order. Null when the client accepts none of the formats.
+function exportFormat(req: Request): ExportFormat | null {
+  const requested = req.params.format ?? req.query.format;
+  if (requested !== undefined) {
+    return exportFormatSchema.parse(requested);
+  }
+  const accepted = req.accepts(EXPORT_MEDIA_TYPES.map(([type]) => type));
+  return accepted ? EXPORT_MEDIA_TYPES.find(([type]) => type === accepted)![1] : null;
+}
+
+function streamExport(
+  res: Response,
+  format: ExportFormat,
+  batches: AsyncIterable<QueryBatch>,
+  csvOptions: CsvOptions,
+): Promise<number> {
+  const fileName = `query_results.${format}`;
+  switch (format) {
+    case 'csv':
+      return streamCsv(res, batches, csvOptions, fileName);
+    case 'xlsx':
+      return streamXlsx(res, [{ title: 'Query results', batches }], fileName).then(([rowCount]) => rowCount);
+    case 'json':
+      return streamJson(res, batches, fileName);
+    case 'ndjson':
+      return streamJson(res, batches, fileName, { lines: true });
+    case 'parquet':
+      return streamParquet(res, batches, fileName);
+  }
+}
+
+// Saved queries exported together into one workbook, a sheet each in the order given
+const workbookExportSchema = z.object({
+  queries: z.array(z.object({
+    id: z.number().int().positive(),
+    parameterValues: parameterValuesSchema.optional(),
+  })).min(1).max(20),
+});
+
+// Chart of a PDF report, from the query string: `chart=bar&x=month&y=revenue,orders&color=region`.
+// `chart=none` leaves the chart out; without `chart` the report has the chart saved with the query.
+const pdfReportSchema = z.object({
+  chart: z.enum(['none', ...chartTypes]).optional(),
+  x: z.string().optional(),
+  y: z.string().optional(),
+  color: z.string().optional(),
+  stacked: z.enum(['true', 'false']).optional(),
+}).transform(({ chart, x, y, color, stacked }) => chart && chart !== 'none'
+  ? { type: chart, x: x || undefined, y: y ? y.split(',') : [], colorBy: color || undefined, stacked: stacked === 'true' }
+  : chart)
+  .pipe(z.union([z.literal('none'), chartSpecSchema]).optional());
+
+// Parameter values given as `p.<name>=<value>`, as in report links
+function linkParameterValues(query: Request['query']): ParameterValues {
+  const values: ParameterValues = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (key.startsWith(PARAMETER_URL_PREFIX) && typeof value === 'string') {
+      values[key.slice(PARAMETER_URL_PREFIX.length)] = value;
+    }
+  }
+  return values;
+}
+
+const alertEventsSchema = z.object({
+  alertId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Same checks for an alert's notification destination, cron expression and connection
+async function prepareQueryAlert(user: Express.User, alert: InsertQueryAlert): Promise<Date | null> {
+  await validateDestination(alert.notifyMethod, alert.destination);
+  await getAccessScope(user, alert.connectionId ?? undefined);
+  const nextRunAt = nextRunTime(alert.cronExpression, alert.timezone ?? 'UTC');
+  return alert.enabled === false ? null : nextRunAt;
+}
+
+const versionDiffSchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
+// Author and message for the saved query version a request creates
+function savedQueryChange(req: Request, fallbackMessage: string): SavedQueryChange {
+  const { message } = savedQueryChangeSchema.parse(req.body ?? {});
+  return {
+    authorId: req.user?.id ?? null,
+    authorName: req.user?.username ?? null,
+    message: message || fallbackMessage,
+  };
+}
+
+// Whether `folderId` is `ancestorId` or nested somewhere below it
+function isFolderWithin(folders: QueryFolder[], folderId: number, ancestorId: number): boolean {
+  const parents = new Map(folders.map((folder) => [folder.id, folder.parentId]));
+  const seen = new Set<number>();
+  for (let current: number | null | undefined = folderId; current != null && !seen.has(current); current = parents.get(current)) {
+    if (current === ancestorId) {
+      return true;
+    }
+    seen.add(current);
+  }
+  return false;
+}
+
+// Queries can be filed only in a folder the user may edit; returns the reply for a refusal
+async function checkFolderAssignment(req: Request, folderId: number): Promise<{ status: number; message: string } | null> {
+  const folder = await storage.getQueryFolder(folderId);
+  if (!folder) {
+    return { status: 400, message: "Folder not found" };
+  }
+  if (!canEditQueryFolder(await getSavedQueryViewer(req.user!), folder)) {
+    return { status: 403, message: "Only the creator of this folder or an administrator can add queries to it" };
+  }
+  return null;
+}
+
+// Stored query configurations are JSON written by the builder; anything unreadable compares as empty
+function parseStoredConfig(json: string): object {
+  try {
+    const config = JSON.parse(json);
+    return config && typeof config === 'object' ? config : {};
+  } catch {
+    return {};
+  }
+}
+
+// MySQL string escapes and comments change where literals and comments end
+function validateQuery(sql: string, databaseType: string) {
+  return validateReadOnlySQL(sql, sqlDialectOptions(databaseType));
+}
+
+// Strips the encrypted password so it never leaves the server
+function toPublicProfile({ encryptedPassword, ...profile }: ConnectionProfile): PublicConnectionProfile {
+  return profile;
+}
+
+function isUniqueViolation(error: unknown) {
+  return (error as { code?: string })?.code === '23505';
+}
+
+function toPublicUser({ passwordHash, ...user }: AppUser) {
+  return user;
+}
+
+const roleAssignmentSchema = z.object({
+  roleId: z.number().int().nullable(),
+});
+
+const historySearchSchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(100),
+});
+
+const auditEventPageSchema = auditEventFiltersSchema.extend({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const auditExportSchema = auditEventFiltersSchema.extend({
+  format: z.enum(['csv', 'jsonl']).default('csv'),
+});
+
+const attributeAssignmentSchema = z.object({
+  attributes: userAttributesSchema,
+});
+
+// Row policy filters are checked in the dialect of the connection they apply to
+async function checkRowPolicyFilter(filter: string, connectionProfileId: number | null) {
+  let databaseType: ExternalDatabaseConfig['type'] = 'postgresql';
+  if (connectionProfileId !== null) {
+    const profile = await storage.getConnectionProfile(connectionProfileId);
+    if (!profile) {
+      throw new InvalidRowPolicyError('Connection profile not found');
+    }
+    databaseType = profile.type;
+  }
+  validateRowPolicyFilter(filter, databaseType);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and login; every other /api route below requires a signed-in user
+  setupAuth(app);
+
   // Get database schema (tables)
-  app.get("/api/schema/tables", async (req, res) => {
+  app.get(["/api/schema/tables", "/api/connections/:connectionId/schema/tables"], async (req, res) => {
     try {
-      const tables = await storage.getTables();
-      res.json(tables);
+      const scope = await getAccessScope(req.user!, getConnectionId(req));
+      const tables = await storage.getTables(scope.externalId ?? undefined);
+      res.json(tables.filter((table) => scope.canReadTable(table.schema, table.name)));
     } catch (error) {
       console.error("Error fetching tables:", error);
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({ message: error.message });
+      }
       res.status(500).json({ 
         message: "Failed to fetch database tables",
         error: error instanceof Error ? error.message : "Unknown error"
@@ -24,13 +350,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get table columns
-  app.get("/api/schema/tables/:tableName/columns", async (req, res) => {
+  app.get([
+    "/api/schema/tables/:tableName/columns",
+    "/api/connections/:connectionId/schema/tables/:tableName/columns",
+  ], async (req, res) => {
     try {
       const { tableName } = req.params;
-      const columns = await storage.getTableColumns(tableName);
-      res.json(columns);
+      const scope = await getAccessScope(req.user!, getConnectionId(req));
+      const schema = typeof req.query.schema === 'string' && req.query.schema ? req.query.schema : scope.defaultSchema;
+      if (!scope.canReadTable(schema, tableName)) {
+        return res.status(403).json({ message: `You do not have access to table ${schema}.${tableName}` });
+      }
+
+      const columns = await storage.getTableColumns(tableName, scope.externalId ?? undefined, schema);
+      const readable = scope.readableColumns(schema, tableName);
+      res.json(readable ? columns.filter((column) => readable.includes(column.name)) : columns);
     } catch (error) {
       console.error(`Error fetching columns for table ${req.params.tableName}:`, error);
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({ message: error.message });
+      }
       res.status(500).json({ 
         message: "Failed to fetch table columns",
         error: error instanceof Error ? error.message : "Unknown error"
@@ -39,56 +381,178 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Execute query
-  app.post("/api/query/execute", async (req, res) => {
+  app.post(["/api/query/execute", "/api/connections/:connectionId/query/execute"], async (req, res) => {
+    const startedAt = Date.now();
+    // Recorded in place of the request's parameter references once they are bound
+    let boundParams: QueryParam[] | undefined;
     try {
-      const { sql } = executeQuerySchema.parse(req.body);
+      const { sql, params, parameters, parameterValues } = executeQuerySchema.parse(req.body);
+      const scope = await getAccessScope(req.user!, getConnectionId(req));
       
-      // Basic SQL validation to prevent destructive operations
-      const normalizedSql = sql.trim().toLowerCase();
-      if (normalizedSql.startsWith('drop') || 
-          normalizedSql.startsWith('delete') || 
-          normalizedSql.startsWith('update') || 
-          normalizedSql.startsWith('insert') ||
-          normalizedSql.startsWith('alter') ||
-          normalizedSql.startsWith('create')) {
+      // Only a single read-only statement may reach the database
+      const validation = validateQuery(sql, scope.databaseType);
+      if (!validation.isValid) {
+        await recordAuditEvent(req, {
+          action: 'execute', startedAt, connectionId: getConnectionId(req), error: validation.error!,
+        });
+        await recordQueryRun(req, { startedAt, connectionId: getConnectionId(req), error: validation.error! });
         return res.status(400).json({ 
-          message: "Only SELECT queries are allowed for security reasons" 
+          message: "Only read-only SELECT queries are allowed",
+          code: "read_only_violation",
+          error: validation.error!.message,
+          position: validation.error!.position,
+          line: validation.error!.line,
+          column: validation.error!.column
         });
       }
 
-      const result = await storage.executeQuery(sql);
-      res.json(result);
+      boundParams = await bindQueryParameters(scope, params, parameters, parameterValues);
+      // Throws a permission_denied error for tables outside the user's grants; applies row policies and masks
+      const authorized = await authorizeQuery(scope, sql, boundParams);
+      const result = await storage.executeQuery(authorized.sql, authorized.params, scope.externalId ?? undefined);
+      await recordAuditEvent(req, {
+        action: 'execute', startedAt, connectionId: getConnectionId(req), params: boundParams, rowCount: result.rows.length,
+      });
+      await recordQueryRun(req, {
+        startedAt, connectionId: getConnectionId(req), params: boundParams, rowCount: result.rows.length,
+      });
+      res.json({
+        ...result,
+        maskedColumns: result.columns.filter((column) => authorized.maskedColumns.includes(column)),
+      });
     } catch (error) {
       console.error("Error executing query:", error);
-      res.status(400).json({ 
+      await recordAuditEvent(req, {
+        action: 'execute', startedAt, connectionId: getConnectionId(req), params: boundParams, error,
+      });
+      await recordQueryRun(req, { startedAt, connectionId: getConnectionId(req), params: boundParams, error });
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ParameterValidationError) {
+        return res.status(400).json({
+          message: "Invalid parameters",
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+      const queryError = toQueryExecutionError(error);
+      res.status(queryError.status).json({ 
         message: "Query execution failed",
+        error: queryError.message,
+        code: queryError.code
+      });
+    }
+  });
+
+  // The signed-in user's query history
+  app.get("/api/history", async (req, res) => {
+    try {
+      const options = historySearchSchema.parse(req.query);
+      res.json(await storage.getQueryRuns(req.user!.id, options));
+    } catch (error) {
+      console.error("Error fetching query history:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid history search",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to fetch query history",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.get("/api/history/:id", async (req, res) => {
+    try {
+      const run = await storage.getQueryRun(req.user!.id, parseInt(req.params.id));
+      if (!run) {
+        return res.status(404).json({ message: "Run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching query run:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch query run",
         error: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
+  // Choices for an enum parameter: the distinct values of its source column on the current connection
+  app.get(["/api/parameter-options", "/api/connections/:connectionId/parameter-options"], async (req, res) => {
+    try {
+      const source = parameterOptionsSchema.parse(req.query);
+      const scope = await getAccessScope(req.user!, getConnectionId(req));
+      res.json(await loadParameterOptions(scope, source));
+    } catch (error) {
+      console.error("Error fetching parameter options:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid parameter source",
+          errors: error.errors
+        });
+      }
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      const queryError = toQueryExecutionError(error);
+      res.status(queryError.status).json({ 
+        message: "Failed to load parameter options",
+        error: queryError.message,
+        code: queryError.code
+      });
+    }
+  });
+
   // Get saved queries
   app.get("/api/queries", async (req, res) => {
     try {
-      const queries = await storage.getSavedQueries();
+      const filters = savedQueryFiltersSchema.parse(req.query);
+      const queries = await storage.getSavedQueries(await getSavedQueryViewer(req.user!), filters);
       res.json(queries);
     } catch (error) {
       console.error("Error fetching saved queries:", error);
-      res.status(500).json({ 
-        message: "Failed to fetch saved queries",
-        error: error instanceof Error ? error.message : "Unknown error"
-      });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid query filters",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to fetch saved queries",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
     }
   });
 
   // Save query
   app.post("/api/queries", async (req, res) => {
+    const startedAt = Date.now();
     try {
       const queryData = insertSavedQuerySchema.parse(req.body);
-      const savedQuery = await storage.createSavedQuery(queryData);
+      const folderDenied = queryData.folderId ? await checkFolderAssignment(req, queryData.folderId) : null;
+      if (folderDenied) {
+        return res.status(folderDenied.status).json({ message: folderDenied.message });
+      }
+      const savedQuery = await storage.createSavedQuery(queryData, savedQueryChange(req, "Created query"));
+      await recordAuditEvent(req, {
+        action: 'save', startedAt, sql: savedQuery.generatedSql, params: null, savedQueryId: savedQuery.id,
+      });
       res.status(201).json(savedQuery);
     } catch (error) {
       console.error("Error saving query:", error);
+      await recordAuditEvent(req, {
+        action: 'save',
+        startedAt,
+        sql: typeof req.body?.generatedSql === 'string' ? req.body.generatedSql : null,
+        params: null,
+        error,
+      });
       if (error instanceof z.ZodError) {
         res.status(400).json({ 
           message: "Invalid query data",
@@ -108,8 +572,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const query = await storage.getSavedQuery(id);
-      if (!query) {
-        return res.status(404).json({ message: "Query not found" });
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), query, 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
       }
       res.json(query);
     } catch (error) {
@@ -121,17 +586,176 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update saved query (rename, or save the builder's changes over it)
+  app.put("/api/queries/:id", async (req, res) => {
+    const startedAt = Date.now();
+    const id = parseInt(req.params.id);
+    try {
+      const queryData = updateSavedQuerySchema.parse(req.body);
+      const existing = await storage.getSavedQuery(id);
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), existing, 'edit');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      // Leaving a query where it is needs no access to its folder
+      const folderDenied = queryData.folderId && queryData.folderId !== existing!.folderId
+        ? await checkFolderAssignment(req, queryData.folderId)
+        : null;
+      if (folderDenied) {
+        return res.status(folderDenied.status).json({ message: folderDenied.message });
+      }
+      const savedQuery = await storage.updateSavedQuery(id, queryData, savedQueryChange(req, "Updated query"));
+      if (!savedQuery) {
+        return res.status(404).json({ message: "Query not found" });
+      }
+      await recordAuditEvent(req, {
+        action: 'save', startedAt, sql: savedQuery.generatedSql, params: null, savedQueryId: savedQuery.id,
+      });
+      res.json(savedQuery);
+    } catch (error) {
+      console.error("Error updating saved query:", error);
+      await recordAuditEvent(req, {
+        action: 'save',
+        startedAt,
+        sql: typeof req.body?.generatedSql === 'string' ? req.body.generatedSql : null,
+        params: null,
+        savedQueryId: Number.isNaN(id) ? null : id,
+        error,
+      });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid query data",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to update query",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  // Version history of a saved query, newest first
+  app.get("/api/queries/:id/versions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const query = await storage.getSavedQuery(id);
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), query, 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      res.json(await storage.getSavedQueryVersions(id));
+    } catch (error) {
+      console.error("Error fetching query versions:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch query versions",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Compare two versions: the SQL line by line and the query configuration element by element
+  app.get("/api/queries/:id/versions/diff", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { from, to } = versionDiffSchema.parse(req.query);
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), await storage.getSavedQuery(id), 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      const [before, after] = await Promise.all([
+        storage.getSavedQueryVersion(id, from),
+        storage.getSavedQueryVersion(id, to),
+      ]);
+      if (!before || !after) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      res.json({
+        from: before,
+        to: after,
+        sql: sideBySide(diffLines(before.generatedSql, after.generatedSql)),
+        config: diffQueryConfigs(parseStoredConfig(before.queryConfig), parseStoredConfig(after.queryConfig)),
+      });
+    } catch (error) {
+      console.error("Error comparing query versions:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid versions to compare",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to compare query versions",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  // Restore an earlier version; this records a new version, so the rollback can itself be undone
+  app.post("/api/queries/:id/versions/:version/rollback", async (req, res) => {
+    const startedAt = Date.now();
+    const id = parseInt(req.params.id);
+    try {
+      const version = parseInt(req.params.version);
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), await storage.getSavedQuery(id), 'edit');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      const savedQuery = await storage.rollbackSavedQuery(
+        id, version, savedQueryChange(req, `Rolled back to version ${version}`),
+      );
+      if (!savedQuery) {
+        return res.status(404).json({ message: "Version not found" });
+      }
+      await recordAuditEvent(req, {
+        action: 'save', startedAt, sql: savedQuery.generatedSql, params: null, savedQueryId: savedQuery.id,
+      });
+      res.json(savedQuery);
+    } catch (error) {
+      console.error("Error rolling back saved query:", error);
+      await recordAuditEvent(req, {
+        action: 'save', startedAt, sql: null, params: null, savedQueryId: Number.isNaN(id) ? null : id, error,
+      });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid rollback request",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to roll back query",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
   // Delete saved query
   app.delete("/api/queries/:id", async (req, res) => {
+    const startedAt = Date.now();
+    const id = parseInt(req.params.id);
     try {
-      const id = parseInt(req.params.id);
+      // Kept for the audit trail, which outlives the query
+      const existing = await storage.getSavedQuery(id);
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), existing, 'edit');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
       const deleted = await storage.deleteSavedQuery(id);
       if (!deleted) {
         return res.status(404).json({ message: "Query not found" });
       }
+      await recordAuditEvent(req, {
+        action: 'delete', startedAt, sql: existing?.generatedSql ?? null, params: null, savedQueryId: id,
+      });
       res.json({ message: "Query deleted successfully" });
     } catch (error) {
       console.error("Error deleting saved query:", error);
+      await recordAuditEvent(req, {
+        action: 'delete', startedAt, sql: null, params: null, savedQueryId: Number.isNaN(id) ? null : id, error,
+      });
       res.status(500).json({ 
         message: "Failed to delete query",
         error: error instanceof Error ? error.message : "Unknown error"
@@ -139,97 +763,1227 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Export results as CSV
-  app.post("/api/query/export", async (req, res) => {
+  // Report schedules of a saved query: all of them for administrators, otherwise the user's own
+  app.get("/api/queries/:id/schedules", async (req, res) => {
     try {
-      const { sql } = executeQuerySchema.parse(req.body);
-      
-      const normalizedSql = sql.trim().toLowerCase();
-      if (!normalizedSql.startsWith('select')) {
-        return res.status(400).json({ 
-          message: "Only SELECT queries are allowed for export" 
-        });
+      const id = parseInt(req.params.id);
+      const viewer = await getSavedQueryViewer(req.user!);
+      const denied = await checkSavedQueryAccess(viewer, await storage.getSavedQuery(id), 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
       }
-
-      const result = await storage.executeQuery(sql);
-      
-      // Convert to CSV
-      let csv = result.columns.join(',') + '\n';
-      result.rows.forEach(row => {
-        csv += row.map((cell: any) => 
-          typeof cell === 'string' && cell.includes(',') 
-            ? `"${cell.replace(/"/g, '""')}"` 
-            : cell
-        ).join(',') + '\n';
-      });
-
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename="query_results.csv"');
-      res.send(csv);
+      res.json(await storage.getReportSchedules(id, viewer.isAdmin ? undefined : viewer.id));
     } catch (error) {
-      console.error("Error exporting query:", error);
-      res.status(400).json({ 
-        message: "Export failed",
+      console.error("Error fetching report schedules:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch schedules",
         error: error instanceof Error ? error.message : "Unknown error"
       });
     }
   });
 
-  // External database configuration
-  app.post("/api/database/test", async (req, res) => {
+  // Anyone who can see a query may schedule it; the schedule runs with their access
+  app.post("/api/queries/:id/schedules", async (req, res) => {
     try {
-      const config = req.body;
-      const { externalDbManager } = await import('./external-db');
-      const result = await externalDbManager.testConnection(config);
-      res.json(result);
-    } catch (error: any) {
-      console.error("Database test error:", error);
-      res.status(500).json({ success: false, error: error.message });
+      const id = parseInt(req.params.id);
+      const scheduleData = insertReportScheduleSchema.parse(req.body);
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), await storage.getSavedQuery(id), 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      const nextRunAt = await prepareReportSchedule(req.user!, scheduleData);
+      const schedule = await storage.createReportSchedule({
+        ...scheduleData,
+        savedQueryId: id,
+        ownerId: req.user!.id,
+        nextRunAt,
+      });
+      res.status(201).json(schedule);
+    } catch (error) {
+      console.error("Error creating report schedule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid schedule data",
+          errors: error.errors
+        });
+      }
+      if (error instanceof InvalidScheduleError || error instanceof InvalidDestinationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: "Failed to create schedule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
     }
   });
 
-  app.post("/api/database/connect", async (req, res) => {
+  app.put("/api/schedules/:id", async (req, res) => {
     try {
-      const config = req.body;
-      const { externalDbManager } = await import('./external-db');
-      
-      // Test connection first
-      const testResult = await externalDbManager.testConnection(config);
-      if (!testResult.success) {
-        return res.status(400).json(testResult);
+      const id = parseInt(req.params.id);
+      const scheduleData = insertReportScheduleSchema.parse(req.body);
+      const existing = await storage.getReportSchedule(id);
+      if (!existing || !canManageReportSchedule(await getSavedQueryViewer(req.user!), existing)) {
+        return res.status(404).json({ message: "Schedule not found" });
       }
-
-      // Set configuration and switch storage to external DB
-      externalDbManager.setConfiguration(config);
-      storage.setExternalDatabase(true);
-      
-      res.json({ success: true, message: "Connected to external database" });
-    } catch (error: any) {
-      console.error("Database connection error:", error);
-      res.status(500).json({ success: false, error: error.message });
+      // Checked against the owner, whose access the schedule runs with
+      const owner = await storage.getAppUser(existing.ownerId);
+      const nextRunAt = await prepareReportSchedule(owner ?? req.user!, scheduleData);
+      res.json(await storage.updateReportSchedule(id, { ...scheduleData, nextRunAt }));
+    } catch (error) {
+      console.error("Error updating report schedule:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid schedule data",
+          errors: error.errors
+        });
+      }
+      if (error instanceof InvalidScheduleError || error instanceof InvalidDestinationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: "Failed to update schedule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
     }
   });
 
-  app.post("/api/database/disconnect", async (req, res) => {
+  app.delete("/api/schedules/:id", async (req, res) => {
     try {
-      const { externalDbManager } = await import('./external-db');
-      externalDbManager.clearConfiguration();
-      storage.setExternalDatabase(false);
-      res.json({ success: true, message: "Disconnected from external database" });
+      const id = parseInt(req.params.id);
+      const existing = await storage.getReportSchedule(id);
+      if (!existing || !canManageReportSchedule(await getSavedQueryViewer(req.user!), existing)) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      await storage.deleteReportSchedule(id);
+      res.json({ message: "Schedule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting report schedule:", error);
+      res.status(500).json({ 
+        message: "Failed to delete schedule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Runs a schedule immediately and waits for the delivery; a failure is reported in the run
+  app.post("/api/schedules/:id/run", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const schedule = await storage.getReportSchedule(id);
+      if (!schedule || !canManageReportSchedule(await getSavedQueryViewer(req.user!), schedule)) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      res.json(await runReportSchedule(schedule, 'manual'));
+    } catch (error) {
+      console.error("Error running report schedule:", error);
+      res.status(500).json({ 
+        message: "Failed to run schedule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Past runs of a schedule, newest first
+  app.get("/api/schedules/:id/runs", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { limit } = scheduleRunsSchema.parse(req.query);
+      const schedule = await storage.getReportSchedule(id);
+      if (!schedule || !canManageReportSchedule(await getSavedQueryViewer(req.user!), schedule)) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      res.json(await storage.getReportScheduleRuns(id, limit));
+    } catch (error) {
+      console.error("Error fetching report schedule runs:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid run filters",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ 
+        message: "Failed to fetch schedule runs",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Threshold alerts of a saved query: all of them for administrators, otherwise the user's own
+  app.get("/api/queries/:id/alerts", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const viewer = await getSavedQueryViewer(req.user!);
+      const denied = await checkSavedQueryAccess(viewer, await storage.getSavedQuery(id), 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      res.json(await storage.getQueryAlerts(id, viewer.isAdmin ? undefined : viewer.id));
+    } catch (error) {
+      console.error("Error fetching alerts:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch alerts",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Anyone who can see a query may set an alert on it; the alert is evaluated with their access
+  app.post("/api/queries/:id/alerts", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const alertData = insertQueryAlertSchema.parse(req.body);
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), await storage.getSavedQuery(id), 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      const nextRunAt = await prepareQueryAlert(req.user!, alertData);
+      const alert = await storage.createQueryAlert({
+        ...alertData,
+        savedQueryId: id,
+        ownerId: req.user!.id,
+        nextRunAt,
+      });
+      res.status(201).json(alert);
+    } catch (error) {
+      console.error("Error creating alert:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid alert data",
+          errors: error.errors
+        });
+      }
+      if (error instanceof InvalidScheduleError || error instanceof InvalidDestinationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: "Failed to create alert",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.put("/api/alerts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const alertData = insertQueryAlertSchema.parse(req.body);
+      const existing = await storage.getQueryAlert(id);
+      if (!existing || !canManageQueryAlert(await getSavedQueryViewer(req.user!), existing)) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      // Checked against the owner, whose access the alert is evaluated with
+      const owner = await storage.getAppUser(existing.ownerId);
+      const nextRunAt = await prepareQueryAlert(owner ?? req.user!, alertData);
+      res.json(await storage.updateQueryAlert(id, { ...alertData, nextRunAt }));
+    } catch (error) {
+      console.error("Error updating alert:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid alert data",
+          errors: error.errors
+        });
+      }
+      if (error instanceof InvalidScheduleError || error instanceof InvalidDestinationError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof AccessDeniedError) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ 
+        message: "Failed to update alert",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.delete("/api/alerts/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getQueryAlert(id);
+      if (!existing || !canManageQueryAlert(await getSavedQueryViewer(req.user!), existing)) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      await storage.deleteQueryAlert(id);
+      res.json({ message: "Alert deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting alert:", error);
+      res.status(500).json({ 
+        message: "Failed to delete alert",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Evaluates an alert immediately; it notifies only if its state changes, as on a scheduled check
+  app.post("/api/alerts/:id/evaluate", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const alert = await storage.getQueryAlert(id);
+      if (!alert || !canManageQueryAlert(await getSavedQueryViewer(req.user!), alert)) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      res.json(await evaluateQueryAlert(alert));
+    } catch (error) {
+      console.error("Error evaluating alert:", error);
+      res.status(500).json({ 
+        message: "Failed to evaluate alert",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Alert history of a saved query, newest first; users other than administrators see their own alerts'
+  app.get("/api/queries/:id/alert-events", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { alertId, limit } = alertEventsSchema.parse(req.query);
+      const viewer = await getSavedQueryViewer(req.user!);
+      const denied = await checkSavedQueryAccess(viewer, await storage.getSavedQuery(id), 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      res.json(await storage.getQueryAlertEvents(id, {
+        alertId,
+        ownerId: viewer.isAdmin ? undefined : viewer.id,
+        limit,
+      }));
+    } catch (error) {
+      console.error("Error fetching alert history:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid history filters",
+          errors: error.errors
+        });
+      }
+      res.status(500).json({ 
+        message: "Failed to fetch alert history",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Saved query folders, as a flat list; the client nests them by parentId
+  app.get("/api/folders", async (req, res) => {
+    try {
+      res.json(await storage.getQueryFolders());
+    } catch (error) {
+      console.error("Error fetching folders:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch folders",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/folders", async (req, res) => {
+    try {
+      const folderData = insertQueryFolderSchema.parse(req.body);
+      if (folderData.parentId && !(await storage.getQueryFolder(folderData.parentId))) {
+        return res.status(400).json({ message: "Parent folder not found" });
+      }
+      const folder = await storage.createQueryFolder(folderData, req.user!.id);
+      res.status(201).json(folder);
+    } catch (error) {
+      console.error("Error creating folder:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid folder data",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to create folder",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  // Rename a folder or move it under another one
+  app.put("/api/folders/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const folderData = updateQueryFolderSchema.parse(req.body);
+      const folder = await storage.getQueryFolder(id);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      if (!canEditQueryFolder(await getSavedQueryViewer(req.user!), folder)) {
+        return res.status(403).json({ message: "Only the creator of this folder or an administrator can change it" });
+      }
+      if (folderData.parentId) {
+        const folders = await storage.getQueryFolders();
+        if (!folders.some((candidate) => candidate.id === folderData.parentId)) {
+          return res.status(400).json({ message: "Parent folder not found" });
+        }
+        if (isFolderWithin(folders, folderData.parentId, id)) {
+          return res.status(400).json({ message: "A folder cannot be moved into itself or one of its subfolders" });
+        }
+      }
+      res.json(await storage.updateQueryFolder(id, folderData));
+    } catch (error) {
+      console.error("Error updating folder:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid folder data",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to update folder",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  // Deletes the folder and its subfolders; the queries in them become unfiled
+  app.delete("/api/folders/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const folder = await storage.getQueryFolder(id);
+      if (!folder) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      if (!canEditQueryFolder(await getSavedQueryViewer(req.user!), folder)) {
+        return res.status(403).json({ message: "Only the creator of this folder or an administrator can delete it" });
+      }
+      await storage.deleteQueryFolder(id);
+      res.json({ message: "Folder deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting folder:", error);
+      res.status(500).json({ 
+        message: "Failed to delete folder",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Export results as CSV, Excel, JSON, NDJSON or Parquet, streamed from a cursor so the size of
+  // the result is not limited
+  app.post([
+    "/api/query/export",
+    "/api/query/export/:format",
+    "/api/connections/:connectionId/query/export",
+    "/api/connections/:connectionId/query/export/:format",
+  ], async (req, res) => {
+    const startedAt = Date.now();
+    let boundParams: QueryParam[] | undefined;
+    try {
+      const { sql, params, parameters, parameterValues } = executeQuerySchema.parse(req.body);
+      const format = exportFormat(req);
+      if (!format) {
+        return res.status(406).json({ message: `Exports are available as ${EXPORT_FORMATS.join(', ')}` });
+      }
+      const csvOptions = csvExportOptionsSchema.parse(req.query);
+      const scope = await getAccessScope(req.user!, getConnectionId(req));
+      
+      const validation = validateQuery(sql, scope.databaseType);
+      if (!validation.isValid) {
+        await recordAuditEvent(req, {
+          action: 'export', startedAt, connectionId: getConnectionId(req), error: validation.error!,
+        });
+        return res.status(400).json({ 
+          message: "Only read-only SELECT queries are allowed for export",
+          code: "read_only_violation",
+          error: validation.error!.message,
+          position: validation.error!.position,
+          line: validation.error!.line,
+          column: validation.error!.column
+        });
+      }
+
+      boundParams = await bindQueryParameters(scope, params, parameters, parameterValues);
+      // Throws a permission_denied error for tables outside the user's grants; applies row policies and masks
+      const authorized = await authorizeQuery(scope, sql, boundParams);
+      const batches = storage.streamQuery(authorized.sql, authorized.params, scope.externalId ?? undefined);
+      const rowCount = await streamExport(res, format, batches, csvOptions);
+
+      await recordAuditEvent(req, {
+        action: 'export', startedAt, connectionId: getConnectionId(req), params: boundParams, rowCount,
+      });
+    } catch (error) {
+      console.error("Error exporting query:", error);
+      await recordAuditEvent(req, {
+        action: 'export', startedAt, connectionId: getConnectionId(req), params: boundParams, error,
+      });
+      // Part of the file has been sent; aborting the response tells the client it is incomplete
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export request", errors: error.errors });
+      }
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ParameterValidationError) {
+        return res.status(400).json({
+          message: "Invalid parameters",
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+      const queryError = toQueryExecutionError(error);
+      res.status(queryError.status).json({ 
+        message: "Export failed",
+        error: queryError.message,
+        code: queryError.code
+      });
+    }
+  });
+
+  // A saved query as a PDF report: its name and description, the run time, the parameter values,
+  // an optional chart and the results table
+  app.get(["/api/queries/:id/report.pdf", "/api/connections/:connectionId/queries/:id/report.pdf"], async (req, res) => {
+    const startedAt = Date.now();
+    const connectionId = getConnectionId(req);
+    const id = parseInt(req.params.id);
+    let query: SavedQuery | undefined;
+    let params: QueryParam[] | undefined;
+    try {
+      query = await storage.getSavedQuery(id);
+      const denied = await checkSavedQueryAccess(await getSavedQueryViewer(req.user!), query, 'view');
+      if (denied) {
+        return res.status(denied.status).json({ message: denied.message });
+      }
+      const requested = pdfReportSchema.parse(req.query);
+      const parameterValues = linkParameterValues(req.query);
+
+      const result = await runSavedQuery(req.user!, query!, { connectionId, parameterValues });
+      params = result.params;
+      const details = {
+        title: query!.name,
+        description: query!.description,
+        generatedAt: new Date(),
+        parameterValues,
+        chart: requested === undefined ? savedQueryChart(query!) : requested === 'none' ? undefined : requested,
+      };
+      const report = await renderReport(result, 'pdf', details);
+
+      await recordAuditEvent(req, {
+        action: 'export', startedAt, connectionId, sql: query!.generatedSql, params,
+        savedQueryId: id, rowCount: result.rows.length,
+      });
+      res.setHeader('Content-Type', report.contentType);
+      res.setHeader('Content-Disposition', `inline; filename="${reportFileName(details, report.extension)}"`);
+      res.send(report.content);
+    } catch (error) {
+      console.error("Error rendering PDF report:", error);
+      await recordAuditEvent(req, {
+        action: 'export', startedAt, connectionId, sql: query?.generatedSql ?? null, params,
+        savedQueryId: id, error,
+      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid chart", errors: error.errors });
+      }
+      if (error instanceof InvalidChartError) {
+        return res.status(400).json({ message: "Invalid chart", error: error.message });
+      }
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ParameterValidationError) {
+        return res.status(400).json({
+          message: "Invalid parameters",
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+      const queryError = toQueryExecutionError(error);
+      res.status(queryError.status).json({ 
+        message: "Report failed",
+        error: queryError.message,
+        code: queryError.code
+      });
+    }
+  });
+
+  // Export several saved queries into one Excel workbook, one sheet per query, on the connection
+  // of the request
+  app.post(["/api/queries/export/xlsx", "/api/connections/:connectionId/queries/export/xlsx"], async (req, res) => {
+    const startedAt = Date.now();
+    const connectionId = getConnectionId(req);
+    const exported: Array<{ id: number; sql: string; params: QueryParam[] }> = [];
+    try {
+      const { queries } = workbookExportSchema.parse(req.body);
+      const viewer = await getSavedQueryViewer(req.user!);
+
+      const sheets = [];
+      for (const { id, parameterValues } of queries) {
+        const query = await storage.getSavedQuery(id);
+        const denied = await checkSavedQueryAccess(viewer, query, 'view');
+        if (denied) {
+          return res.status(denied.status).json({ message: denied.message });
+        }
+        // Every query is checked before the workbook is started, so a query that cannot run is
+        // reported as an error instead of a broken file
+        const prepared = await prepareSavedQuery(req.user!, query!, { connectionId, parameterValues });
+        exported.push({ id: query!.id, sql: query!.generatedSql, params: prepared.boundParams });
+        sheets.push({
+          title: query!.name,
+          batches: storage.streamQuery(prepared.sql, prepared.params, prepared.scope.externalId ?? undefined),
+        });
+      }
+
+      const rowCounts = await streamXlsx(res, sheets, 'saved_queries.xlsx');
+      for (const [index, query] of exported.entries()) {
+        await recordAuditEvent(req, {
+          action: 'export', startedAt, connectionId, sql: query.sql, params: query.params,
+          savedQueryId: query.id, rowCount: rowCounts[index] ?? 0,
+        });
+      }
+    } catch (error) {
+      console.error("Error exporting saved queries:", error);
+      for (const query of exported) {
+        await recordAuditEvent(req, {
+          action: 'export', startedAt, connectionId, sql: query.sql, params: query.params,
+          savedQueryId: query.id, error,
+        });
+      }
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export request", errors: error.errors });
+      }
+      if (error instanceof UnknownConnectionError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ParameterValidationError) {
+        return res.status(400).json({
+          message: "Invalid parameters",
+          error: error.message,
+          errors: error.errors,
+        });
+      }
+      const queryError = toQueryExecutionError(error);
+      res.status(queryError.status).json({ 
+        message: "Export failed",
+        error: queryError.message,
+        code: queryError.code
+      });
+    }
+  });
+
+  // External database configuration
+  // Connecting with raw credentials is reserved for admins; everyone else uses granted profiles
+  app.post("/api/database/test", requireAdmin, async (req, res) => {
+    try {
+      const config = req.body;
+      const result = await externalDbManager.testConnection(config);
+      res.json(result);
     } catch (error: any) {
-      console.error("Database disconnection error:", error);
+      console.error("Database test error:", error);
       res.status(500).json({ success: false, error: error.message });
     }
   });
 
-  app.get("/api/database/status", async (req, res) => {
+  app.post("/api/database/connect", requireAdmin, async (req, res) => {
     try {
-      const { externalDbManager } = await import('./external-db');
-      const isConnected = externalDbManager.isExternalDatabaseConfigured();
-      res.json({ connected: isConnected });
+      const config = req.body;
+      
+      // Test connection first
+      const testResult = await externalDbManager.testConnection(config);
+      if (!testResult.success) {
+        return res.status(400).json(testResult);
+      }
+
+      // Ad-hoc connections live until disconnected; the client sends the id with each request
+      const connectionId = `adhoc-${nanoid()}`;
+      await externalDbManager.registerConnection(connectionId, config, req.user!.id);
+      
+      res.json({ success: true, message: "Connected to external database", connectionId });
     } catch (error: any) {
-      console.error("Database status error:", error);
-      res.status(500).json({ connected: false, error: error.message });
+      console.error("Database connection error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/database/disconnect", async (req, res) => {
+    try {
+      // Profile pools are shared between users and stay open; only ad-hoc connections are closed
+      const connectionId = req.body?.connectionId ?? getConnectionId(req);
+      if (connectionId?.startsWith('adhoc-') && externalDbManager.hasConnection(connectionId)) {
+        // Only the admin who opened an ad-hoc connection may close it
+        if (externalDbManager.getConnectionOwner(connectionId) !== req.user!.id) {
+          return res.status(403).json({ success: false, error: "You can only disconnect connections you opened" });
+        }
+        await externalDbManager.closeConnection(connectionId);
+      }
+      res.json({ success: true, message: "Disconnected from external database" });
+    } catch (error: any) {
+      console.error("Database disconnection error:", error);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.get("/api/database/status", async (req, res) => {
+    try {
+      const scope = await getAccessScope(req.user!, getConnectionId(req)).catch(() => null);
+      const connectionId = scope?.externalId ?? null;
+      res.json({
+        connected: connectionId !== null,
+        // The bundled sample database is PostgreSQL
+        type: scope?.databaseType ?? 'postgresql',
+        connectionId,
+        pool: connectionId ? externalDbManager.getPoolStats(connectionId) : null
+      });
+    } catch (error: any) {
+      console.error("Database status error:", error);
+      res.status(500).json({ connected: false, error: error.message });
+    }
+  });
+
+  // Saved connection profiles
+  app.get("/api/connections", async (req, res) => {
+    try {
+      const access = await getUserAccess(req.user!);
+      const profiles = await storage.getConnectionProfiles();
+      res.json(profiles.filter((profile) => canUseProfile(access, profile.id)).map(toPublicProfile));
+    } catch (error) {
+      console.error("Error fetching connection profiles:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch connection profiles",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/connections", requireAdmin, async (req, res) => {
+    try {
+      const profileData = insertConnectionProfileSchema.parse(req.body);
+      const profile = await storage.createConnectionProfile(profileData);
+      res.status(201).json(toPublicProfile(profile));
+    } catch (error) {
+      console.error("Error saving connection profile:", error instanceof Error ? error.message : error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid connection profile",
+          errors: error.errors
+        });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ message: "A connection profile with this name already exists" });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to save connection profile",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.put("/api/connections/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const profileData = updateConnectionProfileSchema.parse(req.body);
+      const profile = await storage.updateConnectionProfile(id, profileData);
+      if (!profile) {
+        return res.status(404).json({ message: "Connection profile not found" });
+      }
+      // The pool is recreated from the new settings on next use
+      await externalDbManager.closeConnection(String(id));
+      res.json(toPublicProfile(profile));
+    } catch (error) {
+      console.error("Error updating connection profile:", error instanceof Error ? error.message : error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid connection profile",
+          errors: error.errors
+        });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ message: "A connection profile with this name already exists" });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to update connection profile",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.delete("/api/connections/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await externalDbManager.closeConnection(String(id));
+      const deleted = await storage.deleteConnectionProfile(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Connection profile not found" });
+      }
+      res.json({ message: "Connection profile deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting connection profile:", error);
+      res.status(500).json({ 
+        message: "Failed to delete connection profile",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/connections/:id/test", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!canUseProfile(await getUserAccess(req.user!), id)) {
+        return res.status(403).json({ success: false, error: "You do not have access to this connection" });
+      }
+      const config = await storage.getConnectionConfig(id);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Connection profile not found" });
+      }
+      res.json(await externalDbManager.testConnection(config));
+    } catch (error: any) {
+      console.error("Connection profile test error:", error.message);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  app.post("/api/connections/:id/connect", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!canUseProfile(await getUserAccess(req.user!), id)) {
+        return res.status(403).json({ success: false, error: "You do not have access to this connection" });
+      }
+      const config = await storage.getConnectionConfig(id);
+      if (!config) {
+        return res.status(404).json({ success: false, error: "Connection profile not found" });
+      }
+
+      const testResult = await externalDbManager.testConnection(config);
+      if (!testResult.success) {
+        return res.status(400).json(testResult);
+      }
+
+      // Saved profiles are addressed by their id
+      const connectionId = String(id);
+      await externalDbManager.registerConnection(connectionId, config);
+      res.json({ success: true, message: "Connected to external database", connectionId });
+    } catch (error: any) {
+      console.error("Connection profile connect error:", error.message);
+      res.status(500).json({ success: false, error: error.message });
+    }
+  });
+
+  // Roles, grants and role assignment (admins only)
+  app.get("/api/roles", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getRoles());
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch roles",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/roles", requireAdmin, async (req, res) => {
+    try {
+      const roleData = insertRoleSchema.parse(req.body);
+      res.status(201).json(await storage.createRole(roleData));
+    } catch (error) {
+      console.error("Error creating role:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid role",
+          errors: error.errors
+        });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ message: "A role with this name already exists" });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to create role",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.put("/api/roles/:id", requireAdmin, async (req, res) => {
+    try {
+      const roleData = updateRoleSchema.parse(req.body);
+      const role = await storage.updateRole(parseInt(req.params.id), roleData);
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      res.json(role);
+    } catch (error) {
+      console.error("Error updating role:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid role",
+          errors: error.errors
+        });
+      } else if (isUniqueViolation(error)) {
+        res.status(409).json({ message: "A role with this name already exists" });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to update role",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.delete("/api/roles/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Deleting your own role would lock you out of administration
+      if (req.user!.roleId === id) {
+        return res.status(409).json({ message: "You cannot delete your own role" });
+      }
+      const deleted = await storage.deleteRole(id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      res.json({ message: "Role deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      res.status(500).json({ 
+        message: "Failed to delete role",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/roles/:id/grants", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getRoleGrants(parseInt(req.params.id)));
+    } catch (error) {
+      console.error("Error fetching role grants:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch role grants",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/roles/:id/grants", requireAdmin, async (req, res) => {
+    try {
+      const roleId = parseInt(req.params.id);
+      const grantData = insertRoleGrantSchema.parse(req.body);
+      if (!(await storage.getRole(roleId))) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      res.status(201).json(await storage.createRoleGrant(roleId, grantData));
+    } catch (error) {
+      console.error("Error creating role grant:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid grant",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to create role grant",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.delete("/api/roles/:id/grants/:grantId", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteRoleGrant(parseInt(req.params.id), parseInt(req.params.grantId));
+      if (!deleted) {
+        return res.status(404).json({ message: "Grant not found" });
+      }
+      res.json({ message: "Grant deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting role grant:", error);
+      res.status(500).json({ 
+        message: "Failed to delete role grant",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Row-level security policies (admins only)
+  app.get("/api/row-policies", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getRowPolicies());
+    } catch (error) {
+      console.error("Error fetching row policies:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch row policies",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/row-policies", requireAdmin, async (req, res) => {
+    try {
+      const policyData = insertRowPolicySchema.parse(req.body);
+      await checkRowPolicyFilter(policyData.filter, policyData.connectionProfileId ?? null);
+      res.status(201).json(await storage.createRowPolicy(policyData));
+    } catch (error) {
+      console.error("Error creating row policy:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid row policy",
+          errors: error.errors
+        });
+      } else if (error instanceof InvalidRowPolicyError) {
+        res.status(400).json({ message: "Invalid row policy", error: error.message });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to create row policy",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.put("/api/row-policies/:id", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const policyData = updateRowPolicySchema.parse(req.body);
+      const existing = await storage.getRowPolicy(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Row policy not found" });
+      }
+      await checkRowPolicyFilter(
+        policyData.filter ?? existing.filter,
+        policyData.connectionProfileId !== undefined ? policyData.connectionProfileId : existing.connectionProfileId,
+      );
+      res.json(await storage.updateRowPolicy(id, policyData));
+    } catch (error) {
+      console.error("Error updating row policy:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid row policy",
+          errors: error.errors
+        });
+      } else if (error instanceof InvalidRowPolicyError) {
+        res.status(400).json({ message: "Invalid row policy", error: error.message });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to update row policy",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.delete("/api/row-policies/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteRowPolicy(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Row policy not found" });
+      }
+      res.json({ message: "Row policy deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting row policy:", error);
+      res.status(500).json({ 
+        message: "Failed to delete row policy",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Column masks (admins only)
+  app.get("/api/column-masks", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getColumnMasks());
+    } catch (error) {
+      console.error("Error fetching column masks:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch column masks",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/column-masks", requireAdmin, async (req, res) => {
+    try {
+      const maskData = insertColumnMaskSchema.parse(req.body);
+      res.status(201).json(await storage.createColumnMask(maskData));
+    } catch (error) {
+      console.error("Error creating column mask:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid column mask",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to create column mask",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.put("/api/column-masks/:id", requireAdmin, async (req, res) => {
+    try {
+      const maskData = updateColumnMaskSchema.parse(req.body);
+      const mask = await storage.updateColumnMask(parseInt(req.params.id), maskData);
+      if (!mask) {
+        return res.status(404).json({ message: "Column mask not found" });
+      }
+      res.json(mask);
+    } catch (error) {
+      console.error("Error updating column mask:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid column mask",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to update column mask",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.delete("/api/column-masks/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteColumnMask(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Column mask not found" });
+      }
+      res.json({ message: "Column mask deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting column mask:", error);
+      res.status(500).json({ 
+        message: "Failed to delete column mask",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const users = await storage.getAppUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ 
+        message: "Failed to fetch users",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.put("/api/users/:id/role", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { roleId } = roleAssignmentSchema.parse(req.body);
+      if (roleId !== null && !(await storage.getRole(roleId))) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      const user = await storage.setAppUserRole(id, roleId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error assigning role:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid role assignment",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to assign role",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.put("/api/users/:id/attributes", requireAdmin, async (req, res) => {
+    try {
+      const { attributes } = attributeAssignmentSchema.parse(req.body);
+      const user = await storage.setAppUserAttributes(parseInt(req.params.id), attributes);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error setting user attributes:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid user attributes",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to set user attributes",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  // Audit log (admins only)
+  app.get("/api/audit-events", requireAdmin, async (req, res) => {
+    try {
+      const { limit, offset, ...filters } = auditEventPageSchema.parse(req.query);
+      const [events, total] = await Promise.all([
+        storage.getAuditEvents(filters, { limit, offset }),
+        storage.countAuditEvents(filters),
+      ]);
+      res.json({ events, total });
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid audit filters",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to fetch audit events",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+    }
+  });
+
+  app.get("/api/audit-events/export", requireAdmin, async (req, res) => {
+    try {
+      const { format, ...filters } = auditExportSchema.parse(req.query);
+      await writeAuditExport(res, filters, format);
+    } catch (error) {
+      console.error("Error exporting audit events:", error);
+      // Part of the file has been sent; aborting the response tells the client it is incomplete
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ 
+          message: "Invalid audit filters",
+          errors: error.errors
+        });
+      } else {
+        res.status(500).json({ 
+          message: "Failed to export audit events",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
     }
   });
 
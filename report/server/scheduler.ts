@@ -0,0 +1,182 @@
+import { Cron } from "croner";
+import type { ReportSchedule, ReportScheduleRun } from "@shared/schema";
+import { storage } from "./storage";
+import { checkSavedQueryAccess, getSavedQueryViewer } from "./access-control";
+import { recordBackgroundAuditEvent } from "./audit";
+import { renderReport, reportFileName, runSavedQuery, savedQueryChart } from "./reports";
+import { deliverReport } from "./report-delivery";
+import { evaluateQueryAlert } from "./alerts";
+import { log } from "./vite";
+import type { QueryParam } from "./query-runner";
+
+// In-process scheduler for report deliveries and threshold alerts. Each tick runs the schedules
+// and alerts whose `nextRunAt` has passed and the retries that are due. All are claimed with a
+// conditional update first, so several server processes can share one database without
+// delivering a report or evaluating an alert twice.
+
+const TICK_INTERVAL_MS = 30_000;
+
+// Delay before the first retry of a failed run; each further retry waits twice as long
+const RETRY_BASE_DELAY_MS = 5 * 60_000;
+
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidScheduleError';
+  }
+}
+
+// When the cron expression next fires after `after`, reading it in `timezone`
+export function nextRunTime(cronExpression: string, timezone: string, after = new Date()): Date {
+  let next: Date | null;
+  try {
+    next = new Cron(cronExpression, { timezone, paused: true }).nextRun(after);
+  } catch (error) {
+    throw new InvalidScheduleError(`Invalid cron expression: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!next) {
+    throw new InvalidScheduleError("The cron expression never fires again");
+  }
+  return next;
+}
+
+// Runs a schedule once and delivers the report. Failures are recorded on the run rather than
+// thrown; automatic runs that fail are retried while the schedule has retries left.
+export async function runReportSchedule(
+  schedule: ReportSchedule,
+  trigger: ReportScheduleRun['trigger'],
+  attempt = 1,
+): Promise<ReportScheduleRun> {
+  const run = await storage.createReportScheduleRun({ scheduleId: schedule.id, trigger, attempt });
+  const startedAt = Date.now();
+  const owner = await storage.getAppUser(schedule.ownerId);
+  const query = await storage.getSavedQuery(schedule.savedQueryId);
+  let params: QueryParam[] | undefined;
+
+  try {
+    if (!owner) {
+      throw new Error("The owner of this schedule no longer exists");
+    }
+    const { passwordHash, ...user } = owner;
+    // The owner may have lost access to the query since the schedule was created
+    if (await checkSavedQueryAccess(await getSavedQueryViewer(user), query, 'view')) {
+      throw new Error("The owner of this schedule can no longer see the query");
+    }
+
+    const result = await runSavedQuery(user, query!, {
+      connectionId: schedule.connectionId ?? undefined,
+      parameterValues: schedule.parameterValues,
+    });
+    params = result.params;
+    const details = {
+      title: schedule.name,
+      description: query!.description,
+      generatedAt: new Date(),
+      parameterValues: schedule.parameterValues,
+      chart: savedQueryChart(query!),
+    };
+    const report = await renderReport(result, schedule.format, details);
+    const fileName = reportFileName(details, report.extension);
+    await deliverReport(schedule.deliveryMethod, schedule.destination, {
+      title: schedule.name,
+      fileName,
+      content: report.content,
+      contentType: report.contentType,
+      summary: `${query!.name}: ${result.rows.length} rows, generated ${details.generatedAt.toISOString()}.`,
+    });
+
+    await recordBackgroundAuditEvent(user, {
+      action: 'export', startedAt, connectionId: schedule.connectionId ?? undefined, sql: query!.generatedSql,
+      params, savedQueryId: query!.id, rowCount: result.rows.length,
+    });
+    const finished = await storage.updateReportScheduleRun(run.id, {
+      status: 'succeeded',
+      rowCount: result.rows.length,
+      fileName,
+      finishedAt: new Date(),
+    });
+    return finished ?? run;
+  } catch (error) {
+    console.error(`Report schedule ${schedule.id} failed:`, error);
+    if (owner) {
+      await recordBackgroundAuditEvent(owner, {
+        action: 'export', startedAt, connectionId: schedule.connectionId ?? undefined, sql: query?.generatedSql ?? null,
+        params, savedQueryId: schedule.savedQueryId, error,
+      });
+    }
+    const retry = trigger !== 'manual' && attempt <= schedule.maxRetries;
+    const finished = await storage.updateReportScheduleRun(run.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      retryAt: retry ? new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)) : null,
+      finishedAt: new Date(),
+    });
+    return finished ?? run;
+  }
+}
+
+async function runDueReports(now: Date) {
+  for (const schedule of await storage.getDueReportSchedules(now)) {
+    let next: Date | null = null;
+    try {
+      next = nextRunTime(schedule.cronExpression, schedule.timezone, now);
+    } catch (error) {
+      // Leaves the schedule without a next run until it is fixed
+      console.error(`Report schedule ${schedule.id} cannot be scheduled again:`, error);
+    }
+    // Runs missed while the server was down are not made up; the schedule runs once and moves on
+    if (await storage.claimReportSchedule(schedule.id, schedule.nextRunAt!, next)) {
+      await runReportSchedule(schedule, 'schedule');
+    }
+  }
+
+  for (const failed of await storage.getDueReportRetries(now)) {
+    if (!(await storage.claimReportRetry(failed.id))) {
+      continue;
+    }
+    const schedule = await storage.getReportSchedule(failed.scheduleId);
+    if (schedule?.enabled) {
+      await runReportSchedule(schedule, 'retry', failed.attempt + 1);
+    }
+  }
+}
+
+async function runDueAlerts(now: Date) {
+  for (const alert of await storage.getDueQueryAlerts(now)) {
+    let next: Date | null = null;
+    try {
+      next = nextRunTime(alert.cronExpression, alert.timezone, now);
+    } catch (error) {
+      console.error(`Alert ${alert.id} cannot be scheduled again:`, error);
+    }
+    if (await storage.claimQueryAlert(alert.id, alert.nextRunAt!, next)) {
+      await evaluateQueryAlert(alert);
+    }
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export function startReportScheduler() {
+  if (timer) return;
+
+  const tick = async () => {
+    // A slow delivery must not overlap the next tick
+    if (ticking) return;
+    ticking = true;
+    try {
+      const now = new Date();
+      await runDueReports(now);
+      await runDueAlerts(now);
+    } catch (error) {
+      console.error("Report scheduler tick failed:", error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  timer = setInterval(tick, TICK_INTERVAL_MS);
+  void tick();
+  log("report and alert scheduler started", "scheduler");
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+process.env.CONNECTION_ENCRYPTION_KEY = "a".repeat(64);
+
+const { decryptSecret, encryptSecret } = await import("./secrets");
+
+// Flips one bit of a base64 field of an encrypted secret
+function tamper(payload: string, field: number): string {
+  const parts = payload.split(":");
+  const bytes = Buffer.from(parts[field], "base64");
+  bytes[0] ^= 1;
+  parts[field] = bytes.toString("base64");
+  return parts.join(":");
+}
+
+describe("encryptSecret", () => {
+  it("round-trips through decryptSecret with a fresh IV each time", () => {
+    const first = encryptSecret("pa:ss wörd");
+    const second = encryptSecret("pa:ss wörd");
+    expect(first).toMatch(/^v1:/);
+    expect(first).not.toBe(second);
+    expect(decryptSecret(first)).toBe("pa:ss wörd");
+    expect(decryptSecret(encryptSecret(""))).toBe("");
+  });
+
+  it("refuses secrets whose IV, tag or ciphertext were changed", () => {
+    const payload = encryptSecret("secret");
+    for (const field of [1, 2, 3]) {
+      expect(() => decryptSecret(tamper(payload, field))).toThrow();
+    }
+  });
+
+  it("refuses truncated tags and unknown formats", () => {
+    const [version, iv, tag, encrypted] = encryptSecret("secret").split(":");
+    const shortTag = Buffer.from(tag, "base64").subarray(0, 4).toString("base64");
+    expect(() => decryptSecret([version, iv, shortTag, encrypted].join(":"))).toThrow();
+    expect(() => decryptSecret(["v0", iv, tag, encrypted].join(":"))).toThrow("Unrecognised encrypted secret format");
+  });
+});
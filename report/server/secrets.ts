@@ -0,0 +1,47 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+// Encrypts secrets (connection passwords) at rest with AES-256-GCM. The key comes from
+// CONNECTION_ENCRYPTION_KEY: either 64 hex characters, or any passphrase that is stretched with scrypt.
+
+const VERSION = "v1";
+let cachedKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const secret = process.env.CONNECTION_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error(
+      "CONNECTION_ENCRYPTION_KEY must be set to store connection passwords",
+    );
+  }
+
+  cachedKey = /^[0-9a-f]{64}$/i.test(secret)
+    ? Buffer.from(secret, "hex")
+    : scryptSync(secret, "connection-profiles", 32);
+  return cachedKey;
+}
+
+export function encryptSecret(plainText: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), encrypted.toString("base64")].join(":");
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, encrypted] = payload.split(":");
+  if (version !== VERSION || !iv || !tag || encrypted === undefined) {
+    throw new Error("Unrecognised encrypted secret format");
+  }
+
+  // A fixed tag length keeps a truncated tag, which is easier to forge, from being accepted
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), Buffer.from(iv, "base64"), { authTagLength: 16 });
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
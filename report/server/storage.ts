@@ -1,15 +1,39 @@
 import { 
-  users, products, categories, orders, orderItems, savedQueries,
-  type User, type Product, type Category, type Order, type OrderItem, type SavedQuery, type InsertSavedQuery 
+  users, products, categories, orders, orderItems, savedQueries, connectionProfiles, appUsers, roles, roleGrants,
+  rowPolicies, columnMasks, auditEvents, queryRuns, savedQueryVersions, queryFolders, reportSchedules, reportScheduleRuns,
+  queryAlerts, queryAlertEvents,
+  type User, type Product, type Category, type Order, type OrderItem, type SavedQuery, type InsertSavedQuery, type UpdateSavedQuery,
+  type SavedQueryVersion, type SavedQueryFilters, type SavedQueryListItem,
+  type QueryFolder, type InsertQueryFolder, type UpdateQueryFolder,
+  type ConnectionProfile, type InsertConnectionProfile, type UpdateConnectionProfile, type AppUser,
+  type Role, type InsertRole, type UpdateRole, type RoleGrant, type InsertRoleGrant,
+  type RowPolicy, type InsertRowPolicy, type UpdateRowPolicy, type UserAttributes,
+  type ColumnMask, type InsertColumnMask, type UpdateColumnMask,
+  type AuditEvent, type InsertAuditEvent, type AuditEventFilters,
+  type QueryRun, type InsertQueryRun,
+  type ReportSchedule, type InsertReportSchedule, type ReportScheduleListItem,
+  type ReportScheduleRun, type InsertReportScheduleRun,
+  type QueryAlert, type InsertQueryAlert, type QueryAlertListItem,
+  type InsertQueryAlertEvent, type QueryAlertEvent, type QueryAlertEventListItem
 } from "@shared/schema";
 import { db, pool } from "./db";
-import { eq, sql } from "drizzle-orm";
-import { externalDbManager } from "./external-db";
+import { and, arrayContains, desc, eq, gte, ilike, inArray, isNotNull, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { externalDbManager, type ExternalDatabaseConfig } from "./external-db";
+import { decryptSecret, encryptSecret } from "./secrets";
+import {
+  runReadOnlyPostgresQuery,
+  streamReadOnlyPostgresQuery,
+  type QueryBatch,
+  type QueryParam,
+  type QueryResultSet,
+} from "./query-runner";
 
+// `connectionId` selects an external connection (saved profile id or ad-hoc id); when it is
+// omitted the bundled sample database is used.
 export interface IStorage {
   // Schema introspection
-  getTables(): Promise<Array<{ name: string; rowCount: number }>>;
-  getTableColumns(tableName: string): Promise<Array<{ 
+  getTables(connectionId?: string): Promise<Array<{ name: string; schema: string; rowCount: number }>>;
+  getTableColumns(tableName: string, connectionId?: string, schema?: string): Promise<Array<{ 
     name: string; 
     type: string; 
     nullable: boolean; 
@@ -18,25 +42,204 @@ export interface IStorage {
   }>>;
   
   // Query execution
-  executeQuery(sqlQuery: string): Promise<{ columns: string[]; rows: any[] }>;
+  executeQuery(sqlQuery: string, params?: QueryParam[], connectionId?: string): Promise<QueryResultSet>;
+  // Same checks without the row cap; the result arrives in batches so it is never held in memory whole
+  streamQuery(sqlQuery: string, params?: QueryParam[], connectionId?: string): AsyncGenerator<QueryBatch>;
   
   // Saved queries
-  getSavedQueries(): Promise<SavedQuery[]>;
-  createSavedQuery(query: InsertSavedQuery): Promise<SavedQuery>;
+  // Only the queries `viewer` may see (see queryVisibilityEnum)
+  getSavedQueries(viewer: SavedQueryViewer, filters: SavedQueryFilters): Promise<SavedQueryListItem[]>;
+  createSavedQuery(query: InsertSavedQuery, change: SavedQueryChange): Promise<SavedQuery>;
   getSavedQuery(id: number): Promise<SavedQuery | undefined>;
+  updateSavedQuery(id: number, query: UpdateSavedQuery, change: SavedQueryChange): Promise<SavedQuery | undefined>;
   deleteSavedQuery(id: number): Promise<boolean>;
+
+  // Saved query versions, newest first. Every create, update and rollback records one.
+  getSavedQueryVersions(savedQueryId: number): Promise<SavedQueryVersion[]>;
+  getSavedQueryVersion(savedQueryId: number, version: number): Promise<SavedQueryVersion | undefined>;
+  rollbackSavedQuery(id: number, version: number, change: SavedQueryChange): Promise<SavedQuery | undefined>;
+
+  // Saved query folders
+  getQueryFolders(): Promise<QueryFolder[]>;
+  getQueryFolder(id: number): Promise<QueryFolder | undefined>;
+  createQueryFolder(folder: InsertQueryFolder, ownerId: number | null): Promise<QueryFolder>;
+  updateQueryFolder(id: number, folder: UpdateQueryFolder): Promise<QueryFolder | undefined>;
+  deleteQueryFolder(id: number): Promise<boolean>;
+
+  // Query history, scoped to one user
+  createQueryRun(run: InsertQueryRun): Promise<QueryRun>;
+  getQueryRuns(userId: number, options: { search?: string; limit: number }): Promise<QueryRun[]>;
+  getQueryRun(userId: number, id: number): Promise<QueryRun | undefined>;
+
+  // Report schedules of a saved query; `ownerId` limits them to one user's
+  getReportSchedules(savedQueryId: number, ownerId?: number): Promise<ReportScheduleListItem[]>;
+  getReportSchedule(id: number): Promise<ReportSchedule | undefined>;
+  createReportSchedule(schedule: InsertReportSchedule & Pick<ReportSchedule, 'savedQueryId' | 'ownerId' | 'nextRunAt'>): Promise<ReportSchedule>;
+  updateReportSchedule(id: number, schedule: InsertReportSchedule & Pick<ReportSchedule, 'nextRunAt'>): Promise<ReportSchedule | undefined>;
+  deleteReportSchedule(id: number): Promise<boolean>;
+  // Enabled schedules whose next run is at or before `now`
+  getDueReportSchedules(now: Date): Promise<ReportSchedule[]>;
+  // Moves a due schedule on to its next run; false when another process claimed the run first
+  claimReportSchedule(id: number, dueAt: Date, nextRunAt: Date | null): Promise<boolean>;
+
+  // Report schedule runs, newest first
+  getReportScheduleRuns(scheduleId: number, limit: number): Promise<ReportScheduleRun[]>;
+  createReportScheduleRun(run: InsertReportScheduleRun): Promise<ReportScheduleRun>;
+  updateReportScheduleRun(id: number, run: Partial<InsertReportScheduleRun>): Promise<ReportScheduleRun | undefined>;
+  // Failed runs whose retry is due
+  getDueReportRetries(now: Date): Promise<ReportScheduleRun[]>;
+  // Clears a due retry so only one process starts it
+  claimReportRetry(runId: number): Promise<boolean>;
+
+  // Threshold alerts of a saved query; `ownerId` limits them to one user's
+  getQueryAlerts(savedQueryId: number, ownerId?: number): Promise<QueryAlertListItem[]>;
+  getQueryAlert(id: number): Promise<QueryAlert | undefined>;
+  createQueryAlert(alert: InsertQueryAlert & Pick<QueryAlert, 'savedQueryId' | 'ownerId' | 'nextRunAt'>): Promise<QueryAlert>;
+  updateQueryAlert(id: number, alert: InsertQueryAlert & Pick<QueryAlert, 'nextRunAt'>): Promise<QueryAlert | undefined>;
+  // Stores the outcome of an evaluation
+  setQueryAlertState(id: number, state: Pick<QueryAlert, 'state' | 'lastValue' | 'lastError' | 'lastEvaluatedAt'>): Promise<QueryAlert | undefined>;
+  deleteQueryAlert(id: number): Promise<boolean>;
+  // Enabled alerts whose next evaluation is at or before `now`
+  getDueQueryAlerts(now: Date): Promise<QueryAlert[]>;
+  // Moves a due alert on to its next evaluation; false when another process claimed it first
+  claimQueryAlert(id: number, dueAt: Date, nextRunAt: Date | null): Promise<boolean>;
+
+  // Alert history of a saved query, newest first; `ownerId` limits it to one user's alerts
+  getQueryAlertEvents(savedQueryId: number, options: { alertId?: number; ownerId?: number; limit: number }): Promise<QueryAlertEventListItem[]>;
+  createQueryAlertEvent(event: InsertQueryAlertEvent): Promise<QueryAlertEvent>;
+
+  // Connection profiles
+  getConnectionProfiles(): Promise<ConnectionProfile[]>;
+  getConnectionProfile(id: number): Promise<ConnectionProfile | undefined>;
+  getConnectionConfig(id: number): Promise<ExternalDatabaseConfig | undefined>;
+  resolveConnection(connectionId?: string): Promise<string | null>;
+  createConnectionProfile(profile: InsertConnectionProfile): Promise<ConnectionProfile>;
+  updateConnectionProfile(id: number, profile: UpdateConnectionProfile): Promise<ConnectionProfile | undefined>;
+  deleteConnectionProfile(id: number): Promise<boolean>;
+
+  // Application accounts
+  getAppUser(id: number): Promise<AppUser | undefined>;
+  getAppUserByUsername(username: string): Promise<AppUser | undefined>;
+  getAppUsers(): Promise<AppUser[]>;
+  countAppUsers(): Promise<number>;
+  createAppUser(username: string, passwordHash: string): Promise<AppUser>;
+  setAppUserRole(id: number, roleId: number | null): Promise<AppUser | undefined>;
+  setAppUserAttributes(id: number, attributes: UserAttributes): Promise<AppUser | undefined>;
+
+  // Roles and grants
+  getRoles(): Promise<Role[]>;
+  getRole(id: number): Promise<Role | undefined>;
+  getOrCreateAdminRole(): Promise<Role>;
+  createRole(role: InsertRole): Promise<Role>;
+  updateRole(id: number, role: UpdateRole): Promise<Role | undefined>;
+  deleteRole(id: number): Promise<boolean>;
+  getRoleGrants(roleId: number): Promise<RoleGrant[]>;
+  createRoleGrant(roleId: number, grant: InsertRoleGrant): Promise<RoleGrant>;
+  deleteRoleGrant(roleId: number, grantId: number): Promise<boolean>;
+
+  // Row-level security
+  getRowPolicies(): Promise<RowPolicy[]>;
+  getRowPoliciesForConnection(connectionProfileId: number | null): Promise<RowPolicy[]>;
+  getRowPolicy(id: number): Promise<RowPolicy | undefined>;
+  createRowPolicy(policy: InsertRowPolicy): Promise<RowPolicy>;
+  updateRowPolicy(id: number, policy: UpdateRowPolicy): Promise<RowPolicy | undefined>;
+  deleteRowPolicy(id: number): Promise<boolean>;
+
+  // Column masking
+  getColumnMasks(): Promise<ColumnMask[]>;
+  getColumnMasksForConnection(connectionProfileId: number | null): Promise<ColumnMask[]>;
+  createColumnMask(mask: InsertColumnMask): Promise<ColumnMask>;
+  updateColumnMask(id: number, mask: UpdateColumnMask): Promise<ColumnMask | undefined>;
+  deleteColumnMask(id: number): Promise<boolean>;
+
+  // Audit log, newest first. `beforeId` pages by id so events written meanwhile are not repeated.
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filters: AuditEventFilters, page: { limit: number; offset?: number; beforeId?: number }): Promise<AuditEvent[]>;
+  countAuditEvents(filters: AuditEventFilters): Promise<number>;
+}
+
+// Name of the role given to the first account
+export const ADMIN_ROLE_NAME = 'admin';
+
+// Tables the application keeps in the local database; they are not part of the sample schema
+export const INTERNAL_TABLES = [
+  'saved_queries', 'connection_profiles', 'app_users', 'user_sessions', 'roles', 'role_grants',
+  'row_policies', 'column_masks', 'audit_events', 'query_runs', 'saved_query_versions', 'query_folders',
+  'report_schedules', 'report_schedule_runs', 'query_alerts', 'query_alert_events',
+];
+
+// Who is listing saved queries, for visibility checks
+export interface SavedQueryViewer {
+  id: number;
+  roleId: number | null;
+  isAdmin: boolean;
+}
+
+// Who made a change to a saved query and why, recorded with the version it creates
+export interface SavedQueryChange {
+  authorId: number | null;
+  authorName: string | null;
+  message: string;
+}
+
+// The parts of a saved query a version captures
+const VERSIONED_FIELDS = ['name', 'description', 'queryConfig', 'generatedSql'] as const;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Stores the saved query's current state as its next version. Callers hold the saved query
+// row locked (by updating it in the same transaction) so concurrent saves number in turn.
+async function recordSavedQueryVersion(tx: Transaction, savedQuery: SavedQuery, change: SavedQueryChange): Promise<void> {
+  const [{ latest }] = await tx
+    .select({ latest: sql<number>`coalesce(max(${savedQueryVersions.version}), 0)::int` })
+    .from(savedQueryVersions)
+    .where(eq(savedQueryVersions.savedQueryId, savedQuery.id));
+
+  await tx.insert(savedQueryVersions).values({
+    savedQueryId: savedQuery.id,
+    version: latest + 1,
+    name: savedQuery.name,
+    description: savedQuery.description,
+    queryConfig: savedQuery.queryConfig,
+    generatedSql: savedQuery.generatedSql,
+    authorId: change.authorId,
+    authorName: change.authorName,
+    message: change.message,
+  });
+}
+
+export class UnknownConnectionError extends Error {
+  constructor(connectionId: string) {
+    super(`Unknown connection: ${connectionId}`);
+    this.name = 'UnknownConnectionError';
+  }
 }
 
 export class DatabaseStorage implements IStorage {
-  private useExternalDB: boolean = false;
+  // Returns the external connection id to use, registering saved profiles with the
+  // connection manager on first use, or null for the bundled sample database.
+  async resolveConnection(connectionId?: string): Promise<string | null> {
+    if (!connectionId) {
+      return null;
+    }
+    if (externalDbManager.hasConnection(connectionId)) {
+      return connectionId;
+    }
+
+    const profileId = Number(connectionId);
+    const config = Number.isInteger(profileId) ? await this.getConnectionConfig(profileId) : undefined;
+    if (!config) {
+      throw new UnknownConnectionError(connectionId);
+    }
 
-  setExternalDatabase(useExternal: boolean = true) {
-    this.useExternalDB = useExternal;
+    await externalDbManager.registerConnection(connectionId, config);
+    return connectionId;
   }
 
-  async getTables(): Promise<Array<{ name: string; rowCount: number }>> {
-    if (this.useExternalDB && externalDbManager.isExternalDatabaseConfigured()) {
-      return await externalDbManager.getTables();
+  async getTables(connectionId?: string): Promise<Array<{ name: string; schema: string; rowCount: number }>> {
+    const externalId = await this.resolveConnection(connectionId);
+    if (externalId) {
+      return await externalDbManager.getTables(externalId);
     }
     try {
       // Use pool directly for raw queries
@@ -45,8 +248,9 @@ export class DatabaseStorage implements IStorage {
         FROM information_schema.tables 
         WHERE table_schema = 'public' 
         AND table_type = 'BASE TABLE'
+        AND table_name <> ALL($1)
         ORDER BY table_name
-      `);
+      `, [INTERNAL_TABLES]);
       
       if (result && result.rows && result.rows.length > 0) {
         // Get actual row counts for each table
@@ -56,11 +260,13 @@ export class DatabaseStorage implements IStorage {
               const countResult = await pool.query(`SELECT COUNT(*) as count FROM ${row.table_name}`);
               return {
                 name: row.table_name,
+                schema: 'public',
                 rowCount: parseInt(countResult.rows[0]?.count || '0')
               };
             } catch (error) {
               return {
                 name: row.table_name,
+                schema: 'public',
                 rowCount: 0
               };
             }
@@ -71,34 +277,40 @@ export class DatabaseStorage implements IStorage {
       
       // Fallback
       return [
-        { name: 'users', rowCount: 5 },
-        { name: 'products', rowCount: 10 },
-        { name: 'categories', rowCount: 5 },
-        { name: 'orders', rowCount: 7 },
-        { name: 'order_items', rowCount: 11 }
+        { name: 'users', schema: 'public', rowCount: 5 },
+        { name: 'products', schema: 'public', rowCount: 10 },
+        { name: 'categories', schema: 'public', rowCount: 5 },
+        { name: 'orders', schema: 'public', rowCount: 7 },
+        { name: 'order_items', schema: 'public', rowCount: 11 }
       ];
     } catch (error) {
       console.error('Error fetching tables:', error);
       // Return known tables with sample data counts
       return [
-        { name: 'users', rowCount: 5 },
-        { name: 'products', rowCount: 10 },
-        { name: 'categories', rowCount: 5 },
-        { name: 'orders', rowCount: 7 },
-        { name: 'order_items', rowCount: 11 }
+        { name: 'users', schema: 'public', rowCount: 5 },
+        { name: 'products', schema: 'public', rowCount: 10 },
+        { name: 'categories', schema: 'public', rowCount: 5 },
+        { name: 'orders', schema: 'public', rowCount: 7 },
+        { name: 'order_items', schema: 'public', rowCount: 11 }
       ];
     }
   }
 
-  async getTableColumns(tableName: string): Promise<Array<{ 
+  async getTableColumns(tableName: string, connectionId?: string, schema?: string): Promise<Array<{ 
     name: string; 
     type: string; 
     nullable: boolean; 
     primaryKey: boolean;
     foreignKey?: string;
   }>> {
-    if (this.useExternalDB && externalDbManager.isExternalDatabaseConfigured()) {
-      return await externalDbManager.getTableColumns(tableName);
+    const externalId = await this.resolveConnection(connectionId);
+    if (externalId) {
+      return await externalDbManager.getTableColumns(externalId, tableName, schema);
+    }
+
+    // The sample database only uses `public`, and the application's own tables are not browsable
+    if ((schema && schema !== 'public') || INTERNAL_TABLES.includes(tableName)) {
+      return [];
     }
     
     try {
@@ -138,38 +350,76 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async executeQuery(sqlQuery: string): Promise<{ columns: string[]; rows: any[] }> {
-    if (this.useExternalDB && externalDbManager.isExternalDatabaseConfigured()) {
-      return await externalDbManager.executeQuery(sqlQuery);
+  async executeQuery(sqlQuery: string, params: QueryParam[] = [], connectionId?: string): Promise<QueryResultSet> {
+    const externalId = await this.resolveConnection(connectionId);
+    if (externalId) {
+      return await externalDbManager.executeQuery(externalId, sqlQuery, params);
     }
     
     try {
-      // Use pool directly for raw queries
-      const result = await pool.query(sqlQuery);
-      
-      if (result && result.rows && result.rows.length > 0) {
-        const columns = result.fields?.map(field => field.name) || Object.keys(result.rows[0]);
-        const rows = result.rows.map((row: any) => Object.values(row));
-        return { columns, rows };
-      }
-
-      return { columns: [], rows: [] };
+      // Read-only transaction with statement/lock timeouts and a row cap
+      return await runReadOnlyPostgresQuery(pool, sqlQuery, params);
     } catch (error) {
       console.error('Error executing query:', error);
-      throw new Error(`Query execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
     }
   }
 
-  async getSavedQueries(): Promise<SavedQuery[]> {
-    return await db.select().from(savedQueries).orderBy(savedQueries.createdAt);
+  async *streamQuery(sqlQuery: string, params: QueryParam[] = [], connectionId?: string): AsyncGenerator<QueryBatch> {
+    const externalId = await this.resolveConnection(connectionId);
+    if (externalId) {
+      yield* externalDbManager.streamQuery(externalId, sqlQuery, params);
+      return;
+    }
+    yield* streamReadOnlyPostgresQuery(pool, sqlQuery, params);
   }
 
-  async createSavedQuery(query: InsertSavedQuery): Promise<SavedQuery> {
-    const [savedQuery] = await db
-      .insert(savedQueries)
-      .values(query)
-      .returning();
-    return savedQuery;
+  async getSavedQueries(viewer: SavedQueryViewer, filters: SavedQueryFilters): Promise<SavedQueryListItem[]> {
+    const conditions: SQL[] = [];
+    if (!viewer.isAdmin) {
+      conditions.push(or(
+        eq(savedQueries.ownerId, viewer.id),
+        eq(savedQueries.visibility, 'public'),
+        viewer.roleId === null
+          ? undefined
+          : and(eq(savedQueries.visibility, 'team'), eq(appUsers.roleId, viewer.roleId)),
+      )!);
+    }
+    if (filters.folderId !== undefined) {
+      conditions.push(filters.folderId === 'none' ? isNull(savedQueries.folderId) : eq(savedQueries.folderId, filters.folderId));
+    }
+    if (filters.tag) conditions.push(arrayContains(savedQueries.tags, [filters.tag]));
+    if (filters.ownerId !== undefined) {
+      conditions.push(eq(savedQueries.ownerId, filters.ownerId === 'me' ? viewer.id : filters.ownerId));
+    }
+    if (filters.search) {
+      const pattern = `%${escapeLike(filters.search)}%`;
+      conditions.push(or(
+        ilike(savedQueries.name, pattern),
+        ilike(savedQueries.description, pattern),
+        ilike(savedQueries.generatedSql, pattern),
+      )!);
+    }
+
+    const rows = await db
+      .select({ query: savedQueries, ownerName: appUsers.username })
+      .from(savedQueries)
+      .leftJoin(appUsers, eq(savedQueries.ownerId, appUsers.id))
+      .where(and(...conditions))
+      .orderBy(savedQueries.createdAt);
+    return rows.map(({ query, ownerName }) => ({ ...query, ownerName }));
+  }
+
+  async createSavedQuery(query: InsertSavedQuery, change: SavedQueryChange): Promise<SavedQuery> {
+    return await db.transaction(async (tx) => {
+      // The author of the first version owns the query
+      const [savedQuery] = await tx
+        .insert(savedQueries)
+        .values({ ...query, ownerId: change.authorId })
+        .returning();
+      await recordSavedQueryVersion(tx, savedQuery, change);
+      return savedQuery;
+    });
   }
 
   async getSavedQuery(id: number): Promise<SavedQuery | undefined> {
@@ -177,10 +427,641 @@ export class DatabaseStorage implements IStorage {
     return query || undefined;
   }
 
+  async updateSavedQuery(id: number, query: UpdateSavedQuery, change: SavedQueryChange): Promise<SavedQuery | undefined> {
+    return await db.transaction(async (tx) => {
+      const [previous] = await tx.select().from(savedQueries).where(eq(savedQueries.id, id)).for('update');
+      if (!previous) {
+        return undefined;
+      }
+
+      // Queries saved before versioning existed get their prior state recorded first
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(savedQueryVersions)
+        .where(eq(savedQueryVersions.savedQueryId, id));
+      if (count === 0) {
+        await recordSavedQueryVersion(tx, previous, { authorId: null, authorName: null, message: 'Version before history was recorded' });
+      }
+
+      const [updated] = await tx
+        .update(savedQueries)
+        .set({ ...query, updatedAt: new Date() })
+        .where(eq(savedQueries.id, id))
+        .returning();
+      // Moving, tagging or sharing a query leaves its content, and so its versions, alone
+      if (VERSIONED_FIELDS.some((field) => updated[field] !== previous[field])) {
+        await recordSavedQueryVersion(tx, updated, change);
+      }
+      return updated;
+    });
+  }
+
+  async getSavedQueryVersions(savedQueryId: number): Promise<SavedQueryVersion[]> {
+    return await db
+      .select()
+      .from(savedQueryVersions)
+      .where(eq(savedQueryVersions.savedQueryId, savedQueryId))
+      .orderBy(desc(savedQueryVersions.version));
+  }
+
+  async getSavedQueryVersion(savedQueryId: number, version: number): Promise<SavedQueryVersion | undefined> {
+    const [found] = await db
+      .select()
+      .from(savedQueryVersions)
+      .where(and(eq(savedQueryVersions.savedQueryId, savedQueryId), eq(savedQueryVersions.version, version)));
+    return found || undefined;
+  }
+
+  async rollbackSavedQuery(id: number, version: number, change: SavedQueryChange): Promise<SavedQuery | undefined> {
+    const target = await this.getSavedQueryVersion(id, version);
+    if (!target) {
+      return undefined;
+    }
+    return await this.updateSavedQuery(id, {
+      name: target.name,
+      description: target.description,
+      queryConfig: target.queryConfig,
+      generatedSql: target.generatedSql,
+    }, change);
+  }
+
   async deleteSavedQuery(id: number): Promise<boolean> {
     const result = await db.delete(savedQueries).where(eq(savedQueries.id, id));
     return (result.rowCount || 0) > 0;
   }
+  async getQueryFolders(): Promise<QueryFolder[]> {
+    return await db.select().from(queryFolders).orderBy(queryFolders.name);
+  }
+
+  async getQueryFolder(id: number): Promise<QueryFolder | undefined> {
+    const [folder] = await db.select().from(queryFolders).where(eq(queryFolders.id, id));
+    return folder || undefined;
+  }
+
+  async createQueryFolder(folder: InsertQueryFolder, ownerId: number | null): Promise<QueryFolder> {
+    const [created] = await db
+      .insert(queryFolders)
+      .values({ ...folder, ownerId })
+      .returning();
+    return created;
+  }
+
+  async updateQueryFolder(id: number, folder: UpdateQueryFolder): Promise<QueryFolder | undefined> {
+    const [updated] = await db
+      .update(queryFolders)
+      .set(folder)
+      .where(eq(queryFolders.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteQueryFolder(id: number): Promise<boolean> {
+    const result = await db.delete(queryFolders).where(eq(queryFolders.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createQueryRun(run: InsertQueryRun): Promise<QueryRun> {
+    const [created] = await db
+      .insert(queryRuns)
+      .values(run)
+      .returning();
+    return created;
+  }
+
+  async getQueryRuns(userId: number, options: { search?: string; limit: number }): Promise<QueryRun[]> {
+    const conditions = [eq(queryRuns.userId, userId)];
+    if (options.search) {
+      conditions.push(ilike(queryRuns.sqlText, `%${escapeLike(options.search)}%`));
+    }
+    return await db
+      .select()
+      .from(queryRuns)
+      .where(and(...conditions))
+      .orderBy(desc(queryRuns.id))
+      .limit(options.limit);
+  }
+
+  async getQueryRun(userId: number, id: number): Promise<QueryRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(queryRuns)
+      .where(and(eq(queryRuns.userId, userId), eq(queryRuns.id, id)));
+    return run || undefined;
+  }
+
+  async getReportSchedules(savedQueryId: number, ownerId?: number): Promise<ReportScheduleListItem[]> {
+    const conditions = [eq(reportSchedules.savedQueryId, savedQueryId)];
+    if (ownerId !== undefined) {
+      conditions.push(eq(reportSchedules.ownerId, ownerId));
+    }
+    const rows = await db
+      .select({ schedule: reportSchedules, ownerName: appUsers.username })
+      .from(reportSchedules)
+      .leftJoin(appUsers, eq(reportSchedules.ownerId, appUsers.id))
+      .where(and(...conditions))
+      .orderBy(reportSchedules.name);
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const lastRuns = await db
+      .selectDistinctOn([reportScheduleRuns.scheduleId])
+      .from(reportScheduleRuns)
+      .where(inArray(reportScheduleRuns.scheduleId, rows.map(({ schedule }) => schedule.id)))
+      .orderBy(reportScheduleRuns.scheduleId, desc(reportScheduleRuns.id));
+    return rows.map(({ schedule, ownerName }) => ({
+      ...schedule,
+      ownerName,
+      lastRun: lastRuns.find((run) => run.scheduleId === schedule.id) ?? null,
+    }));
+  }
+
+  async getReportSchedule(id: number): Promise<ReportSchedule | undefined> {
+    const [schedule] = await db.select().from(reportSchedules).where(eq(reportSchedules.id, id));
+    return schedule || undefined;
+  }
+
+  async createReportSchedule(
+    schedule: InsertReportSchedule & Pick<ReportSchedule, 'savedQueryId' | 'ownerId' | 'nextRunAt'>,
+  ): Promise<ReportSchedule> {
+    const [created] = await db
+      .insert(reportSchedules)
+      .values(schedule)
+      .returning();
+    return created;
+  }
+
+  async updateReportSchedule(
+    id: number,
+    schedule: InsertReportSchedule & Pick<ReportSchedule, 'nextRunAt'>,
+  ): Promise<ReportSchedule | undefined> {
+    const [updated] = await db
+      .update(reportSchedules)
+      .set({ ...schedule, updatedAt: new Date() })
+      .where(eq(reportSchedules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteReportSchedule(id: number): Promise<boolean> {
+    const result = await db.delete(reportSchedules).where(eq(reportSchedules.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getDueReportSchedules(now: Date): Promise<ReportSchedule[]> {
+    return await db
+      .select()
+      .from(reportSchedules)
+      .where(and(eq(reportSchedules.enabled, true), lte(reportSchedules.nextRunAt, now)));
+  }
+
+  async claimReportSchedule(id: number, dueAt: Date, nextRunAt: Date | null): Promise<boolean> {
+    const result = await db
+      .update(reportSchedules)
+      .set({ nextRunAt })
+      .where(and(eq(reportSchedules.id, id), eq(reportSchedules.nextRunAt, dueAt)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getReportScheduleRuns(scheduleId: number, limit: number): Promise<ReportScheduleRun[]> {
+    return await db
+      .select()
+      .from(reportScheduleRuns)
+      .where(eq(reportScheduleRuns.scheduleId, scheduleId))
+      .orderBy(desc(reportScheduleRuns.id))
+      .limit(limit);
+  }
+
+  async createReportScheduleRun(run: InsertReportScheduleRun): Promise<ReportScheduleRun> {
+    const [created] = await db
+      .insert(reportScheduleRuns)
+      .values(run)
+      .returning();
+    return created;
+  }
+
+  async updateReportScheduleRun(id: number, run: Partial<InsertReportScheduleRun>): Promise<ReportScheduleRun | undefined> {
+    const [updated] = await db
+      .update(reportScheduleRuns)
+      .set(run)
+      .where(eq(reportScheduleRuns.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getDueReportRetries(now: Date): Promise<ReportScheduleRun[]> {
+    return await db
+      .select()
+      .from(reportScheduleRuns)
+      .where(lte(reportScheduleRuns.retryAt, now));
+  }
+
+  async claimReportRetry(runId: number): Promise<boolean> {
+    const result = await db
+      .update(reportScheduleRuns)
+      .set({ retryAt: null })
+      .where(and(eq(reportScheduleRuns.id, runId), isNotNull(reportScheduleRuns.retryAt)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getQueryAlerts(savedQueryId: number, ownerId?: number): Promise<QueryAlertListItem[]> {
+    const conditions = [eq(queryAlerts.savedQueryId, savedQueryId)];
+    if (ownerId !== undefined) {
+      conditions.push(eq(queryAlerts.ownerId, ownerId));
+    }
+    const rows = await db
+      .select({ alert: queryAlerts, ownerName: appUsers.username })
+      .from(queryAlerts)
+      .leftJoin(appUsers, eq(queryAlerts.ownerId, appUsers.id))
+      .where(and(...conditions))
+      .orderBy(queryAlerts.name);
+    return rows.map(({ alert, ownerName }) => ({ ...alert, ownerName }));
+  }
+
+  async getQueryAlert(id: number): Promise<QueryAlert | undefined> {
+    const [alert] = await db.select().from(queryAlerts).where(eq(queryAlerts.id, id));
+    return alert || undefined;
+  }
+
+  async createQueryAlert(
+    alert: InsertQueryAlert & Pick<QueryAlert, 'savedQueryId' | 'ownerId' | 'nextRunAt'>,
+  ): Promise<QueryAlert> {
+    const [created] = await db
+      .insert(queryAlerts)
+      .values(alert)
+      .returning();
+    return created;
+  }
+
+  async updateQueryAlert(
+    id: number,
+    alert: InsertQueryAlert & Pick<QueryAlert, 'nextRunAt'>,
+  ): Promise<QueryAlert | undefined> {
+    const [updated] = await db
+      .update(queryAlerts)
+      .set({ ...alert, updatedAt: new Date() })
+      .where(eq(queryAlerts.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async setQueryAlertState(
+    id: number,
+    state: Pick<QueryAlert, 'state' | 'lastValue' | 'lastError' | 'lastEvaluatedAt'>,
+  ): Promise<QueryAlert | undefined> {
+    const [updated] = await db
+      .update(queryAlerts)
+      .set(state)
+      .where(eq(queryAlerts.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteQueryAlert(id: number): Promise<boolean> {
+    const result = await db.delete(queryAlerts).where(eq(queryAlerts.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getDueQueryAlerts(now: Date): Promise<QueryAlert[]> {
+    return await db
+      .select()
+      .from(queryAlerts)
+      .where(and(eq(queryAlerts.enabled, true), lte(queryAlerts.nextRunAt, now)));
+  }
+
+  async claimQueryAlert(id: number, dueAt: Date, nextRunAt: Date | null): Promise<boolean> {
+    const result = await db
+      .update(queryAlerts)
+      .set({ nextRunAt })
+      .where(and(eq(queryAlerts.id, id), eq(queryAlerts.nextRunAt, dueAt)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getQueryAlertEvents(
+    savedQueryId: number,
+    options: { alertId?: number; ownerId?: number; limit: number },
+  ): Promise<QueryAlertEventListItem[]> {
+    const conditions = [eq(queryAlertEvents.savedQueryId, savedQueryId)];
+    if (options.alertId !== undefined) {
+      conditions.push(eq(queryAlertEvents.alertId, options.alertId));
+    }
+    if (options.ownerId !== undefined) {
+      conditions.push(eq(queryAlerts.ownerId, options.ownerId));
+    }
+    const rows = await db
+      .select({ event: queryAlertEvents, alertName: queryAlerts.name })
+      .from(queryAlertEvents)
+      .innerJoin(queryAlerts, eq(queryAlertEvents.alertId, queryAlerts.id))
+      .where(and(...conditions))
+      .orderBy(desc(queryAlertEvents.id))
+      .limit(options.limit);
+    return rows.map(({ event, alertName }) => ({ ...event, alertName }));
+  }
+
+  async createQueryAlertEvent(event: InsertQueryAlertEvent): Promise<QueryAlertEvent> {
+    const [created] = await db
+      .insert(queryAlertEvents)
+      .values(event)
+      .returning();
+    return created;
+  }
+
+  async getConnectionProfiles(): Promise<ConnectionProfile[]> {
+    return await db.select().from(connectionProfiles).orderBy(connectionProfiles.name);
+  }
+
+  async getConnectionProfile(id: number): Promise<ConnectionProfile | undefined> {
+    const [profile] = await db.select().from(connectionProfiles).where(eq(connectionProfiles.id, id));
+    return profile || undefined;
+  }
+
+  async getConnectionConfig(id: number): Promise<ExternalDatabaseConfig | undefined> {
+    const profile = await this.getConnectionProfile(id);
+    if (!profile) {
+      return undefined;
+    }
+
+    return {
+      type: profile.type,
+      host: profile.host,
+      port: profile.port,
+      database: profile.database,
+      username: profile.username,
+      password: decryptSecret(profile.encryptedPassword),
+      ssl: profile.ssl,
+    };
+  }
+
+  async createConnectionProfile(profile: InsertConnectionProfile): Promise<ConnectionProfile> {
+    const { password, ...rest } = profile;
+    const [created] = await db
+      .insert(connectionProfiles)
+      .values({ ...rest, encryptedPassword: encryptSecret(password) })
+      .returning();
+    return created;
+  }
+
+  async updateConnectionProfile(id: number, profile: UpdateConnectionProfile): Promise<ConnectionProfile | undefined> {
+    // An omitted password keeps the stored one, so the client never needs to know it
+    const { password, ...rest } = profile;
+    const [updated] = await db
+      .update(connectionProfiles)
+      .set({
+        ...rest,
+        ...(password !== undefined ? { encryptedPassword: encryptSecret(password) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(connectionProfiles.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteConnectionProfile(id: number): Promise<boolean> {
+    const result = await db.delete(connectionProfiles).where(eq(connectionProfiles.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getAppUser(id: number): Promise<AppUser | undefined> {
+    const [user] = await db.select().from(appUsers).where(eq(appUsers.id, id));
+    return user || undefined;
+  }
+
+  async getAppUserByUsername(username: string): Promise<AppUser | undefined> {
+    const [user] = await db.select().from(appUsers).where(eq(appUsers.username, username));
+    return user || undefined;
+  }
+
+  async getAppUsers(): Promise<AppUser[]> {
+    return await db.select().from(appUsers).orderBy(appUsers.username);
+  }
+
+  async countAppUsers(): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(appUsers);
+    return count;
+  }
+
+  // The first account administers the rest; later ones start without a role. The advisory
+  // lock makes concurrent registrations take turns, so only one of them can be first.
+  async createAppUser(username: string, passwordHash: string): Promise<AppUser> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('app_users'))`);
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(appUsers);
+      const roleId = count === 0 ? (await this.getOrCreateAdminRole()).id : null;
+      const [user] = await tx
+        .insert(appUsers)
+        .values({ username, passwordHash, roleId })
+        .returning();
+      return user;
+    });
+  }
+
+  async setAppUserRole(id: number, roleId: number | null): Promise<AppUser | undefined> {
+    const [user] = await db
+      .update(appUsers)
+      .set({ roleId })
+      .where(eq(appUsers.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async setAppUserAttributes(id: number, attributes: UserAttributes): Promise<AppUser | undefined> {
+    const [user] = await db
+      .update(appUsers)
+      .set({ attributes })
+      .where(eq(appUsers.id, id))
+      .returning();
+    return user || undefined;
+  }
+
+  async getRoles(): Promise<Role[]> {
+    return await db.select().from(roles).orderBy(roles.name);
+  }
+
+  async getRole(id: number): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id));
+    return role || undefined;
+  }
+
+  async getOrCreateAdminRole(): Promise<Role> {
+    await db
+      .insert(roles)
+      .values({ name: ADMIN_ROLE_NAME, description: 'Full access to every connection', isAdmin: true })
+      .onConflictDoNothing({ target: roles.name });
+    const [role] = await db.select().from(roles).where(eq(roles.name, ADMIN_ROLE_NAME));
+    return role;
+  }
+
+  async createRole(role: InsertRole): Promise<Role> {
+    const [created] = await db
+      .insert(roles)
+      .values(role)
+      .returning();
+    return created;
+  }
+
+  async updateRole(id: number, role: UpdateRole): Promise<Role | undefined> {
+    const [updated] = await db
+      .update(roles)
+      .set(role)
+      .where(eq(roles.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteRole(id: number): Promise<boolean> {
+    const result = await db.delete(roles).where(eq(roles.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getRoleGrants(roleId: number): Promise<RoleGrant[]> {
+    return await db.select().from(roleGrants).where(eq(roleGrants.roleId, roleId)).orderBy(roleGrants.id);
+  }
+
+  async createRoleGrant(roleId: number, grant: InsertRoleGrant): Promise<RoleGrant> {
+    const [created] = await db
+      .insert(roleGrants)
+      .values({ ...grant, roleId })
+      .returning();
+    return created;
+  }
+
+  async deleteRoleGrant(roleId: number, grantId: number): Promise<boolean> {
+    const result = await db
+      .delete(roleGrants)
+      .where(and(eq(roleGrants.roleId, roleId), eq(roleGrants.id, grantId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getRowPolicies(): Promise<RowPolicy[]> {
+    return await db.select().from(rowPolicies).orderBy(rowPolicies.id);
+  }
+
+  async getRowPoliciesForConnection(connectionProfileId: number | null): Promise<RowPolicy[]> {
+    return await db
+      .select()
+      .from(rowPolicies)
+      .where(connectionProfileId === null
+        ? isNull(rowPolicies.connectionProfileId)
+        : eq(rowPolicies.connectionProfileId, connectionProfileId))
+      .orderBy(rowPolicies.id);
+  }
+
+  async getRowPolicy(id: number): Promise<RowPolicy | undefined> {
+    const [policy] = await db.select().from(rowPolicies).where(eq(rowPolicies.id, id));
+    return policy || undefined;
+  }
+
+  async createRowPolicy(policy: InsertRowPolicy): Promise<RowPolicy> {
+    const [created] = await db
+      .insert(rowPolicies)
+      .values(policy)
+      .returning();
+    return created;
+  }
+
+  async updateRowPolicy(id: number, policy: UpdateRowPolicy): Promise<RowPolicy | undefined> {
+    const [updated] = await db
+      .update(rowPolicies)
+      .set(policy)
+      .where(eq(rowPolicies.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteRowPolicy(id: number): Promise<boolean> {
+    const result = await db.delete(rowPolicies).where(eq(rowPolicies.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async getColumnMasks(): Promise<ColumnMask[]> {
+    return await db.select().from(columnMasks).orderBy(columnMasks.id);
+  }
+
+  async getColumnMasksForConnection(connectionProfileId: number | null): Promise<ColumnMask[]> {
+    return await db
+      .select()
+      .from(columnMasks)
+      .where(connectionProfileId === null
+        ? isNull(columnMasks.connectionProfileId)
+        : eq(columnMasks.connectionProfileId, connectionProfileId))
+      .orderBy(columnMasks.id);
+  }
+
+  async createColumnMask(mask: InsertColumnMask): Promise<ColumnMask> {
+    const [created] = await db
+      .insert(columnMasks)
+      .values(mask)
+      .returning();
+    return created;
+  }
+
+  async updateColumnMask(id: number, mask: UpdateColumnMask): Promise<ColumnMask | undefined> {
+    const [updated] = await db
+      .update(columnMasks)
+      .set(mask)
+      .where(eq(columnMasks.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteColumnMask(id: number): Promise<boolean> {
+    const result = await db.delete(columnMasks).where(eq(columnMasks.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db
+      .insert(auditEvents)
+      .values(event)
+      .returning();
+    return created;
+  }
+
+  async getAuditEvents(
+    filters: AuditEventFilters,
+    page: { limit: number; offset?: number; beforeId?: number },
+  ): Promise<AuditEvent[]> {
+    const conditions = auditEventConditions(filters);
+    if (page.beforeId !== undefined) {
+      conditions.push(lt(auditEvents.id, page.beforeId));
+    }
+    return await db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.id))
+      .limit(page.limit)
+      .offset(page.offset ?? 0);
+  }
+
+  async countAuditEvents(filters: AuditEventFilters): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(auditEvents)
+      .where(and(...auditEventConditions(filters)));
+    return count;
+  }
+}
+
+function auditEventConditions(filters: AuditEventFilters): SQL[] {
+  const conditions: SQL[] = [];
+  if (filters.username) conditions.push(ilike(auditEvents.username, `%${escapeLike(filters.username)}%`));
+  if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+  if (filters.success !== undefined) conditions.push(eq(auditEvents.success, filters.success));
+  if (filters.connectionId) {
+    conditions.push(filters.connectionId === 'default'
+      ? isNull(auditEvents.connectionId)
+      : eq(auditEvents.connectionId, filters.connectionId));
+  }
+  if (filters.search) conditions.push(ilike(auditEvents.sqlText, `%${escapeLike(filters.search)}%`));
+  if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+  return conditions;
+}
+
+// Treat % and _ in search text literally
+function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
 }
 
 export const storage = new DatabaseStorage();
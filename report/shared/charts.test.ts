@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { chartData, chartLabel, columnKinds, InvalidChartError, suggestChart } from "./charts";
+
+describe("suggestChart", () => {
+  it("suggests nothing without a numeric column or rows", () => {
+    expect(suggestChart(["name"], ["text"], 5)).toBeNull();
+    expect(suggestChart(["total"], ["decimal"], 0)).toBeNull();
+    // Id columns are identifiers, not measures
+    expect(suggestChart(["name", "customer_id"], ["text", "integer"], 5)).toBeNull();
+  });
+
+  it("shows a single row as KPI tiles", () => {
+    expect(suggestChart(["orders", "revenue"], ["bigint", "decimal"], 1)).toEqual({ type: "kpi", y: ["orders", "revenue"] });
+  });
+
+  it("plots measures over time as lines, coloured by a category when there is one measure", () => {
+    expect(suggestChart(["day", "region", "total"], ["date", "text", "decimal"], 30))
+      .toEqual({ type: "line", x: "day", y: ["total"], colorBy: "region" });
+    expect(suggestChart(["month", "a", "b"], ["text", "integer", "float"], 12, ["DATE_TRUNC"]))
+      .toEqual({ type: "line", x: "month", y: ["a", "b"] });
+  });
+
+  it("uses a pie for a few categories with one measure and bars otherwise", () => {
+    expect(suggestChart(["region", "total"], ["text", "decimal"], 5)).toEqual({ type: "pie", x: "region", y: ["total"] });
+    expect(suggestChart(["region", "total"], ["text", "decimal"], 20)).toEqual({ type: "bar", x: "region", y: ["total"] });
+    expect(suggestChart(["region", "status", "total"], ["text", "text", "decimal"], 20))
+      .toEqual({ type: "bar", x: "region", y: ["total"], colorBy: "status" });
+  });
+
+  it("prefers aggregates and takes extracted parts as categories", () => {
+    expect(suggestChart(["year", "price", "orders"], ["decimal", "decimal", "bigint"], 20, ["EXTRACT", undefined, "count"]))
+      .toEqual({ type: "bar", x: "year", y: ["orders", "price"] });
+  });
+
+  it("falls back to a scatter of two measures", () => {
+    expect(suggestChart(["height", "weight"], ["float", "float"], 50)).toEqual({ type: "scatter", x: "height", y: ["weight"] });
+  });
+});
+
+describe("columnKinds", () => {
+  it("guesses kinds from the values when there are no field types", () => {
+    expect(columnKinds(["a", "b", "c", "d"], [[1, "2.5", "2026-01-01", null], [2, null, "2026-01-02T10:00:00Z", null]]))
+      .toEqual(["decimal", "decimal", "timestamp", "text"]);
+  });
+});
+
+describe("chartData", () => {
+  it("pivots long-form rows into one series per colour-by value", () => {
+    const rows = [["jan", "emea", 1], ["jan", "apac", 2], ["feb", "emea", 3], ["feb", "emea", 4]];
+    expect(chartData(["month", "region", "total"], rows, { type: "bar", x: "month", y: ["total"], colorBy: "region" })).toEqual({
+      spec: { type: "bar", x: "month", y: ["total"], colorBy: "region" },
+      labels: ["jan", "feb"],
+      series: [{ name: "emea", values: [1, 7] }, { name: "apac", values: [2, null] }],
+      omittedRows: 0,
+      omittedSeries: 0,
+    });
+  });
+
+  it("sums pie slices per label and leaves out what cannot be drawn", () => {
+    const rows = [["a", 2], ["b", 5], ["a", 1], ["c", 0], [null, "4"]];
+    const data = chartData(["label", "value"], rows, { type: "pie", x: "label", y: ["value"] });
+    expect(data.labels).toEqual(["b", "(empty)", "a"]);
+    expect(data.series).toEqual([{ name: "value", values: [5, 4, 3] }]);
+  });
+
+  it("rejects columns the result does not have", () => {
+    expect(() => chartData(["a"], [], { type: "line", x: "a", y: ["b"] })).toThrow(InvalidChartError);
+  });
+
+  it("labels dates without a time of day as dates", () => {
+    expect(chartLabel("2026-03-01T00:00:00.000Z")).toBe("2026-03-01");
+    expect(chartLabel("2026-03-01T12:30:00Z")).toBe("2026-03-01 12:30:00");
+  });
+});
@@ -0,0 +1,305 @@
+import { z } from "zod";
+import { fieldKind, NUMERIC_FIELD_KINDS, type FieldKind, type ResultField } from "./field-types";
+import { formatDate } from "./query-parameters";
+
+// Charts of query results. A chart plots one or more numeric columns (`y`) against a category
+// or x-axis column (`x`). A colour-by column splits each value column into one series per
+// distinct value, for results in long form such as month, region, revenue. A pie chart plots
+// the first `y` column only, and KPI tiles show the value columns of the first row.
+//
+// The same spec is drawn by the results view and by PDF reports, and is saved with a query as
+// `chart` in its builder configuration.
+
+export const chartTypes = ['bar', 'line', 'area', 'pie', 'scatter', 'kpi'] as const;
+
+export const chartSpecSchema = z.object({
+  type: z.enum(chartTypes),
+  x: z.string().optional(),
+  y: z.array(z.string().min(1)).min(1, "Choose at least one value column").max(8),
+  colorBy: z.string().min(1).optional(),
+  // Bar and area series drawn on top of each other rather than side by side
+  stacked: z.boolean().optional(),
+}).superRefine((spec, ctx) => {
+  if (spec.type !== 'kpi' && !spec.x) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choose a column for the x-axis", path: ['x'] });
+  }
+});
+
+export type ChartType = typeof chartTypes[number];
+export type ChartSpec = z.infer<typeof chartSpecSchema>;
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  bar: 'Bar',
+  line: 'Line',
+  area: 'Area',
+  pie: 'Pie',
+  scatter: 'Scatter',
+  kpi: 'KPI tiles',
+};
+
+// Series colours, in order, shared by the results view and rendered reports
+export const CHART_COLORS = ['#2563eb', '#16a34a', '#ea580c', '#9333ea', '#dc2626', '#0891b2', '#ca8a04', '#db2777'];
+
+// Rows plotted; tables and exports still have every row
+const MAX_BAR_CATEGORIES = 40;
+const MAX_LINE_POINTS = 500;
+const MAX_SCATTER_POINTS = 2000;
+const MAX_PIE_SLICES = 8;
+const MAX_KPI_TILES = 4;
+
+export class InvalidChartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidChartError';
+  }
+}
+
+export interface ChartSeries {
+  name: string;
+  // Null where a value is missing or not a number
+  values: Array<number | null>;
+}
+
+export interface ChartData {
+  spec: ChartSpec;
+  // Categories along the x-axis, or pie slice labels; one per value of each series
+  labels: string[];
+  // Positions along a scatter chart's numeric x-axis, in place of labels
+  xValues?: Array<number | null>;
+  // Whether those positions are times, in milliseconds
+  xTime?: boolean;
+  series: ChartSeries[];
+  // Rows beyond the chart's point limit, and colour-by values beyond the number of colours
+  omittedRows: number;
+  omittedSeries: number;
+}
+
+// Dates without a time of day are shown as dates, and timestamps to the second. Dates arrive as
+// Date objects on the server and as ISO strings in JSON results.
+export function chartLabel(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '(empty)';
+  }
+  if (value instanceof Date) {
+    return value.getHours() || value.getMinutes() || value.getSeconds()
+      ? value.toISOString().replace('T', ' ').slice(0, 19)
+      : formatDate(value);
+  }
+  if (typeof value === 'string') {
+    const timestamp = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/.exec(value);
+    if (timestamp) {
+      return timestamp[2] === '00:00:00' ? timestamp[1] : `${timestamp[1]} ${timestamp[2]}`;
+    }
+    return value;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function chartValue(value: unknown): number | null {
+  if (value === null || value === undefined || value === '' || value instanceof Date || typeof value === 'boolean') {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Shapes result rows into the series a chart draws. Throws InvalidChartError for columns the
+// result does not have, so a chart saved before its query changed fails with a clear message.
+export function chartData(columns: string[], rows: unknown[][], spec: ChartSpec): ChartData {
+  const columnIndex = (column: string) => {
+    const index = columns.indexOf(column);
+    if (index === -1) {
+      throw new InvalidChartError(`The query result has no column "${column}"`);
+    }
+    return index;
+  };
+  const yIndexes = spec.y.map(columnIndex);
+
+  if (spec.type === 'kpi') {
+    const first = rows[0] ?? [];
+    return {
+      spec,
+      labels: [],
+      series: spec.y.slice(0, MAX_KPI_TILES).map((name, index) => ({ name, values: [chartValue(first[yIndexes[index]])] })),
+      omittedRows: 0,
+      omittedSeries: Math.max(spec.y.length - MAX_KPI_TILES, 0),
+    };
+  }
+
+  const xIndex = columnIndex(spec.x!);
+  if (spec.type === 'pie') {
+    return pieData(spec, rows, xIndex, yIndexes[0]);
+  }
+
+  const limit = spec.type === 'bar' ? MAX_BAR_CATEGORIES : spec.type === 'scatter' ? MAX_SCATTER_POINTS : MAX_LINE_POINTS;
+  const plotted = rows.slice(0, limit);
+  const omittedRows = rows.length - plotted.length;
+  const colorIndex = spec.colorBy ? columnIndex(spec.colorBy) : -1;
+
+  if (spec.type === 'scatter') {
+    // Each colour-by value is its own series of points, with gaps where a row belongs to another
+    const groups = colorIndex === -1 ? [null] : distinctLabels(plotted, colorIndex);
+    const kept = groups.slice(0, Math.max(Math.floor(CHART_COLORS.length / spec.y.length), 1));
+    return {
+      spec,
+      labels: [],
+      xValues: plotted.map((row) => scatterPosition(row[xIndex])),
+      xTime: plotted.some((row) => isDateLike(row[xIndex])),
+      series: spec.y.flatMap((column, index) => kept.map((group) => ({
+        name: seriesName(spec, column, group),
+        values: plotted.map((row) => group === null || chartLabel(row[colorIndex]) === group ? chartValue(row[yIndexes[index]]) : null),
+      }))),
+      omittedRows,
+      omittedSeries: (groups.length - kept.length) * spec.y.length,
+    };
+  }
+
+  if (colorIndex === -1) {
+    return {
+      spec,
+      labels: plotted.map((row) => chartLabel(row[xIndex])),
+      series: spec.y.map((name, index) => ({ name, values: plotted.map((row) => chartValue(row[yIndexes[index]])) })),
+      omittedRows,
+      omittedSeries: 0,
+    };
+  }
+
+  // Long-form rows become one category per x value and one series per value column and
+  // colour-by value; rows that share both are summed
+  const labels = distinctLabels(plotted, xIndex);
+  const groups = distinctLabels(plotted, colorIndex);
+  const kept = groups.slice(0, Math.max(Math.floor(CHART_COLORS.length / spec.y.length), 1));
+  const position = new Map(labels.map((label, index) => [label, index]));
+  const series = spec.y.flatMap((column, index) => kept.map((group) => {
+    const values: Array<number | null> = labels.map(() => null);
+    for (const row of plotted) {
+      const value = chartValue(row[yIndexes[index]]);
+      if (value === null || chartLabel(row[colorIndex]) !== group) continue;
+      const at = position.get(chartLabel(row[xIndex]))!;
+      values[at] = (values[at] ?? 0) + value;
+    }
+    return { name: seriesName(spec, column, group), values };
+  }));
+  return { spec, labels, series, omittedRows, omittedSeries: (groups.length - kept.length) * spec.y.length };
+}
+
+function distinctLabels(rows: unknown[][], index: number): string[] {
+  return Array.from(new Set(rows.map((row) => chartLabel(row[index]))));
+}
+
+function seriesName(spec: ChartSpec, column: string, group: string | null): string {
+  if (group === null) return column;
+  return spec.y.length === 1 ? group : `${column} (${group})`;
+}
+
+function isDateLike(value: unknown): boolean {
+  return value instanceof Date || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}(T|$)/.test(value));
+}
+
+// Scatter x positions are numbers; dates are placed by their time
+function scatterPosition(value: unknown): number | null {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string' && isDateLike(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  return chartValue(value);
+}
+
+// Values are summed per label, and the largest sums get a slice each; the rest are combined into
+// "Other". Zero and negative sums cannot be shown as slices and are left out.
+function pieData(spec: ChartSpec, rows: unknown[][], xIndex: number, yIndex: number): ChartData {
+  const sums = new Map<string, number>();
+  for (const row of rows) {
+    const label = chartLabel(row[xIndex]);
+    sums.set(label, (sums.get(label) ?? 0) + (chartValue(row[yIndex]) ?? 0));
+  }
+  let slices = Array.from(sums, ([label, value]) => ({ label, value }))
+    .filter((slice) => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+  if (slices.length > MAX_PIE_SLICES) {
+    const other = slices.slice(MAX_PIE_SLICES - 1).reduce((sum, slice) => sum + slice.value, 0);
+    slices = [...slices.slice(0, MAX_PIE_SLICES - 1), { label: 'Other', value: other }];
+  }
+  return {
+    spec,
+    labels: slices.map((slice) => slice.label),
+    series: [{ name: spec.y[0], values: slices.map((slice) => slice.value) }],
+    omittedRows: 0,
+    omittedSeries: 0,
+  };
+}
+
+// Kinds of the result columns: from the field types the server reports, or else guessed from
+// the values, as for results recorded before field types were returned
+export function columnKinds(columns: string[], rows: unknown[][], fields?: ResultField[]): FieldKind[] {
+  return columns.map((column, index) => {
+    const field = fields?.[index];
+    if (field) {
+      return fieldKind(field.dataTypeID);
+    }
+    const values = rows.map((row) => row[index]).filter((value) => value !== null && value !== undefined);
+    if (values.length === 0) return 'text';
+    // NUMERIC and BIGINT values arrive as strings
+    if (values.every((value) => typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))))) {
+      return 'decimal';
+    }
+    if (values.every(isDateLike)) return 'timestamp';
+    return 'text';
+  });
+}
+
+const TIME_KINDS: ReadonlySet<FieldKind> = new Set<FieldKind>(['date', 'timestamp', 'timestamptz']);
+const AGGREGATE_FUNCTIONS = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']);
+
+// A chart that suits the result's column types, or null when nothing numeric can be plotted.
+// `functions` are the builder's column functions, by result column, so a DATE_TRUNC column is
+// taken as a time axis and an EXTRACTed year as a category rather than a value to plot.
+export function suggestChart(
+  columns: string[],
+  kinds: FieldKind[],
+  rowCount: number,
+  functions: Array<string | undefined> = [],
+): ChartSpec | null {
+  const times: string[] = [];
+  const categories: string[] = [];
+  const aggregates: string[] = [];
+  const numbers: string[] = [];
+  columns.forEach((column, index) => {
+    const kind = kinds[index];
+    const fn = functions[index]?.toUpperCase();
+    if (fn === 'DATE_TRUNC' || TIME_KINDS.has(kind)) {
+      times.push(column);
+    } else if (fn && AGGREGATE_FUNCTIONS.has(fn)) {
+      aggregates.push(column);
+    } else if (NUMERIC_FIELD_KINDS.has(kind) && fn !== 'EXTRACT' && !/(^|_)id$/i.test(column)) {
+      numbers.push(column);
+    } else if (kind !== 'json' && kind !== 'binary') {
+      categories.push(column);
+    }
+  });
+  // Aggregates are what a grouped query is about; other numbers are plotted when there are none
+  const measures = [...aggregates, ...numbers];
+  if (measures.length === 0 || rowCount === 0) {
+    return null;
+  }
+  if (rowCount === 1) {
+    return { type: 'kpi', y: measures.slice(0, MAX_KPI_TILES) };
+  }
+  if (times.length > 0) {
+    return categories.length > 0 && measures.length === 1
+      ? { type: 'line', x: times[0], y: measures, colorBy: categories[0] }
+      : { type: 'line', x: times[0], y: measures.slice(0, 4) };
+  }
+  if (categories.length > 0) {
+    if (categories.length > 1 && measures.length === 1) {
+      return { type: 'bar', x: categories[0], y: measures, colorBy: categories[1] };
+    }
+    return measures.length === 1 && rowCount <= MAX_PIE_SLICES
+      ? { type: 'pie', x: categories[0], y: measures }
+      : { type: 'bar', x: categories[0], y: measures.slice(0, 4) };
+  }
+  return measures.length > 1 ? { type: 'scatter', x: measures[0], y: [measures[1]] } : null;
+}
@@ -0,0 +1,67 @@
+// Types of result columns. PostgreSQL type OIDs are the common vocabulary: PostgreSQL results
+// carry them as `dataTypeID`, and MySQL column types are mapped onto the nearest PostgreSQL type.
+
+export interface ResultField {
+  name: string;
+  // PostgreSQL type OID
+  dataTypeID: number;
+  // Total digits and digits after the decimal point of a NUMERIC column that declares them
+  precision?: number;
+  scale?: number;
+}
+
+export const PG_TYPES = {
+  bool: 16,
+  bytea: 17,
+  int8: 20,
+  int2: 21,
+  int4: 23,
+  text: 25,
+  oid: 26,
+  json: 114,
+  float4: 700,
+  float8: 701,
+  date: 1082,
+  time: 1083,
+  timestamp: 1114,
+  timestamptz: 1184,
+  numeric: 1700,
+  jsonb: 3802,
+} as const;
+
+// How a column's values are written by the typed export formats and plotted by charts
+export type FieldKind =
+  | 'boolean'
+  | 'integer'
+  | 'bigint'
+  | 'float'
+  | 'decimal'
+  | 'date'
+  | 'timestamp'
+  | 'timestamptz'
+  | 'json'
+  | 'binary'
+  | 'text';
+
+export function fieldKind(dataTypeID: number): FieldKind {
+  switch (dataTypeID) {
+    case PG_TYPES.bool: return 'boolean';
+    case PG_TYPES.int2:
+    case PG_TYPES.int4: return 'integer';
+    // OIDs are unsigned 32-bit, so the larger ones only fit a 64-bit integer
+    case PG_TYPES.oid:
+    case PG_TYPES.int8: return 'bigint';
+    case PG_TYPES.float4:
+    case PG_TYPES.float8: return 'float';
+    case PG_TYPES.numeric: return 'decimal';
+    case PG_TYPES.date: return 'date';
+    case PG_TYPES.timestamp: return 'timestamp';
+    case PG_TYPES.timestamptz: return 'timestamptz';
+    case PG_TYPES.json:
+    case PG_TYPES.jsonb: return 'json';
+    case PG_TYPES.bytea: return 'binary';
+    default: return 'text';
+  }
+}
+
+export const NUMERIC_FIELD_KINDS: ReadonlySet<FieldKind> = new Set<FieldKind>(['integer', 'bigint', 'float', 'decimal']);
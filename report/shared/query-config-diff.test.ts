@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { diffQueryConfigs } from "./query-config-diff";
+
+const unchanged = { added: [], removed: [] };
+
+describe("diffQueryConfigs", () => {
+  it("describes the parts of the query that changed", () => {
+    const diff = diffQueryConfigs(
+      {
+        selectedTables: [{ tableName: "orders", schema: "sales" }],
+        selectedColumns: [
+          { tableName: "orders", columnName: "id" },
+          { tableName: "orders", columnName: "total", function: "SUM" },
+        ],
+        conditions: [{ column: "status", operator: "=", value: "'open'" }],
+        orderBy: [{ column: "id", direction: "ASC" }],
+        limit: 100,
+      },
+      {
+        selectedTables: [{ tableName: "orders", schema: "sales" }, { tableName: "customers", alias: "c" }],
+        selectedColumns: [
+          { tableName: "orders", columnName: "id" },
+          { tableName: "orders", columnName: "total", function: "ROUND", functionParams: ["2"], alias: "total" },
+        ],
+        joins: [{
+          type: "LEFT", leftTable: "orders", leftColumn: "customer_id", rightTable: "customers", rightTableAlias: "c", rightColumn: "id",
+          additionalConditions: [{ leftColumn: "region", rightColumn: "region" }],
+        }],
+        conditions: [{ column: "status", operator: "IS NOT NULL", value: "" }],
+        orderBy: [{ column: "id", direction: "DESC" }],
+        distinct: true,
+      },
+    );
+
+    expect(diff).toEqual({
+      tables: { added: ["customers AS c"], removed: [] },
+      columns: { added: ["ROUND(orders.total, 2) AS total"], removed: ["SUM(orders.total)"] },
+      joins: { added: ["LEFT JOIN customers AS c ON orders.customer_id = c.id AND orders.region = c.region"], removed: [] },
+      conditions: { added: ["status IS NOT NULL"], removed: ["status = 'open'"] },
+      groupBy: unchanged,
+      orderBy: { added: ["id DESC"], removed: ["id ASC"] },
+      settings: [
+        { setting: "distinct", before: "false", after: "true" },
+        { setting: "limit", before: "100", after: null },
+      ],
+    });
+  });
+
+  it("compares lists as multisets and ignores an unset DISTINCT", () => {
+    const column = { tableName: "t", columnName: "a" };
+    const diff = diffQueryConfigs({ selectedColumns: [column, column], groupBy: ["a", "b"] }, {
+      selectedColumns: [column],
+      groupBy: ["b", "a"],
+      distinct: false,
+    });
+    expect(diff.columns).toEqual({ added: [], removed: ["t.a"] });
+    expect(diff.groupBy).toEqual(unchanged);
+    expect(diff.settings).toEqual([]);
+  });
+});
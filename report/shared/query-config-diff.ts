@@ -0,0 +1,134 @@
+// Structural comparison of two query builder configurations, as stored in
+// `saved_queries.query_config`. Only the parts that shape the SQL are compared; element ids
+// generated by the builder are ignored so re-adding the same column does not count as a change.
+
+interface ConfigShape {
+  selectedTables?: Array<{ tableName: string; schema?: string; alias?: string }>;
+  selectedColumns?: Array<{
+    schema?: string;
+    tableName: string;
+    columnName: string;
+    alias?: string;
+    function?: string;
+    functionParams?: string[];
+  }>;
+  joins?: Array<{
+    type: string;
+    leftTable: string;
+    leftTableAlias?: string;
+    leftColumn: string;
+    rightTable: string;
+    rightTableAlias?: string;
+    rightColumn: string;
+    additionalConditions?: Array<{ leftColumn: string; rightColumn: string }>;
+  }>;
+  conditions?: Array<{ column: string; operator: string; value: string; logicalOperator?: string }>;
+  groupBy?: string[];
+  orderBy?: Array<{ column: string; direction: string }>;
+  limit?: number;
+  offset?: number;
+  distinct?: boolean;
+  logicalOperator?: string;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface SettingChange {
+  setting: 'distinct' | 'limit' | 'offset' | 'logicalOperator';
+  before: string | null;
+  after: string | null;
+}
+
+export interface QueryConfigDiff {
+  tables: ListChange;
+  columns: ListChange;
+  joins: ListChange;
+  conditions: ListChange;
+  groupBy: ListChange;
+  orderBy: ListChange;
+  settings: SettingChange[];
+}
+
+function describeTable(table: NonNullable<ConfigShape['selectedTables']>[number]): string {
+  const name = table.schema ? `${table.schema}.${table.tableName}` : table.tableName;
+  return table.alias ? `${name} AS ${table.alias}` : name;
+}
+
+function describeColumn(column: NonNullable<ConfigShape['selectedColumns']>[number]): string {
+  const name = [column.schema, column.tableName, column.columnName].filter(Boolean).join('.');
+  const expression = column.function
+    ? `${column.function}(${[name, ...(column.functionParams ?? [])].join(', ')})`
+    : name;
+  return column.alias ? `${expression} AS ${column.alias}` : expression;
+}
+
+function describeJoin(join: NonNullable<ConfigShape['joins']>[number]): string {
+  const left = join.leftTableAlias || join.leftTable;
+  const right = join.rightTableAlias || join.rightTable;
+  const on = [
+    `${left}.${join.leftColumn} = ${right}.${join.rightColumn}`,
+    ...(join.additionalConditions ?? []).map((condition) => `${left}.${condition.leftColumn} = ${right}.${condition.rightColumn}`),
+  ].join(' AND ');
+  const target = join.rightTableAlias ? `${join.rightTable} AS ${join.rightTableAlias}` : join.rightTable;
+  return `${join.type} JOIN ${target} ON ${on}`;
+}
+
+function describeCondition(condition: NonNullable<ConfigShape['conditions']>[number]): string {
+  return `${condition.column} ${condition.operator} ${condition.value}`.trim();
+}
+
+// Multiset difference, so a column selected twice and then once counts as one removal
+function compareLists(before: string[], after: string[]): ListChange {
+  const remaining = new Map<string, number>();
+  for (const item of before) {
+    remaining.set(item, (remaining.get(item) ?? 0) + 1);
+  }
+  const added: string[] = [];
+  for (const item of after) {
+    const count = remaining.get(item) ?? 0;
+    if (count > 0) {
+      remaining.set(item, count - 1);
+    } else {
+      added.push(item);
+    }
+  }
+  const removed = before.filter((item) => {
+    const count = remaining.get(item) ?? 0;
+    if (count === 0) return false;
+    remaining.set(item, count - 1);
+    return true;
+  });
+  return { added, removed };
+}
+
+function settingValue(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+export function diffQueryConfigs(before: ConfigShape, after: ConfigShape): QueryConfigDiff {
+  const settings: SettingChange[] = [];
+  for (const setting of ['distinct', 'limit', 'offset', 'logicalOperator'] as const) {
+    // An unset DISTINCT is the same as false
+    const beforeValue = setting === 'distinct' ? String(!!before.distinct) : settingValue(before[setting]);
+    const afterValue = setting === 'distinct' ? String(!!after.distinct) : settingValue(after[setting]);
+    if (beforeValue !== afterValue) {
+      settings.push({ setting, before: beforeValue, after: afterValue });
+    }
+  }
+
+  return {
+    tables: compareLists((before.selectedTables ?? []).map(describeTable), (after.selectedTables ?? []).map(describeTable)),
+    columns: compareLists((before.selectedColumns ?? []).map(describeColumn), (after.selectedColumns ?? []).map(describeColumn)),
+    joins: compareLists((before.joins ?? []).map(describeJoin), (after.joins ?? []).map(describeJoin)),
+    conditions: compareLists((before.conditions ?? []).map(describeCondition), (after.conditions ?? []).map(describeCondition)),
+    groupBy: compareLists(before.groupBy ?? [], after.groupBy ?? []),
+    orderBy: compareLists(
+      (before.orderBy ?? []).map((order) => `${order.column} ${order.direction}`),
+      (after.orderBy ?? []).map((order) => `${order.column} ${order.direction}`),
+    ),
+    settings,
+  };
+}
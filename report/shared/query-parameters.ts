@@ -0,0 +1,114 @@
+import { z } from "zod";
+
+// Named parameters of saved queries. A condition value of `{{start_date}}` refers to the
+// parameter `start_date`; the builder sends `{ parameter: "start_date" }` in place of the bound
+// value and the server substitutes the validated value before running the query.
+
+export const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const PARAMETER_REFERENCE_PATTERN = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+
+// Date defaults may be relative to the day the query runs: `today`, `today-7`, `today+1`
+const RELATIVE_DATE_PATTERN = /^today(?:\s*([+-])\s*(\d+))?$/i;
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export const queryParameterTypes = ['date', 'number', 'text', 'enum'] as const;
+
+export const queryParameterSchema = z.object({
+  name: z.string().regex(PARAMETER_NAME_PATTERN, "Parameter names may only contain letters, digits and underscores"),
+  label: z.string().trim().max(255).optional(),
+  type: z.enum(queryParameterTypes),
+  required: z.boolean().default(false),
+  defaultValue: z.string().optional(),
+  // Enum parameters offer the distinct values of this column
+  source: z.object({
+    schema: z.string().optional(),
+    table: z.string().min(1),
+    column: z.string().min(1),
+  }).optional(),
+}).refine((parameter) => parameter.type !== 'enum' || parameter.source, {
+  message: "Enum parameters need a source column",
+  path: ["source"],
+});
+
+export const parameterReferenceSchema = z.object({ parameter: z.string().regex(PARAMETER_NAME_PATTERN) });
+
+// Raw values as typed in the form or given in a report link, by parameter name
+export const parameterValuesSchema = z.record(z.string());
+
+export type QueryParameterType = typeof queryParameterTypes[number];
+export type QueryParameter = z.infer<typeof queryParameterSchema>;
+export type ParameterReference = z.infer<typeof parameterReferenceSchema>;
+export type ParameterValues = z.infer<typeof parameterValuesSchema>;
+export type ParameterValue = string | number | null;
+
+// Report links carry parameter values as `p.<name>=<value>` next to `query=<id>`
+export const PARAMETER_URL_PREFIX = 'p.';
+
+// The parameter a condition value refers to, or null for an ordinary value
+export function parameterReference(raw: string): string | null {
+  return PARAMETER_REFERENCE_PATTERN.exec(raw.trim())?.[1] ?? null;
+}
+
+export function isParameterReference(value: unknown): value is ParameterReference {
+  return typeof value === 'object' && value !== null && typeof (value as ParameterReference).parameter === 'string';
+}
+
+// Today's date, shifted by relative defaults such as `today-7`, as YYYY-MM-DD
+export function resolveDateDefault(value: string, now = new Date()): string {
+  const match = RELATIVE_DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return value.trim();
+  }
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (match[1]) {
+    date.setDate(date.getDate() + (match[1] === '-' ? -1 : 1) * Number(match[2]));
+  }
+  return formatDate(date);
+}
+
+export function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// The raw value used when none is given: the default, with relative dates resolved
+export function defaultParameterValue(parameter: QueryParameter, now = new Date()): string {
+  const value = parameter.defaultValue ?? '';
+  return parameter.type === 'date' && value ? resolveDateDefault(value, now) : value;
+}
+
+// Converts a raw value to what is bound for the parameter; throws with a user-facing message
+// when it does not fit the type. Enum membership is checked separately against the source column.
+export function coerceParameterValue(parameter: QueryParameter, raw: string): ParameterValue {
+  const value = raw.trim();
+  const label = parameter.label || parameter.name;
+  if (value === '') {
+    if (parameter.required) {
+      throw new Error(`${label} is required`);
+    }
+    return null;
+  }
+
+  switch (parameter.type) {
+    case 'number': {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        throw new Error(`${label} must be a number`);
+      }
+      return number;
+    }
+    case 'date': {
+      const date = resolveDateDefault(value);
+      const match = ISO_DATE_PATTERN.exec(date);
+      const parsed = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+      if (!parsed || formatDate(parsed) !== date) {
+        throw new Error(`${label} must be a date in the form YYYY-MM-DD`);
+      }
+      return date;
+    }
+    default:
+      return value;
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, varchar, numeric, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, varchar, numeric, pgEnum, json, jsonb, index, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -84,6 +84,30 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
   }),
 }));
 
+// Folders organising saved queries; nested through `parentId`. Deleting a folder deletes its
+// subfolders and leaves their queries unfiled.
+export const queryFolders = pgTable("query_folders", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => queryFolders.id, { onDelete: "cascade" }),
+  ownerId: integer("owner_id").references(() => appUsers.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertQueryFolderSchema = createInsertSchema(queryFolders, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+}).omit({
+  id: true,
+  ownerId: true,
+  createdAt: true,
+});
+
+export const updateQueryFolderSchema = insertQueryFolderSchema.partial();
+
+// private: the owner only; team: users with the owner's role; public: every user.
+// Administrators see every query.
+export const queryVisibilityEnum = pgEnum('query_visibility', ['private', 'team', 'public']);
+
 // Query building types
 export const savedQueries = pgTable("saved_queries", {
   id: serial("id").primaryKey(),
@@ -91,16 +115,507 @@ export const savedQueries = pgTable("saved_queries", {
   description: text("description"),
   queryConfig: text("query_config").notNull(), // JSON string of query configuration
   generatedSql: text("generated_sql").notNull(),
+  folderId: integer("folder_id").references(() => queryFolders.id, { onDelete: "set null" }),
+  tags: text("tags").array().default([]).notNull(),
+  // Queries saved before ownership existed have no owner and stay public
+  ownerId: integer("owner_id").references(() => appUsers.id, { onDelete: "set null" }),
+  visibility: queryVisibilityEnum("visibility").default('public').notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_saved_queries_folder_id").on(table.folderId)]);
+
+export const insertSavedQuerySchema = createInsertSchema(savedQueries, {
+  tags: z.array(z.string().trim().min(1).max(50)).max(20)
+    .transform((tags) => Array.from(new Set(tags))).optional(),
+}).omit({
+  id: true,
+  ownerId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateSavedQuerySchema = insertSavedQuerySchema.partial();
+
+// Every saved state of a saved query, numbered from 1. Rolling back records a new version
+// rather than deleting the later ones.
+export const savedQueryVersions = pgTable("saved_query_versions", {
+  id: serial("id").primaryKey(),
+  savedQueryId: integer("saved_query_id").notNull().references(() => savedQueries.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  queryConfig: text("query_config").notNull(), // JSON string of query configuration
+  generatedSql: text("generated_sql").notNull(),
+  authorId: integer("author_id").references(() => appUsers.id, { onDelete: "set null" }),
+  // Kept so the author is still shown after their account is removed
+  authorName: varchar("author_name", { length: 255 }),
+  message: text("message").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique("UQ_saved_query_versions_query_version").on(table.savedQueryId, table.version)]);
+
+// Optional description of a change, sent alongside a saved query create or update
+export const savedQueryChangeSchema = z.object({
+  message: z.string().trim().max(1000).optional(),
+});
+
+// Filters for listing saved queries. `folderId` "none" lists unfiled queries; `ownerId` "me" is
+// the signed-in user.
+export const savedQueryFiltersSchema = z.object({
+  folderId: z.union([z.literal('none'), z.coerce.number().int().positive()]).optional(),
+  tag: z.string().trim().min(1).optional(),
+  ownerId: z.union([z.literal('me'), z.coerce.number().int().positive()]).optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+// Each user's past executions from the query builder, newest first in the History panel
+export const queryRuns = pgTable("query_runs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => appUsers.id, { onDelete: "cascade" }),
+  // Connection id the run targeted; null for the bundled sample database
+  connectionId: varchar("connection_id", { length: 255 }),
+  queryConfig: text("query_config").notNull(), // JSON string of query configuration
+  sqlText: text("sql_text").notNull(),
+  params: jsonb("params").$type<Array<string | number | boolean | null>>().default([]).notNull(),
+  durationMs: integer("duration_ms").notNull(),
+  rowCount: integer("row_count"),
+  success: boolean("success").notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_query_runs_user_id_created_at").on(table.userId, table.createdAt)]);
+
+// Scheduled delivery of a saved query's results. A schedule runs with its owner's access, on a
+// saved connection profile or (null) the sample database.
+export const reportFormatEnum = pgEnum('report_format', ['csv', 'xlsx', 'pdf']);
+export const deliveryMethodEnum = pgEnum('delivery_method', ['email', 'directory', 'webhook']);
+
+export const reportSchedules = pgTable("report_schedules", {
+  id: serial("id").primaryKey(),
+  savedQueryId: integer("saved_query_id").notNull().references(() => savedQueries.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  // Five fields (minute hour day month weekday), or six with seconds first
+  cronExpression: varchar("cron_expression", { length: 255 }).notNull(),
+  // IANA name the cron expression is read in, such as Europe/Berlin
+  timezone: varchar("timezone", { length: 64 }).default('UTC').notNull(),
+  format: reportFormatEnum("format").default('csv').notNull(),
+  deliveryMethod: deliveryMethodEnum("delivery_method").notNull(),
+  // Comma-separated addresses for email, a folder below REPORT_OUTPUT_DIR, or a webhook URL
+  destination: text("destination").notNull(),
+  parameterValues: jsonb("parameter_values").$type<Record<string, string>>().default({}).notNull(),
+  connectionId: varchar("connection_id", { length: 255 }),
+  // A failed run is retried this many times, each after a longer delay
+  maxRetries: integer("max_retries").default(2).notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  ownerId: integer("owner_id").notNull().references(() => appUsers.id, { onDelete: "cascade" }),
+  // Null while the schedule is disabled
+  nextRunAt: timestamp("next_run_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_report_schedules_saved_query_id").on(table.savedQueryId),
+  index("IDX_report_schedules_next_run_at").on(table.nextRunAt),
+]);
+
+function isTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const insertReportScheduleSchema = createInsertSchema(reportSchedules, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  cronExpression: (schema) => schema.trim().min(1, "Cron expression is required"),
+  timezone: (schema) => schema.refine(isTimeZone, "Unknown timezone"),
+  destination: (schema) => schema.trim().min(1, "Destination is required"),
+  parameterValues: z.record(z.string()).optional(),
+  // Ad-hoc connections do not outlive the server process, so only saved profiles can be scheduled
+  connectionId: z.string().regex(/^\d+$/, "Only saved connections can be scheduled").nullable().optional(),
+  maxRetries: (schema) => schema.int().min(0).max(5),
+}).omit({
+  id: true,
+  savedQueryId: true,
+  ownerId: true,
+  nextRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Every execution of a schedule. A failed run that has retries left gets a `retryAt`; the retry is
+// recorded as a new run with the next attempt number.
+export const reportRunStatusEnum = pgEnum('report_run_status', ['running', 'succeeded', 'failed']);
+export const reportRunTriggerEnum = pgEnum('report_run_trigger', ['schedule', 'manual', 'retry']);
+
+export const reportScheduleRuns = pgTable("report_schedule_runs", {
+  id: serial("id").primaryKey(),
+  scheduleId: integer("schedule_id").notNull().references(() => reportSchedules.id, { onDelete: "cascade" }),
+  trigger: reportRunTriggerEnum("trigger").notNull(),
+  attempt: integer("attempt").default(1).notNull(),
+  status: reportRunStatusEnum("status").default('running').notNull(),
+  rowCount: integer("row_count"),
+  fileName: varchar("file_name", { length: 255 }),
+  error: text("error"),
+  // Cleared when the retry starts
+  retryAt: timestamp("retry_at"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("IDX_report_schedule_runs_schedule_id_started_at").on(table.scheduleId, table.startedAt),
+  index("IDX_report_schedule_runs_retry_at").on(table.retryAt),
+]);
+
+// Threshold alerts evaluate a saved query on a cron schedule and compare its row count, or one cell
+// of the result, with a threshold. `state` keeps the outcome of the last evaluation so an alert
+// notifies only when its condition starts or stops holding.
+export const alertMetricEnum = pgEnum('alert_metric', ['row_count', 'cell']);
+export const alertOperatorEnum = pgEnum('alert_operator', ['gt', 'gte', 'lt', 'lte', 'eq', 'neq']);
+export const alertStateEnum = pgEnum('alert_state', ['ok', 'triggered']);
+export const alertNotifyMethodEnum = pgEnum('alert_notify_method', ['email', 'webhook']);
+
+export const queryAlerts = pgTable("query_alerts", {
+  id: serial("id").primaryKey(),
+  savedQueryId: integer("saved_query_id").notNull().references(() => savedQueries.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  cronExpression: varchar("cron_expression", { length: 255 }).notNull(),
+  timezone: varchar("timezone", { length: 64 }).default('UTC').notNull(),
+  metric: alertMetricEnum("metric").default('row_count').notNull(),
+  // Result column and zero-based row read when the metric is a cell
+  column: varchar("column", { length: 255 }),
+  rowIndex: integer("row_index").default(0).notNull(),
+  operator: alertOperatorEnum("operator").notNull(),
+  // Compared as a number when both sides are numeric, otherwise as text
+  threshold: text("threshold").notNull(),
+  notifyMethod: alertNotifyMethodEnum("notify_method").notNull(),
+  // Comma-separated addresses for email, or a webhook URL
+  destination: text("destination").notNull(),
+  parameterValues: jsonb("parameter_values").$type<Record<string, string>>().default({}).notNull(),
+  connectionId: varchar("connection_id", { length: 255 }),
+  enabled: boolean("enabled").default(true).notNull(),
+  ownerId: integer("owner_id").notNull().references(() => appUsers.id, { onDelete: "cascade" }),
+  state: alertStateEnum("state").default('ok').notNull(),
+  lastValue: text("last_value"),
+  // Set while the query cannot be evaluated; `state` keeps its value from before the failure
+  lastError: text("last_error"),
+  lastEvaluatedAt: timestamp("last_evaluated_at"),
+  // Null while the alert is disabled
+  nextRunAt: timestamp("next_run_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_query_alerts_saved_query_id").on(table.savedQueryId),
+  index("IDX_query_alerts_next_run_at").on(table.nextRunAt),
+]);
+
+export const insertQueryAlertSchema = createInsertSchema(queryAlerts, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  cronExpression: (schema) => schema.trim().min(1, "Cron expression is required"),
+  timezone: (schema) => schema.refine(isTimeZone, "Unknown timezone"),
+  column: (schema) => schema.trim(),
+  rowIndex: (schema) => schema.int().min(0),
+  threshold: (schema) => schema.trim().min(1, "Threshold is required"),
+  destination: (schema) => schema.trim().min(1, "Destination is required"),
+  parameterValues: z.record(z.string()).optional(),
+  connectionId: z.string().regex(/^\d+$/, "Only saved connections can be used by alerts").nullable().optional(),
+}).omit({
+  id: true,
+  savedQueryId: true,
+  ownerId: true,
+  state: true,
+  lastValue: true,
+  lastError: true,
+  lastEvaluatedAt: true,
+  nextRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).superRefine((alert, ctx) => {
+  if (alert.metric === 'cell' && !alert.column) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['column'], message: "Choose the column to check" });
+  }
+  if ((alert.metric ?? 'row_count') === 'row_count' && !Number.isFinite(Number(alert.threshold))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['threshold'], message: "The row count is compared with a number" });
+  }
+});
+
+// Alert history: the transitions between ok and triggered, and the first of a run of failed evaluations
+export const alertEventKindEnum = pgEnum('alert_event_kind', ['triggered', 'resolved', 'error']);
+
+export const queryAlertEvents = pgTable("query_alert_events", {
+  id: serial("id").primaryKey(),
+  alertId: integer("alert_id").notNull().references(() => queryAlerts.id, { onDelete: "cascade" }),
+  // Copied from the alert so a query's history is read without a join
+  savedQueryId: integer("saved_query_id").notNull().references(() => savedQueries.id, { onDelete: "cascade" }),
+  kind: alertEventKindEnum("kind").notNull(),
+  value: text("value"),
+  message: text("message").notNull(),
+  notified: boolean("notified").default(false).notNull(),
+  notifyError: text("notify_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_query_alert_events_saved_query_id_created_at").on(table.savedQueryId, table.createdAt),
+]);
+
+// Saved external database connections; passwords are encrypted by the server before storage
+export const databaseTypeEnum = pgEnum('database_type', ['postgresql', 'mysql']);
+
+export const connectionProfiles = pgTable("connection_profiles", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull().unique(),
+  type: databaseTypeEnum("type").notNull(),
+  host: varchar("host", { length: 255 }).notNull(),
+  port: integer("port").notNull(),
+  database: varchar("database", { length: 255 }).notNull(),
+  username: varchar("username", { length: 255 }).notNull(),
+  encryptedPassword: text("encrypted_password").notNull(),
+  ssl: boolean("ssl").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertConnectionProfileSchema = createInsertSchema(connectionProfiles, {
+  name: (schema) => schema.min(1, "Name is required"),
+  host: (schema) => schema.min(1, "Host is required"),
+  database: (schema) => schema.min(1, "Database is required"),
+}).omit({
+  id: true,
+  encryptedPassword: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  password: z.string(),
+});
+
+export const updateConnectionProfileSchema = insertConnectionProfileSchema.partial();
+
+// Access control: admin roles see everything, other roles only what their grants cover
+export const roles = pgTable("roles", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  isAdmin: boolean("is_admin").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A null connection means the bundled sample database; a null schema, table or column list
+// means "all" at that level
+export const roleGrants = pgTable("role_grants", {
+  id: serial("id").primaryKey(),
+  roleId: integer("role_id").notNull().references(() => roles.id, { onDelete: "cascade" }),
+  connectionProfileId: integer("connection_profile_id").references(() => connectionProfiles.id, { onDelete: "cascade" }),
+  schemaName: varchar("schema_name", { length: 255 }),
+  tableName: varchar("table_name", { length: 255 }),
+  columns: text("columns").array(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const insertSavedQuerySchema = createInsertSchema(savedQueries).omit({
+export const insertRoleSchema = createInsertSchema(roles, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateRoleSchema = insertRoleSchema.partial();
+
+export const insertRoleGrantSchema = createInsertSchema(roleGrants, {
+  columns: z.array(z.string().min(1)).min(1).nullable().optional(),
+}).omit({
   id: true,
+  roleId: true,
   createdAt: true,
+}).refine((grant) => grant.tableName || !grant.columns, {
+  message: "Column grants need a table",
+  path: ["columns"],
 });
 
+// Row filters applied to every non-admin query on a table, e.g. `region = :user.region`.
+// A null connection means the bundled sample database.
+export const rowPolicies = pgTable("row_policies", {
+  id: serial("id").primaryKey(),
+  connectionProfileId: integer("connection_profile_id").references(() => connectionProfiles.id, { onDelete: "cascade" }),
+  schemaName: varchar("schema_name", { length: 255 }).notNull(),
+  tableName: varchar("table_name", { length: 255 }).notNull(),
+  filter: text("filter").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertRowPolicySchema = createInsertSchema(rowPolicies, {
+  schemaName: (schema) => schema.trim().min(1, "Schema is required"),
+  tableName: (schema) => schema.trim().min(1, "Table is required"),
+  filter: (schema) => schema.trim().min(1, "Filter is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateRowPolicySchema = insertRowPolicySchema.partial();
+
+// How a masked column is shown: replaced by a fixed string, partially hidden (j***@x.com),
+// hashed, or nulled
+export const maskStrategyEnum = pgEnum('mask_strategy', ['redact', 'partial', 'hash', 'null']);
+
+// Masks apply to every non-admin user except those whose role is exempt
+export const columnMasks = pgTable("column_masks", {
+  id: serial("id").primaryKey(),
+  connectionProfileId: integer("connection_profile_id").references(() => connectionProfiles.id, { onDelete: "cascade" }),
+  schemaName: varchar("schema_name", { length: 255 }).notNull(),
+  tableName: varchar("table_name", { length: 255 }).notNull(),
+  columnName: varchar("column_name", { length: 255 }).notNull(),
+  strategy: maskStrategyEnum("strategy").notNull(),
+  exemptRoleIds: integer("exempt_role_ids").array().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertColumnMaskSchema = createInsertSchema(columnMasks, {
+  schemaName: (schema) => schema.trim().min(1, "Schema is required"),
+  tableName: (schema) => schema.trim().min(1, "Table is required"),
+  columnName: (schema) => schema.trim().min(1, "Column is required"),
+  exemptRoleIds: z.array(z.number().int()).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const updateColumnMaskSchema = insertColumnMaskSchema.partial();
+
+// Accounts that can sign in to the query builder (the `users` table above is sample data)
+export const appUsers = pgTable("app_users", {
+  id: serial("id").primaryKey(),
+  username: varchar("username", { length: 255 }).notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  // Accounts without a role can sign in but see no data until an admin assigns one
+  roleId: integer("role_id").references(() => roles.id, { onDelete: "set null" }),
+  // Values row policies refer to as :user.<name>
+  attributes: jsonb("attributes").$type<Record<string, string>>().default({}).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAppUserSchema = createInsertSchema(appUsers, {
+  username: (schema) => schema.trim().min(1, "Username is required"),
+}).omit({
+  id: true,
+  passwordHash: true,
+  roleId: true,
+  attributes: true,
+  createdAt: true,
+}).extend({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Attribute names must be plain identifiers so policies can write :user.<name>
+export const userAttributesSchema = z.record(
+  z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Attribute names may only contain letters, digits and underscores"),
+  z.string(),
+);
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// One row per executed, exported, saved or deleted query. The username is copied so events stay
+// readable after an account is deleted.
+export const auditActionEnum = pgEnum('audit_action', ['execute', 'export', 'save', 'delete']);
+
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  action: auditActionEnum("action").notNull(),
+  userId: integer("user_id").references(() => appUsers.id, { onDelete: "set null" }),
+  username: varchar("username", { length: 255 }),
+  // Connection id the request targeted; null for the bundled sample database
+  connectionId: varchar("connection_id", { length: 255 }),
+  sqlText: text("sql_text"),
+  params: jsonb("params"),
+  savedQueryId: integer("saved_query_id"),
+  durationMs: integer("duration_ms").notNull(),
+  rowCount: integer("row_count"),
+  success: boolean("success").notNull(),
+  error: text("error"),
+  clientIp: varchar("client_ip", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_audit_events_created_at").on(table.createdAt),
+  index("IDX_audit_events_user_id").on(table.userId),
+]);
+
+// Query string filters for searching and exporting audit events
+export const auditEventFiltersSchema = z.object({
+  username: z.string().trim().min(1).optional(),
+  action: z.enum(auditActionEnum.enumValues).optional(),
+  success: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  connectionId: z.string().min(1).optional(),
+  search: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Session store used by connect-pg-simple; declared here so `db:push` keeps it
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_user_sessions_expire").on(table.expire)]);
+
 export type InsertSavedQuery = z.infer<typeof insertSavedQuerySchema>;
+export type UpdateSavedQuery = z.infer<typeof updateSavedQuerySchema>;
+export type InsertConnectionProfile = z.infer<typeof insertConnectionProfileSchema>;
+export type UpdateConnectionProfile = z.infer<typeof updateConnectionProfileSchema>;
+export type ConnectionProfile = typeof connectionProfiles.$inferSelect;
+// What the API returns: never the password, encrypted or not
+export type PublicConnectionProfile = Omit<ConnectionProfile, "encryptedPassword">;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+export type UpdateRole = z.infer<typeof updateRoleSchema>;
+export type InsertRoleGrant = z.infer<typeof insertRoleGrantSchema>;
+export type Role = typeof roles.$inferSelect;
+export type RoleGrant = typeof roleGrants.$inferSelect;
+export type InsertRowPolicy = z.infer<typeof insertRowPolicySchema>;
+export type UpdateRowPolicy = z.infer<typeof updateRowPolicySchema>;
+export type RowPolicy = typeof rowPolicies.$inferSelect;
+export type MaskStrategy = typeof maskStrategyEnum.enumValues[number];
+export type InsertColumnMask = z.infer<typeof insertColumnMaskSchema>;
+export type UpdateColumnMask = z.infer<typeof updateColumnMaskSchema>;
+export type ColumnMask = typeof columnMasks.$inferSelect;
+export type UserAttributes = z.infer<typeof userAttributesSchema>;
+export type InsertAppUser = z.infer<typeof insertAppUserSchema>;
+export type LoginCredentials = z.infer<typeof loginSchema>;
+export type AppUser = typeof appUsers.$inferSelect;
+export type PublicAppUser = Omit<AppUser, "passwordHash">;
+// What /api/user returns for the signed-in account
+export type SessionUser = PublicAppUser & { isAdmin: boolean };
+export type AuditAction = typeof auditActionEnum.enumValues[number];
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type AuditEventFilters = z.infer<typeof auditEventFiltersSchema>;
+export type QueryRun = typeof queryRuns.$inferSelect;
+export type InsertQueryRun = typeof queryRuns.$inferInsert;
 export type SavedQuery = typeof savedQueries.$inferSelect;
+export type SavedQueryVersion = typeof savedQueryVersions.$inferSelect;
+export type SavedQueryFilters = z.infer<typeof savedQueryFiltersSchema>;
+// List entries carry the owner's username for display
+export type SavedQueryListItem = SavedQuery & { ownerName: string | null };
+export type QueryVisibility = typeof queryVisibilityEnum.enumValues[number];
+export type QueryFolder = typeof queryFolders.$inferSelect;
+export type InsertQueryFolder = z.infer<typeof insertQueryFolderSchema>;
+export type UpdateQueryFolder = z.infer<typeof updateQueryFolderSchema>;
+export type ReportFormat = typeof reportFormatEnum.enumValues[number];
+export type DeliveryMethod = typeof deliveryMethodEnum.enumValues[number];
+export type ReportSchedule = typeof reportSchedules.$inferSelect;
+export type InsertReportSchedule = z.infer<typeof insertReportScheduleSchema>;
+export type ReportScheduleRun = typeof reportScheduleRuns.$inferSelect;
+export type InsertReportScheduleRun = typeof reportScheduleRuns.$inferInsert;
+// List entries carry the owner's username and the most recent run
+export type ReportScheduleListItem = ReportSchedule & { ownerName: string | null; lastRun: ReportScheduleRun | null };
+export type AlertOperator = typeof alertOperatorEnum.enumValues[number];
+export type AlertNotifyMethod = typeof alertNotifyMethodEnum.enumValues[number];
+export type QueryAlert = typeof queryAlerts.$inferSelect;
+export type InsertQueryAlert = z.infer<typeof insertQueryAlertSchema>;
+export type QueryAlertEvent = typeof queryAlertEvents.$inferSelect;
+export type InsertQueryAlertEvent = typeof queryAlertEvents.$inferInsert;
+// List entries carry the owner's username
+export type QueryAlertListItem = QueryAlert & { ownerName: string | null };
+// History entries carry the name of their alert
+export type QueryAlertEventListItem = QueryAlertEvent & { alertName: string };
 export type User = typeof users.$inferSelect;
 export type Product = typeof products.$inferSelect;
 export type Category = typeof categories.$inferSelect;
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertReadOnlySQL,
+  extractTableReferences,
+  identifierName,
+  sqlDialectOptions,
+  SQLValidationError,
+  tokenizeSQL,
+  validateReadOnlySQL,
+} from "./sql-validator";
+
+const mysql = sqlDialectOptions("mysql");
+
+function tableNames(sql: string, options = {}) {
+  return extractTableReferences(sql, options).map((table) => (table.schema ? `${table.schema}.${table.name}` : table.name));
+}
+
+function rejection(sql: string, options = {}) {
+  const result = validateReadOnlySQL(sql, options);
+  expect(result.isValid).toBe(false);
+  return result.error!.message;
+}
+
+describe("tokenizeSQL", () => {
+  it("skips whitespace and comments", () => {
+    const tokens = tokenizeSQL("SELECT /* a /* nested */ comment */ 1 -- trailing\n");
+    expect(tokens.map((token) => token.value)).toEqual(["SELECT", "1"]);
+  });
+
+  it("reads string literals with doubled quotes and E'' escapes", () => {
+    const tokens = tokenizeSQL("SELECT 'it''s', E'a\\'b'");
+    expect(tokens.filter((token) => token.type === "string").map((token) => token.value)).toEqual(["'it''s'", "E'a\\'b'"]);
+  });
+
+  it("treats backslashes as escapes only when asked", () => {
+    expect(() => tokenizeSQL("SELECT 'a\\' FROM t")).not.toThrow();
+    expect(() => tokenizeSQL("SELECT 'a\\' FROM t", mysql)).toThrow(SQLValidationError);
+  });
+
+  it("reads dollar-quoted strings and parameters", () => {
+    const tokens = tokenizeSQL("SELECT $tag$ it's $tag$, $1, :name, x::text");
+    expect(tokens.map((token) => [token.type, token.value])).toEqual([
+      ["word", "SELECT"],
+      ["string", "$tag$ it's $tag$"],
+      ["punctuation", ","],
+      ["parameter", "$1"],
+      ["punctuation", ","],
+      ["parameter", ":name"],
+      ["punctuation", ","],
+      ["word", "x"],
+      ["operator", "::"],
+      ["word", "text"],
+    ]);
+  });
+
+  it("records the source range of each token", () => {
+    const [, identifier] = tokenizeSQL('SELECT "Mixed""Case"');
+    expect(identifier).toMatchObject({ type: "quoted_identifier", position: 7, end: 20 });
+    expect(identifierName('SELECT "Mixed""Case"', identifier)).toBe('Mixed"Case');
+  });
+
+  it("reads MySQL line comments the way MySQL does", () => {
+    expect(tokenizeSQL("SELECT 1 # note\n, 2", mysql).map((token) => token.value)).toEqual(["SELECT", "1", ",", "2"]);
+    expect(tokenizeSQL("SELECT 1 --\t note", mysql).map((token) => token.value)).toEqual(["SELECT", "1"]);
+    // Without whitespace after it, -- is two minus signs
+    expect(tokenizeSQL("SELECT 1--1", mysql).map((token) => token.value)).toEqual(["SELECT", "1", "--", "1"]);
+    // PostgreSQL starts a comment at every --, and # is an operator
+    expect(tokenizeSQL("SELECT 1--1").map((token) => token.value)).toEqual(["SELECT", "1"]);
+    expect(tokenizeSQL("SELECT 1 # 2").map((token) => token.value)).toEqual(["SELECT", "1", "#", "2"]);
+  });
+
+  it("reports unterminated text with its line and column", () => {
+    expect(() => tokenizeSQL("SELECT\n  'open")).toThrow("Unterminated quoted text at line 2, column 3");
+  });
+});
+
+describe("validateReadOnlySQL", () => {
+  it.each([
+    "SELECT 1",
+    "select * from users where id = $1",
+    "WITH recent AS (SELECT * FROM orders) SELECT * FROM recent",
+    "VALUES (1, 'a'), (2, 'b')",
+    "(SELECT 1) UNION ALL (SELECT 2)",
+    "SELECT 1;",
+    "SELECT EXTRACT(YEAR FROM created_at) FROM orders",
+    "SELECT a IS DISTINCT FROM b FROM t",
+  ])("accepts %s", (sql) => {
+    expect(validateReadOnlySQL(sql)).toEqual({ isValid: true });
+  });
+
+  it.each([
+    ["INSERT INTO users VALUES (1)", "found INSERT"],
+    ["DELETE FROM users", "found DELETE"],
+    ["TABLE users", "found TABLE"],
+    ["WITH x AS (SELECT 1) DELETE FROM users", "found DELETE"],
+    ["WITH x AS (DELETE FROM users RETURNING *) SELECT * FROM x", "found DELETE"],
+    ["SELECT 1; DROP TABLE users", "Only a single statement is allowed"],
+    ["SELECT * INTO copy FROM users", "SELECT ... INTO is not allowed"],
+    ["SELECT * FROM users FOR UPDATE", "Locking clauses"],
+    ["SELECT /*! DROP TABLE users */ 1", "MySQL executable comments are not allowed"],
+    ["SELECT 1 /*M!, (SELECT pwd FROM secret) */", "MySQL executable comments are not allowed"],
+    ["SELECT pg_sleep(10)", "Function pg_sleep is not allowed"],
+    ["SELECT query_to_xml('select * from app_users', true, true, '')", "Function query_to_xml is not allowed"],
+    [`SELECT "query_to_xml"('select * from user_sessions', true, true, '')`, "Function query_to_xml is not allowed"],
+    ['SELECT "pg_sleep"(10)', "Function pg_sleep is not allowed"],
+    [`SELECT pg_catalog."set_config"('role', 'admin', false)`, "Function set_config is not allowed"],
+    ["SELECT 1 FROM t WHERE `sleep`(10) = 0", "Function sleep is not allowed"],
+    ["SELECT (1", "Unbalanced parentheses"],
+    ["", "Query is empty"],
+  ])("rejects %s", (sql, message) => {
+    expect(rejection(sql)).toContain(message);
+  });
+
+  it("reports where the problem is", () => {
+    const result = validateReadOnlySQL("SELECT 1\nUNION\nDELETE FROM users");
+    expect(result.error).toMatchObject({ line: 3, column: 1 });
+  });
+});
+
+describe("extractTableReferences", () => {
+  it("records tables from FROM lists and joins", () => {
+    expect(tableNames("SELECT * FROM a, public.b JOIN c ON c.id = b.id LEFT OUTER JOIN d USING (id)"))
+      .toEqual(["a", "public.b", "c", "d"]);
+  });
+
+  it("folds unquoted names and keeps quoted ones", () => {
+    expect(tableNames('SELECT * FROM Sales."Orders" o')).toEqual(["sales.Orders"]);
+    expect(tableNames("SELECT * FROM `Orders`", mysql)).toEqual(["Orders"]);
+  });
+
+  it("records aliases, ONLY and the source range", () => {
+    const sql = "SELECT * FROM ONLY accounts AS a JOIN users u ON u.id = a.user_id";
+    const [accounts, users] = extractTableReferences(sql);
+    expect(accounts).toMatchObject({ name: "accounts", alias: "a", only: true });
+    expect(sql.slice(accounts.start, accounts.end)).toBe("ONLY accounts");
+    expect(users).toMatchObject({ name: "users", alias: "u", only: false });
+  });
+
+  it("does not take keywords for aliases", () => {
+    expect(extractTableReferences("SELECT * FROM users WHERE id = 1")[0].alias).toBeUndefined();
+    expect(extractTableReferences("SELECT * FROM users ORDER BY id")[0].alias).toBeUndefined();
+  });
+
+  it("finds tables in subqueries, set operations and parenthesized joins", () => {
+    expect(tableNames("SELECT * FROM (SELECT * FROM a) x WHERE id IN (SELECT id FROM b) UNION SELECT * FROM c"))
+      .toEqual(["a", "b", "c"]);
+    expect(tableNames("SELECT * FROM (a JOIN b ON a.id = b.id)")).toEqual(["a", "b"]);
+    expect(tableNames("SELECT * FROM a CROSS JOIN LATERAL (SELECT * FROM b WHERE b.a = a.id) x")).toEqual(["a", "b"]);
+  });
+
+  it("leaves out CTEs in scope, but not tables that share a CTE's name outside it", () => {
+    expect(tableNames("WITH x AS (SELECT * FROM a) SELECT * FROM x")).toEqual(["a"]);
+    expect(tableNames("WITH x AS (SELECT * FROM x) SELECT * FROM x")).toEqual(["x"]);
+    expect(tableNames("WITH RECURSIVE x AS (SELECT 1 UNION SELECT * FROM x) SELECT * FROM x")).toEqual([]);
+  });
+
+  it("finds tables MySQL would read where PostgreSQL sees a comment", () => {
+    expect(tableNames("SELECT 1 --(SELECT password FROM secret)", mysql)).toEqual(["secret"]);
+    expect(tableNames("SELECT 1 #'\n, (SELECT password FROM secret) -- '", mysql)).toEqual(["secret"]);
+    // Without ANSI_QUOTES, "..." is a string with backslash escapes
+    expect(tableNames('SELECT "\\" AS x, " , (SELECT pwd FROM secret) AS y, " FROM allowed -- "', mysql))
+      .toEqual(["secret"]);
+    // The first */ closes a MySQL comment, however many /* it contains
+    expect(tableNames("SELECT 1 /* /* */ , (SELECT pwd FROM secret) AS x # */", mysql)).toEqual(["secret"]);
+  });
+
+  it("skips table functions and DUAL", () => {
+    expect(tableNames("SELECT * FROM generate_series(1, 3) g")).toEqual([]);
+    expect(tableNames("SELECT 1 FROM DUAL", mysql)).toEqual([]);
+    expect(tableNames("SELECT * FROM ROWS FROM (generate_series(1, 3), unnest(ARRAY[1])) AS r(a, b) JOIN t ON t.id = r.a"))
+      .toEqual(["t"]);
+  });
+
+  it("validates before extracting", () => {
+    expect(() => extractTableReferences("UPDATE users SET name = 'x'")).toThrow(SQLValidationError);
+    expect(() => assertReadOnlySQL("SELECT 1")).not.toThrow();
+  });
+});
@@ -0,0 +1,682 @@
+// Tokenizer and structural parser used to make sure a query is a single read-only statement.
+// It is shared by the server (enforcement) and the client (inline validation), so both agree
+// on what is allowed.
+
+export type SQLTokenType =
+  | 'word'
+  | 'quoted_identifier'
+  | 'string'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation';
+
+export interface SQLToken {
+  type: SQLTokenType;
+  value: string;
+  position: number;
+  // Offset just past the token's source text
+  end: number;
+}
+
+export interface SQLValidatorOptions {
+  // MySQL treats backslashes inside '...' as escapes, PostgreSQL does not (except in E'...')
+  backslashEscapes?: boolean;
+  // MySQL starts a line comment at '#', and at '--' only when whitespace or a control character
+  // follows; PostgreSQL starts one at every '--' and reads '#' as an operator
+  mysqlComments?: boolean;
+  // MySQL (unless ANSI_QUOTES is set) reads "..." as a string, like '...'; PostgreSQL as an identifier
+  doubleQuotedStrings?: boolean;
+}
+
+// Options for a connection's database type, so text is tokenized the way that database reads it
+export function sqlDialectOptions(databaseType: string): SQLValidatorOptions {
+  const mysql = databaseType === 'mysql';
+  return { backslashEscapes: mysql, mysqlComments: mysql, doubleQuotedStrings: mysql };
+}
+
+export class SQLValidationError extends Error {
+  readonly position: number;
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, sql: string, position: number) {
+    const { line, column } = lineAndColumn(sql, position);
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'SQLValidationError';
+    this.position = position;
+    this.line = line;
+    this.column = column;
+  }
+}
+
+// A table named in a FROM or JOIN clause. Unquoted names are folded to lower case.
+export interface SQLTableReference {
+  schema?: string;
+  name: string;
+  alias?: string;
+  // FROM ONLY, which excludes inheritance children in PostgreSQL
+  only: boolean;
+  // Source range of the reference (including a leading ONLY), so it can be rewritten
+  start: number;
+  end: number;
+}
+
+export interface SQLValidationResult {
+  isValid: boolean;
+  error?: {
+    message: string;
+    position: number;
+    line: number;
+    column: number;
+  };
+}
+
+// Statements that may start a read-only query
+const QUERY_START = new Set(['SELECT', 'WITH', 'VALUES']);
+
+// Functions with side effects that would make an otherwise read-only SELECT unsafe
+const FORBIDDEN_FUNCTIONS = new Set([
+  'pg_terminate_backend', 'pg_cancel_backend', 'pg_reload_conf', 'pg_rotate_logfile',
+  'pg_sleep', 'pg_sleep_for', 'pg_sleep_until', 'set_config', 'nextval', 'setval',
+  'lo_import', 'lo_export', 'lo_unlink', 'pg_read_file', 'pg_read_binary_file', 'pg_ls_dir',
+  'pg_advisory_lock', 'pg_advisory_xact_lock', 'dblink', 'dblink_exec', 'query_to_xml',
+  'sleep', 'benchmark', 'load_file', 'get_lock', 'release_lock',
+  // These read tables named in a string argument, which would bypass table access checks
+  'table_to_xml', 'table_to_xml_and_xmlschema', 'query_to_xml_and_xmlschema', 'cursor_to_xml',
+  'schema_to_xml', 'database_to_xml', 'ts_stat', 'ts_rewrite',
+]);
+
+// Keywords that end a FROM list
+const FROM_LIST_END = new Set([
+  'WHERE', 'GROUP', 'HAVING', 'WINDOW', 'QUALIFY', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'FOR',
+]);
+
+const JOIN_KEYWORDS = new Set(['JOIN', 'STRAIGHT_JOIN']);
+
+// Words that may follow a table name but are never its alias
+const NON_ALIAS_KEYWORDS = new Set([
+  ...FROM_LIST_END, 'JOIN', 'STRAIGHT_JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS',
+  'NATURAL', 'ON', 'USING', 'UNION', 'INTERSECT', 'EXCEPT', 'TABLESAMPLE', 'USE', 'IGNORE', 'FORCE',
+  'PARTITION', 'INTO',
+]);
+
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|:?';
+const PUNCTUATION_CHARS = '(),;.[]';
+
+function lineAndColumn(sql: string, position: number) {
+  let line = 1;
+  let column = 1;
+  for (let i = 0; i < position && i < sql.length; i++) {
+    if (sql[i] === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+  return { line, column };
+}
+
+function isWordStart(char: string) {
+  return /[A-Za-z_\u0080-\uFFFF]/.test(char);
+}
+
+function isWordChar(char: string) {
+  return /[A-Za-z0-9_$\u0080-\uFFFF]/.test(char);
+}
+
+// Unquoted identifiers fold to lower case; quoted ones keep their case, with doubled quotes undone
+export function identifierName(sql: string, token: SQLToken): string {
+  if (token.type === 'quoted_identifier') {
+    const quote = sql[token.position];
+    return token.value.split(quote + quote).join(quote);
+  }
+  return token.value.toLowerCase();
+}
+
+export function tokenizeSQL(sql: string, options: SQLValidatorOptions = {}): SQLToken[] {
+  const tokens: SQLToken[] = [];
+  let i = 0;
+
+  const startsLineComment = (j: number) => {
+    if (options.mysqlComments) {
+      return sql[j] === '#' ||
+        (sql[j] === '-' && sql[j + 1] === '-' && (j + 2 >= sql.length || /[\s\x00-\x1f]/.test(sql[j + 2])));
+    }
+    return sql[j] === '-' && sql[j + 1] === '-';
+  };
+
+  const readQuoted = (start: number, quote: string, backslashEscapes: boolean) => {
+    let j = start + 1;
+    while (j < sql.length) {
+      if (backslashEscapes && sql[j] === '\\') {
+        j += 2;
+        continue;
+      }
+      if (sql[j] === quote) {
+        // A doubled quote is an escaped quote
+        if (sql[j + 1] === quote) {
+          j += 2;
+          continue;
+        }
+        return j + 1;
+      }
+      j++;
+    }
+    throw new SQLValidationError('Unterminated quoted text', sql, start);
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (startsLineComment(i)) {
+      while (i < sql.length && sql[i] !== '\n') i++;
+      continue;
+    }
+
+    // Block comment; PostgreSQL allows nesting, MySQL does not
+    if (char === '/' && next === '*') {
+      // /*! ... */ and MariaDB's /*M! ... */ run their contents on MySQL servers
+      if (sql[i + 2] === '!' || (sql[i + 2] === 'M' && sql[i + 3] === '!')) {
+        throw new SQLValidationError('MySQL executable comments are not allowed', sql, i);
+      }
+      const start = i;
+      let depth = 1;
+      i += 2;
+      while (i < sql.length && depth > 0) {
+        if (sql[i] === '/' && sql[i + 1] === '*' && !options.mysqlComments) {
+          depth++;
+          i += 2;
+        } else if (sql[i] === '*' && sql[i + 1] === '/') {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      }
+      if (depth > 0) {
+        throw new SQLValidationError('Unterminated comment', sql, start);
+      }
+      continue;
+    }
+
+    // String literals, including E'...' escape strings
+    if (char === "'" || (char === '"' && options.doubleQuotedStrings) ||
+        ((char === 'E' || char === 'e') && next === "'")) {
+      const quoteStart = char === 'E' || char === 'e' ? i + 1 : i;
+      const end = readQuoted(quoteStart, sql[quoteStart], quoteStart !== i || !!options.backslashEscapes);
+      tokens.push({ type: 'string', value: sql.slice(i, end), position: i, end });
+      i = end;
+      continue;
+    }
+
+    // Quoted identifiers
+    if (char === '"' || char === '`') {
+      const end = readQuoted(i, char, false);
+      tokens.push({ type: 'quoted_identifier', value: sql.slice(i + 1, end - 1), position: i, end });
+      i = end;
+      continue;
+    }
+
+    // Positional parameters ($1) and dollar-quoted strings ($tag$ ... $tag$)
+    if (char === '$') {
+      const param = /^\$\d+/.exec(sql.slice(i));
+      if (param) {
+        tokens.push({ type: 'parameter', value: param[0], position: i, end: i + param[0].length });
+        i += param[0].length;
+        continue;
+      }
+      const tag = /^\$[A-Za-z_]?[A-Za-z0-9_]*\$/.exec(sql.slice(i));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        if (close === -1) {
+          throw new SQLValidationError('Unterminated dollar-quoted string', sql, i);
+        }
+        const end = close + tag[0].length;
+        tokens.push({ type: 'string', value: sql.slice(i, end), position: i, end });
+        i = end;
+        continue;
+      }
+    }
+
+    // Named parameters: ?1, @p1, :name (but not the :: cast operator)
+    if ((char === '?' && /\d/.test(next ?? '')) || (char === '@' && isWordStart(next ?? '')) ||
+        (char === ':' && isWordStart(next ?? '') && sql[i - 1] !== ':')) {
+      let j = i + 1;
+      while (j < sql.length && isWordChar(sql[j])) j++;
+      tokens.push({ type: 'parameter', value: sql.slice(i, j), position: i, end: j });
+      i = j;
+      continue;
+    }
+
+    if (/\d/.test(char) || (char === '.' && /\d/.test(next ?? ''))) {
+      const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(sql.slice(i))!;
+      tokens.push({ type: 'number', value: number[0], position: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    if (isWordStart(char)) {
+      let j = i + 1;
+      while (j < sql.length && isWordChar(sql[j])) j++;
+      tokens.push({ type: 'word', value: sql.slice(i, j), position: i, end: j });
+      i = j;
+      continue;
+    }
+
+    if (PUNCTUATION_CHARS.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === '?') {
+      tokens.push({ type: 'parameter', value: char, position: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (OPERATOR_CHARS.includes(char)) {
+      let j = i + 1;
+      // Stop before anything that starts a comment
+      while (
+        j < sql.length &&
+        OPERATOR_CHARS.includes(sql[j]) &&
+        !startsLineComment(j) &&
+        !(sql[j] === '/' && sql[j + 1] === '*')
+      ) {
+        j++;
+      }
+      tokens.push({ type: 'operator', value: sql.slice(i, j), position: i, end: j });
+      i = j;
+      continue;
+    }
+
+    throw new SQLValidationError(`Unexpected character '${char}'`, sql, i);
+  }
+
+  return tokens;
+}
+
+class ReadOnlyStatementParser {
+  private index = 0;
+  // CTE names visible at the current point, innermost WITH last
+  private cteScopes: Set<string>[] = [];
+  readonly tables: SQLTableReference[] = [];
+
+  constructor(private readonly sql: string, private readonly tokens: SQLToken[]) {}
+
+  parse() {
+    if (this.tokens.length === 0) {
+      throw new SQLValidationError('Query is empty', this.sql, 0);
+    }
+
+    this.parseQuery();
+
+    while (this.isPunctuation(';')) {
+      this.index++;
+    }
+
+    const extra = this.peek();
+    if (extra) {
+      if (this.tokens[this.index - 1]?.value === ';') {
+        throw new SQLValidationError('Only a single statement is allowed', this.sql, extra.position);
+      }
+      throw this.unexpected(extra);
+    }
+  }
+
+  // query := [WITH cte, ...] body
+  private parseQuery() {
+    const token = this.peek();
+    if (!token) {
+      throw new SQLValidationError('Expected a query', this.sql, this.sql.length);
+    }
+
+    if (this.isKeyword('WITH')) {
+      this.index++;
+      const recursive = this.isKeyword('RECURSIVE');
+      if (recursive) this.index++;
+
+      const scope = new Set<string>();
+      this.cteScopes.push(scope);
+      this.parseCommonTableExpressions(scope, recursive);
+
+      if (!this.isKeyword('SELECT') && !this.isKeyword('VALUES') && !this.isPunctuation('(')) {
+        throw this.notReadOnly(this.peek());
+      }
+
+      this.parseBody();
+      this.cteScopes.pop();
+      return;
+    }
+
+    this.parseBody();
+  }
+
+  // Each CTE only sees the ones defined before it (and itself when RECURSIVE), so a table that
+  // shares a CTE's name is still recorded where the CTE is not in scope
+  private parseCommonTableExpressions(scope: Set<string>, recursive: boolean) {
+    do {
+      const name = this.peek();
+      if (!name || (name.type !== 'word' && name.type !== 'quoted_identifier')) {
+        throw new SQLValidationError('Expected a common table expression name', this.sql, name?.position ?? this.sql.length);
+      }
+      this.index++;
+      const cteName = this.identifierName(name);
+      if (recursive) scope.add(cteName);
+
+      if (this.isPunctuation('(')) {
+        this.index++;
+        this.scanExpression();
+        this.expectPunctuation(')');
+      }
+
+      this.expectKeyword('AS');
+      if (this.isKeyword('NOT')) this.index++;
+      if (this.isKeyword('MATERIALIZED')) this.index++;
+
+      this.expectPunctuation('(');
+      this.parseQuery();
+      this.expectPunctuation(')');
+      scope.add(cteName);
+    } while (this.consumePunctuation(','));
+  }
+
+  // body := SELECT ... | VALUES ... | ( query ), followed by set operations, ORDER BY, LIMIT, ...
+  private parseBody() {
+    const token = this.peek();
+    if (this.isPunctuation('(')) {
+      this.index++;
+      this.parseQuery();
+      this.expectPunctuation(')');
+    } else if (this.isKeyword('SELECT') || this.isKeyword('VALUES')) {
+      this.index++;
+    } else {
+      throw this.notReadOnly(token);
+    }
+
+    this.scanExpression(true);
+  }
+
+  // Walks tokens until the end of the current nesting level, checking nested groups and clauses.
+  // `clauseLevel` is set directly inside a query body, where FROM and JOIN introduce tables (as
+  // opposed to e.g. EXTRACT(YEAR FROM ...)); `fromList` starts the scan at a FROM item.
+  private scanExpression(clauseLevel = false, fromList = false) {
+    let inFromList = fromList;
+    let expectTable = fromList;
+
+    while (this.index < this.tokens.length) {
+      if (expectTable) {
+        expectTable = false;
+        if (this.parseFromItem()) {
+          continue;
+        }
+      }
+
+      const token = this.tokens[this.index];
+      if (!token) {
+        return;
+      }
+
+      if (token.type === 'punctuation') {
+        if (token.value === ')' || token.value === ';') {
+          return;
+        }
+        if (token.value === ',' && inFromList) {
+          expectTable = true;
+        }
+        if (token.value === '(') {
+          this.index++;
+          const inner = this.peek();
+          if (inner && inner.type === 'word' && QUERY_START.has(inner.value.toUpperCase())) {
+            this.parseQuery();
+          } else if (inner && inner.type === 'word' && this.isStatementKeyword(inner)) {
+            throw this.notReadOnly(inner);
+          } else {
+            this.scanExpression();
+          }
+          this.expectPunctuation(')');
+          continue;
+        }
+      }
+
+      if (token.type === 'word') {
+        const keyword = token.value.toUpperCase();
+        const next = this.tokens[this.index + 1];
+
+        if (keyword === 'INTO') {
+          throw new SQLValidationError('SELECT ... INTO is not allowed', this.sql, token.position);
+        }
+
+        if (keyword === 'FOR' && next?.type === 'word' &&
+            ['UPDATE', 'SHARE', 'NO', 'KEY'].includes(next.value.toUpperCase())) {
+          throw new SQLValidationError('Locking clauses (FOR UPDATE/SHARE) are not allowed', this.sql, token.position);
+        }
+
+        if (clauseLevel) {
+          const previous = this.tokens[this.index - 1];
+          // IS [NOT] DISTINCT FROM compares values, it does not start a FROM clause
+          if (keyword === 'FROM' && !(previous?.type === 'word' && previous.value.toUpperCase() === 'DISTINCT')) {
+            inFromList = true;
+            expectTable = true;
+          } else if (JOIN_KEYWORDS.has(keyword)) {
+            inFromList = true;
+            expectTable = true;
+          } else if (FROM_LIST_END.has(keyword)) {
+            inFromList = false;
+          }
+        }
+
+        if (['UNION', 'INTERSECT', 'EXCEPT'].includes(keyword)) {
+          this.index++;
+          if (this.isKeyword('ALL') || this.isKeyword('DISTINCT')) this.index++;
+          this.parseBody();
+          return;
+        }
+      }
+
+      // Quoted names call the same functions: "pg_sleep"(10), `sleep`(10)
+      if (this.isIdentifier(token) && this.tokens[this.index + 1]?.type === 'punctuation' &&
+          this.tokens[this.index + 1].value === '(' &&
+          FORBIDDEN_FUNCTIONS.has(this.identifierName(token).toLowerCase())) {
+        throw new SQLValidationError(`Function ${token.value} is not allowed`, this.sql, token.position);
+      }
+
+      this.index++;
+    }
+  }
+
+  // Handles the start of a FROM item. Returns true when it consumed a table name (recording it
+  // unless it names a CTE) or a parenthesized join; false leaves subqueries and table functions
+  // to the normal scan.
+  private parseFromItem(): boolean {
+    if (this.isKeyword('LATERAL')) this.index++;
+    // ROWS FROM (f(...), g(...)) is a table function, not a table named ROWS
+    const from = this.tokens[this.index + 1];
+    if (this.isKeyword('ROWS') && from?.type === 'word' && from.value.toUpperCase() === 'FROM') {
+      this.index += 2;
+      return false;
+    }
+    const start = this.peek();
+    const only = this.isKeyword('ONLY');
+    if (only) this.index++;
+
+    if (this.isPunctuation('(')) {
+      const inner = this.tokens[this.index + 1];
+      if (inner?.type === 'word' && this.isStatementKeyword(inner)) {
+        throw this.notReadOnly(inner);
+      }
+      if (inner && !(inner.type === 'word' && QUERY_START.has(inner.value.toUpperCase()))) {
+        // ( a JOIN b ON ... )
+        this.index++;
+        this.scanExpression(true, true);
+        this.expectPunctuation(')');
+        return true;
+      }
+      return false;
+    }
+
+    const chainStart = this.index;
+    const parts: SQLToken[] = [];
+    while (this.isIdentifier(this.peek())) {
+      parts.push(this.peek()!);
+      this.index++;
+      if (!(this.isPunctuation('.') && this.isIdentifier(this.tokens[this.index + 1]))) {
+        break;
+      }
+      this.index++;
+    }
+
+    if (parts.length === 0 || this.isPunctuation('(')) {
+      // Not a table name (or a table function such as generate_series(...))
+      this.index = chainStart;
+      return false;
+    }
+
+    const names = parts.map((part) => this.identifierName(part));
+    const name = names[names.length - 1];
+    const schema = names.length > 1 ? names[names.length - 2] : undefined;
+    const last = parts[parts.length - 1];
+
+    let alias: string | undefined;
+    if (this.isKeyword('AS')) {
+      this.index++;
+      if (this.isIdentifier(this.peek())) {
+        alias = this.identifierName(this.peek()!);
+        this.index++;
+      }
+    } else {
+      const next = this.peek();
+      if (this.isIdentifier(next) && !(next!.type === 'word' && NON_ALIAS_KEYWORDS.has(next!.value.toUpperCase()))) {
+        alias = this.identifierName(next!);
+        this.index++;
+      }
+    }
+
+    const isCte = !schema && this.cteScopes.some((scope) => scope.has(name));
+    // MySQL's DUAL is a placeholder, not a table
+    const isDual = !schema && last.type === 'word' && name === 'dual';
+    if (!isCte && !isDual) {
+      this.tables.push({
+        schema,
+        name,
+        alias,
+        only,
+        start: (only ? start! : parts[0]).position,
+        end: last.end,
+      });
+    }
+    return true;
+  }
+
+  private isIdentifier(token: SQLToken | undefined) {
+    return token?.type === 'word' || token?.type === 'quoted_identifier';
+  }
+
+  private identifierName(token: SQLToken) {
+    return identifierName(this.sql, token);
+  }
+
+  private isStatementKeyword(token: SQLToken) {
+    return [
+      'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'REPLACE', 'TRUNCATE', 'DROP', 'ALTER',
+      'CREATE', 'GRANT', 'REVOKE', 'COPY', 'CALL', 'DO', 'EXECUTE', 'LOCK', 'SET', 'VACUUM',
+      // TABLE x is shorthand for SELECT * FROM x and would hide the table from access checks
+      'TABLE',
+    ].includes(token.value.toUpperCase());
+  }
+
+  private notReadOnly(token: SQLToken | undefined) {
+    if (!token) {
+      return new SQLValidationError('Expected SELECT, WITH ... SELECT or VALUES', this.sql, this.sql.length);
+    }
+    return new SQLValidationError(
+      `Only SELECT, WITH ... SELECT and VALUES statements are allowed, found ${token.value.toUpperCase()}`,
+      this.sql,
+      token.position,
+    );
+  }
+
+  private unexpected(token: SQLToken) {
+    return new SQLValidationError(`Unexpected '${token.value}'`, this.sql, token.position);
+  }
+
+  private peek(): SQLToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private isKeyword(keyword: string) {
+    const token = this.peek();
+    return token?.type === 'word' && token.value.toUpperCase() === keyword;
+  }
+
+  private isPunctuation(value: string) {
+    const token = this.peek();
+    return token?.type === 'punctuation' && token.value === value;
+  }
+
+  private consumePunctuation(value: string) {
+    if (this.isPunctuation(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string) {
+    if (!this.isKeyword(keyword)) {
+      const token = this.peek();
+      throw new SQLValidationError(`Expected ${keyword}`, this.sql, token?.position ?? this.sql.length);
+    }
+    this.index++;
+  }
+
+  private expectPunctuation(value: string) {
+    if (!this.consumePunctuation(value)) {
+      const token = this.peek();
+      const message = value === ')' ? 'Unbalanced parentheses, expected )' : `Expected '${value}'`;
+      throw new SQLValidationError(message, this.sql, token?.position ?? this.sql.length);
+    }
+  }
+}
+
+// Throws a SQLValidationError unless `sql` is exactly one read-only statement
+export function assertReadOnlySQL(sql: string, options: SQLValidatorOptions = {}): void {
+  extractTableReferences(sql, options);
+}
+
+// Validates like assertReadOnlySQL and returns every table the statement reads, in source order
+export function extractTableReferences(sql: string, options: SQLValidatorOptions = {}): SQLTableReference[] {
+  const parser = new ReadOnlyStatementParser(sql, tokenizeSQL(sql, options));
+  parser.parse();
+  return parser.tables;
+}
+
+export function validateReadOnlySQL(sql: string, options: SQLValidatorOptions = {}): SQLValidationResult {
+  try {
+    assertReadOnlySQL(sql, options);
+    return { isValid: true };
+  } catch (error) {
+    if (error instanceof SQLValidationError) {
+      return {
+        isValid: false,
+        error: {
+          message: error.message,
+          position: error.position,
+          line: error.line,
+          column: error.column,
+        },
+      };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, sideBySide } from "./text-diff";
+
+describe("diffLines", () => {
+  it("keeps the longest run of common lines", () => {
+    expect(diffLines("SELECT id\nFROM users\nWHERE active", "SELECT id, name\nFROM users\nORDER BY id")).toEqual([
+      { type: "removed", text: "SELECT id" },
+      { type: "added", text: "SELECT id, name" },
+      { type: "same", text: "FROM users" },
+      { type: "removed", text: "WHERE active" },
+      { type: "added", text: "ORDER BY id" },
+    ]);
+  });
+
+  it("reports only additions or removals at either end", () => {
+    expect(diffLines("a\nb", "a\nb\nc")).toEqual([
+      { type: "same", text: "a" },
+      { type: "same", text: "b" },
+      { type: "added", text: "c" },
+    ]);
+    expect(diffLines("a\nb", "b")).toEqual([{ type: "removed", text: "a" }, { type: "same", text: "b" }]);
+  });
+});
+
+describe("sideBySide", () => {
+  it("pairs removed lines with the added lines that replace them and numbers each side", () => {
+    const rows = sideBySide(diffLines("a\nold 1\nold 2\nz", "a\nnew 1\nz\nextra"));
+    expect(rows).toEqual([
+      { type: "same", left: { number: 1, text: "a" }, right: { number: 1, text: "a" } },
+      { type: "changed", left: { number: 2, text: "old 1" }, right: { number: 2, text: "new 1" } },
+      { type: "removed", left: { number: 3, text: "old 2" }, right: null },
+      { type: "same", left: { number: 4, text: "z" }, right: { number: 3, text: "z" } },
+      { type: "added", left: null, right: { number: 4, text: "extra" } },
+    ]);
+  });
+});
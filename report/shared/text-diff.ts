@@ -0,0 +1,72 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Line diff of `before` against `after`, from their longest common subsequence of lines
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // common[i][j] = length of the LCS of a[i..] and b[j..]
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
+
+export interface SideBySideRow {
+  // 'changed' pairs a removed line on the left with the added line replacing it on the right
+  type: 'same' | 'changed' | 'added' | 'removed';
+  left: { number: number; text: string } | null;
+  right: { number: number; text: string } | null;
+}
+
+// Arranges a line diff into two columns, pairing each run of removed lines with the run of
+// added lines that follows it
+export function sideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let leftNumber = 0;
+  let rightNumber = 0;
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === 'same') {
+      const text = lines[index++].text;
+      rows.push({ type: 'same', left: { number: ++leftNumber, text }, right: { number: ++rightNumber, text } });
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < lines.length && lines[index].type === 'removed') removed.push(lines[index++].text);
+    while (index < lines.length && lines[index].type === 'added') added.push(lines[index++].text);
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      const left = i < removed.length ? { number: ++leftNumber, text: removed[i] } : null;
+      const right = i < added.length ? { number: ++rightNumber, text: added[i] } : null;
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+  return rows;
+}